@@ -4,25 +4,206 @@ import path from 'path';
 // Load environment variables from .env file
 dotenv.config({ path: path.resolve(__dirname, '../../.env') });
 
+export const DEFAULT_JWT_SECRET = 'default_secret_do_not_use_in_prod';
+
+const csv = (value: string | undefined): string[] =>
+    (value || '').split(',').map((item) => item.trim()).filter(Boolean);
+
+// "name:value,name2:value2" -> { name: value, name2: value2 }
+const keyValues = (value: string | undefined): Record<string, string> =>
+    Object.fromEntries(csv(value)
+        .filter((item) => item.includes(':'))
+        .map((item) => {
+            const separator = item.indexOf(':');
+            return [item.slice(0, separator).trim(), item.slice(separator + 1).trim()];
+        })
+        .filter(([key, val]) => key && val));
+
+// Channel security for a backend service. Each setting falls back from
+// <SERVICE>_SERVICE_<NAME> to the cluster-wide GRPC_<NAME>.
+const grpcSecurity = (service: string) => {
+    const env = (name: string) => process.env[`${service}_SERVICE_${name}`] ?? process.env[`GRPC_${name}`] ?? '';
+    return {
+        tls: {
+            enabled: env('TLS_ENABLED') === 'true',
+            // Omit to trust the system root certificates
+            caFile: env('TLS_CA_FILE'),
+            // Client certificate and key for mutual TLS
+            certFile: env('TLS_CERT_FILE'),
+            keyFile: env('TLS_KEY_FILE'),
+            // Expected name in the server certificate when it differs from the host
+            serverNameOverride: env('TLS_SERVER_NAME'),
+        },
+        // Bearer token sent with every call to identify the gateway, e.g. a
+        // projected service account token; requires TLS
+        tokenFile: env('TOKEN_FILE'),
+    };
+};
+
+// Backend gRPC service address and channel security, from <SERVICE>_SERVICE_*
+const grpcService = (service: string, defaultPort: string) => ({
+    host: process.env[`${service}_SERVICE_HOST`] || 'localhost',
+    port: process.env[`${service}_SERVICE_PORT`] || defaultPort,
+    security: grpcSecurity(service),
+});
+
+// Express "trust proxy" from TRUST_PROXY: a hop count, true/false, or
+// comma-separated proxy addresses and subnets
+const trustProxySetting = (value: string | undefined): boolean | number | string[] => {
+    if (!value || value === 'false') return false;
+    if (value === 'true') return true;
+    if (/^\d+$/.test(value)) return parseInt(value, 10);
+    return csv(value);
+};
+
+// Rate limit budget for a route group, overridable with RATE_LIMIT_<NAME>_*
+const rateLimitBudget = (name: string, limit: number, windowSeconds: number, failOpen: boolean) => ({
+    limit: parseInt(process.env[`RATE_LIMIT_${name}_LIMIT`] || String(limit), 10),
+    windowSeconds: parseInt(process.env[`RATE_LIMIT_${name}_WINDOW_SECONDS`] || String(windowSeconds), 10),
+    failOpen: process.env[`RATE_LIMIT_${name}_FAIL_OPEN`]
+        ? process.env[`RATE_LIMIT_${name}_FAIL_OPEN`] === 'true'
+        : failOpen,
+});
+
 export const config = {
     env: process.env.NODE_ENV || 'development',
     port: parseInt(process.env.GATEWAY_PORT || '3000', 10),
     logLevel: process.env.LOG_LEVEL || 'info',
-    jwtSecret: process.env.JWT_SECRET || 'default_secret_do_not_use_in_prod',
-    redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
-    services: {
-        auth: {
-            host: process.env.AUTH_SERVICE_HOST || 'localhost',
-            port: process.env.AUTH_SERVICE_PORT || '50051',
-        },
-        catalog: {
-            host: process.env.CATALOG_SERVICE_HOST || 'localhost',
-            port: process.env.CATALOG_SERVICE_PORT || '50052',
-        },
-        order: {
-            host: process.env.ORDER_SERVICE_HOST || 'localhost',
-            port: process.env.ORDER_SERVICE_PORT || '50053',
+    // Proxies allowed to set X-Forwarded-For. req.ip, which rate limits and
+    // brute-force tracking key on, is the client address only when the load
+    // balancer in front of the gateway is trusted here; unset, it is the peer
+    trustProxy: trustProxySetting(process.env.TRUST_PROXY),
+    jwtSecret: process.env.JWT_SECRET || DEFAULT_JWT_SECRET,
+    jwt: {
+        // JWKS document with the auth-service signing keys: an http(s) URL or a file path
+        jwksUri: process.env.JWT_JWKS_URI || '',
+        algorithms: csv(process.env.JWT_ALGORITHMS || 'RS256,ES256'),
+        // HS256 with jwtSecret stays available for local development without a JWKS
+        allowHs256: process.env.JWT_ALLOW_HS256
+            ? process.env.JWT_ALLOW_HS256 === 'true'
+            : !process.env.JWT_JWKS_URI,
+        issuer: csv(process.env.JWT_ISSUER),
+        audience: csv(process.env.JWT_AUDIENCE),
+        jwksRefreshIntervalMs: parseInt(process.env.JWKS_REFRESH_INTERVAL_MS || '600000', 10),
+        jwksRetiredKeyGraceMs: parseInt(process.env.JWKS_RETIRED_KEY_GRACE_MS || '3600000', 10),
+        accessTokenTtlSeconds: parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS || '900', 10),
+        refreshTokenTtlSeconds: parseInt(process.env.REFRESH_TOKEN_TTL_SECONDS || '2592000', 10),
+    },
+    redisUrl: process.env.REDIS_URL || process.env.VALKEY_URL || 'redis://localhost:6379',
+    tokenBlacklist: {
+        cacheMaxEntries: parseInt(process.env.TOKEN_BLACKLIST_CACHE_MAX_ENTRIES || '100000', 10),
+    },
+    reauth: {
+        // How long a verified re-auth unlocks its critical action
+        proofTtlSeconds: parseInt(process.env.REAUTH_PROOF_TTL_SECONDS || '300', 10),
+    },
+    bruteForce: {
+        // Failed attempts per phone, user or device before a lockout
+        maxAttempts: parseInt(process.env.BRUTE_FORCE_MAX_ATTEMPTS || '5', 10),
+        // Higher limit per IP: many users share carrier NAT addresses
+        ipMaxAttempts: parseInt(process.env.BRUTE_FORCE_IP_MAX_ATTEMPTS || '20', 10),
+        windowSeconds: parseInt(process.env.BRUTE_FORCE_WINDOW_SECONDS || '900', 10),
+        lockoutSeconds: parseInt(process.env.BRUTE_FORCE_LOCKOUT_SECONDS || '900', 10),
+        // Failures allowed without a delay; each later one doubles the delay
+        freeAttempts: parseInt(process.env.BRUTE_FORCE_FREE_ATTEMPTS || '2', 10),
+        baseDelayMs: parseInt(process.env.BRUTE_FORCE_BASE_DELAY_MS || '1000', 10),
+        maxDelayMs: parseInt(process.env.BRUTE_FORCE_MAX_DELAY_MS || '30000', 10),
+    },
+    rateLimits: {
+        otp: rateLimitBudget('OTP', 5, 900, false),
+        otpIp: rateLimitBudget('OTP_IP', 30, 900, false),
+        listingCreate: rateLimitBudget('LISTING_CREATE', 30, 3600, true),
+        inventoryBrowse: rateLimitBudget('INVENTORY_BROWSE', 120, 60, true),
+        admin: rateLimitBudget('ADMIN', 300, 60, true),
+    },
+    idempotency: {
+        // How long a key stays locked while its first request runs
+        lockTtlSeconds: parseInt(process.env.IDEMPOTENCY_LOCK_TTL_SECONDS || '60', 10),
+        // How long a stored response can be replayed
+        responseTtlSeconds: parseInt(process.env.IDEMPOTENCY_RESPONSE_TTL_SECONDS || '86400', 10),
+    },
+    apiKeys: {
+        defaultRateLimitPerMinute: parseInt(process.env.API_KEY_DEFAULT_RATE_LIMIT_PER_MINUTE || '600', 10),
+        maxRateLimitPerMinute: parseInt(process.env.API_KEY_MAX_RATE_LIMIT_PER_MINUTE || '6000', 10),
+        // How long a key's creator stays confirmed as an active team admin
+        // before the next request checks with the auth service again
+        creatorCheckTtlSeconds: parseInt(process.env.API_KEY_CREATOR_CHECK_TTL_SECONDS || '60', 10),
+    },
+    paymentWebhooks: {
+        // Webhook signing secret per payment provider: Razorpay's webhook secret
+        // and Cashfree's client secret, e.g. "razorpay:<webhook secret>,cashfree:<client secret>"
+        secrets: keyValues(process.env.PAYMENT_WEBHOOK_SECRETS),
+        // Cashfree timestamps older or newer than this are rejected as replays
+        toleranceSeconds: parseInt(process.env.PAYMENT_WEBHOOK_TOLERANCE_SECONDS || '300', 10),
+        // How long processed event IDs are remembered for duplicate delivery
+        eventTtlSeconds: parseInt(process.env.PAYMENT_WEBHOOK_EVENT_TTL_SECONDS || '604800', 10),
+    },
+    health: {
+        probeIntervalMs: parseInt(process.env.HEALTH_PROBE_INTERVAL_MS || '10000', 10),
+        probeTimeoutMs: parseInt(process.env.HEALTH_PROBE_TIMEOUT_MS || '2000', 10),
+        // Dependencies whose failure takes the gateway out of rotation; the rest only degrade it
+        criticalDependencies: csv(process.env.HEALTH_CRITICAL_DEPENDENCIES || 'redis,auth'),
+    },
+    responses: {
+        // Routes that predate the standard envelope keep their old shapes for
+        // apps that report an X-App-Version below this one; unset, every app
+        // gets the envelope
+        envelopeMinAppVersion: process.env.RESPONSE_ENVELOPE_MIN_APP_VERSION || '',
+    },
+    apiDocs: {
+        // Interactive docs page at /v1/docs; the OpenAPI document itself is always served
+        enabled: process.env.API_DOCS_ENABLED
+            ? process.env.API_DOCS_ENABLED === 'true'
+            : (process.env.NODE_ENV || 'development') !== 'production',
+    },
+    tracing: {
+        // Share of new traces exported, 0-1; requests continuing a caller's trace follow its decision
+        sampleRatio: parseFloat(process.env.TRACE_SAMPLE_RATIO || '1'),
+        // Export every span that ends in error, including those the ratio left out
+        sampleErrors: process.env.TRACE_SAMPLE_ERRORS !== 'false',
+    },
+    circuitBreaker: {
+        // Consecutive failed calls that open a service's circuit
+        failureThreshold: parseInt(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '5', 10),
+        // How long an open circuit rejects calls before letting one probe through
+        openMs: parseInt(process.env.CIRCUIT_BREAKER_OPEN_MS || '30000', 10),
+    },
+    grpc: {
+        // Time an HTTP request may spend on downstream calls in total
+        requestBudgetMs: parseInt(process.env.GRPC_REQUEST_BUDGET_MS || '10000', 10),
+        defaultDeadlineMs: parseInt(process.env.GRPC_DEFAULT_DEADLINE_MS || '5000', 10),
+        // Per-method deadlines, e.g. "CreateListing:8000,GetPresignedUrl:2000"
+        methodDeadlinesMs: keyValues(process.env.GRPC_METHOD_DEADLINES_MS),
+        // Retries of idempotent reads on UNAVAILABLE, with jittered exponential backoff
+        retry: {
+            maxAttempts: parseInt(process.env.GRPC_RETRY_MAX_ATTEMPTS || '3', 10),
+            initialBackoffMs: parseInt(process.env.GRPC_RETRY_INITIAL_BACKOFF_MS || '100', 10),
+            maxBackoffMs: parseInt(process.env.GRPC_RETRY_MAX_BACKOFF_MS || '1000', 10),
         },
-        // Add other services as needed
+        // How often certificate and token files are re-read, so rotated files apply without a restart
+        credentialsRefreshIntervalMs: parseInt(process.env.GRPC_CREDENTIALS_REFRESH_INTERVAL_MS || '60000', 10),
+        // Pings on idle channels so dead connections are noticed before a request uses them
+        keepaliveTimeMs: parseInt(process.env.GRPC_KEEPALIVE_TIME_MS || '30000', 10),
+        keepaliveTimeoutMs: parseInt(process.env.GRPC_KEEPALIVE_TIMEOUT_MS || '10000', 10),
+        // "round_robin" spreads calls over every address a backend's name resolves to
+        loadBalancingPolicy: process.env.GRPC_LOAD_BALANCING_POLICY || 'round_robin',
+        // Directory of the shared proto contracts (the protos submodule)
+        protoRoot: process.env.GRPC_PROTO_ROOT || path.resolve(__dirname, '../../protos/proto'),
+    },
+    services: {
+        auth: grpcService('AUTH', '50051'),
+        catalog: grpcService('CATALOG', '50052'),
+        order: grpcService('ORDER', '50053'),
+        logistics: grpcService('LOGISTICS', '50054'),
     },
 };
+
+/**
+ * Fail fast on configuration that must never reach production
+ */
+export function validateConfig(): void {
+    // The secret only verifies HS256 tokens; JWKS-only deployments need none
+    if (config.env === 'production' && config.jwt.allowHs256 && config.jwtSecret === DEFAULT_JWT_SECRET) {
+        throw new Error('JWT_SECRET must be set in production while HS256 is allowed; refusing to start with the default secret');
+    }
+}
@@ -0,0 +1,131 @@
+/**
+ * gRPC Call Policy: Deadlines, Retries and Cancellation
+ *
+ * Applied to every channel by GrpcClientFactory:
+ * - Deadlines: each call gets its method's deadline (or the default), capped
+ *   by what is left of the HTTP request budget, so a slow backend cannot hold
+ *   a request past the point where the mobile client gives up.
+ * - Retries: idempotent reads (Get*, List*, Search*, ...) are retried on
+ *   UNAVAILABLE with grpc-js's jittered exponential backoff, configured per
+ *   method through the channel's service config.
+ * - Cancellation: when the HTTP client disconnects from a read (GET, HEAD,
+ *   OPTIONS), its outstanding gRPC calls are cancelled instead of running to
+ *   completion. Writes always run to completion, so a retry of the same
+ *   request finds out what happened rather than racing a half-done call.
+ *
+ * requestBudget sets up the deadline and abort signal in the request
+ * context; mount it after traceIdMiddleware.
+ */
+
+import * as grpc from '@grpc/grpc-js';
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config';
+import { asyncLocalStorage } from '../utils/logger';
+
+// HTTP methods whose gRPC calls may be abandoned when the client goes away
+const SAFE_HTTP_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+// Methods safe to retry: they only read
+const IDEMPOTENT_READ = /^(Get|List|Search|Browse|Check|Fetch|Count|Find)/;
+
+/**
+ * Channel option with a retry policy for the service's read methods
+ *
+ * @param baseConfig - Other service config to send alongside, e.g. the load balancing policy
+ */
+export function retryServiceConfig(
+    definition: grpc.ServiceDefinition,
+    baseConfig: Record<string, unknown> = {}
+): grpc.ChannelOptions {
+    const readMethods = Object.values(definition)
+        .map((method) => method.path.split('/'))
+        .filter(([, , method]) => IDEMPOTENT_READ.test(method))
+        .map(([, service, method]) => ({ service, method }));
+
+    if (readMethods.length === 0) {
+        return Object.keys(baseConfig).length > 0 ? { 'grpc.service_config': JSON.stringify(baseConfig) } : {};
+    }
+
+    const { maxAttempts, initialBackoffMs, maxBackoffMs } = config.grpc.retry;
+    return {
+        'grpc.service_config': JSON.stringify({
+            ...baseConfig,
+            methodConfig: [{
+                name: readMethods,
+                retryPolicy: {
+                    maxAttempts,
+                    initialBackoff: `${initialBackoffMs / 1000}s`,
+                    maxBackoff: `${maxBackoffMs / 1000}s`,
+                    backoffMultiplier: 2,
+                    retryableStatusCodes: ['UNAVAILABLE'],
+                },
+            }],
+        }),
+    };
+}
+
+/**
+ * Deadline for a call to a method, e.g. "/cropfresh.catalog.CatalogService/CreateListing"
+ */
+export function callDeadline(path: string, now: number = Date.now()): number {
+    const method = path.slice(path.lastIndexOf('/') + 1);
+    const timeoutMs = Number(config.grpc.methodDeadlinesMs[method]) || config.grpc.defaultDeadlineMs;
+    const requestDeadline = asyncLocalStorage.getStore()?.deadline;
+
+    return Math.min(now + timeoutMs, requestDeadline ?? Infinity);
+}
+
+/**
+ * Client interceptor setting the call deadline and cancelling the call
+ * when the HTTP request is aborted
+ */
+export const callPolicyInterceptor: grpc.Interceptor = (options, nextCall) => {
+    const deadline = callDeadline(options.method_definition.path);
+    const requested = options.deadline === undefined ? Infinity : new Date(options.deadline).getTime();
+    const signal = asyncLocalStorage.getStore()?.signal;
+
+    const call = new grpc.InterceptingCall(nextCall({ ...options, deadline: Math.min(deadline, requested) }), {
+        start: (metadata, listener, next) => {
+            next(metadata, {
+                onReceiveStatus: (status, nextStatus) => {
+                    signal?.removeEventListener('abort', cancel);
+                    nextStatus(status);
+                },
+            });
+        },
+    });
+
+    function cancel() {
+        call.cancelWithStatus(grpc.status.CANCELLED, 'Client disconnected');
+    }
+
+    if (signal?.aborted) {
+        process.nextTick(cancel);
+    } else {
+        signal?.addEventListener('abort', cancel, { once: true });
+    }
+
+    return call;
+};
+
+/**
+ * Express middleware starting the request's time budget and, for reads,
+ * aborting its gRPC calls if the client disconnects before the response is sent
+ */
+export const requestBudget = (req: Request, res: Response, next: NextFunction) => {
+    const store = asyncLocalStorage.getStore();
+    if (store) {
+        const controller = new AbortController();
+        store.deadline = Date.now() + config.grpc.requestBudgetMs;
+        store.signal = controller.signal;
+
+        if (SAFE_HTTP_METHODS.has(req.method)) {
+            res.on('close', () => {
+                if (!res.writableFinished) {
+                    controller.abort();
+                }
+            });
+        }
+    }
+    next();
+};
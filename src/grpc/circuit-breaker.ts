@@ -0,0 +1,235 @@
+/**
+ * Circuit Breakers for Downstream gRPC Services
+ *
+ * One breaker per backend service (auth, catalog, order, logistics). After
+ * `failureThreshold` consecutive infrastructure failures the circuit opens
+ * and calls fail at once with UNAVAILABLE instead of waiting on a dead
+ * backend. After `openMs` the circuit is half-open: a single probe call
+ * goes through while every other call is still rejected. The circuit closes
+ * when the probe succeeds and reopens when it fails.
+ *
+ * Only infrastructure failures count; business errors such as NOT_FOUND
+ * mean the backend is working. A call cancelled by the gateway (the client
+ * went away or the request budget ran out) says nothing about the backend
+ * either way; a cancelled probe just lets the next call probe instead.
+ *
+ * A rejected call records the open circuit in the request context, and
+ * circuitOpenResponder turns the route's error response into a uniform 503
+ * SERVICE_UNAVAILABLE with Retry-After.
+ */
+
+import * as grpc from '@grpc/grpc-js';
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config';
+import { asyncLocalStorage, logger } from '../utils/logger';
+import { sendError } from '../utils/response-handler';
+import { circuitBreakerRejections, circuitBreakerState } from '../middleware/monitoring';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerSettings {
+    failureThreshold: number;
+    openMs: number;
+}
+
+/**
+ * Permission to start a call, handed back with its outcome
+ */
+export interface CallPermit {
+    /** The call is the half-open circuit's probe */
+    probe: boolean;
+}
+
+// Status codes that mean the backend itself is unhealthy
+const FAILURE_CODES = new Set<number>([
+    grpc.status.UNAVAILABLE,
+    grpc.status.DEADLINE_EXCEEDED,
+    grpc.status.INTERNAL,
+    grpc.status.UNKNOWN,
+]);
+
+const STATE_GAUGE_VALUES: Record<CircuitState, number> = { closed: 0, 'half-open': 1, open: 2 };
+
+export class CircuitBreaker {
+    private state: CircuitState = 'closed';
+    private consecutiveFailures = 0;
+    private openedAt = 0;
+    private probeInFlight = false;
+
+    constructor(
+        readonly name: string,
+        private readonly settings: CircuitBreakerSettings
+    ) {
+        circuitBreakerState.labels(name).set(STATE_GAUGE_VALUES.closed);
+    }
+
+    getState(): CircuitState {
+        if (this.state === 'open' && Date.now() - this.openedAt >= this.settings.openMs) {
+            this.transition('half-open');
+        }
+        return this.state;
+    }
+
+    /**
+     * Seconds until the circuit lets probe calls through
+     */
+    retryAfterSeconds(): number {
+        return Math.max(1, Math.ceil((this.openedAt + this.settings.openMs - Date.now()) / 1000));
+    }
+
+    /**
+     * Ask to start a call. Returns null if the call must be rejected.
+     */
+    tryAcquire(): CallPermit | null {
+        const state = this.getState();
+        if (state === 'closed') {
+            return { probe: false };
+        }
+        if (state === 'half-open' && !this.probeInFlight) {
+            this.probeInFlight = true;
+            return { probe: true };
+        }
+        circuitBreakerRejections.labels(this.name).inc();
+        return null;
+    }
+
+    /**
+     * Record the outcome of a call started with tryAcquire
+     */
+    record(code: grpc.status, permit: CallPermit): void {
+        if (permit.probe) {
+            // Nothing left to decide if the circuit already moved on
+            if (this.state !== 'half-open' || !this.probeInFlight) {
+                return;
+            }
+            this.probeInFlight = false;
+            if (code === grpc.status.CANCELLED) {
+                return;
+            }
+            if (FAILURE_CODES.has(code)) {
+                this.open();
+            } else {
+                this.transition('closed');
+            }
+            return;
+        }
+
+        // Calls still finishing after the circuit opened have already been counted against it
+        if (this.state !== 'closed' || code === grpc.status.CANCELLED) {
+            return;
+        }
+        if (!FAILURE_CODES.has(code)) {
+            this.consecutiveFailures = 0;
+            return;
+        }
+        if (++this.consecutiveFailures >= this.settings.failureThreshold) {
+            this.open();
+        }
+    }
+
+    private open(): void {
+        this.openedAt = Date.now();
+        this.transition('open');
+    }
+
+    private transition(state: CircuitState): void {
+        if (this.state !== state) {
+            logger.warn({ service: this.name, from: this.state, to: state }, 'Circuit breaker state changed');
+        }
+        this.state = state;
+        this.consecutiveFailures = 0;
+        this.probeInFlight = false;
+        circuitBreakerState.labels(this.name).set(STATE_GAUGE_VALUES[state]);
+    }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Get the breaker for a backend service, creating it on first use
+ */
+export function getCircuitBreaker(
+    name: string,
+    settings: CircuitBreakerSettings = config.circuitBreaker
+): CircuitBreaker {
+    let breaker = breakers.get(name);
+    if (!breaker) {
+        breaker = new CircuitBreaker(name, settings);
+        breakers.set(name, breaker);
+    }
+    return breaker;
+}
+
+/**
+ * Current state of every breaker, e.g. for the readiness probe
+ */
+export function getCircuitStates(): Record<string, CircuitState> {
+    return Object.fromEntries([...breakers].map(([name, breaker]) => [name, breaker.getState()]));
+}
+
+/**
+ * Client interceptor that guards every call on a channel with a breaker
+ */
+export function circuitBreakerInterceptor(breaker: CircuitBreaker): grpc.Interceptor {
+    return (options, nextCall) => {
+        const permit = breaker.tryAcquire();
+        if (!permit) {
+            const store = asyncLocalStorage.getStore();
+            if (store) {
+                store.circuitOpen = { service: breaker.name, retryAfterSeconds: breaker.retryAfterSeconds() };
+            }
+
+            // Never start the underlying call; answer UNAVAILABLE asynchronously
+            return new grpc.InterceptingCall(nextCall(options), {
+                start: (_metadata, listener) => {
+                    process.nextTick(() => listener.onReceiveStatus({
+                        code: grpc.status.UNAVAILABLE,
+                        details: `Circuit open for ${breaker.name} service`,
+                        metadata: new grpc.Metadata(),
+                    }));
+                },
+                sendMessage: () => undefined,
+                halfClose: () => undefined,
+            });
+        }
+
+        return new grpc.InterceptingCall(nextCall(options), {
+            start: (metadata, listener, next) => {
+                next(metadata, {
+                    onReceiveStatus: (status, nextStatus) => {
+                        breaker.record(status.code, permit);
+                        nextStatus(status);
+                    },
+                });
+            },
+        });
+    };
+}
+
+/**
+ * Express middleware: when a call in this request was rejected by an open
+ * circuit, replace the route's 5xx response with 503 SERVICE_UNAVAILABLE
+ * and Retry-After. Mount after traceIdMiddleware, which sets up the request
+ * context.
+ */
+export const circuitOpenResponder = (_req: Request, res: Response, next: NextFunction) => {
+    const json = res.json.bind(res);
+
+    res.json = (body: unknown) => {
+        const circuitOpen = asyncLocalStorage.getStore()?.circuitOpen;
+        if (!circuitOpen || res.statusCode < 500) {
+            return json(body);
+        }
+
+        res.json = json;
+        res.setHeader('Retry-After', circuitOpen.retryAfterSeconds);
+        sendError(res, 503, 'SERVICE_UNAVAILABLE',
+            `The ${circuitOpen.service} service is temporarily unavailable`, {
+                service: circuitOpen.service,
+                retry_after_seconds: circuitOpen.retryAfterSeconds,
+            });
+        return res;
+    };
+
+    next();
+};
@@ -1,38 +1,65 @@
 import * as grpc from '@grpc/grpc-js';
 import * as protoLoader from '@grpc/proto-loader';
 import path from 'path';
+import { config } from '../config';
 import { logger, asyncLocalStorage } from '../utils/logger';
+import { createChannelSecurity, ServiceSecurityConfig } from './credentials';
+import { circuitBreakerInterceptor, getCircuitBreaker } from './circuit-breaker';
+import { callPolicyInterceptor, retryServiceConfig } from './call-policy';
+import { clientTelemetryInterceptor } from './client-telemetry';
 
-export class GrpcClientFactory {
-    static createClient<T extends grpc.Client>(
-        serviceName: string,
-        protoPath: string,
-        address: string
-    ): T {
-        const packageDefinition = protoLoader.loadSync(protoPath, {
-            keepCase: true,  // Keep snake_case field names from proto
-            longs: String,
-            enums: String,
-            defaults: true,
-            oneofs: true,
-        });
+export interface ClientOptions {
+    /** Backend service name, e.g. "order"; clients of one backend share its circuit breaker */
+    backend?: string;
+    security?: ServiceSecurityConfig;
+}
 
-        const protoDescriptor = grpc.loadPackageDefinition(packageDefinition) as any;
+// Loaded proto files, shared by every client of the services they define
+const packageDefinitions = new Map<string, grpc.GrpcObject>();
+
+export class GrpcClientFactory {
+    /**
+     * Resolve a service constructor, e.g. "cropfresh.auth.AuthService", from a proto file
+     *
+     * @throws Error if the proto cannot be loaded or does not define the service
+     */
+    static loadService(serviceName: string, protoPath: string): grpc.ServiceClientConstructor {
+        let protoDescriptor = packageDefinitions.get(protoPath);
+        if (!protoDescriptor) {
+            const packageDefinition = protoLoader.loadSync(protoPath, {
+                keepCase: true,  // Keep snake_case field names from proto
+                longs: String,
+                enums: String,
+                defaults: true,
+                oneofs: true,
+            });
+            protoDescriptor = grpc.loadPackageDefinition(packageDefinition);
+            packageDefinitions.set(protoPath, protoDescriptor);
+        }
 
         // Traverse the protoDescriptor to find the service (handles packages like cropfresh.auth.AuthService)
-        const servicePath = serviceName.split('.');
-        let Service = protoDescriptor;
-        for (const segment of servicePath) {
+        let Service: any = protoDescriptor;
+        for (const segment of serviceName.split('.')) {
             Service = Service[segment];
             if (!Service) break;
         }
 
-        if (!Service) {
+        if (typeof Service !== 'function' || !Service.service) {
             throw new Error(`Service ${serviceName} not found in proto ${protoPath}`);
         }
 
+        return Service;
+    }
 
-        // Interceptor to propagate trace ID
+    static createClient<T extends grpc.Client>(
+        serviceName: string,
+        protoPath: string,
+        address: string,
+        options: ClientOptions = {}
+    ): T {
+        const Service = GrpcClientFactory.loadService(serviceName, protoPath);
+
+        // Interceptor to propagate trace ID, for backends that read it instead of traceparent
         const interceptor = (options: any, nextCall: any) => {
             return new grpc.InterceptingCall(nextCall(options), {
                 start: function (metadata: any, listener: any, next: any) {
@@ -45,14 +72,29 @@ export class GrpcClientFactory {
             });
         };
 
-        // Note: grpc-js interceptors are complex. 
-        // A simpler approach for this story is to ensure we pass metadata with every call.
-        // We will enforce that in the wrapper or usage.
+        const { credentials, options: channelOptions } = options.security
+            ? createChannelSecurity(serviceName, options.security)
+            : { credentials: grpc.credentials.createInsecure(), options: {} };
+        const backend = options.backend ?? address;
+        const breaker = getCircuitBreaker(backend);
+        const { keepaliveTimeMs, keepaliveTimeoutMs, loadBalancingPolicy } = config.grpc;
 
-        // Apply interceptor
-        const client = new Service(address, grpc.credentials.createInsecure(), { interceptors: [interceptor] });
+        // Apply interceptors
+        const client = new Service(address, credentials, {
+            ...channelOptions,
+            'grpc.keepalive_time_ms': keepaliveTimeMs,
+            'grpc.keepalive_timeout_ms': keepaliveTimeoutMs,
+            ...retryServiceConfig(Service.service, { loadBalancingConfig: [{ [loadBalancingPolicy]: {} }] }),
+            interceptors: [
+                interceptor,
+                clientTelemetryInterceptor(backend, Service.service),
+                callPolicyInterceptor,
+                circuitBreakerInterceptor(breaker),
+            ],
+        });
 
-        return client;
+        logger.info({ service: serviceName, address }, 'gRPC client initialized');
+        return client as unknown as T;
     }
 }
 
@@ -0,0 +1,129 @@
+/**
+ * Outbound gRPC Telemetry
+ *
+ * A client interceptor that records duration, status, message sizes and
+ * retries of every outbound call, labelled with the backend, the RPC and
+ * the HTTP route that made it, and wraps each call in a client span whose
+ * context is propagated to the backend in the call metadata as W3C
+ * `traceparent`/`tracestate`, with `baggage` describing the caller.
+ *
+ * Retries happen below interceptors, so one intercepted call covers every
+ * attempt; grpc-js reports the attempts in `grpc-previous-rpc-attempts`.
+ */
+
+import * as grpc from '@grpc/grpc-js';
+import { context, propagation, SpanKind, SpanStatusCode, trace } from '@opentelemetry/api';
+import { asyncLocalStorage } from '../utils/logger';
+import { withRequestBaggage } from '../utils/trace-context';
+import {
+    grpcClientDuration,
+    grpcClientMessageSize,
+    grpcClientRetries,
+    grpcClientTotal,
+} from '../middleware/monitoring';
+
+const tracer = trace.getTracer('cropfresh-service-gateway');
+
+const PREVIOUS_ATTEMPTS_KEY = 'grpc-previous-rpc-attempts';
+
+const metadataSetter = {
+    set: (metadata: grpc.Metadata, key: string, value: string) => metadata.set(key, value),
+};
+
+/**
+ * Route template of the HTTP request making the current call, e.g.
+ * "/v1/buyers/listings/:id"; "none" outside a request
+ */
+export function currentRoute(): string {
+    const request = asyncLocalStorage.getStore()?.request;
+    if (!request) {
+        return 'none';
+    }
+    // Route templates only, never raw paths, to keep label cardinality bounded
+    return request.route ? `${request.baseUrl}${request.route.path}` : request.baseUrl || 'unmatched';
+}
+
+function previousAttempts(metadata: grpc.Metadata | undefined): number {
+    const [value] = metadata?.get(PREVIOUS_ATTEMPTS_KEY) ?? [];
+    return Number(value) || 0;
+}
+
+/**
+ * Interceptor recording metrics and a span for each call to a backend
+ *
+ * @param definition - The client's service definition, used to size responses
+ */
+export function clientTelemetryInterceptor(backend: string, definition: grpc.ServiceDefinition): grpc.Interceptor {
+    const responseSerializers = new Map(
+        Object.values(definition).map((method) => [method.path, method.responseSerialize])
+    );
+
+    return (options, nextCall) => {
+        const { path, requestSerialize } = options.method_definition;
+        const method = path.slice(path.lastIndexOf('/') + 1);
+        const route = currentRoute();
+        const responseSerialize = responseSerializers.get(path);
+        const start = process.hrtime.bigint();
+        let retries = 0;
+
+        const span = tracer.startSpan(`${backend}/${method}`, {
+            kind: SpanKind.CLIENT,
+            attributes: {
+                'rpc.system': 'grpc',
+                'rpc.service': path.split('/')[1],
+                'rpc.method': method,
+                'http.route': route,
+            },
+        });
+
+        return new grpc.InterceptingCall(nextCall(options), {
+            start: (metadata, listener, next) => {
+                const request = asyncLocalStorage.getStore()?.request;
+                propagation.inject(
+                    withRequestBaggage(trace.setSpan(context.active(), span), request),
+                    metadata,
+                    metadataSetter
+                );
+
+                next(metadata, {
+                    onReceiveMetadata: (received, nextMetadata) => {
+                        retries = previousAttempts(received);
+                        nextMetadata(received);
+                    },
+                    onReceiveMessage: (message, nextMessage) => {
+                        // Failed unary calls deliver a null message before their status
+                        if (responseSerialize && message != null) {
+                            grpcClientMessageSize
+                                .labels(backend, method, 'response')
+                                .observe(responseSerialize(message).length);
+                        }
+                        nextMessage(message);
+                    },
+                    onReceiveStatus: (status, nextStatus) => {
+                        retries = Math.max(retries, previousAttempts(status.metadata));
+                        const statusCode = grpc.status[status.code] ?? String(status.code);
+                        const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+
+                        grpcClientDuration.labels(backend, method, statusCode, route).observe(seconds);
+                        grpcClientTotal.labels(backend, method, statusCode, route).inc();
+                        if (retries > 0) {
+                            grpcClientRetries.labels(backend, method, route).inc(retries);
+                        }
+
+                        span.setAttributes({ 'rpc.grpc.status_code': status.code, 'rpc.grpc.retries': retries });
+                        if (status.code !== grpc.status.OK) {
+                            span.setStatus({ code: SpanStatusCode.ERROR, message: status.details });
+                        }
+                        span.end();
+
+                        nextStatus(status);
+                    },
+                });
+            },
+            sendMessage: (message, next) => {
+                grpcClientMessageSize.labels(backend, method, 'request').observe(requestSerialize(message).length);
+                next(message);
+            },
+        });
+    };
+}
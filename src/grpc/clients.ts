@@ -1,36 +1,135 @@
+import * as grpc from '@grpc/grpc-js';
 import path from 'path';
 import { config } from '../config';
 import { GrpcClientFactory } from './client-factory';
+import { promisifyClient, PromiseClient } from './typed-client';
+import type { AuthServiceClient } from './generated/cropfresh/auth/AuthService';
+import type { CatalogServiceClient } from './generated/cropfresh/catalog/CatalogService';
+import type { OrderServiceClient } from './generated/cropfresh/order/OrderService';
+import type { MatchServiceClient } from './generated/cropfresh/order/MatchService';
 
-const PROTO_ROOT = path.resolve(__dirname, '../../protos/proto');
+// Protos owned by this repo; every other service's contract comes from the
+// shared protos submodule at config.grpc.protoRoot
+const LOCAL_PROTO_ROOT = path.resolve(__dirname, '../protos/proto');
 
-// Define types for clients (using any for now as we don't have generated types yet)
-// In a real scenario, we would generate types from protos.
+export type Backend = keyof typeof config.services;
 
-export const authClient = GrpcClientFactory.createClient<any>(
-    'cropfresh.auth.AuthService',
-    path.join(PROTO_ROOT, 'auth.proto'),
-    `${config.services.auth.host}:${config.services.auth.port}`
-);
+export interface ClientRegistration {
+    /** Entry in config.services the client connects to */
+    backend: Backend;
+    /** Fully qualified service name, e.g. "cropfresh.auth.AuthService" */
+    serviceName: string;
+    protoPath: string;
+}
 
-export const catalogClient = GrpcClientFactory.createClient<any>(
-    'cropfresh.catalog.CatalogService',
-    path.join(PROTO_ROOT, 'catalog.proto'),
-    `${config.services.catalog.host}:${config.services.catalog.port}`
-);
+/**
+ * Every gRPC client the gateway uses. Clients are created on first use,
+ * all through GrpcClientFactory, so they share interceptors, credentials,
+ * keepalive and load balancing; validateClientRegistry() checks them all
+ * at startup, so register a service only once its proto is published and a
+ * route calls it.
+ */
+export const CLIENT_REGISTRY = {
+    auth: {
+        backend: 'auth',
+        serviceName: 'cropfresh.auth.AuthService',
+        protoPath: path.join(config.grpc.protoRoot, 'auth.proto'),
+    },
+    catalog: {
+        backend: 'catalog',
+        serviceName: 'cropfresh.catalog.CatalogService',
+        protoPath: path.join(config.grpc.protoRoot, 'catalog.proto'),
+    },
+    order: {
+        backend: 'order',
+        serviceName: 'cropfresh.order.OrderService',
+        protoPath: path.join(config.grpc.protoRoot, 'order.proto'),
+    },
+    match: {
+        backend: 'order',
+        serviceName: 'cropfresh.order.MatchService',
+        protoPath: path.join(config.grpc.protoRoot, 'match.proto'),
+    },
+    dropPoint: {
+        backend: 'logistics',
+        serviceName: 'cropfresh.logistics.DropPointService',
+        protoPath: path.join(LOCAL_PROTO_ROOT, 'logistics.proto'),
+    },
+} satisfies Record<string, ClientRegistration>;
 
-export const orderClient = GrpcClientFactory.createClient<any>(
-    'cropfresh.order.OrderService',
-    path.join(PROTO_ROOT, 'order.proto'),
-    `${config.services.order.host}:${config.services.order.port}`
-);
+export type ClientName = keyof typeof CLIENT_REGISTRY;
 
-export const matchClient = GrpcClientFactory.createClient<any>(
-    'cropfresh.order.MatchService',
-    path.join(PROTO_ROOT, 'match.proto'),
-    `${config.services.order.host}:${config.services.order.port}`
-);
+/**
+ * host:port of a backend service
+ */
+export function backendAddress(backend: Backend): string {
+    const { host, port } = config.services[backend];
+    return `${host}:${port}`;
+}
 
-// Add other clients as needed
+const clients = new Map<ClientName, grpc.Client>();
+
+/**
+ * The client for a registered service, created on first use
+ */
+export function getClient<T extends grpc.Client>(name: ClientName): T {
+    let client = clients.get(name);
+    if (!client) {
+        const { backend, serviceName, protoPath }: ClientRegistration = CLIENT_REGISTRY[name];
+        client = GrpcClientFactory.createClient(serviceName, protoPath, backendAddress(backend), {
+            backend,
+            security: config.services[backend].security,
+        });
+        clients.set(name, client);
+    }
+    return client as T;
+}
+
+/**
+ * Stands in for a registered client, so importing a client module never loads protos
+ */
+export const lazyClient = <T extends grpc.Client>(name: ClientName): T =>
+    new Proxy({} as T, {
+        get: (_target, property) => {
+            const client = getClient<T>(name);
+            const value = Reflect.get(client, property);
+            return typeof value === 'function' ? value.bind(client) : value;
+        },
+    });
+
+/**
+ * Check that every registered proto loads and defines its service
+ *
+ * @throws Error listing every registration that does not resolve
+ */
+export function validateClientRegistry(registry: Record<string, ClientRegistration> = CLIENT_REGISTRY): void {
+    const problems = Object.entries(registry).flatMap(([name, { serviceName, protoPath }]) => {
+        try {
+            GrpcClientFactory.loadService(serviceName, protoPath);
+            return [];
+        } catch (err) {
+            return [`${name}: ${err instanceof Error ? err.message : String(err)}`];
+        }
+    });
+
+    if (problems.length > 0) {
+        throw new Error(`gRPC client registry is invalid:\n  ${problems.join('\n  ')}`);
+    }
+}
+
+/**
+ * Close every client created so far
+ */
+export function closeClients(): void {
+    clients.forEach((client) => client.close());
+    clients.clear();
+}
+
+// Request and response types are generated from the protos by `npm run proto:gen`
+
+export const authClient: PromiseClient<AuthServiceClient> = promisifyClient(lazyClient<AuthServiceClient>('auth'));
+export const catalogClient: PromiseClient<CatalogServiceClient> = promisifyClient(lazyClient<CatalogServiceClient>('catalog'));
+export const orderClient: PromiseClient<OrderServiceClient> = promisifyClient(lazyClient<OrderServiceClient>('order'));
+export const matchClient: PromiseClient<MatchServiceClient> = promisifyClient(lazyClient<MatchServiceClient>('match'));
 
 export { createMetadata } from './client-factory';
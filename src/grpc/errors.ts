@@ -0,0 +1,272 @@
+/**
+ * gRPC Error Catalog
+ *
+ * Decodes the `google.rpc.Status` rich error model backends send in the
+ * `grpc-status-details-bin` trailer (ErrorInfo, BadRequest, RetryInfo,
+ * QuotaFailure) and maps every gRPC error through one catalog to a stable
+ * gateway error code, HTTP status and client-facing details.
+ *
+ * Backends that still put `{"error":"REASON","message":"..."}` JSON in the
+ * status details are read the same way, with `error` as the reason.
+ */
+
+import * as grpc from '@grpc/grpc-js';
+import { Response } from 'express';
+import * as protobuf from 'protobufjs';
+import { logger } from '../utils/logger';
+import { FieldViolation, sendError } from '../utils/response-handler';
+
+// ============================================================================
+// Rich Error Model
+// ============================================================================
+
+const STATUS_DETAILS_KEY = 'grpc-status-details-bin';
+const TYPE_URL_PREFIX = 'type.googleapis.com/';
+
+const root = protobuf.Root.fromJSON({
+    nested: {
+        google: {
+            nested: {
+                protobuf: {
+                    nested: {
+                        Any: { fields: { type_url: { type: 'string', id: 1 }, value: { type: 'bytes', id: 2 } } },
+                        Duration: { fields: { seconds: { type: 'int64', id: 1 }, nanos: { type: 'int32', id: 2 } } },
+                    },
+                },
+                rpc: {
+                    nested: {
+                        Status: {
+                            fields: {
+                                code: { type: 'int32', id: 1 },
+                                message: { type: 'string', id: 2 },
+                                details: { rule: 'repeated', type: 'google.protobuf.Any', id: 3 },
+                            },
+                        },
+                        ErrorInfo: {
+                            fields: {
+                                reason: { type: 'string', id: 1 },
+                                domain: { type: 'string', id: 2 },
+                                metadata: { keyType: 'string', type: 'string', id: 3 } as protobuf.IMapField,
+                            },
+                        },
+                        RetryInfo: { fields: { retry_delay: { type: 'google.protobuf.Duration', id: 1 } } },
+                        QuotaFailure: {
+                            fields: { violations: { rule: 'repeated', type: 'Violation', id: 1 } },
+                            nested: {
+                                Violation: {
+                                    fields: {
+                                        subject: { type: 'string', id: 1 },
+                                        description: { type: 'string', id: 2 },
+                                    },
+                                },
+                            },
+                        },
+                        BadRequest: {
+                            fields: { field_violations: { rule: 'repeated', type: 'FieldViolation', id: 1 } },
+                            nested: {
+                                FieldViolation: {
+                                    fields: {
+                                        field: { type: 'string', id: 1 },
+                                        description: { type: 'string', id: 2 },
+                                        reason: { type: 'string', id: 3 },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    },
+});
+
+const StatusType = root.lookupType('google.rpc.Status');
+const DECODE_OPTIONS: protobuf.IConversionOptions = { longs: Number, defaults: true, arrays: true, objects: true };
+
+export type { FieldViolation };
+
+export interface QuotaViolation {
+    subject: string;
+    description: string;
+}
+
+/**
+ * What a backend said about an error beyond its status code
+ */
+export interface RichErrorDetails {
+    /** Machine-readable cause, e.g. "LISTING_ALREADY_MATCHED" */
+    reason?: string;
+    domain?: string;
+    metadata: Record<string, any>;
+    fieldViolations: FieldViolation[];
+    quotaViolations: QuotaViolation[];
+    retryDelayMs?: number;
+}
+
+function decodeAny(typeUrl: string, value: Uint8Array): Record<string, any> | null {
+    const typeName = typeUrl.startsWith(TYPE_URL_PREFIX) ? typeUrl.slice(TYPE_URL_PREFIX.length) : typeUrl;
+    const type = root.lookup(typeName);
+    if (!(type instanceof protobuf.Type)) {
+        return null;
+    }
+    return type.toObject(type.decode(value), DECODE_OPTIONS);
+}
+
+function legacyJsonDetails(details: string | undefined): Record<string, any> | null {
+    try {
+        const parsed = JSON.parse(details || '');
+        return parsed && typeof parsed === 'object' ? parsed : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Decode the rich error details of a gRPC error; empty when it has none
+ */
+export function decodeErrorDetails(err: Partial<grpc.ServiceError>): RichErrorDetails {
+    const result: RichErrorDetails = { metadata: {}, fieldViolations: [], quotaViolations: [] };
+
+    const [statusBin] = err.metadata?.get(STATUS_DETAILS_KEY) ?? [];
+    if (Buffer.isBuffer(statusBin)) {
+        try {
+            const status = StatusType.toObject(StatusType.decode(statusBin), DECODE_OPTIONS);
+            for (const { type_url, value } of status.details as Array<{ type_url: string; value: Uint8Array }>) {
+                const detail = decodeAny(type_url, value);
+                if (type_url.endsWith('google.rpc.ErrorInfo') && detail) {
+                    result.reason = detail.reason || undefined;
+                    result.domain = detail.domain || undefined;
+                    result.metadata = detail.metadata;
+                } else if (type_url.endsWith('google.rpc.BadRequest') && detail) {
+                    result.fieldViolations.push(...detail.field_violations.map(
+                        ({ field, description }: FieldViolation) => ({ field, description })
+                    ));
+                } else if (type_url.endsWith('google.rpc.QuotaFailure') && detail) {
+                    result.quotaViolations.push(...detail.violations);
+                } else if (type_url.endsWith('google.rpc.RetryInfo') && detail?.retry_delay) {
+                    result.retryDelayMs = detail.retry_delay.seconds * 1000 + Math.round(detail.retry_delay.nanos / 1e6);
+                }
+            }
+            return result;
+        } catch {
+            // Malformed trailer; fall back to the plain status details
+        }
+    }
+
+    const legacy = legacyJsonDetails(err.details);
+    if (legacy && typeof legacy.error === 'string') {
+        const { error, message: _message, ...metadata } = legacy;
+        result.reason = error;
+        result.metadata = metadata;
+    }
+    return result;
+}
+
+// ============================================================================
+// Catalog
+// ============================================================================
+
+interface CatalogEntry {
+    status: number;
+    code: string;
+    /** Sent instead of the backend's message, which may be internal */
+    message?: string;
+}
+
+/**
+ * HTTP status and gateway error code for every gRPC status
+ */
+export const GRPC_ERROR_CATALOG: Record<grpc.status, CatalogEntry> = {
+    [grpc.status.OK]: { status: 200, code: 'OK' },
+    [grpc.status.CANCELLED]: { status: 499, code: 'REQUEST_CANCELLED' },
+    [grpc.status.UNKNOWN]: { status: 500, code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' },
+    [grpc.status.INVALID_ARGUMENT]: { status: 400, code: 'BAD_REQUEST' },
+    [grpc.status.DEADLINE_EXCEEDED]: { status: 504, code: 'GATEWAY_TIMEOUT', message: 'Upstream service timed out' },
+    [grpc.status.NOT_FOUND]: { status: 404, code: 'NOT_FOUND' },
+    [grpc.status.ALREADY_EXISTS]: { status: 409, code: 'ALREADY_EXISTS' },
+    [grpc.status.PERMISSION_DENIED]: { status: 403, code: 'FORBIDDEN' },
+    [grpc.status.RESOURCE_EXHAUSTED]: { status: 429, code: 'RATE_LIMITED' },
+    // The resource is not in a state that allows the operation, e.g. an already matched listing
+    [grpc.status.FAILED_PRECONDITION]: { status: 409, code: 'CONFLICT' },
+    [grpc.status.ABORTED]: { status: 409, code: 'CONFLICT' },
+    [grpc.status.OUT_OF_RANGE]: { status: 400, code: 'BAD_REQUEST' },
+    [grpc.status.UNIMPLEMENTED]: { status: 501, code: 'NOT_IMPLEMENTED', message: 'Operation not supported' },
+    [grpc.status.INTERNAL]: { status: 500, code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' },
+    [grpc.status.UNAVAILABLE]: { status: 503, code: 'SERVICE_UNAVAILABLE', message: 'Service temporarily unavailable' },
+    [grpc.status.DATA_LOSS]: { status: 500, code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' },
+    [grpc.status.UNAUTHENTICATED]: { status: 401, code: 'UNAUTHORIZED' },
+};
+
+const DEFAULT_ENTRY: CatalogEntry = GRPC_ERROR_CATALOG[grpc.status.UNKNOWN];
+
+/**
+ * A gRPC error as the gateway reports it to clients
+ */
+export interface GatewayError {
+    status: number;
+    /** ErrorInfo reason when the backend gave one, otherwise the catalog code */
+    code: string;
+    message: string;
+    details?: Record<string, any>;
+    retryAfterSeconds?: number;
+}
+
+/**
+ * Status code of a gRPC error, or undefined for anything else
+ */
+export function grpcStatusOf(error: unknown): grpc.status | undefined {
+    const code = (error as Partial<grpc.ServiceError> | null)?.code;
+    return typeof code === 'number' ? code : undefined;
+}
+
+/**
+ * Map a gRPC error through the catalog
+ */
+export function toGatewayError(error: unknown): GatewayError {
+    const err = (error ?? {}) as Partial<grpc.ServiceError>;
+    const entry = GRPC_ERROR_CATALOG[err.code as grpc.status] ?? DEFAULT_ENTRY;
+    const rich = decodeErrorDetails(err);
+    const legacy = legacyJsonDetails(err.details);
+
+    const backendMessage = typeof legacy?.message === 'string' ? legacy.message : legacy ? undefined : err.details;
+    // A backend that gives a reason describes it for clients; otherwise 5xx messages may be internal
+    const message = (rich.reason && backendMessage) || entry.message || backendMessage || 'Request failed';
+
+    const details: Record<string, any> = { ...rich.metadata };
+    if (rich.fieldViolations.length > 0) {
+        details.field_violations = rich.fieldViolations;
+    }
+    if (rich.quotaViolations.length > 0) {
+        details.quota_violations = rich.quotaViolations;
+    }
+    const retryAfterSeconds = rich.retryDelayMs !== undefined ? Math.ceil(rich.retryDelayMs / 1000) : undefined;
+    if (retryAfterSeconds !== undefined) {
+        details.retry_after_seconds = retryAfterSeconds;
+    }
+
+    // Field violations on a bad request are validation failures like the gateway's own
+    const code = rich.reason
+        ?? (entry.status === 400 && rich.fieldViolations.length > 0 ? 'VALIDATION_ERROR' : entry.code);
+
+    return {
+        status: entry.status,
+        code,
+        message,
+        ...(Object.keys(details).length > 0 && { details }),
+        ...(retryAfterSeconds !== undefined && { retryAfterSeconds }),
+    };
+}
+
+/**
+ * Send a gRPC error in the standard error envelope
+ */
+export function sendGrpcError(res: Response, error: unknown): void {
+    const { status, code, message, details, retryAfterSeconds } = toGatewayError(error);
+    if (status >= 500) {
+        logger.error({ err: error }, 'Upstream gRPC call failed');
+    }
+    if (retryAfterSeconds !== undefined) {
+        res.setHeader('Retry-After', String(retryAfterSeconds));
+    }
+    sendError(res, status, code, message, details);
+}
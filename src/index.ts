@@ -4,18 +4,26 @@ import './tracing';
 import express from 'express';
 import helmet from 'helmet';
 import cors from 'cors';
-import { config } from './config';
+import { config, validateConfig } from './config';
+import { validateClientRegistry } from './grpc/clients';
 import { logger } from './utils/logger';
 import { requestIdMiddleware } from './middleware/request-id';
 import { errorHandler } from './middleware/error-handler';
-import v1Router from './routes/v1';
+import apiRouter from './routes';
+import { startBlacklistSync } from './middleware/token-blacklist';
+import { captureRawBody } from './middleware/webhook-signature';
+import { circuitOpenResponder } from './grpc/circuit-breaker';
+import { requestBudget } from './grpc/call-policy';
 
 import { requestLogger, traceIdMiddleware } from './middleware/logging';
 import { monitoringMiddleware, metricsHandler } from './middleware/monitoring';
-import { livenessHandler, createReadinessHandler } from './middleware/health';
+import { livenessHandler, createReadinessHandler, startDependencyProbes } from './middleware/health';
 
 const app = express();
 
+// Resolve req.ip through the trusted load balancers only
+app.set('trust proxy', config.trustProxy);
+
 // Security Middleware
 app.use(helmet());
 app.use(cors());
@@ -23,8 +31,8 @@ app.use(cors());
 // Request ID (Must be early)
 app.use(requestIdMiddleware);
 
-// JSON Body Parser
-app.use(express.json());
+// JSON Body Parser (raw bytes kept for webhook signature checks)
+app.use(express.json({ verify: captureRawBody }));
 
 // Monitoring Middleware (Prometheus metrics)
 app.use(monitoringMiddleware);
@@ -33,6 +41,12 @@ app.use(monitoringMiddleware);
 app.use(traceIdMiddleware);
 app.use(requestLogger);
 
+// Downstream deadlines and cancellation on client disconnect
+app.use(requestBudget);
+
+// Uniform 503 + Retry-After when a backend's circuit is open
+app.use(circuitOpenResponder);
+
 // Health check endpoints (Kubernetes probes)
 app.get('/health', livenessHandler);
 app.get('/ready', createReadinessHandler());
@@ -40,14 +54,25 @@ app.get('/ready', createReadinessHandler());
 // Metrics Endpoint
 app.get('/metrics', metricsHandler);
 
-// Routes
-app.use('/v1', v1Router);
+// Routes, one router per API version
+app.use(apiRouter);
 
 // Error Handler (Must be last)
 app.use(errorHandler);
 
 // Start Server
 if (require.main === module) {
+    validateConfig();
+    validateClientRegistry();
+
+    startBlacklistSync().catch((err) => {
+        logger.error({ err }, 'Token blacklist sync failed to start');
+    });
+
+    startDependencyProbes().catch((err) => {
+        logger.error({ err }, 'Dependency probes failed to start');
+    });
+
     app.listen(config.port, () => {
         logger.info(`Gateway Service running on port ${config.port}`);
     });
@@ -0,0 +1,151 @@
+/**
+ * Partner API Key Authentication
+ *
+ * Lets buyer organisation systems call selected buyer routes with an
+ * `X-API-Key` header instead of a bearer token. Routers that accept keys
+ * mount apiKeyAuth before authMiddleware: a valid key sets the principal,
+ * which authMiddleware then passes through.
+ *
+ * A key acts as the team admin who created it, limited to the key's scopes
+ * and its own per-minute rate limit. The creator's role is re-checked with
+ * the auth service (cached for config.apiKeys.creatorCheckTtlSeconds); once
+ * the creator is no longer an active admin, their keys are revoked.
+ */
+
+import { Response, NextFunction, RequestHandler } from 'express';
+import { authClient, createMetadata } from '../grpc/clients';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { sendError } from '../utils/response-handler';
+import {
+    ApiKeyRecord,
+    confirmCreator,
+    isCreatorConfirmed,
+    resolveApiKey,
+    revokeApiKey,
+    touchApiKey,
+} from '../utils/api-key-store';
+import { AuthRequest } from './auth';
+import { consumeRateLimit, RateLimitPolicy } from './rate-limit';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * Scopes a key can be granted
+ */
+export const API_KEY_SCOPES = {
+    INVENTORY_READ: 'inventory:read',
+    ORDERS_CREATE: 'orders:create',
+} as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[keyof typeof API_KEY_SCOPES];
+
+const ADMIN_PAGE_SIZE = 100;
+
+/**
+ * The key's own budget, spread over a minute
+ */
+function keyRateLimitPolicy(record: ApiKeyRecord): RateLimitPolicy {
+    return {
+        name: 'api-key',
+        limit: record.rateLimitPerMinute,
+        windowSeconds: 60,
+        keyBy: ['apiKey'],
+        failOpen: false,
+    };
+}
+
+/**
+ * Whether the key's creator is still an active admin of the key's organisation
+ */
+async function creatorIsActiveAdmin(record: ApiKeyRecord, traceId: string): Promise<boolean> {
+    if (await isCreatorConfirmed(record.id)) {
+        return true;
+    }
+
+    for (let page = 1; ; page++) {
+        const response = await authClient.ListTeamMembers({
+            buyer_org_id: record.buyerOrgId,
+            page,
+            limit: ADMIN_PAGE_SIZE,
+            role_filter: 'ADMIN',
+            status_filter: '',
+            search: '',
+        }, { metadata: createMetadata(traceId) });
+
+        const creator = response.members.find((member) => member.user_id === record.createdBy);
+        if (creator) {
+            const active = creator.role.toUpperCase() === 'ADMIN' && creator.status.toUpperCase() === 'ACTIVE';
+            if (active) {
+                await confirmCreator(record.id, config.apiKeys.creatorCheckTtlSeconds);
+            }
+            return active;
+        }
+
+        if (response.members.length === 0 || page >= (response.pagination?.total_pages ?? page)) {
+            return false;
+        }
+    }
+}
+
+/**
+ * Authenticate a request carrying an API key; other requests pass through
+ */
+export const apiKeyAuth = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const key = req.headers[API_KEY_HEADER];
+    if (key === undefined) {
+        return next();
+    }
+
+    if (req.headers.authorization) {
+        return sendError(res, 400, 'AMBIGUOUS_CREDENTIALS', 'Send either a bearer token or an API key, not both');
+    }
+
+    try {
+        const record = typeof key === 'string' ? await resolveApiKey(key) : null;
+        if (!record) {
+            return sendError(res, 401, 'INVALID_API_KEY', 'API key is invalid or has been revoked');
+        }
+
+        req.user = {
+            userId: record.createdBy,
+            userType: 'BUYER',
+            buyerOrgId: record.buyerOrgId,
+            scopes: record.scopes,
+            apiKeyId: record.id,
+        };
+
+        if (!(await consumeRateLimit(keyRateLimitPolicy(record), req, res))) {
+            return;
+        }
+
+        if (!(await creatorIsActiveAdmin(record, req.headers['x-trace-id'] as string))) {
+            await revokeApiKey(record.buyerOrgId, record.id);
+            logger.warn({ apiKeyId: record.id, createdBy: record.createdBy }, 'Revoked API key of a former team admin');
+            return sendError(res, 401, 'INVALID_API_KEY', 'API key is invalid or has been revoked');
+        }
+
+        touchApiKey(record.id).catch((error) => {
+            logger.warn({ error, apiKeyId: record.id }, 'Failed to record API key use');
+        });
+
+        next();
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Require a scope from API-key callers. Users signed in with a token are
+ * not scope-limited and pass through.
+ */
+export function requireApiKeyScope(scope: ApiKeyScope): RequestHandler {
+    return (req: AuthRequest, res: Response, next: NextFunction) => {
+        if (req.user?.apiKeyId && !req.user.scopes?.includes(scope)) {
+            return sendError(res, 403, 'INSUFFICIENT_SCOPE', `API key lacks the ${scope} scope`, {
+                required_scope: scope,
+            });
+        }
+        next();
+    };
+}
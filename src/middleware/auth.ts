@@ -1,29 +1,235 @@
+/**
+ * Authentication Middleware
+ *
+ * Verifies the caller's bearer token and exposes the verified identity as a
+ * typed principal on `req.user`. Routes must read the caller's identity only
+ * from the principal - never from headers, query params or body fields that
+ * any client can set.
+ *
+ * Tokens are signed by the auth-service with RS256/ES256 and verified against
+ * its JWKS (see JwksKeyStore). HS256 with the shared secret remains available
+ * for local development when no JWKS is configured.
+ *
+ * Logged-out tokens and revoked sessions are rejected against the token
+ * blacklist's in-process mirror, so the check costs no Redis round trip.
+ */
+
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import jwt, { Algorithm, JwtHeader, JwtPayload, SigningKeyCallback, VerifyOptions } from 'jsonwebtoken';
 import { config } from '../config';
+import { sendError } from '../utils/response-handler';
+import { JwksKeyStore } from '../utils/jwks-key-store';
+import { isTokenRevoked } from './token-blacklist';
+
+/**
+ * Verified identity of the caller, built from JWT claims
+ */
+export interface Principal {
+    userId: number;
+    userType: string;
+    roles?: string[];
+    buyerOrgId?: number;
+    teamRole?: string;
+    scopes?: string[];
+    zone?: string;
+    sessionId?: number;
+    phone?: string;
+    /** Set when the caller authenticated with a partner API key */
+    apiKeyId?: string;
+}
 
 export interface AuthRequest extends Request {
-    user?: any;
+    user?: Principal;
 }
 
-export const authMiddleware = (req: AuthRequest, res: Response, next: NextFunction) => {
+/**
+ * Headers older clients used to assert identity. The gateway derives identity
+ * from the verified token only, so a request carrying any of these is rejected
+ * instead of silently trusted or ignored.
+ */
+export const IDENTITY_HEADERS = [
+    'x-user-id',
+    'x-farmer-id',
+    'x-buyer-org-id',
+    'x-user-role',
+    'x-user-type',
+];
+
+function toStringList(value: unknown): string[] | undefined {
+    if (Array.isArray(value)) {
+        return value.map(String);
+    }
+    if (typeof value === 'string' && value) {
+        return value.split(' ');
+    }
+    return undefined;
+}
+
+function toOptionalNumber(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') {
+        return undefined;
+    }
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Map JWT claims to a principal.
+ *
+ * Tokens issued by different auth-service flows use slightly different claim
+ * names (userId vs sub, userType vs role), so they are normalised here once.
+ * Returns null when the token does not identify a user.
+ */
+export function principalFromClaims(claims: JwtPayload): Principal | null {
+    const userId = toOptionalNumber(claims.userId ?? claims.user_id ?? claims.sub ?? claims.id);
+    const userType = claims.userType ?? claims.user_type ?? claims.role;
+
+    if (!userId || typeof userType !== 'string' || !userType) {
+        return null;
+    }
+
+    const zone = claims.zone ?? claims.zoneId ?? claims.zone_id;
+    const teamRole = claims.teamRole ?? claims.team_role;
+
+    return {
+        userId,
+        userType: userType.toUpperCase(),
+        roles: toStringList(claims.roles)?.map((role) => role.toUpperCase()),
+        buyerOrgId: toOptionalNumber(claims.buyerOrgId ?? claims.buyer_org_id),
+        teamRole: typeof teamRole === 'string' ? teamRole.toUpperCase() : undefined,
+        scopes: toStringList(claims.scopes ?? claims.scope),
+        zone: zone !== undefined && zone !== null ? String(zone) : undefined,
+        sessionId: toOptionalNumber(claims.sessionId ?? claims.session_id),
+        phone: typeof claims.phone === 'string' ? claims.phone : undefined,
+    };
+}
+
+/**
+ * Extract the raw bearer token from the Authorization header
+ */
+export function extractBearerToken(req: Request): string | null {
     const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return null;
+    }
+    return authHeader.slice(7) || null;
+}
+
+/**
+ * Reject requests that try to assert identity through headers
+ */
+export const rejectIdentityHeaders = (req: Request, res: Response, next: NextFunction) => {
+    const spoofed = IDENTITY_HEADERS.filter((header) => req.headers[header] !== undefined);
 
-    if (!authHeader) {
-        return next({ code: 401, message: 'No token provided' }); // Handled by error handler
+    if (spoofed.length > 0) {
+        return sendError(res, 400, 'IDENTITY_HEADER_NOT_ALLOWED',
+            'Identity is taken from the access token. Remove identity headers from the request.', {
+                headers: spoofed,
+            });
     }
 
-    const token = authHeader.split(' ')[1];
+    next();
+};
 
-    if (!token) {
-        return next({ code: 401, message: 'Invalid token format' });
+const jwksKeyStore = config.jwt.jwksUri
+    ? new JwksKeyStore(config.jwt.jwksUri, {
+        refreshIntervalMs: config.jwt.jwksRefreshIntervalMs,
+        retiredKeyGraceMs: config.jwt.jwksRetiredKeyGraceMs,
+    })
+    : null;
+
+const verifyOptions: VerifyOptions = {
+    algorithms: [
+        ...config.jwt.algorithms,
+        ...(config.jwt.allowHs256 ? ['HS256'] : []),
+    ] as Algorithm[],
+    issuer: config.jwt.issuer.length > 0 ? config.jwt.issuer as [string, ...string[]] : undefined,
+    audience: config.jwt.audience.length > 0 ? config.jwt.audience as [string, ...string[]] : undefined,
+};
+
+/**
+ * Pick the verification key for a token: the shared secret for HS256,
+ * otherwise the JWKS key named by `kid`
+ */
+function resolveSigningKey(header: JwtHeader, callback: SigningKeyCallback): void {
+    if (header.alg === 'HS256') {
+        if (!config.jwt.allowHs256) {
+            return callback(new Error('HS256 tokens are not accepted'));
+        }
+        return callback(null, config.jwtSecret);
+    }
+
+    if (!jwksKeyStore) {
+        return callback(new Error('No JWKS configured for asymmetric tokens'));
+    }
+
+    jwksKeyStore.getKey(header.kid).then((found) => {
+        if (!found) {
+            return callback(new Error(`Unknown signing key: ${header.kid}`));
+        }
+        if (found.alg && found.alg !== header.alg) {
+            return callback(new Error('Token algorithm does not match signing key'));
+        }
+        callback(null, found.key);
+    }, callback);
+}
+
+/**
+ * Verify an access token's signature, expiry, issuer and audience
+ */
+export function verifyAccessToken(token: string): Promise<JwtPayload> {
+    return new Promise((resolve, reject) => {
+        jwt.verify(token, resolveSigningKey, verifyOptions, (err, decoded) => {
+            if (err) {
+                return reject(err);
+            }
+            if (!decoded || typeof decoded === 'string') {
+                return reject(new jwt.JsonWebTokenError('Invalid token payload'));
+            }
+            resolve(decoded as JwtPayload);
+        });
+    });
+}
+
+/**
+ * Verify the bearer token and populate `req.user`.
+ *
+ * Routers mounted on the same path may each apply this middleware, so a
+ * request that already carries a verified principal is passed straight through.
+ */
+export const authMiddleware = (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (req.user) {
+        return next();
+    }
+
+    if (!req.headers.authorization) {
+        return sendError(res, 401, 'UNAUTHORIZED', 'No token provided');
     }
 
-    try {
-        const decoded = jwt.verify(token, config.jwtSecret);
-        req.user = decoded;
-        next();
-    } catch (err) {
-        return next({ code: 401, message: 'Invalid token' });
+    const token = extractBearerToken(req);
+    if (!token) {
+        return sendError(res, 401, 'UNAUTHORIZED', 'Invalid token format');
     }
+
+    verifyAccessToken(token).then(
+        async (claims) => {
+            const principal = principalFromClaims(claims);
+            if (!principal) {
+                return sendError(res, 401, 'INVALID_TOKEN', 'Token does not identify a user');
+            }
+
+            if (await isTokenRevoked(token, principal.sessionId)) {
+                return sendError(res, 401, 'TOKEN_INVALIDATED', 'Session has been logged out. Please login again.');
+            }
+
+            req.user = principal;
+            next();
+        },
+        (err) => {
+            if (err instanceof jwt.TokenExpiredError) {
+                return sendError(res, 401, 'TOKEN_EXPIRED', 'Token has expired');
+            }
+            return sendError(res, 401, 'INVALID_TOKEN', 'Invalid token');
+        }
+    );
 };
@@ -0,0 +1,320 @@
+/**
+ * Brute-force Protection
+ *
+ * Gateway-level tracking of failed OTP, PIN and password attempts, so
+ * guessing is throttled even if a downstream service does not lock out.
+ *
+ * Failures are counted in Redis per scope (otp, pin, password, reauth) for
+ * each identifier of the attempt: phone, user, device and client IP. After
+ * `freeAttempts` failures every further failure blocks the identifier for an
+ * exponentially growing delay; at `maxAttempts` it is locked out for
+ * `lockoutSeconds`. Attempts on a blocked identifier are refused before they
+ * reach the service.
+ *
+ * An attempt is counted as a failure when it is admitted, in the same script
+ * that checks the block, so concurrent guesses cannot all slip in before the
+ * first one is rejected. A correct credential takes the count back, as does
+ * an attempt that ends without a verdict (e.g. the service was unavailable).
+ *
+ * Every throttling error carries the same details:
+ * `{ remaining_attempts, locked_until }` (locked_until is an ISO timestamp or null).
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { createHash } from 'crypto';
+import { config } from '../config';
+import { getRedisClient } from '../utils/redis';
+import { logger } from '../utils/logger';
+import { sendError } from '../utils/response-handler';
+
+const BRUTE_FORCE_PREFIX = 'bruteforce:';
+
+export type AttemptScope = 'otp' | 'pin' | 'password' | 'reauth';
+
+/**
+ * Identifiers of an attempt; missing ones are not tracked
+ */
+export interface AttemptIdentity {
+    phone?: string;
+    user?: string | number;
+    device?: string;
+}
+
+export interface AttemptState {
+    remainingAttempts: number;
+    lockedUntil: number | null;
+}
+
+/**
+ * Handed to the route handler, which knows whether the credential was wrong
+ */
+export interface AttemptTracker {
+    /** Count a wrong credential and send the uniform 401 (or 429 once locked out) */
+    reject(code: string, message: string): Promise<void>;
+    /** Forget earlier failures after a correct credential */
+    succeed(): Promise<void>;
+}
+
+/**
+ * Admit an attempt unless a subject is blocked or out of attempts, counting
+ * it against every subject. KEYS are each subject's fail and block keys in
+ * turn; ARGV is now (ms), the window in seconds, then each subject's limit.
+ * Returns { admitted, remaining attempts, locked until (ms), failures per subject }.
+ */
+export const ADMIT_ATTEMPT_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window_seconds = tonumber(ARGV[2])
+local subjects = #KEYS / 2
+
+local admitted = 1
+local remaining = nil
+local locked_until = 0
+for i = 1, subjects do
+    local fail_key = KEYS[i * 2 - 1]
+    local max_attempts = tonumber(ARGV[i + 2])
+    local fails = tonumber(redis.call('GET', fail_key)) or 0
+    local blocked = tonumber(redis.call('GET', KEYS[i * 2])) or 0
+
+    if blocked > now then
+        admitted = 0
+        locked_until = math.max(locked_until, blocked)
+    end
+    if fails >= max_attempts then
+        admitted = 0
+        locked_until = math.max(locked_until, now + math.max(0, redis.call('PTTL', fail_key)))
+    end
+    remaining = math.min(remaining or (max_attempts - fails), max_attempts - fails)
+end
+
+local failures = {}
+if admitted == 1 then
+    for i = 1, subjects do
+        failures[i] = redis.call('INCR', KEYS[i * 2 - 1])
+        if failures[i] == 1 then
+            redis.call('EXPIRE', KEYS[i * 2 - 1], window_seconds)
+        end
+    end
+    remaining = remaining - 1
+end
+return { admitted, math.max(0, remaining), locked_until, unpack(failures) }
+`;
+
+/**
+ * Take back one counted attempt from each key that still holds one
+ */
+export const RELEASE_ATTEMPT_SCRIPT = `
+for _, key in ipairs(KEYS) do
+    if (tonumber(redis.call('GET', key)) or 0) > 0 then
+        redis.call('DECR', key)
+    end
+end
+return 0
+`;
+
+interface Subject {
+    dimension: string;
+    maxAttempts: number;
+    failKey: string;
+    blockKey: string;
+}
+
+function subjectsFor(scope: AttemptScope, identity: AttemptIdentity, ip?: string): Subject[] {
+    const { maxAttempts, ipMaxAttempts } = config.bruteForce;
+    const values: Array<[string, string | number | undefined, number]> = [
+        ['phone', identity.phone, maxAttempts],
+        ['user', identity.user, maxAttempts],
+        ['device', identity.device, maxAttempts],
+        ['ip', ip, ipMaxAttempts],
+    ];
+
+    return values
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([dimension, value, max]) => {
+            // Identifiers are hashed to keep phone numbers and emails out of Redis keys
+            const id = createHash('sha256').update(String(value).toLowerCase()).digest('hex').slice(0, 32);
+            const base = `${BRUTE_FORCE_PREFIX}${scope}:${dimension}:${id}`;
+            return { dimension, maxAttempts: max, failKey: `${base}:fails`, blockKey: `${base}:blocked` };
+        });
+}
+
+/**
+ * Delay imposed after the given number of failures
+ */
+export function delayAfterFailures(failures: number): number {
+    const { freeAttempts, baseDelayMs, maxDelayMs } = config.bruteForce;
+    if (failures <= freeAttempts) {
+        return 0;
+    }
+    return Math.min(baseDelayMs * 2 ** (failures - freeAttempts - 1), maxDelayMs);
+}
+
+/**
+ * Send a throttling error with the uniform attempt details
+ */
+export function sendAttemptError(
+    res: Response,
+    statusCode: number,
+    code: string,
+    message: string,
+    state: AttemptState
+) {
+    return sendError(res, statusCode, code, message, {
+        remaining_attempts: state.remainingAttempts,
+        locked_until: state.lockedUntil ? new Date(state.lockedUntil).toISOString() : null,
+    });
+}
+
+async function admitAttempt(subjects: Subject[]): Promise<AttemptState & { admitted: boolean; failures: number[] }> {
+    if (subjects.length === 0) {
+        return { admitted: true, remainingAttempts: 0, lockedUntil: null, failures: [] };
+    }
+    const [admitted, remainingAttempts, lockedUntil, ...failures] = await getRedisClient().eval(
+        ADMIT_ATTEMPT_SCRIPT,
+        subjects.length * 2,
+        ...subjects.flatMap((subject) => [subject.failKey, subject.blockKey]),
+        Date.now(),
+        config.bruteForce.windowSeconds,
+        ...subjects.map((subject) => subject.maxAttempts)
+    ) as number[];
+
+    return {
+        admitted: admitted === 1,
+        remainingAttempts,
+        lockedUntil: lockedUntil || null,
+        failures,
+    };
+}
+
+async function releaseAttempt(failKeys: string[]): Promise<void> {
+    if (failKeys.length > 0) {
+        await getRedisClient().eval(RELEASE_ATTEMPT_SCRIPT, failKeys.length, ...failKeys);
+    }
+}
+
+/**
+ * Block each subject as its failures (already counted on admission) demand
+ */
+async function recordFailure(subjects: Subject[], failures: number[]): Promise<AttemptState & { lockedOut: boolean }> {
+    const redis = getRedisClient();
+    const { lockoutSeconds } = config.bruteForce;
+    const now = Date.now();
+
+    let remainingAttempts = Infinity;
+    let lockedUntil = 0;
+    let lockedOut = false;
+
+    for (const [i, subject] of subjects.entries()) {
+        const remaining = subject.maxAttempts - failures[i];
+        remainingAttempts = Math.min(remainingAttempts, remaining);
+
+        const blockMs = remaining <= 0 ? lockoutSeconds * 1000 : delayAfterFailures(failures[i]);
+        if (blockMs > 0) {
+            await redis.set(subject.blockKey, String(now + blockMs), 'PX', blockMs);
+            lockedUntil = Math.max(lockedUntil, now + blockMs);
+        }
+        if (remaining <= 0) {
+            // The count ends with the lockout, so the identifier starts afresh after it
+            await redis.pexpire(subject.failKey, lockoutSeconds * 1000);
+            lockedOut = true;
+            logger.warn({ dimension: subject.dimension, key: subject.failKey }, 'Brute-force lockout');
+        }
+    }
+
+    return {
+        remainingAttempts: Math.max(0, remainingAttempts),
+        lockedUntil: lockedUntil || null,
+        lockedOut,
+    };
+}
+
+/**
+ * Guard a credential-checking route.
+ *
+ * Refuses attempts from a blocked identifier with 429 TOO_MANY_ATTEMPTS and
+ * hands the route an AttemptTracker (see getAttemptTracker). Fails open when
+ * Redis is unavailable: the downstream lockout still applies.
+ */
+export function bruteForceGuard(
+    scope: AttemptScope,
+    identify: (req: Request) => AttemptIdentity
+): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        const subjects = subjectsFor(scope, identify(req), req.ip);
+
+        let failures: number[] | null = null;
+        try {
+            const state = await admitAttempt(subjects);
+            if (!state.admitted) {
+                return sendAttemptError(res, 429, 'TOO_MANY_ATTEMPTS',
+                    'Too many failed attempts. Please try again later.', state);
+            }
+            failures = state.failures;
+        } catch (error) {
+            logger.error({ error, scope }, 'Brute-force check failed');
+        }
+
+        // Until the handler gives a verdict the attempt counts as a failure
+        let settled = failures === null;
+        const settle = (): boolean => {
+            const first = !settled;
+            settled = true;
+            return first;
+        };
+
+        const tracker: AttemptTracker = {
+            reject: async (code, message) => {
+                if (!settle() || !failures) {
+                    return sendError(res, 401, code, message);
+                }
+                try {
+                    const state = await recordFailure(subjects, failures);
+                    if (state.lockedOut) {
+                        return sendAttemptError(res, 429, 'TOO_MANY_ATTEMPTS',
+                            'Too many failed attempts. Please try again later.', state);
+                    }
+                    return sendAttemptError(res, 401, code, message, state);
+                } catch (error) {
+                    logger.error({ error, scope }, 'Failed to record failed attempt');
+                    return sendError(res, 401, code, message);
+                }
+            },
+            succeed: async () => {
+                if (!settle()) {
+                    return;
+                }
+                // The IP counter only takes back this attempt: one valid
+                // account must not reset it
+                const cleared = subjects.filter((subject) => subject.dimension !== 'ip');
+                const ipKeys = subjects
+                    .filter((subject) => subject.dimension === 'ip')
+                    .map((subject) => subject.failKey);
+                try {
+                    if (cleared.length > 0) {
+                        await getRedisClient().del(...cleared.flatMap((subject) => [subject.failKey, subject.blockKey]));
+                    }
+                    await releaseAttempt(ipKeys);
+                } catch (error) {
+                    logger.error({ error, scope }, 'Failed to clear failed attempts');
+                }
+            },
+        };
+        res.locals.attempts = tracker;
+
+        res.once('close', () => {
+            if (settle()) {
+                releaseAttempt(subjects.map((subject) => subject.failKey)).catch((error) => {
+                    logger.error({ error, scope }, 'Failed to release attempt');
+                });
+            }
+        });
+
+        next();
+    };
+}
+
+/**
+ * Get the tracker installed by bruteForceGuard for this request
+ */
+export function getAttemptTracker(res: Response): AttemptTracker {
+    return res.locals.attempts as AttemptTracker;
+}
@@ -0,0 +1,90 @@
+/**
+ * Deprecation Middleware
+ *
+ * Marks a route, or a whole API version, as deprecated. Responses carry a
+ * Deprecation header (RFC 9745), a Sunset header once a removal date is set
+ * (RFC 8594) and a Link to the successor route. Every request is counted per
+ * app version, so the metrics show which app releases still call the route
+ * and when it can be removed.
+ *
+ * Deprecation middleware is tagged like policy and validation middleware, so
+ * the OpenAPI document marks the same routes deprecated.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { deprecatedRequestsTotal } from './monitoring';
+import { appVersion } from '../utils/app-version';
+
+export interface Deprecation {
+    /** Date the route was deprecated, e.g. 2026-10-19 */
+    since: string;
+    /** Date after which the route may be removed */
+    sunset?: string;
+    /** Path of the route that replaces it, e.g. /v1/buyers/orders */
+    successor?: string;
+}
+
+export const DEPRECATION_TAG = Symbol('deprecation');
+
+type TaggedHandler = RequestHandler & { [DEPRECATION_TAG]?: Deprecation };
+
+// The header is client-supplied, so only plain dotted versions become label values
+const VERSION_LABEL = /^\d{1,4}(\.\d{1,4}){0,2}$/;
+
+function parseDate(value: string, field: keyof Deprecation): Date {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+        throw new Error(`Invalid deprecation ${field} date: ${value}`);
+    }
+    return date;
+}
+
+function appVersionLabel(req: Request): string {
+    const version = appVersion(req)?.split(/[-+]/)[0];
+    return version && VERSION_LABEL.test(version) ? version : 'unknown';
+}
+
+/**
+ * Read the deprecation from a middleware function, if it has one
+ */
+export function getDeprecation(handler: unknown): Deprecation | undefined {
+    if (typeof handler !== 'function') {
+        return undefined;
+    }
+    return (handler as TaggedHandler)[DEPRECATION_TAG];
+}
+
+/**
+ * Mark the routes behind this middleware deprecated.
+ *
+ * The route keeps working after its sunset date; removing it is a separate
+ * change, made once the metrics show no supported app still calls it.
+ */
+export function deprecated(deprecation: Deprecation): RequestHandler {
+    const since = parseDate(deprecation.since, 'since');
+    const sunset = deprecation.sunset ? parseDate(deprecation.sunset, 'sunset') : undefined;
+    if (sunset && sunset < since) {
+        throw new Error(`Deprecation sunset ${deprecation.sunset} is before ${deprecation.since}`);
+    }
+
+    const middleware = (req: Request, res: Response, next: NextFunction) => {
+        res.setHeader('Deprecation', `@${Math.floor(since.getTime() / 1000)}`);
+        if (sunset) {
+            res.setHeader('Sunset', sunset.toUTCString());
+        }
+        if (deprecation.successor) {
+            res.append('Link', `<${deprecation.successor}>; rel="successor-version"`);
+        }
+
+        // Label once routing has finished, so version-wide deprecation still names the route
+        res.on('finish', () => {
+            const route = req.route ? `${req.baseUrl}${req.route.path}` : req.baseUrl || 'unmatched';
+            deprecatedRequestsTotal.labels(req.method, route, appVersionLabel(req)).inc();
+        });
+
+        next();
+    };
+
+    (middleware as TaggedHandler)[DEPRECATION_TAG] = deprecation;
+    return middleware;
+}
@@ -1,19 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
+import { ZodError } from 'zod';
 import { logger } from '../utils/logger';
-import { mapGrpcStatusToHttp } from '../utils/grpc-status-mapper';
-
-export interface ErrorResponse {
-    data: null;
-    meta: {
-        timestamp: string;
-        request_id: string;
-    };
-    error: {
-        code: string;
-        message: string;
-        details?: any;
-    };
-}
+import { toGatewayError } from '../grpc/errors';
+import { fieldViolations, sendError } from '../utils/response-handler';
 
 export const errorHandler = (err: any, req: Request, res: Response, next: NextFunction) => {
     const traceId = (res.getHeader('X-Trace-ID') as string) || (req.headers['x-trace-id'] as string);
@@ -28,34 +17,26 @@ export const errorHandler = (err: any, req: Request, res: Response, next: NextFu
 
     // Handle gRPC Errors
     if (err.code !== undefined && typeof err.code === 'number') {
-        statusCode = mapGrpcStatusToHttp(err.code);
-        errorCode = 'SERVICE_ERROR'; // Could map specific codes to strings if needed
-        message = err.details || err.message;
+        const grpcError = toGatewayError(err);
+        statusCode = grpcError.status;
+        errorCode = grpcError.code;
+        message = grpcError.message;
+        details = grpcError.details;
+        if (grpcError.retryAfterSeconds !== undefined) {
+            res.setHeader('Retry-After', String(grpcError.retryAfterSeconds));
+        }
     }
-    // Handle Zod Validation Errors (if attached directly, though usually handled in validation middleware)
-    else if (err.name === 'ZodError') {
+    // Handle Zod Validation Errors thrown by routes that parse inline
+    else if (err instanceof ZodError || err.name === 'ZodError') {
         statusCode = 400;
         errorCode = 'VALIDATION_ERROR';
         message = 'Validation failed';
-        details = err.issues;
+        details = { field_violations: fieldViolations(err) };
     }
     // Handle Standard Errors
     else if (err instanceof Error) {
         message = err.message;
     }
 
-    const response: ErrorResponse = {
-        data: null,
-        meta: {
-            timestamp: new Date().toISOString(),
-            request_id: traceId,
-        },
-        error: {
-            code: errorCode,
-            message,
-            details,
-        },
-    };
-
-    res.status(statusCode).json(response);
+    sendError(res, statusCode, errorCode, message, details);
 };
@@ -1,17 +1,131 @@
 import { Request, Response } from 'express';
+import { config } from '../config';
 import { logger } from '../utils/logger';
+import { getRedisClient } from '../utils/redis';
+import { getCircuitStates, CircuitState } from '../grpc/circuit-breaker';
+import { checkGrpcHealth } from '../grpc/health-client';
+import { Backend, backendAddress } from '../grpc/clients';
 
 export interface DependencyCheckResult {
     name: string;
     status: 'ok' | 'failed';
     latency?: number;
     error?: string;
+    /** A failed critical dependency fails readiness; others only degrade it */
+    critical?: boolean;
+    checkedAt?: string;
 }
 
 export interface HealthCheckResponse {
-    status: 'healthy' | 'unhealthy';
+    status: 'healthy' | 'degraded' | 'unhealthy';
     timestamp: string;
     checks?: Record<string, string>;
+    dependencies?: DependencyCheckResult[];
+    /** Downstream circuit breakers; an open circuit degrades one backend but does not fail readiness */
+    circuit_breakers?: Record<string, CircuitState>;
+}
+
+/**
+ * A dependency probed in the background for the readiness check
+ */
+export interface DependencyCheck {
+    name: string;
+    critical: boolean;
+    /** Resolves when the dependency is usable */
+    check: () => Promise<void>;
+}
+
+let dependencyChecks: DependencyCheck[] = [];
+const results = new Map<string, DependencyCheckResult>();
+let probeTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Redis plus every configured gRPC backend
+ */
+export function defaultDependencyChecks(): DependencyCheck[] {
+    const { services, health } = config;
+    const isCritical = (name: string) => health.criticalDependencies.includes(name);
+    const grpcBackends = (Object.keys(services) as Backend[]).map((name) => ({
+        name,
+        address: backendAddress(name),
+        security: services[name].security,
+    }));
+
+    return [
+        {
+            name: 'redis',
+            critical: isCritical('redis'),
+            check: async () => {
+                await getRedisClient().ping();
+            },
+        },
+        ...grpcBackends.map(({ name, address, security }) => ({
+            name,
+            critical: isCritical(name),
+            check: () => checkGrpcHealth(name, address, { security, timeoutMs: health.probeTimeoutMs }),
+        })),
+    ];
+}
+
+function withTimeout(promise: Promise<void>, timeoutMs: number): Promise<void> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Probe every dependency once and cache the results
+ */
+export async function probeDependencies(checks: DependencyCheck[] = dependencyChecks): Promise<void> {
+    await Promise.all(checks.map(async ({ name, critical, check }) => {
+        const start = Date.now();
+        let error: string | undefined;
+        try {
+            await withTimeout(check(), config.health.probeTimeoutMs);
+        } catch (err) {
+            error = err instanceof Error ? err.message : String(err);
+        }
+
+        const previous = results.get(name);
+        const result: DependencyCheckResult = {
+            name,
+            status: error ? 'failed' : 'ok',
+            latency: Date.now() - start,
+            error,
+            critical,
+            checkedAt: new Date().toISOString(),
+        };
+        if (previous?.status !== result.status) {
+            logger[error ? 'warn' : 'info']({ dependency: result }, 'Dependency health changed');
+        }
+        results.set(name, result);
+    }));
+}
+
+/**
+ * Start probing dependencies in the background so /ready answers from cache
+ */
+export function startDependencyProbes(checks: DependencyCheck[] = defaultDependencyChecks()): Promise<void> {
+    stopDependencyProbes();
+    dependencyChecks = checks;
+
+    probeTimer = setInterval(() => {
+        probeDependencies().catch((err) => logger.error({ err }, 'Dependency probe failed'));
+    }, config.health.probeIntervalMs);
+    probeTimer.unref();
+
+    return probeDependencies();
+}
+
+export function stopDependencyProbes(): void {
+    if (probeTimer) {
+        clearInterval(probeTimer);
+        probeTimer = null;
+    }
+    dependencyChecks = [];
+    results.clear();
 }
 
 /**
@@ -26,33 +140,36 @@ export const livenessHandler = (req: Request, res: Response) => {
 };
 
 /**
- * Readiness check - returns 200 only if ALL dependencies are accessible
- * Gateway service doesn't have database, only checks downstream gRPC services
+ * Readiness check - returns 200 unless a critical dependency is failing
+ * Answers from the cached background probe results, so it stays fast
  * Kubernetes uses this to determine if pod can receive traffic
  */
 export const createReadinessHandler = () => {
     return async (req: Request, res: Response) => {
-        const checks: DependencyCheckResult[] = [];
-        let allHealthy = true;
+        const checks: DependencyCheckResult[] = dependencyChecks.map(({ name, critical }) =>
+            results.get(name) ?? { name, status: 'failed', critical, error: 'Not probed yet' }
+        );
 
-        // TODO: Add gRPC service health checks (auth, catalog, order, etc.)
-        // For now, return healthy as gateway has no direct database dependencies
+        const failed = checks.filter((check) => check.status === 'failed');
+        const criticalFailed = failed.some((check) => check.critical);
 
         // Build standardized response
         const response: HealthCheckResponse = {
-            status: allHealthy ? 'healthy' : 'unhealthy',
+            status: criticalFailed ? 'unhealthy' : failed.length > 0 ? 'degraded' : 'healthy',
             timestamp: new Date().toISOString(),
             checks: checks.reduce((acc, check) => {
                 acc[check.name] = check.status;
                 return acc;
-            }, {} as Record<string, string>)
+            }, {} as Record<string, string>),
+            dependencies: checks,
+            circuit_breakers: getCircuitStates(),
         };
 
-        // Return 503 if any dependency failed
-        const statusCode = allHealthy ? 200 : 503;
+        // Return 503 only if a critical dependency failed
+        const statusCode = criticalFailed ? 503 : 200;
 
-        if (!allHealthy) {
-            logger.warn({ checks }, 'Readiness check failed');
+        if (failed.length > 0) {
+            logger.warn({ checks: failed }, 'Readiness check found failing dependencies');
         }
 
         res.status(statusCode).json(response);
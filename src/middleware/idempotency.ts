@@ -0,0 +1,125 @@
+/**
+ * Idempotency-Key Middleware
+ *
+ * Farmers on flaky 2G networks retry requests whose responses were lost.
+ * A client sends the same `Idempotency-Key` header on every retry of one
+ * logical request; the gateway runs the request once and replays the stored
+ * response for later retries.
+ *
+ * Keys are scoped to the caller, so mount after authMiddleware. Each key is
+ * stored in Redis with a fingerprint of the method, path and body:
+ * - a retry while the first request is still running gets 409
+ * - reusing a key with a different request gets 422
+ * - 5xx, 429 and 499 (cancelled) responses are not stored, and a request
+ *   whose client disconnects releases its key, so the client can retry them
+ *
+ * Requests without the header are not deduplicated. If Redis fails, the
+ * request runs without idempotency rather than being refused.
+ */
+
+import { createHash } from 'crypto';
+import { Response, NextFunction, RequestHandler } from 'express';
+import { config } from '../config';
+import { getRedisClient } from '../utils/redis';
+import { logger } from '../utils/logger';
+import { sendError } from '../utils/response-handler';
+import { AuthRequest } from './auth';
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+export const IDEMPOTENT_REPLAY_HEADER = 'Idempotent-Replayed';
+
+const IDEMPOTENCY_PREFIX = 'idempotency:';
+const VALID_KEY = /^[\x21-\x7e]{1,255}$/;
+
+// Outcomes a retry may change: rate limited, or cancelled (a gRPC CANCELLED)
+const TRANSIENT_STATUSES = new Set([429, 499]);
+
+type IdempotencyRecord =
+    | { state: 'processing'; fingerprint: string }
+    | { state: 'completed'; fingerprint: string; status: number; body: unknown };
+
+function fingerprintOf(req: AuthRequest): string {
+    return createHash('sha256')
+        .update(`${req.method} ${req.originalUrl.split('?')[0]}\n${JSON.stringify(req.body ?? null)}`)
+        .digest('hex');
+}
+
+/**
+ * Deduplicate retries of a mutating route by Idempotency-Key
+ */
+export function idempotency(): RequestHandler {
+    return async (req: AuthRequest, res: Response, next: NextFunction) => {
+        const idempotencyKey = req.headers[IDEMPOTENCY_KEY_HEADER];
+        if (idempotencyKey === undefined) {
+            return next();
+        }
+        if (typeof idempotencyKey !== 'string' || !VALID_KEY.test(idempotencyKey)) {
+            return sendError(res, 400, 'INVALID_IDEMPOTENCY_KEY',
+                'Idempotency-Key must be 1-255 printable ASCII characters');
+        }
+
+        const redis = getRedisClient();
+        const storeKey = `${IDEMPOTENCY_PREFIX}${req.user?.userId ?? 'anonymous'}:${idempotencyKey}`;
+        const fingerprint = fingerprintOf(req);
+
+        let claimed: 'OK' | null;
+        try {
+            const lock: IdempotencyRecord = { state: 'processing', fingerprint };
+            claimed = await redis.set(storeKey, JSON.stringify(lock), 'EX', config.idempotency.lockTtlSeconds, 'NX');
+
+            if (!claimed) {
+                const stored = await redis.get(storeKey);
+                if (stored) {
+                    const record = JSON.parse(stored) as IdempotencyRecord;
+                    if (record.fingerprint !== fingerprint) {
+                        return sendError(res, 422, 'IDEMPOTENCY_KEY_REUSED',
+                            'Idempotency-Key was already used for a different request');
+                    }
+                    if (record.state === 'processing') {
+                        res.setHeader('Retry-After', 1);
+                        return sendError(res, 409, 'REQUEST_IN_PROGRESS',
+                            'A request with this Idempotency-Key is still being processed');
+                    }
+                    res.setHeader(IDEMPOTENT_REPLAY_HEADER, 'true');
+                    return res.status(record.status).json(record.body);
+                }
+                // Expired between SET and GET; run without a claim
+            }
+        } catch (error) {
+            logger.error({ error }, 'Idempotency check failed; processing without it');
+            return next();
+        }
+
+        if (!claimed) {
+            return next();
+        }
+
+        // Capture the response body so retries can be answered from Redis
+        let responseBody: unknown;
+        const json = res.json.bind(res);
+        res.json = (body: unknown) => {
+            responseBody = body;
+            return json(body);
+        };
+
+        res.on('close', () => {
+            const completed = res.writableFinished
+                && res.statusCode < 500
+                && !TRANSIENT_STATUSES.has(res.statusCode);
+            const store = completed
+                ? redis.set(storeKey, JSON.stringify({
+                    state: 'completed',
+                    fingerprint,
+                    status: res.statusCode,
+                    body: responseBody ?? null,
+                } satisfies IdempotencyRecord), 'EX', config.idempotency.responseTtlSeconds)
+                : redis.del(storeKey);
+
+            store.catch((error: unknown) => {
+                logger.error({ error }, 'Failed to store idempotent response');
+            });
+        });
+
+        next();
+    };
+}
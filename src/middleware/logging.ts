@@ -1,12 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 import pinoHttp from 'pino-http';
-import { v4 as uuidv4 } from 'uuid';
 import { logger, asyncLocalStorage } from '../utils/logger';
+import { resolveTraceId } from '../utils/trace-context';
 
 export const requestLogger = pinoHttp({
     logger: logger as any,
-    genReqId: (req: Request) => {
-        const traceId = req.headers['x-trace-id'] as string || uuidv4();
+    genReqId: (req: Request, res: Response) => {
+        // Set by requestIdMiddleware; a client's X-Trace-ID is never used
+        const traceId = (res.getHeader('X-Trace-ID') as string) || resolveTraceId(req);
         // Attach traceId to request object for easy access if needed
         (req as any).id = traceId;
         return traceId;
@@ -35,11 +36,12 @@ export const requestLogger = pinoHttp({
 });
 
 export const traceIdMiddleware = (req: Request, res: Response, next: NextFunction) => {
-    const traceId = (req.headers['x-trace-id'] as string) || uuidv4();
+    const traceId = (res.getHeader('X-Trace-ID') as string) || resolveTraceId(req);
     (req as any).id = traceId;
+    req.headers['x-trace-id'] = traceId;
     res.setHeader('X-Trace-ID', traceId);
 
-    asyncLocalStorage.run({ traceId }, () => {
+    asyncLocalStorage.run({ traceId, request: req }, () => {
         next();
     });
 };
@@ -25,11 +25,19 @@ export const httpRequestTotal = new client.Counter({
 });
 register.registerMetric(httpRequestTotal);
 
-// Gateway has gRPC client metrics (outbound calls)
+// Usage of deprecated routes per app version, to tell when a route can be removed
+export const deprecatedRequestsTotal = new client.Counter({
+    name: 'http_deprecated_requests_total',
+    help: 'Requests to deprecated routes',
+    labelNames: ['method', 'route', 'app_version']
+});
+register.registerMetric(deprecatedRequestsTotal);
+
+// Gateway has gRPC client metrics (outbound calls); route is the HTTP route that made the call
 export const grpcClientDuration = new client.Histogram({
     name: 'grpc_client_duration_seconds',
     help: 'Duration of outbound gRPC client calls',
-    labelNames: ['service', 'method', 'status_code'],
+    labelNames: ['service', 'method', 'status_code', 'route'],
     buckets: [0.001, 0.01, 0.1, 0.5, 1, 2, 5, 10]
 });
 register.registerMetric(grpcClientDuration);
@@ -37,10 +45,39 @@ register.registerMetric(grpcClientDuration);
 export const grpcClientTotal = new client.Counter({
     name: 'grpc_client_total',
     help: 'Total outbound gRPC client calls',
-    labelNames: ['service', 'method', 'status_code']
+    labelNames: ['service', 'method', 'status_code', 'route']
 });
 register.registerMetric(grpcClientTotal);
 
+export const grpcClientMessageSize = new client.Histogram({
+    name: 'grpc_client_message_size_bytes',
+    help: 'Serialized size of outbound gRPC request and response messages',
+    labelNames: ['service', 'method', 'direction'],
+    buckets: [64, 256, 1024, 4096, 16384, 65536, 262144, 1048576]
+});
+register.registerMetric(grpcClientMessageSize);
+
+export const grpcClientRetries = new client.Counter({
+    name: 'grpc_client_retries_total',
+    help: 'Retry attempts of outbound gRPC calls, beyond the first attempt',
+    labelNames: ['service', 'method', 'route']
+});
+register.registerMetric(grpcClientRetries);
+
+export const circuitBreakerState = new client.Gauge({
+    name: 'grpc_circuit_breaker_state',
+    help: 'Circuit breaker state per downstream service (0 closed, 1 half-open, 2 open)',
+    labelNames: ['service']
+});
+register.registerMetric(circuitBreakerState);
+
+export const circuitBreakerRejections = new client.Counter({
+    name: 'grpc_circuit_breaker_rejections_total',
+    help: 'Outbound gRPC calls rejected by an open circuit breaker',
+    labelNames: ['service']
+});
+register.registerMetric(circuitBreakerRejections);
+
 // Active connections gauge (for real-time tracking - NFR-P2)
 export const activeWebsocketConnections = new client.Gauge({
     name: 'active_websocket_connections',
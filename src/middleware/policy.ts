@@ -0,0 +1,107 @@
+/**
+ * Access Policy Middleware
+ *
+ * Lets each router or route declare who may call it. A policy lists the
+ * accepted user types, roles, buyer team roles and scopes; every listed
+ * dimension must match (any value within a dimension is enough). Denials
+ * always return 403 FORBIDDEN so clients handle one code.
+ *
+ * Policy middleware is tagged with the policy it enforces, so tests can walk
+ * the route table and check that every route declares one.
+ */
+
+import { Response, NextFunction, RequestHandler } from 'express';
+import { AuthRequest, Principal } from './auth';
+import { sendError } from '../utils/response-handler';
+
+export interface AccessPolicy {
+    /** Accepted user types, e.g. FARMER, BUYER */
+    userTypes?: string[];
+    /** Accepted platform roles, e.g. DISTRICT_MANAGER */
+    roles?: string[];
+    /** Accepted buyer organisation team roles, e.g. ADMIN */
+    teamRoles?: string[];
+    /** Scopes the caller must hold (all of them) */
+    scopes?: string[];
+}
+
+/**
+ * Marker stored on policy middleware
+ */
+export type PolicyTag = { public: true } | { public: false; policy: AccessPolicy };
+
+export const POLICY_TAG = Symbol('accessPolicy');
+
+type TaggedHandler = RequestHandler & { [POLICY_TAG]?: PolicyTag };
+
+/**
+ * Platform administrators, used by the /admin routers
+ */
+export const ADMIN_POLICY: AccessPolicy = { roles: ['DISTRICT_MANAGER', 'ADMIN'] };
+
+function tag<T extends RequestHandler>(handler: T, policyTag: PolicyTag): T {
+    (handler as TaggedHandler)[POLICY_TAG] = policyTag;
+    return handler;
+}
+
+/**
+ * Read the policy tag from a middleware function, if it has one
+ */
+export function getPolicyTag(handler: unknown): PolicyTag | undefined {
+    if (typeof handler !== 'function') {
+        return undefined;
+    }
+    return (handler as TaggedHandler)[POLICY_TAG];
+}
+
+/**
+ * Check a principal against a policy
+ */
+export function isAllowed(user: Principal, policy: AccessPolicy): boolean {
+    if (policy.userTypes && !policy.userTypes.includes(user.userType)) {
+        return false;
+    }
+
+    if (policy.roles && !policy.roles.some((role) => user.roles?.includes(role))) {
+        return false;
+    }
+
+    if (policy.teamRoles && (!user.teamRole || !policy.teamRoles.includes(user.teamRole))) {
+        return false;
+    }
+
+    if (policy.scopes && !policy.scopes.every((scope) => user.scopes?.includes(scope))) {
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Require the verified caller to satisfy a policy.
+ *
+ * Must run after authMiddleware. An empty policy admits any verified caller.
+ */
+export function requirePolicy(policy: AccessPolicy): RequestHandler {
+    const middleware = (req: AuthRequest, res: Response, next: NextFunction) => {
+        if (!req.user) {
+            return sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
+        }
+
+        if (!isAllowed(req.user, policy)) {
+            return sendError(res, 403, 'FORBIDDEN', 'You do not have access to this resource');
+        }
+
+        next();
+    };
+
+    return tag(middleware, { public: false, policy });
+}
+
+/**
+ * Declare a route as intentionally public (no token required)
+ */
+export function allowPublic(): RequestHandler {
+    const middleware = (_req: AuthRequest, _res: Response, next: NextFunction) => next();
+    return tag(middleware, { public: true });
+}
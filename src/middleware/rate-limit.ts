@@ -1,40 +1,170 @@
-import { Request, Response, NextFunction } from 'express';
-import Redis from 'ioredis';
+/**
+ * Rate Limiting Middleware
+ *
+ * Token-bucket rate limiting with a budget per route group. Each bucket
+ * holds up to `limit` requests and refills evenly over `windowSeconds`, so
+ * clients get short bursts but a steady long-run rate. The refill and take
+ * run as one Lua script in Redis, so every gateway instance shares the same
+ * buckets without races.
+ *
+ * Buckets are keyed by the policy's dimensions (IP, user, device, phone,
+ * buyer organisation, API key). Mount the middleware after authMiddleware on routes
+ * keyed by user or organisation; on public routes those dimensions are absent.
+ *
+ * Responses carry the IETF `RateLimit-*` headers; a rejection also carries
+ * `Retry-After`. If Redis fails, each policy either lets the request through
+ * (fail open) or returns 503 (fail closed).
+ */
+
+import { Response, NextFunction, RequestHandler } from 'express';
 import { config } from '../config';
+import { getRedisClient } from '../utils/redis';
 import { logger } from '../utils/logger';
+import { sendError } from '../utils/response-handler';
+import { AuthRequest } from './auth';
 
-// Initialize Redis client
-const redis = new Redis(config.redisUrl);
+export type RateLimitDimension = 'ip' | 'user' | 'device' | 'phone' | 'buyerOrg' | 'apiKey';
 
-redis.on('error', (err) => {
-    logger.error({ err }, 'Redis connection error');
-});
+export interface RateLimitPolicy {
+    name: string;
+    /** Bucket size: the most requests allowed in a burst */
+    limit: number;
+    /** Time for an empty bucket to refill completely */
+    windowSeconds: number;
+    /** Identifiers combined into the bucket key */
+    keyBy: RateLimitDimension[];
+    /** Let requests through when Redis is unavailable */
+    failOpen: boolean;
+}
 
-const WINDOW_SIZE_IN_HOURS = 1;
-const MAX_WINDOW_REQUEST_COUNT = 1000;
-const WINDOW_LOG_INTERVAL_IN_HOURS = 1;
+/**
+ * Route group policies. Budgets come from config.rateLimits.
+ */
+export const RATE_LIMIT_POLICIES = {
+    // OTP sends cost money per SMS; fail closed. Mount both: the phone bucket
+    // caps SMS to one number, the larger IP bucket caps one client spraying
+    // many numbers. Neither is keyed by device, which the client chooses.
+    OTP_PHONE: { name: 'otp-phone', keyBy: ['phone'], ...config.rateLimits.otp },
+    OTP_IP: { name: 'otp-ip', keyBy: ['ip'], ...config.rateLimits.otpIp },
+    LISTING_CREATE: { name: 'listing-create', keyBy: ['user', 'device'], ...config.rateLimits.listingCreate },
+    INVENTORY_BROWSE: { name: 'inventory-browse', keyBy: ['buyerOrg', 'user'], ...config.rateLimits.inventoryBrowse },
+    ADMIN: { name: 'admin', keyBy: ['user', 'ip'], ...config.rateLimits.admin },
+} satisfies Record<string, RateLimitPolicy>;
 
-export const rateLimitMiddleware = async (req: Request, res: Response, next: NextFunction) => {
-    try {
-        // Identify tenant/user. Use IP if no user (e.g. public routes), or user ID if auth.
-        // For simplicity, we'll use IP for now, or user ID if available.
-        const key = (req as any).user ? `rate-limit:${(req as any).user.id}` : `rate-limit:${req.ip}`;
+/**
+ * KEYS[1] bucket; ARGV: limit, window in ms, cost.
+ * Returns { allowed (0|1), tokens left, ms until retry, ms until full }.
+ */
+export const TOKEN_BUCKET_SCRIPT = `
+local limit = tonumber(ARGV[1])
+local window_ms = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
 
-        const currentRequestCount = await redis.incr(key);
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local rate = limit / window_ms
+local tokens = tonumber(state[1]) or limit
+local ts = tonumber(state[2]) or now
+tokens = math.min(limit, tokens + math.max(0, now - ts) * rate)
 
-        if (currentRequestCount === 1) {
-            await redis.expire(key, WINDOW_SIZE_IN_HOURS * 60 * 60);
-        }
+local allowed = 0
+if tokens >= cost then
+    tokens = tokens - cost
+    allowed = 1
+end
+
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], window_ms)
 
-        if (currentRequestCount > MAX_WINDOW_REQUEST_COUNT) {
-            return next({ code: 429, message: 'Too many requests' });
+local retry_ms = 0
+if allowed == 0 then
+    retry_ms = math.ceil((cost - tokens) / rate)
+end
+return { allowed, math.floor(tokens), retry_ms, math.ceil((limit - tokens) / rate) }
+`;
+
+function dimensionValue(req: AuthRequest, dimension: RateLimitDimension): string | undefined {
+    switch (dimension) {
+        case 'ip':
+            // The client address only through the proxies in config.trustProxy;
+            // otherwise X-Forwarded-For is ignored, so it cannot be spoofed
+            return req.ip;
+        case 'user':
+            return req.user ? String(req.user.userId) : undefined;
+        case 'device': {
+            const device = req.headers['x-device-id'] ?? req.body?.device_id;
+            return typeof device === 'string' && device ? device : undefined;
+        }
+        case 'phone': {
+            const phone = req.body?.phone_number ?? req.body?.phoneNumber ?? req.body?.mobile_number;
+            // Last ten digits, so "+91 98765 43210" and "9876543210" share a bucket
+            const digits = typeof phone === 'string' ? phone.replace(/\D/g, '').slice(-10) : '';
+            return digits || undefined;
         }
+        case 'buyerOrg':
+            return req.user?.buyerOrgId !== undefined ? String(req.user.buyerOrgId) : undefined;
+        case 'apiKey':
+            return req.user?.apiKeyId;
+    }
+}
+
+/**
+ * Bucket key for a request; dimensions the request lacks are left out
+ */
+export function rateLimitKey(policy: RateLimitPolicy, req: AuthRequest): string {
+    const parts = policy.keyBy
+        .map((dimension) => [dimension, dimensionValue(req, dimension)])
+        .filter(([, value]) => value !== undefined)
+        .map(([dimension, value]) => `${dimension}=${value}`);
 
-        next();
+    return `ratelimit:${policy.name}:${parts.join('|') || 'anonymous'}`;
+}
+
+/**
+ * Take one request from the policy's bucket. Returns false after answering
+ * the request itself when it is over budget or the limiter is unavailable.
+ */
+export async function consumeRateLimit(policy: RateLimitPolicy, req: AuthRequest, res: Response): Promise<boolean> {
+    let result: [number, number, number, number];
+    try {
+        result = await getRedisClient().eval(
+            TOKEN_BUCKET_SCRIPT, 1, rateLimitKey(policy, req), policy.limit, policy.windowSeconds * 1000, 1
+        ) as [number, number, number, number];
     } catch (error) {
-        logger.error({ error }, 'Rate limit error');
-        // Fail open if Redis is down? Or fail closed?
-        // Usually fail open for rate limiting to avoid blocking legit traffic if cache is down.
-        next();
+        logger.error({ error, policy: policy.name }, 'Rate limit check failed');
+        if (policy.failOpen) {
+            return true;
+        }
+        sendError(res, 503, 'RATE_LIMIT_UNAVAILABLE', 'Please try again shortly');
+        return false;
+    }
+
+    const [allowed, remaining, retryMs, resetMs] = result;
+    res.setHeader('RateLimit-Policy', `${policy.limit};w=${policy.windowSeconds}`);
+    res.setHeader('RateLimit-Limit', policy.limit);
+    res.setHeader('RateLimit-Remaining', remaining);
+    res.setHeader('RateLimit-Reset', Math.ceil(resetMs / 1000));
+
+    if (!allowed) {
+        const retryAfter = Math.ceil(retryMs / 1000);
+        res.setHeader('Retry-After', retryAfter);
+        sendError(res, 429, 'RATE_LIMITED', 'Too many requests', {
+            policy: policy.name,
+            retry_after_seconds: retryAfter,
+        });
+        return false;
     }
-};
+    return true;
+}
+
+/**
+ * Enforce a policy's budget on a route
+ */
+export function rateLimit(policy: RateLimitPolicy): RequestHandler {
+    return async (req: AuthRequest, res: Response, next: NextFunction) => {
+        if (await consumeRateLimit(policy, req, res)) {
+            next();
+        }
+    };
+}
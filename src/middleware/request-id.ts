@@ -1,9 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
-import { randomUUID } from 'crypto';
+import { context } from '@opentelemetry/api';
+import { resolveTraceId, setTraceResponseHeaders } from '../utils/trace-context';
 
 export const requestIdMiddleware = (req: Request, res: Response, next: NextFunction) => {
-    const traceId = (req.headers['x-trace-id'] as string) || randomUUID();
+    const traceId = resolveTraceId(req);
     req.headers['x-trace-id'] = traceId;
     res.setHeader('X-Trace-ID', traceId);
+    setTraceResponseHeaders(res, context.active());
     next();
 };
@@ -0,0 +1,158 @@
+/**
+ * Story 2.8: Step-up Re-authentication (AC8)
+ *
+ * Critical actions demand a fresh re-auth on top of a valid access token.
+ * The app calls /v1/auth/reauth/initiate and /v1/auth/reauth/verify for the
+ * action, then repeats the request with the re-auth token in the
+ * X-Reauth-Token header.
+ *
+ * A successful verify records a proof in Redis bound to the user, session and
+ * action; the header alone proves nothing. Each proof unlocks one request:
+ * it is taken out of Redis with GETDEL as it is checked, so concurrent
+ * requests cannot share it. The check runs right before the handler, after
+ * request validation, so a request rejected for bad input leaves the proof
+ * for the corrected retry. Unused proofs expire after
+ * `config.reauth.proofTtlSeconds`.
+ */
+
+import { Response, NextFunction, RequestHandler } from 'express';
+import { createHash } from 'crypto';
+import { config } from '../config';
+import { getRedisClient } from '../utils/redis';
+import { sendError } from '../utils/response-handler';
+import { AuthRequest } from './auth';
+
+/**
+ * Actions guarded by step-up re-authentication
+ */
+export const REAUTH_ACTIONS = {
+    CHANGE_PAYMENT_DETAILS: 'CHANGE_PAYMENT_DETAILS',
+    CONFIRM_PROFILE_CHANGE: 'CONFIRM_PROFILE_CHANGE',
+    CHANGE_TEAM_ROLE: 'CHANGE_TEAM_ROLE',
+    DEACTIVATE_AGENT: 'DEACTIVATE_AGENT',
+    CANCEL_ORDER: 'CANCEL_ORDER',
+} as const;
+
+export type ReauthAction = typeof REAUTH_ACTIONS[keyof typeof REAUTH_ACTIONS];
+
+export const REAUTH_PROOF_HEADER = 'x-reauth-token';
+
+const REAUTH_PROOF_PREFIX = 'reauth:proof:';
+
+interface ReauthProof {
+    userId: number;
+    sessionId?: number;
+    action: string;
+    verifiedAt: number;
+}
+
+function proofKey(reauthToken: string): string {
+    return `${REAUTH_PROOF_PREFIX}${createHash('sha256').update(reauthToken).digest('hex')}`;
+}
+
+/**
+ * Re-auth methods the app may offer a user type
+ */
+export function reauthMethodsFor(userType: string): string[] {
+    return userType === 'BUYER' ? ['PASSWORD', 'OTP'] : ['PIN', 'OTP'];
+}
+
+/**
+ * Record a verified re-auth so the guarded request can present it
+ */
+export async function recordReauthProof(
+    reauthToken: string,
+    proof: Omit<ReauthProof, 'verifiedAt'>
+): Promise<number> {
+    const ttlSeconds = config.reauth.proofTtlSeconds;
+    const record: ReauthProof = { ...proof, verifiedAt: Date.now() };
+
+    await getRedisClient().set(proofKey(reauthToken), JSON.stringify(record), 'EX', ttlSeconds);
+    return ttlSeconds;
+}
+
+/**
+ * Take the presented proof out of Redis and check it is for `action`. On a
+ * missing or mismatched proof the request is answered with 403
+ * REAUTH_REQUIRED, listing the action and the methods it may re-auth with,
+ * and false is returned.
+ */
+async function consumeReauthProof(
+    action: ReauthAction,
+    req: Pick<AuthRequest, 'user' | 'headers'>,
+    res: Response
+): Promise<boolean> {
+    const user = req.user;
+    if (!user) {
+        sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
+        return false;
+    }
+
+    const reauthRequired = () => {
+        sendError(res, 403, 'REAUTH_REQUIRED', 'Re-authentication is required for this action', {
+            action,
+            allowed_methods: reauthMethodsFor(user.userType),
+            proof_header: 'X-Reauth-Token',
+        });
+        return false;
+    };
+
+    const reauthToken = req.headers[REAUTH_PROOF_HEADER];
+    if (typeof reauthToken !== 'string' || !reauthToken) {
+        return reauthRequired();
+    }
+
+    const stored = await getRedisClient().getdel(proofKey(reauthToken));
+    if (!stored) {
+        return reauthRequired();
+    }
+
+    const proof = JSON.parse(stored) as ReauthProof;
+    const sameSession = proof.sessionId === undefined || proof.sessionId === user.sessionId;
+    if (proof.userId !== user.userId || proof.action !== action || !sameSession) {
+        return reauthRequired();
+    }
+    return true;
+}
+
+/**
+ * Require a fresh re-auth proof for `action`.
+ *
+ * Must run after authMiddleware, as the last middleware before the handler.
+ * The presented proof is consumed whether or not it matches. Routes that
+ * validate their input wrap the handler with withReauth() instead.
+ */
+export function requireReauth(action: ReauthAction): RequestHandler {
+    return async (req: AuthRequest, res: Response, next: NextFunction) => {
+        try {
+            if (await consumeReauthProof(action, req, res)) {
+                next();
+            }
+        } catch (err) {
+            // Fail closed: a critical action never proceeds unchecked
+            next(err);
+        }
+    };
+}
+
+/**
+ * Wrap a handler so it runs only with a fresh re-auth proof for `action`,
+ * e.g. validated(schemas, withReauth(action, handler)). The proof is
+ * consumed after validation has passed.
+ */
+export function withReauth<Req extends Pick<AuthRequest, 'user' | 'headers'>>(
+    action: ReauthAction,
+    handler: (req: Req, res: Response, next: NextFunction) => unknown
+): (req: Req, res: Response, next: NextFunction) => Promise<unknown> {
+    return async (req, res, next) => {
+        try {
+            if (!(await consumeReauthProof(action, req, res))) {
+                return;
+            }
+        } catch (err) {
+            // Fail closed: a critical action never proceeds unchecked
+            return next(err);
+        }
+        return handler(req, res, next);
+    };
+}
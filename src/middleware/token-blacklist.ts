@@ -1,47 +1,45 @@
 /**
- * Story 2.8: Token Blacklist Middleware
+ * Story 2.8: Token Blacklist
  *
- * Checks if a JWT token is blacklisted (invalidated) before allowing access.
- * This is used for immediate token invalidation on:
+ * Immediate token invalidation on:
  * - Logout (AC1)
  * - Remote session revocation (AC4)
  * - Logout from all devices (AC5)
  *
- * Uses Redis for O(1) lookup of blacklisted token hashes.
+ * Blacklisted token hashes live in Redis. A whole session (every token issued
+ * for it) is revoked with a session key in the same keyspace, e.g. when a
+ * refresh token is reused.
+ *
+ * Redis is the source of truth. Each gateway replica keeps an in-process LRU
+ * of keys it knows are revoked, filled by its own revocations, events on a
+ * pub/sub channel and earlier lookups, so a known-revoked token is rejected
+ * without a Redis round trip. The LRU only ever answers "revoked": on a miss
+ * authMiddleware asks Redis, so an evicted entry or a key the auth-service
+ * wrote directly is still enforced.
  */
 
-import { Request, Response, NextFunction } from 'express';
 import { createHash } from 'crypto';
+import jwt from 'jsonwebtoken';
 import { Redis } from 'ioredis';
-import { logger } from '../utils/logger';
 import { config } from '../config';
-
-// Redis client for token blacklist
-let redisClient: Redis | null = null;
+import { logger } from '../utils/logger';
+import { getRedisClient } from '../utils/redis';
+import { LruCache } from '../utils/lru-cache';
 
 /**
- * Get or create Redis client for blacklist checks
+ * Token blacklist key prefix - must match auth-service TokenBlacklistService
  */
-function getRedisClient(): Redis {
-    if (!redisClient) {
-        const redisUrl = process.env.REDIS_URL || process.env.VALKEY_URL || 'redis://localhost:6379';
-        redisClient = new Redis(redisUrl, {
-            enableOfflineQueue: true,
-            maxRetriesPerRequest: 3,
-            lazyConnect: true,
-        });
-
-        redisClient.on('error', (err) => {
-            logger.error({ err }, 'Token blacklist Redis connection error');
-        });
-    }
-    return redisClient;
-}
+const TOKEN_BLACKLIST_PREFIX = 'token:blacklist:';
 
 /**
- * Token blacklist key prefix - must match auth-service TokenBlacklistService
+ * Channel announcing new blacklist keys as `{ key, ttlMs }`. The auth-service
+ * publishes here too when it blacklists a token.
  */
-const TOKEN_BLACKLIST_PREFIX = 'token:blacklist:';
+export const TOKEN_BLACKLIST_CHANNEL = 'token:blacklist:events';
+
+const revoked = new LruCache<true>(config.tokenBlacklist.cacheMaxEntries);
+
+let subscriber: Redis | null = null;
 
 /**
  * Hash a token for consistent blacklist lookup
@@ -50,82 +48,145 @@ function hashToken(token: string): string {
     return createHash('sha256').update(token).digest('hex');
 }
 
-export interface AuthRequest extends Request {
-    user?: {
-        userId: number;
-        userType?: string;
-        sessionId?: number;
-        phone?: string;
-        [key: string]: unknown;
-    };
+function tokenBlacklistKey(token: string): string {
+    return `${TOKEN_BLACKLIST_PREFIX}${hashToken(token)}`;
+}
+
+function sessionBlacklistKey(sessionId: number): string {
+    return `${TOKEN_BLACKLIST_PREFIX}session:${sessionId}`;
 }
 
 /**
- * Middleware to check if token is blacklisted
- *
- * This should be used AFTER initial JWT validation but BEFORE
- * granting access to protected resources.
- *
- * Flow:
- * 1. Extract token from Authorization header
- * 2. Hash the token
- * 3. Check Redis for existence of blacklist key
- * 4. If blacklisted, reject with 401
- * 5. If not blacklisted, continue to next middleware
+ * Seconds until a token expires, or undefined when it carries no expiry
+ */
+function remainingLifetimeSeconds(token: string): number | undefined {
+    const decoded = jwt.decode(token);
+    const exp = decoded && typeof decoded === 'object' ? decoded.exp : undefined;
+    return exp ? Math.ceil(exp - Date.now() / 1000) : undefined;
+}
+
+/**
+ * Cache a blacklist key locally. `ttlMs` follows PTTL semantics:
+ * -1 means no expiry, -2 means the key is gone.
+ */
+function remember(key: string, ttlMs: number): void {
+    if (ttlMs === -2 || ttlMs === 0) {
+        return;
+    }
+    revoked.set(key, true, ttlMs > 0 ? Date.now() + ttlMs : undefined);
+}
+
+/**
+ * Store a blacklist key, cache it locally and announce it to other replicas
+ */
+async function blacklist(key: string, ttlSeconds: number): Promise<void> {
+    remember(key, ttlSeconds * 1000);
+
+    const redis = getRedisClient();
+    await redis.set(key, Date.now().toString(), 'EX', ttlSeconds);
+    await redis.publish(TOKEN_BLACKLIST_CHANNEL, JSON.stringify({ key, ttlMs: ttlSeconds * 1000 }));
+}
+
+/**
+ * Blacklist a single access token for the rest of its lifetime (logout)
+ */
+export async function revokeToken(token: string): Promise<void> {
+    const ttlSeconds = remainingLifetimeSeconds(token) ?? config.jwt.accessTokenTtlSeconds;
+
+    if (ttlSeconds <= 0) {
+        return;
+    }
+    await blacklist(tokenBlacklistKey(token), ttlSeconds);
+}
+
+/**
+ * Revoke every token belonging to a session. The key must outlive the
+ * longest-lived token of the session, so callers pass the refresh token TTL.
  */
-export const tokenBlacklistMiddleware = async (
-    req: AuthRequest,
-    res: Response,
-    next: NextFunction
-): Promise<void> => {
+export async function revokeSession(sessionId: number, ttlSeconds: number): Promise<void> {
+    await blacklist(sessionBlacklistKey(sessionId), ttlSeconds);
+    logger.warn({ sessionId }, 'Session revoked');
+}
+
+/**
+ * Check whether a session has been revoked, asking Redis directly.
+ * Used off the request hot path, where the authoritative answer matters more
+ * than the round trip.
+ */
+export async function isSessionRevoked(sessionId: number): Promise<boolean> {
+    return (await getRedisClient().exists(sessionBlacklistKey(sessionId))) > 0;
+}
+
+/**
+ * Check a token and its session against the blacklist: the local cache
+ * first, then Redis. Fails open when Redis is unreachable, for availability.
+ */
+export async function isTokenRevoked(token: string, sessionId?: number): Promise<boolean> {
+    const keys = [tokenBlacklistKey(token)];
+    if (sessionId !== undefined) {
+        keys.push(sessionBlacklistKey(sessionId));
+    }
+    if (keys.some((key) => revoked.has(key))) {
+        return true;
+    }
+
     try {
-        // Skip if no authorization header
-        const authHeader = req.headers.authorization;
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-            // Let auth middleware handle missing token
-            return next();
+        if ((await getRedisClient().exists(...keys)) === 0) {
+            return false;
         }
+    } catch (error) {
+        logger.error({ error }, 'Token blacklist check failed');
+        return false;
+    }
 
-        const token = authHeader.slice(7); // Remove 'Bearer '
-        if (!token) {
-            return next();
-        }
+    // Whichever key matched, this token stays revoked until it expires
+    const ttlSeconds = remainingLifetimeSeconds(token) ?? config.jwt.accessTokenTtlSeconds;
+    remember(keys[0], ttlSeconds * 1000);
+    return true;
+}
+
+function handleBlacklistEvent(channel: string, message: string): void {
+    if (channel !== TOKEN_BLACKLIST_CHANNEL) {
+        return;
+    }
 
-        // Hash the token for lookup
-        const tokenHash = hashToken(token);
-
-        // Check Redis blacklist
-        const redis = getRedisClient();
-        const isBlacklisted = await redis.exists(`${TOKEN_BLACKLIST_PREFIX}${tokenHash}`);
-
-        if (isBlacklisted) {
-            logger.info({ tokenHash: tokenHash.slice(0, 8) }, 'Blacklisted token rejected');
-            res.status(401).json({
-                success: false,
-                error: {
-                    code: 'TOKEN_INVALIDATED',
-                    message: 'Session has been logged out. Please login again.',
-                },
-            });
+    try {
+        const event = JSON.parse(message) as { key?: unknown; ttlMs?: unknown };
+        if (typeof event.key !== 'string' || !event.key.startsWith(TOKEN_BLACKLIST_PREFIX)) {
             return;
         }
-
-        // Token not blacklisted, continue
-        next();
+        remember(event.key, typeof event.ttlMs === 'number' ? event.ttlMs : -1);
     } catch (error) {
-        // Log error but don't block request - fail open for availability
-        // In production, consider failing closed for security
-        logger.error({ error }, 'Token blacklist check failed');
-        next();
+        logger.warn({ error }, 'Ignoring malformed token blacklist event');
+    }
+}
+
+/**
+ * Subscribe to revocation events, so revocations made elsewhere are cached
+ * before anyone presents the token
+ */
+export async function startBlacklistSync(): Promise<void> {
+    if (subscriber) {
+        return;
     }
-};
+
+    subscriber = getRedisClient().duplicate();
+    subscriber.on('message', handleBlacklistEvent);
+    subscriber.on('error', (error) => {
+        logger.error({ error }, 'Token blacklist subscriber error');
+    });
+
+    await subscriber.subscribe(TOKEN_BLACKLIST_CHANNEL);
+}
 
 /**
- * Close Redis connection gracefully
+ * Stop listening for revocation events and drop the local cache
  */
-export const closeBlacklistRedis = async (): Promise<void> => {
-    if (redisClient) {
-        await redisClient.quit();
-        redisClient = null;
+export async function stopBlacklistSync(): Promise<void> {
+    if (subscriber) {
+        const closing = subscriber;
+        subscriber = null;
+        await closing.quit();
     }
-};
+    revoked.clear();
+}
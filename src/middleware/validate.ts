@@ -0,0 +1,139 @@
+/**
+ * Request Validation Middleware
+ *
+ * Routes declare zod schemas for the parts of the request they read and
+ * validate() parses them before the handler runs. The parsed values replace
+ * req.params, req.query and req.body, so coercions and defaults reach the
+ * handler; parsed headers are merged into req.headers. A request that fails
+ * is answered 400 VALIDATION_ERROR listing every failing field, in every
+ * part, and the handler never runs.
+ *
+ * Validation middleware is tagged with its schemas, so the route table can
+ * be documented and tested from the same declarations.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { IncomingHttpHeaders } from 'http';
+import { z } from 'zod';
+import { Principal } from './auth';
+import { sendValidationError } from '../utils/response-handler';
+
+/**
+ * Schemas for the parts of a request a route reads
+ */
+export interface RequestSchemas {
+    params?: z.ZodType;
+    query?: z.ZodType;
+    headers?: z.ZodType;
+    body?: z.ZodType;
+}
+
+type RequestPart = keyof RequestSchemas;
+
+type Parsed<S extends RequestSchemas, K extends RequestPart, Otherwise> =
+    S[K] extends z.ZodType ? z.output<S[K]> : Otherwise;
+
+/**
+ * A request that passed validate(schemas), with each declared part parsed
+ */
+export interface ValidatedRequest<S extends RequestSchemas> extends Request<
+    Parsed<S, 'params', Request['params']>,
+    any,
+    Parsed<S, 'body', any>,
+    Parsed<S, 'query', Request['query']>
+> {
+    headers: IncomingHttpHeaders & Parsed<S, 'headers', unknown>;
+    user?: Principal;
+}
+
+export const SCHEMAS_TAG = Symbol('requestSchemas');
+
+type TaggedHandler = RequestHandler & { [SCHEMAS_TAG]?: RequestSchemas };
+
+// Parts in the order their failures are listed
+const REQUEST_PARTS: RequestPart[] = ['params', 'query', 'headers', 'body'];
+
+const PART_MESSAGES: Record<RequestPart, string> = {
+    params: 'Invalid path parameters',
+    query: 'Invalid query parameters',
+    headers: 'Invalid headers',
+    body: 'Invalid request body',
+};
+
+/**
+ * Read the schemas from a validation middleware function, if it is one
+ */
+export function getRequestSchemas(handler: unknown): RequestSchemas | undefined {
+    if (typeof handler !== 'function') {
+        return undefined;
+    }
+    return (handler as TaggedHandler)[SCHEMAS_TAG];
+}
+
+/**
+ * Validate and parse the declared parts of the request
+ */
+export function validate<S extends RequestSchemas>(schemas: S): RequestHandler {
+    const middleware = (req: Request, res: Response, next: NextFunction) => {
+        const parsed: Partial<Record<RequestPart, unknown>> = {};
+        const failed: RequestPart[] = [];
+        const issues: z.ZodError['issues'] = [];
+
+        for (const part of REQUEST_PARTS) {
+            const schema = schemas[part];
+            if (!schema) continue;
+
+            const result = schema.safeParse(req[part]);
+            if (result.success) {
+                parsed[part] = result.data;
+            } else {
+                failed.push(part);
+                // Paths start with the part so each failure keeps its place
+                issues.push(...result.error.issues.map((issue) => ({ ...issue, path: [part, ...issue.path] })));
+            }
+        }
+
+        if (failed.length > 0) {
+            return sendValidationError(
+                res,
+                new z.ZodError(issues),
+                failed.length === 1 ? PART_MESSAGES[failed[0]] : undefined
+            );
+        }
+
+        if ('params' in parsed) {
+            req.params = parsed.params as Request['params'];
+        }
+        if ('query' in parsed) {
+            // Express 5 exposes req.query through a getter on the prototype
+            Object.defineProperty(req, 'query', {
+                value: parsed.query,
+                writable: true,
+                configurable: true,
+                enumerable: true,
+            });
+        }
+        if ('headers' in parsed) {
+            Object.assign(req.headers, parsed.headers);
+        }
+        if ('body' in parsed) {
+            req.body = parsed.body;
+        }
+        next();
+    };
+
+    (middleware as TaggedHandler)[SCHEMAS_TAG] = schemas;
+    return middleware;
+}
+
+/**
+ * validate(schemas) followed by a handler typed with the parsed request.
+ * Express types every handler of a route alike, so a handler only sees the
+ * parsed types when declared through here.
+ */
+export function validated<S extends RequestSchemas>(
+    schemas: S,
+    handler: (req: ValidatedRequest<S>, res: Response, next: NextFunction) => unknown
+): RequestHandler[] {
+    return [validate(schemas), handler as unknown as RequestHandler];
+}
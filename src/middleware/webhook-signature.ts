@@ -0,0 +1,125 @@
+/**
+ * Webhook Signature Verification
+ *
+ * Server-to-server webhooks authenticate with an HMAC over the raw request
+ * body instead of a user token, in each provider's own format:
+ *
+ *   Razorpay: X-Razorpay-Signature: <hex HMAC-SHA256 of the raw body>
+ *   Cashfree: x-webhook-timestamp: <unix ms>
+ *             x-webhook-signature: <base64 HMAC-SHA256 of "<timestamp><raw body>">
+ *
+ * Cashfree signs its timestamp with the body, so captured requests replayed
+ * outside the tolerance window are rejected. Razorpay signs no timestamp;
+ * duplicates are handled by the route's event-ID check.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { IncomingMessage } from 'http';
+import { sendError } from '../utils/response-handler';
+
+export const RAZORPAY_SIGNATURE_HEADER = 'x-razorpay-signature';
+export const CASHFREE_SIGNATURE_HEADER = 'x-webhook-signature';
+export const CASHFREE_TIMESTAMP_HEADER = 'x-webhook-timestamp';
+
+export interface RawBodyRequest extends Request {
+    rawBody?: Buffer;
+}
+
+/**
+ * `verify` hook for express.json(): keeps the exact bytes that were signed
+ */
+export const captureRawBody = (req: IncomingMessage, _res: unknown, buf: Buffer) => {
+    (req as RawBodyRequest).rawBody = buf;
+};
+
+/**
+ * Compute Razorpay's X-Razorpay-Signature for a payload
+ */
+export function signRazorpayPayload(secret: string, body: string | Buffer): string {
+    return createHmac('sha256', secret).update(body).digest('hex');
+}
+
+/**
+ * Compute Cashfree's x-webhook-signature for a payload
+ */
+export function signCashfreePayload(secret: string, timestamp: string, body: string | Buffer): string {
+    return createHmac('sha256', secret).update(timestamp).update(body).digest('base64');
+}
+
+function safeEqual(a: string, b: string, encoding: 'hex' | 'base64'): boolean {
+    const left = Buffer.from(a, encoding);
+    const right = Buffer.from(b, encoding);
+    return left.length === right.length && left.length > 0 && timingSafeEqual(left, right);
+}
+
+const header = (req: Request, name: string): string | undefined => {
+    const value = req.headers[name];
+    return typeof value === 'string' && value ? value : undefined;
+};
+
+/**
+ * Wrap a provider's signature check with the secret lookup. An unknown
+ * sender gets 404 so the route does not reveal which providers exist.
+ */
+function signatureGuard(
+    getSecret: (req: Request) => string | undefined,
+    check: (req: RawBodyRequest, rawBody: Buffer, secret: string, res: Response) => boolean
+): RequestHandler {
+    return (req: RawBodyRequest, res: Response, next: NextFunction) => {
+        const secret = getSecret(req);
+        if (!secret) {
+            return sendError(res, 404, 'NOT_FOUND', 'Unknown webhook sender');
+        }
+        if (!req.rawBody) {
+            return sendError(res, 401, 'INVALID_SIGNATURE', 'Missing or malformed webhook signature');
+        }
+        if (check(req, req.rawBody, secret, res)) {
+            next();
+        }
+    };
+}
+
+/**
+ * Require a valid Razorpay signature
+ */
+export function verifyRazorpaySignature(getSecret: (req: Request) => string | undefined): RequestHandler {
+    return signatureGuard(getSecret, (req, rawBody, secret, res) => {
+        const signature = header(req, RAZORPAY_SIGNATURE_HEADER);
+        if (!signature) {
+            sendError(res, 401, 'INVALID_SIGNATURE', 'Missing or malformed webhook signature');
+            return false;
+        }
+        if (!safeEqual(signature, signRazorpayPayload(secret, rawBody), 'hex')) {
+            sendError(res, 401, 'INVALID_SIGNATURE', 'Webhook signature does not match');
+            return false;
+        }
+        return true;
+    });
+}
+
+/**
+ * Require a valid, fresh Cashfree signature
+ */
+export function verifyCashfreeSignature(
+    getSecret: (req: Request) => string | undefined,
+    toleranceSeconds: number
+): RequestHandler {
+    return signatureGuard(getSecret, (req, rawBody, secret, res) => {
+        const signature = header(req, CASHFREE_SIGNATURE_HEADER);
+        const timestamp = header(req, CASHFREE_TIMESTAMP_HEADER);
+        if (!signature || !timestamp || !/^\d+$/.test(timestamp)) {
+            sendError(res, 401, 'INVALID_SIGNATURE', 'Missing or malformed webhook signature');
+            return false;
+        }
+        if (Math.abs(Date.now() - Number(timestamp)) > toleranceSeconds * 1000) {
+            sendError(res, 401, 'STALE_WEBHOOK', 'Webhook timestamp is outside the allowed window');
+            return false;
+        }
+        if (!safeEqual(signature, signCashfreePayload(secret, timestamp, rawBody), 'base64')) {
+            sendError(res, 401, 'INVALID_SIGNATURE', 'Webhook signature does not match');
+            return false;
+        }
+        return true;
+    });
+}
@@ -0,0 +1,70 @@
+/**
+ * API Documentation Endpoints
+ *
+ * Mounted under each API version's prefix.
+ *
+ * Routes:
+ * - GET /{version}/openapi.json - OpenAPI document generated from the route table
+ * - GET /{version}/docs         - Interactive docs page (non-production only)
+ */
+
+import { Router } from 'express';
+import { randomBytes } from 'crypto';
+import { config } from '../config';
+import { buildOpenApiDocument, OpenApiOptions } from '../utils/openapi';
+
+const CDN_ORIGIN = 'https://cdn.jsdelivr.net';
+const SWAGGER_UI = `${CDN_ORIGIN}/npm/swagger-ui-dist@5`;
+
+function docsPage(documentUrl: string, nonce: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <title>CropFresh API</title>
+    <link rel="stylesheet" href="${SWAGGER_UI}/swagger-ui.css">
+</head>
+<body>
+    <div id="swagger-ui"></div>
+    <script src="${SWAGGER_UI}/swagger-ui-bundle.js"></script>
+    <script nonce="${nonce}">
+        SwaggerUIBundle({ url: '${documentUrl}', dom_id: '#swagger-ui' });
+    </script>
+</body>
+</html>`;
+}
+
+/**
+ * Serve the OpenAPI document for a route table, and the docs page for it
+ */
+export function createDocsRouter(
+    mounts: Array<{ path: string; router: Router }>,
+    options: OpenApiOptions
+): Router {
+    const router = Router();
+    // Routes are all registered before the first request, so one build serves every request
+    let document: Record<string, any> | undefined;
+
+    router.get('/openapi.json', (_req, res) => {
+        document ??= buildOpenApiDocument(mounts, options);
+        res.json(document);
+    });
+
+    router.get('/docs', (_req, res, next) => {
+        if (!config.apiDocs.enabled) {
+            return next();
+        }
+
+        // The page loads Swagger UI from its CDN, which the default policy blocks
+        const nonce = randomBytes(16).toString('base64');
+        res.setHeader('Content-Security-Policy', [
+            "default-src 'self'",
+            `script-src ${CDN_ORIGIN} 'nonce-${nonce}'`,
+            `style-src ${CDN_ORIGIN} 'unsafe-inline'`,
+            "img-src 'self' data:",
+        ].join('; '));
+        res.type('html').send(docsPage(`${options.prefix}/openapi.json`, nonce));
+    });
+
+    return router;
+}
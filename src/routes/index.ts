@@ -0,0 +1,11 @@
+import { v1 } from './v1';
+import { ApiVersion, createApiRouter } from './versions';
+
+/**
+ * Every API version the gateway serves, oldest first
+ */
+export const apiVersions: ApiVersion[] = [
+    v1,
+];
+
+export default createApiRouter(apiVersions);
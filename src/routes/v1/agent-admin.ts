@@ -12,12 +12,24 @@
  * @module routes/v1/agent-admin
  */
 
-import { Router, Request, Response } from 'express';
+import { Router } from 'express';
 import { z } from 'zod';
 import { authClient } from '../../grpc/clients';
+import { authMiddleware } from '../../middleware/auth';
+import { requirePolicy, ADMIN_POLICY } from '../../middleware/policy';
+import { withReauth, REAUTH_ACTIONS } from '../../middleware/step-up';
+import { rateLimit, RATE_LIMIT_POLICIES } from '../../middleware/rate-limit';
+import { validated } from '../../middleware/validate';
+import { legacyResponses, sendError, sendSuccess } from '../../utils/response-handler';
 
 const router = Router();
 
+// Older apps still expect { success, data } bodies from these routes
+router.use(legacyResponses('status-flag'));
+
+// All admin routes require a district manager or platform admin
+router.use(authMiddleware, requirePolicy(ADMIN_POLICY), rateLimit(RATE_LIMIT_POLICIES.ADMIN));
+
 // Zod validation schemas
 const createAgentSchema = z.object({
     full_name: z.string().min(2, 'Name must be at least 2 characters'),
@@ -36,290 +48,174 @@ const deactivateSchema = z.object({
     reason: z.enum(['RESIGNED', 'TERMINATED', 'TRANSFERRED', 'LEAVE']),
 });
 
+const listAgentsQuerySchema = z.object({
+    status: z.string().optional(),
+    zone_id: z.string().optional(),
+    search: z.string().optional(),
+    page: z.coerce.number().int().positive().default(1),
+    limit: z.coerce.number().int().positive().default(20),
+});
+
+const agentParamsSchema = z.object({ id: z.string().min(1) });
+
 /**
  * POST /v1/admin/agents - Create a new field agent
  * Requires: DISTRICT_MANAGER role
  */
-router.post('/agents', async (req: Request, res: Response) => {
+router.post('/agents', validated({ body: createAgentSchema }, async (req, res) => {
     try {
-        // Validate request body
-        const parsed = createAgentSchema.safeParse(req.body);
-        if (!parsed.success) {
-            return res.status(400).json({
-                success: false,
-                error: 'VALIDATION_ERROR',
-                message: parsed.error.issues[0].message,
-            });
-        }
-
-        // Get user from auth token (middleware should populate this)
-        const userId = (req as any).user?.userId;
+        // Get user from the verified auth token
+        const userId = req.user?.userId;
         if (!userId) {
-            return res.status(401).json({
-                success: false,
-                error: 'UNAUTHORIZED',
-                message: 'Authentication required',
-            });
+            return sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
         }
 
-        const response = await new Promise<any>((resolve, reject) => {
-            authClient.CreateFieldAgent({
-                ...parsed.data,
-                created_by_user_id: parseInt(userId),
-            }, (err: any, result: any) => {
-                if (err) reject(err);
-                else resolve(result);
-            });
+        const response = await authClient.CreateFieldAgent({
+            ...req.body,
+            created_by_user_id: userId,
         });
 
         if (!response.success) {
-            return res.status(400).json({
-                success: false,
-                error: 'CREATE_FAILED',
-                message: response.message,
-            });
+            return sendError(res, 400, 'CREATE_FAILED', response.message);
         }
 
-        res.status(201).json({
-            success: true,
-            message: response.message,
-            data: {
-                agent_id: response.agent_id,
-                employee_id: response.employee_id,
-                status: response.status,
-                sms_sent: response.sms_sent,
-            },
-        });
-    } catch (error: any) {
+        sendSuccess(res, {
+            agent_id: response.agent_id,
+            employee_id: response.employee_id,
+            status: response.status,
+            sms_sent: response.sms_sent,
+        }, 201, { message: response.message });
+    } catch (error) {
         console.error('Create agent error:', error);
-        res.status(500).json({
-            success: false,
-            error: 'INTERNAL_ERROR',
-            message: error.message || 'Failed to create agent',
-        });
+        sendError(res, 500, 'INTERNAL_ERROR', (error instanceof Error && error.message) || 'Failed to create agent');
     }
-});
+}));
 
 /**
  * GET /v1/admin/agents - List agents with filters
  */
-router.get('/agents', async (req: Request, res: Response) => {
+router.get('/agents', validated({ query: listAgentsQuerySchema }, async (req, res) => {
     try {
-        const userId = (req as any).user?.userId;
+        const userId = req.user?.userId;
         if (!userId) {
-            return res.status(401).json({
-                success: false,
-                error: 'UNAUTHORIZED',
-                message: 'Authentication required',
-            });
+            return sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
         }
 
-        const { status, zone_id, search, page = '1', limit = '20' } = req.query;
-
-        const response = await new Promise<any>((resolve, reject) => {
-            authClient.ListFieldAgents({
-                status_filter: status as string,
-                zone_id: zone_id as string,
-                search: search as string,
-                page: parseInt(page as string),
-                limit: parseInt(limit as string),
-                district_manager_id: parseInt(userId),
-            }, (err: any, result: any) => {
-                if (err) reject(err);
-                else resolve(result);
-            });
+        const { status, zone_id, search, page, limit } = req.query;
+
+        const response = await authClient.ListFieldAgents({
+            status_filter: status,
+            zone_id,
+            search,
+            page,
+            limit,
+            district_manager_id: userId,
         });
 
-        res.json({
-            success: true,
-            data: {
-                agents: response.agents || [],
-                ...response.pagination,
-            },
+        sendSuccess(res, {
+            agents: response.agents || [],
+            ...response.pagination,
         });
-    } catch (error: any) {
+    } catch (error) {
         console.error('List agents error:', error);
-        res.status(500).json({
-            success: false,
-            error: 'INTERNAL_ERROR',
-            message: error.message || 'Failed to list agents',
-        });
+        sendError(res, 500, 'INTERNAL_ERROR', (error instanceof Error && error.message) || 'Failed to list agents');
     }
-});
+}));
 
 /**
  * GET /v1/admin/agents/:id - Get agent details
  */
-router.get('/agents/:id', async (req: Request, res: Response) => {
+router.get('/agents/:id', validated({ params: agentParamsSchema }, async (req, res) => {
     try {
         const { id } = req.params;
 
-        const response = await new Promise<any>((resolve, reject) => {
-            authClient.GetAgentDetails({ agent_id: id }, (err: any, result: any) => {
-                if (err) reject(err);
-                else resolve(result);
-            });
-        });
+        const response = await authClient.GetAgentDetails({ agent_id: id });
 
         if (!response.success || !response.agent) {
-            return res.status(404).json({
-                success: false,
-                error: 'NOT_FOUND',
-                message: 'Agent not found',
-            });
+            return sendError(res, 404, 'NOT_FOUND', 'Agent not found');
         }
 
-        res.json({
-            success: true,
-            data: response.agent,
-        });
-    } catch (error: any) {
+        sendSuccess(res, response.agent);
+    } catch (error) {
         console.error('Get agent error:', error);
-        res.status(500).json({
-            success: false,
-            error: 'INTERNAL_ERROR',
-            message: error.message || 'Failed to get agent',
-        });
+        sendError(res, 500, 'INTERNAL_ERROR', (error instanceof Error && error.message) || 'Failed to get agent');
     }
-});
+}));
 
 /**
  * PUT /v1/admin/agents/:id/zone - Reassign agent to new zone
  */
-router.put('/agents/:id/zone', async (req: Request, res: Response) => {
+router.put('/agents/:id/zone', validated({ params: agentParamsSchema, body: reassignZoneSchema }, async (req, res) => {
     try {
         const { id } = req.params;
-        const userId = (req as any).user?.userId;
-
-        const parsed = reassignZoneSchema.safeParse(req.body);
-        if (!parsed.success) {
-            return res.status(400).json({
-                success: false,
-                error: 'VALIDATION_ERROR',
-                message: parsed.error.issues[0].message,
-            });
-        }
+        const userId = req.user?.userId;
 
-        const response = await new Promise<any>((resolve, reject) => {
-            authClient.ReassignAgentZone({
-                agent_id: id,
-                new_zone_id: parsed.data.new_zone_id,
-                effective_date: parsed.data.effective_date,
-                assigned_by_user_id: parseInt(userId),
-            }, (err: any, result: any) => {
-                if (err) reject(err);
-                else resolve(result);
-            });
+        const response = await authClient.ReassignAgentZone({
+            agent_id: id,
+            new_zone_id: req.body.new_zone_id,
+            effective_date: req.body.effective_date,
+            assigned_by_user_id: userId,
         });
 
         if (!response.success) {
-            return res.status(400).json({
-                success: false,
-                error: 'REASSIGN_FAILED',
-                message: response.message,
-            });
+            return sendError(res, 400, 'REASSIGN_FAILED', response.message);
         }
 
-        res.json({
-            success: true,
-            message: response.message,
-        });
-    } catch (error: any) {
+        sendSuccess(res, null, 200, { message: response.message });
+    } catch (error) {
         console.error('Reassign zone error:', error);
-        res.status(500).json({
-            success: false,
-            error: 'INTERNAL_ERROR',
-            message: error.message || 'Failed to reassign zone',
-        });
+        sendError(res, 500, 'INTERNAL_ERROR', (error instanceof Error && error.message) || 'Failed to reassign zone');
     }
-});
+}));
 
 /**
- * POST /v1/admin/agents/:id/deactivate - Deactivate agent
+ * POST /v1/admin/agents/:id/deactivate - Deactivate agent (requires step-up re-auth)
  */
-router.post('/agents/:id/deactivate', async (req: Request, res: Response) => {
+router.post('/agents/:id/deactivate', validated({ params: agentParamsSchema, body: deactivateSchema }, withReauth(REAUTH_ACTIONS.DEACTIVATE_AGENT, async (req, res) => {
     try {
         const { id } = req.params;
-        const userId = (req as any).user?.userId;
-
-        const parsed = deactivateSchema.safeParse(req.body);
-        if (!parsed.success) {
-            return res.status(400).json({
-                success: false,
-                error: 'VALIDATION_ERROR',
-                message: parsed.error.issues[0].message,
-            });
-        }
+        const userId = req.user?.userId;
 
-        const response = await new Promise<any>((resolve, reject) => {
-            authClient.DeactivateAgent({
-                agent_id: id,
-                reason: parsed.data.reason,
-                deactivated_by_user_id: parseInt(userId),
-            }, (err: any, result: any) => {
-                if (err) reject(err);
-                else resolve(result);
-            });
+        const response = await authClient.DeactivateAgent({
+            agent_id: id,
+            reason: req.body.reason,
+            deactivated_by_user_id: userId,
         });
 
         if (!response.success) {
-            return res.status(400).json({
-                success: false,
-                error: 'DEACTIVATE_FAILED',
-                message: response.message,
-            });
+            return sendError(res, 400, 'DEACTIVATE_FAILED', response.message);
         }
 
-        res.json({
-            success: true,
-            message: response.message,
-            data: {
-                status: response.new_status,
-                sms_sent: response.sms_sent,
-            },
-        });
-    } catch (error: any) {
+        sendSuccess(res, {
+            status: response.new_status,
+            sms_sent: response.sms_sent,
+        }, 200, { message: response.message });
+    } catch (error) {
         console.error('Deactivate agent error:', error);
-        res.status(500).json({
-            success: false,
-            error: 'INTERNAL_ERROR',
-            message: error.message || 'Failed to deactivate agent',
-        });
+        sendError(res, 500, 'INTERNAL_ERROR', (error instanceof Error && error.message) || 'Failed to deactivate agent');
     }
-});
+})));
 
 /**
  * GET /v1/admin/zones - Get zones for dropdown
  */
-router.get('/zones', async (req: Request, res: Response) => {
+router.get('/zones', validated({ query: z.object({ parent_zone_id: z.string().optional() }) }, async (req, res) => {
     try {
-        const userId = (req as any).user?.userId;
+        const userId = req.user?.userId;
         const { parent_zone_id } = req.query;
 
-        const response = await new Promise<any>((resolve, reject) => {
-            authClient.GetZones({
-                district_manager_id: userId ? parseInt(userId) : 0,
-                parent_zone_id: parent_zone_id as string,
-            }, (err: any, result: any) => {
-                if (err) reject(err);
-                else resolve(result);
-            });
+        const response = await authClient.GetZones({
+            district_manager_id: userId ?? 0,
+            parent_zone_id,
         });
 
-        res.json({
-            success: true,
-            data: {
-                zones: response.zones || [],
-            },
+        sendSuccess(res, {
+            zones: response.zones || [],
         });
-    } catch (error: any) {
+    } catch (error) {
         console.error('Get zones error:', error);
-        res.status(500).json({
-            success: false,
-            error: 'INTERNAL_ERROR',
-            message: error.message || 'Failed to get zones',
-        });
+        sendError(res, 500, 'INTERNAL_ERROR', (error instanceof Error && error.message) || 'Failed to get zones');
     }
-});
+}));
 
 export default router;
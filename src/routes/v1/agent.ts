@@ -12,12 +12,19 @@
  * @module routes/v1/agent
  */
 
-import { Router, Request, Response } from 'express';
+import { Router } from 'express';
 import { z } from 'zod';
 import { authClient } from '../../grpc/clients';
+import { authMiddleware } from '../../middleware/auth';
+import { requirePolicy, allowPublic } from '../../middleware/policy';
+import { validated } from '../../middleware/validate';
+import { legacyResponses, sendError, sendSuccess } from '../../utils/response-handler';
 
 const router = Router();
 
+// Older apps still expect { success, data } bodies from these routes
+router.use(legacyResponses('status-flag'));
+
 // Zod validation schemas
 const loginSchema = z.object({
     mobile_number: z.string().regex(/^\+91\d{10}$/, 'Invalid mobile format'),
@@ -34,224 +41,127 @@ const setPinSchema = z.object({
  * POST /v1/agent/login - First-time agent login with temporary PIN
  * Returns temporary token for PIN change flow
  */
-router.post('/login', async (req: Request, res: Response) => {
+router.post('/login', allowPublic(), validated({ body: loginSchema }, async (req, res) => {
     try {
-        const parsed = loginSchema.safeParse(req.body);
-        if (!parsed.success) {
-            return res.status(400).json({
-                success: false,
-                error: 'VALIDATION_ERROR',
-                message: parsed.error.issues[0].message,
-            });
-        }
-
-        const response = await new Promise<any>((resolve, reject) => {
-            authClient.AgentFirstLogin({
-                mobile_number: parsed.data.mobile_number,
-                pin: parsed.data.pin,
-            }, (err: any, result: any) => {
-                if (err) reject(err);
-                else resolve(result);
-            });
+        const response = await authClient.AgentFirstLogin({
+            mobile_number: req.body.mobile_number,
+            pin: req.body.pin,
         });
 
         if (!response.success) {
             // Map error codes to HTTP status
             const status = response.message.includes('expired') ? 401 : 400;
-            return res.status(status).json({
-                success: false,
-                error: response.message.includes('expired') ? 'PIN_EXPIRED' : 'INVALID_PIN',
-                message: response.message,
-            });
+            return sendError(res, status, response.message.includes('expired') ? 'PIN_EXPIRED' : 'INVALID_PIN', response.message);
         }
 
-        res.json({
-            success: true,
-            message: response.message,
-            data: {
-                requires_pin_change: response.requires_pin_change,
-                temporary_token: response.temporary_token,
-                agent_name: response.agent_name,
-            },
-        });
-    } catch (error: any) {
+        sendSuccess(res, {
+            requires_pin_change: response.requires_pin_change,
+            temporary_token: response.temporary_token,
+            agent_name: response.agent_name,
+        }, 200, { message: response.message });
+    } catch (error) {
         console.error('Agent login error:', error);
-        res.status(500).json({
-            success: false,
-            error: 'INTERNAL_ERROR',
-            message: 'Login failed. Please try again.',
-        });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Login failed. Please try again.');
     }
-});
+}));
 
 /**
  * POST /v1/agent/set-pin - Set new permanent PIN after first login
  * Returns JWT tokens for app access
  */
-router.post('/set-pin', async (req: Request, res: Response) => {
+router.post('/set-pin', allowPublic(), validated({ body: setPinSchema }, async (req, res) => {
     try {
-        const parsed = setPinSchema.safeParse(req.body);
-        if (!parsed.success) {
-            return res.status(400).json({
-                success: false,
-                error: 'VALIDATION_ERROR',
-                message: parsed.error.issues[0].message,
-            });
-        }
-
         // Basic PIN match validation at gateway level
-        if (parsed.data.new_pin !== parsed.data.confirm_pin) {
-            return res.status(400).json({
-                success: false,
-                error: 'PIN_MISMATCH',
-                message: 'PINs do not match. Try again.',
-            });
+        if (req.body.new_pin !== req.body.confirm_pin) {
+            return sendError(res, 400, 'PIN_MISMATCH', 'PINs do not match. Try again.');
         }
 
-        const response = await new Promise<any>((resolve, reject) => {
-            authClient.AgentSetPin({
-                temporary_token: parsed.data.temporary_token,
-                new_pin: parsed.data.new_pin,
-                confirm_pin: parsed.data.confirm_pin,
-            }, (err: any, result: any) => {
-                if (err) reject(err);
-                else resolve(result);
-            });
+        const response = await authClient.AgentSetPin({
+            temporary_token: req.body.temporary_token,
+            new_pin: req.body.new_pin,
+            confirm_pin: req.body.confirm_pin,
         });
 
         if (!response.success) {
-            return res.status(400).json({
-                success: false,
-                error: 'SET_PIN_FAILED',
-                message: response.message,
-            });
+            return sendError(res, 400, 'SET_PIN_FAILED', response.message);
         }
 
-        res.json({
-            success: true,
-            message: response.message,
-            data: {
-                access_token: response.access_token,
-                refresh_token: response.refresh_token,
-                requires_training: response.requires_training,
-            },
-        });
-    } catch (error: any) {
+        sendSuccess(res, {
+            access_token: response.access_token,
+            refresh_token: response.refresh_token,
+            requires_training: response.requires_training,
+        }, 200, { message: response.message });
+    } catch (error) {
         console.error('Set PIN error:', error);
-        res.status(500).json({
-            success: false,
-            error: 'INTERNAL_ERROR',
-            message: 'Failed to set PIN. Please try again.',
-        });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Failed to set PIN. Please try again.');
     }
-});
+}));
 
 /**
  * POST /v1/agent/complete-training - Mark onboarding training as complete
  * Transitions status from TRAINING to ACTIVE
  */
-router.post('/complete-training', async (req: Request, res: Response) => {
+router.post('/complete-training', authMiddleware, requirePolicy({ userTypes: ['AGENT'] }), validated({}, async (req, res) => {
     try {
-        const userId = (req as any).user?.userId;
+        const userId = req.user?.userId;
         if (!userId) {
-            return res.status(401).json({
-                success: false,
-                error: 'UNAUTHORIZED',
-                message: 'Authentication required',
-            });
+            return sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
         }
 
-        const response = await new Promise<any>((resolve, reject) => {
-            authClient.CompleteAgentTraining({
-                user_id: userId.toString(),
-            }, (err: any, result: any) => {
-                if (err) reject(err);
-                else resolve(result);
-            });
+        const response = await authClient.CompleteAgentTraining({
+            user_id: userId.toString(),
         });
 
         if (!response.success) {
-            return res.status(400).json({
-                success: false,
-                error: 'TRAINING_FAILED',
-                message: response.message,
-            });
+            return sendError(res, 400, 'TRAINING_FAILED', response.message);
         }
 
-        res.json({
-            success: true,
-            message: response.message,
-            data: {
-                status: response.status,
-                dashboard_unlocked: response.dashboard_unlocked,
-            },
-        });
-    } catch (error: any) {
+        sendSuccess(res, {
+            status: response.status,
+            dashboard_unlocked: response.dashboard_unlocked,
+        }, 200, { message: response.message });
+    } catch (error) {
         console.error('Complete training error:', error);
-        res.status(500).json({
-            success: false,
-            error: 'INTERNAL_ERROR',
-            message: 'Failed to complete training.',
-        });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Failed to complete training.');
     }
-});
+}));
 
 /**
  * GET /v1/agent/dashboard - Get agent dashboard data
  * Returns zone info, pending tasks, and performance metrics
  */
-router.get('/dashboard', async (req: Request, res: Response) => {
+router.get('/dashboard', authMiddleware, requirePolicy({ userTypes: ['AGENT'] }), validated({}, async (req, res) => {
     try {
-        const userId = (req as any).user?.userId;
+        const userId = req.user?.userId;
         if (!userId) {
-            return res.status(401).json({
-                success: false,
-                error: 'UNAUTHORIZED',
-                message: 'Authentication required',
-            });
+            return sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
         }
 
-        const response = await new Promise<any>((resolve, reject) => {
-            authClient.GetAgentDashboard({
-                user_id: userId.toString(),
-            }, (err: any, result: any) => {
-                if (err) reject(err);
-                else resolve(result);
-            });
+        const response = await authClient.GetAgentDashboard({
+            user_id: userId.toString(),
         });
 
         if (!response.success) {
-            return res.status(404).json({
-                success: false,
-                error: 'NOT_FOUND',
-                message: 'Agent profile not found',
-            });
+            return sendError(res, 404, 'NOT_FOUND', 'Agent profile not found');
         }
 
-        res.json({
-            success: true,
-            data: {
-                agent_name: response.agent_name,
-                pending_tasks: response.pending_tasks,
-                zone: {
-                    name: response.zone_name,
-                    villages: response.villages || [],
-                    farmer_count: response.farmer_count,
-                },
-                performance: {
-                    verifications_today: response.verifications_today,
-                    accuracy_percent: response.accuracy_percent,
-                },
+        sendSuccess(res, {
+            agent_name: response.agent_name,
+            pending_tasks: response.pending_tasks,
+            zone: {
+                name: response.zone_name,
+                villages: response.villages || [],
+                farmer_count: response.farmer_count,
+            },
+            performance: {
+                verifications_today: response.verifications_today,
+                accuracy_percent: response.accuracy_percent,
             },
         });
-    } catch (error: any) {
+    } catch (error) {
         console.error('Get dashboard error:', error);
-        res.status(500).json({
-            success: false,
-            error: 'INTERNAL_ERROR',
-            message: 'Failed to load dashboard.',
-        });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Failed to load dashboard.');
     }
-});
+}));
 
 export default router;
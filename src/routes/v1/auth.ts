@@ -1,54 +1,133 @@
-import { Router } from 'express';
-import { loginSchema, requestOtpSchema, loginRequestOtpSchema, loginVerifyOtpSchema } from '../../schemas';
+import { Router, Response } from 'express';
+import * as grpc from '@grpc/grpc-js';
+import {
+    loginSchema,
+    requestOtpSchema,
+    loginRequestOtpSchema,
+    loginVerifyOtpSchema,
+    refreshTokenSchema,
+    createFarmerProfileSchema,
+    updateFarmerProfileSchema,
+    farmProfileSchema,
+    paymentDetailsSchema,
+    verifyUpiSchema,
+    setPinSchema,
+    loginPinSchema,
+    buyerRegisterSchema,
+    buyerVerifyOtpSchema,
+    buyerLoginSchema,
+    forgotPasswordSchema,
+    resetPasswordSchema,
+} from '../../schemas';
+import { initiateReauthSchema, validateReauthSchema } from '../../schemas/session-schemas';
 import { authClient, createMetadata } from '../../grpc/clients';
+import { grpcStatusOf } from '../../grpc/errors';
 import { sendSuccess, sendError } from '../../utils/response-handler';
 import { logger } from '../../utils/logger';
+import { authMiddleware, AuthRequest, principalFromClaims, verifyAccessToken } from '../../middleware/auth';
+import { requirePolicy, allowPublic } from '../../middleware/policy';
+import { deprecated } from '../../middleware/deprecation';
+import { validated } from '../../middleware/validate';
+import { issueRefreshToken, rotateRefreshToken } from '../../utils/refresh-token-store';
+import { revokeToken } from '../../middleware/token-blacklist';
+import { recordReauthProof, withReauth, REAUTH_ACTIONS } from '../../middleware/step-up';
+import { config } from '../../config';
+import { bruteForceGuard, getAttemptTracker, sendAttemptError } from '../../middleware/brute-force';
+import { parseErrorDetails } from '../../utils/grpc-status-mapper';
+import { rateLimit, RATE_LIMIT_POLICIES } from '../../middleware/rate-limit';
 
 const router = Router();
 
-router.post('/login', async (req, res, next) => {
+/**
+ * Issue a refresh token for the session behind a freshly issued access token.
+ * Login still succeeds without one if the token carries no session or Redis
+ * is unavailable; the client then falls back to logging in again.
+ */
+async function withRefreshToken(accessToken: string): Promise<{ refresh_token?: string; refresh_expires_in?: number }> {
+    try {
+        const principal = principalFromClaims(await verifyAccessToken(accessToken));
+        if (!principal?.sessionId) {
+            return {};
+        }
+
+        const refresh = await issueRefreshToken({
+            userId: principal.userId,
+            userType: principal.userType,
+            sessionId: principal.sessionId,
+        });
+        return { refresh_token: refresh.token, refresh_expires_in: refresh.expiresIn };
+    } catch (err) {
+        logger.error({ err }, 'Failed to issue refresh token');
+        return {};
+    }
+}
+
+/**
+ * Blacklist a logged-out token on every gateway replica. The auth-service has
+ * already ended the session, so a Redis failure is logged, not surfaced.
+ */
+async function revokeLoggedOutToken(token: string): Promise<void> {
+    try {
+        await revokeToken(token);
+    } catch (err) {
+        logger.error({ err }, 'Failed to blacklist logged out token');
+    }
+}
+
+/**
+ * Relay a downstream account lockout with the uniform attempt details
+ */
+function sendAccountLocked(res: Response, message: string, lockedUntil: number | null) {
+    return sendAttemptError(res, 403, 'ACCOUNT_LOCKED', message, { remainingAttempts: 0, lockedUntil });
+}
+
+function toTimestamp(value: unknown): number | null {
+    if (value === undefined || value === null || value === '') {
+        return null;
+    }
+    const timestamp = typeof value === 'number' ? value : Date.parse(String(value));
+    return Number.isFinite(timestamp) ? timestamp : null;
+}
+
+/**
+ * POST /v1/auth/login
+ * Deprecated: farmers log in with OTP via /v1/auth/login/verify-otp
+ */
+router.post('/login', deprecated({
+    since: '2026-10-19',
+    sunset: '2027-04-30',
+    successor: '/v1/auth/login/verify-otp',
+}), allowPublic(), validated({ body: loginSchema }, async (req, res, next) => {
     try {
-        // Validate request
-        const { body } = await loginSchema.parseAsync(req);
+        const { body } = req;
         const traceId = req.headers['x-trace-id'] as string;
 
         // Call gRPC service
-        authClient.Login(
-            { phoneNumber: body.phoneNumber, otp: body.otp },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) {
-                    return next(err);
-                }
-                sendSuccess(res, response);
-            }
+        const response = await authClient.Login(
+            { phone_number: body.phoneNumber, otp: body.otp },
+            { metadata: createMetadata(traceId) }
         );
+        sendSuccess(res, response);
     } catch (err) {
         next(err);
     }
-});
+}));
 
-router.post('/otp/request', async (req, res, next) => {
+router.post('/otp/request', allowPublic(), rateLimit(RATE_LIMIT_POLICIES.OTP_IP), rateLimit(RATE_LIMIT_POLICIES.OTP_PHONE), validated({ body: requestOtpSchema }, async (req, res, next) => {
     try {
-        // Validate request
-        const { body } = await requestOtpSchema.parseAsync(req);
+        const { body } = req;
         const traceId = req.headers['x-trace-id'] as string;
 
         // Call gRPC service - proto defines SendOtp, not RequestOtp
-        authClient.SendOtp(
-            { phone: body.phoneNumber, user_type: 'farmer' },  // snake_case for proto fields
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) {
-                    return next(err);
-                }
-                sendSuccess(res, response);
-            }
+        const response = await authClient.SendOtp(
+            { phone: body.phoneNumber, user_type: 'farmer' },
+            { metadata: createMetadata(traceId) }
         );
+        sendSuccess(res, response);
     } catch (err) {
         next(err);
     }
-});
+}));
 
 // Story 2.2 - Farmer Passwordless Login Endpoints
 
@@ -56,102 +135,87 @@ router.post('/otp/request', async (req, res, next) => {
  * POST /v1/auth/login/request-otp
  * Request OTP for farmer login (checks if phone is registered)
  */
-router.post('/login/request-otp', async (req, res, next) => {
+router.post('/login/request-otp', allowPublic(), rateLimit(RATE_LIMIT_POLICIES.OTP_IP), rateLimit(RATE_LIMIT_POLICIES.OTP_PHONE), validated({ body: loginRequestOtpSchema }, async (req, res, next) => {
     try {
-        const { body } = await loginRequestOtpSchema.parseAsync(req);
+        const { body } = req;
         const traceId = req.headers['x-trace-id'] as string;
 
         logger.info({ phoneNumber: body.phone_number }, 'Login OTP request received');
 
-        authClient.RequestLoginOtp(
-            { phoneNumber: body.phone_number },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) {
-                    // Handle specific error codes
-                    try {
-                        const errorDetails = JSON.parse(err.details);
-                        if (errorDetails.error === 'PHONE_NOT_REGISTERED') {
-                            return sendError(res, 404, errorDetails.error, errorDetails.message);
-                        }
-                        if (errorDetails.error === 'ACCOUNT_LOCKED') {
-                            return sendError(res, 403, errorDetails.error, errorDetails.message, {
-                                locked_until: errorDetails.lockedUntil,
-                            });
-                        }
-                    } catch {
-                        // Not a structured error, pass to error handler
-                    }
-                    return next(err);
-                }
-                sendSuccess(res, {
-                    message: response.message,
-                    expires_in: response.expiresIn,
-                });
-            }
+        const response = await authClient.RequestLoginOtp(
+            { phone_number: body.phone_number },
+            { metadata: createMetadata(traceId) }
         );
+        sendSuccess(res, {
+            message: response.message,
+            expires_in: response.expires_in,
+        });
     } catch (err) {
+        // Handle specific error codes
+        const errorDetails = parseErrorDetails(err);
+        if (errorDetails?.error === 'PHONE_NOT_REGISTERED') {
+            return sendError(res, 404, errorDetails.error, errorDetails.message);
+        }
+        if (errorDetails?.error === 'ACCOUNT_LOCKED') {
+            return sendError(res, 403, errorDetails.error, errorDetails.message, {
+                locked_until: errorDetails.lockedUntil,
+            });
+        }
         next(err);
     }
-});
+}));
 
 /**
  * POST /v1/auth/login/verify-otp
  * Verify OTP and complete farmer login
  */
-router.post('/login/verify-otp', async (req, res, next) => {
+router.post('/login/verify-otp', allowPublic(), bruteForceGuard('otp', (req) => ({
+    phone: req.body?.phone_number,
+    device: req.body?.device_id,
+})), validated({ body: loginVerifyOtpSchema }, async (req, res, next) => {
+    const attempts = getAttemptTracker(res);
     try {
-        const { body } = await loginVerifyOtpSchema.parseAsync(req);
+        const { body } = req;
         const traceId = req.headers['x-trace-id'] as string;
 
         logger.info({ phoneNumber: body.phone_number, deviceId: body.device_id }, 'Login OTP verify request received');
 
-        authClient.VerifyLoginOtp(
+        const response = await authClient.VerifyLoginOtp(
             {
-                phoneNumber: body.phone_number,
+                phone_number: body.phone_number,
                 otp: body.otp,
-                deviceId: body.device_id,
+                device_id: body.device_id,
             },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) {
-                    // Handle specific error codes
-                    try {
-                        const errorDetails = JSON.parse(err.details);
-                        if (errorDetails.error === 'INVALID_OTP') {
-                            return sendError(res, 401, errorDetails.error, errorDetails.message, {
-                                remaining_attempts: errorDetails.remainingAttempts,
-                            });
-                        }
-                        if (errorDetails.error === 'ACCOUNT_LOCKED') {
-                            return sendError(res, 403, errorDetails.error, errorDetails.message, {
-                                locked_until: errorDetails.lockedUntil,
-                            });
-                        }
-                        if (errorDetails.error === 'PHONE_NOT_REGISTERED') {
-                            return sendError(res, 404, errorDetails.error, errorDetails.message);
-                        }
-                    } catch {
-                        // Not a structured error, pass to error handler
-                    }
-                    return next(err);
-                }
-                sendSuccess(res, {
-                    token: response.token,
-                    user: {
-                        id: response.user.id,
-                        name: response.user.name,
-                        phone: response.user.phone,
-                        user_type: response.user.userType,
-                        language: response.user.language,
-                    },
-                });
-            }
+            { metadata: createMetadata(traceId) }
         );
+        await attempts.succeed();
+        const refresh = await withRefreshToken(response.token);
+        sendSuccess(res, {
+            token: response.token,
+            ...refresh,
+            user: {
+                id: response.user?.id,
+                name: response.user?.name,
+                phone: response.user?.phone,
+                user_type: response.user?.user_type,
+                language: response.user?.language,
+            },
+        });
     } catch (err) {
+        // Handle specific error codes
+        const errorDetails = parseErrorDetails(err);
+        if (errorDetails?.error === 'INVALID_OTP') {
+            return attempts.reject(errorDetails.error, errorDetails.message);
+        }
+        if (errorDetails?.error === 'ACCOUNT_LOCKED') {
+            return sendAccountLocked(res, errorDetails.message, toTimestamp(errorDetails.lockedUntil));
+        }
+        if (errorDetails?.error === 'PHONE_NOT_REGISTERED') {
+            return sendError(res, 404, errorDetails.error, errorDetails.message);
+        }
         next(err);
     }
-});
+}));
 
 // =====================================================
 // Story 2.1 - Complete Onboarding Endpoints
@@ -161,228 +225,185 @@ router.post('/login/verify-otp', async (req, res, next) => {
  * POST /v1/auth/profile
  * Create farmer profile (AC5)
  */
-router.post('/profile', async (req, res, next) => {
+router.post('/profile', authMiddleware, requirePolicy({ userTypes: ['FARMER'] }), validated({ body: createFarmerProfileSchema }, async (req, res, next) => {
     try {
-        const { user_id, full_name, village, taluk, district, state, pincode } = req.body;
+        const { full_name, village, taluk, district, state, pincode } = req.body;
         const traceId = req.headers['x-trace-id'] as string;
+        const userId = req.user!.userId;
 
-        if (!user_id || !full_name || !district || !state) {
-            return sendError(res, 400, 'VALIDATION_ERROR', 'User ID, full name, district, and state are required');
-        }
-
-        authClient.CreateFarmerProfile(
+        const response = await authClient.CreateFarmerProfile(
             {
-                userId: user_id,
-                fullName: full_name,
+                user_id: String(userId),
+                full_name,
                 village: village || '',
                 taluk: taluk || '',
                 district,
                 state,
                 pincode: pincode || '',
             },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) {
-                    if (err.code === 6) { // ALREADY_EXISTS
-                        return sendError(res, 409, 'PROFILE_EXISTS', 'Profile already exists for this user');
-                    }
-                    return next(err);
-                }
-                sendSuccess(res, {
-                    message: response.message,
-                    profile: {
-                        id: response.profile.id,
-                        user_id: response.profile.userId,
-                        full_name: response.profile.fullName,
-                        village: response.profile.village,
-                        taluk: response.profile.taluk,
-                        district: response.profile.district,
-                        state: response.profile.state,
-                        pincode: response.profile.pincode,
-                    },
-                }, 201);
-            }
+            { metadata: createMetadata(traceId) }
         );
+        sendSuccess(res, {
+            message: response.message,
+            profile: {
+                id: response.profile?.id,
+                user_id: response.profile?.user_id,
+                full_name: response.profile?.full_name,
+                village: response.profile?.village,
+                taluk: response.profile?.taluk,
+                district: response.profile?.district,
+                state: response.profile?.state,
+                pincode: response.profile?.pincode,
+            },
+        }, 201);
     } catch (err) {
+        if (grpcStatusOf(err) === grpc.status.ALREADY_EXISTS) {
+            return sendError(res, 409, 'PROFILE_EXISTS', 'Profile already exists for this user');
+        }
         next(err);
     }
-});
+}));
 
 /**
  * PUT /v1/auth/profile
  * Update farmer profile (AC5)
+ * Deprecated: PATCH /v1/users/profile updates the caller's own profile
  */
-router.put('/profile', async (req, res, next) => {
+router.put('/profile', deprecated({
+    since: '2026-10-19',
+    sunset: '2027-04-30',
+    successor: '/v1/users/profile',
+}), authMiddleware, requirePolicy({ userTypes: ['FARMER'] }), validated({ body: updateFarmerProfileSchema }, async (req, res, next) => {
     try {
-        const { user_id, full_name, village, taluk, district, state, pincode } = req.body;
+        const { full_name, village, taluk, district, state, pincode } = req.body;
         const traceId = req.headers['x-trace-id'] as string;
+        const userId = req.user!.userId;
 
-        if (!user_id) {
-            return sendError(res, 400, 'VALIDATION_ERROR', 'User ID is required');
-        }
-
-        authClient.UpdateFarmerProfile(
-            {
-                userId: user_id,
-                fullName: full_name || '',
-                village: village || '',
-                taluk: taluk || '',
-                district: district || '',
-                state: state || '',
-                pincode: pincode || '',
-            },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) return next(err);
-                sendSuccess(res, {
-                    message: response.message,
-                    profile: {
-                        id: response.profile.id,
-                        user_id: response.profile.userId,
-                        full_name: response.profile.fullName,
-                        village: response.profile.village,
-                        taluk: response.profile.taluk,
-                        district: response.profile.district,
-                        state: response.profile.state,
-                        pincode: response.profile.pincode,
-                        farm_size: response.profile.farmSize,
-                        farming_types: response.profile.farmingTypes,
-                        main_crops: response.profile.mainCrops,
-                    },
-                });
-            }
+        const response = await authClient.UpdateFarmerProfile(
+            { user_id: String(userId), full_name, village, taluk, district, state, pincode },
+            { metadata: createMetadata(traceId) }
         );
+        sendSuccess(res, {
+            message: response.message,
+            profile: {
+                id: response.profile?.id,
+                user_id: response.profile?.user_id,
+                full_name: response.profile?.full_name,
+                village: response.profile?.village,
+                taluk: response.profile?.taluk,
+                district: response.profile?.district,
+                state: response.profile?.state,
+                pincode: response.profile?.pincode,
+                farm_size: response.profile?.farm_size,
+                farming_types: response.profile?.farming_types,
+                main_crops: response.profile?.main_crops,
+            },
+        });
     } catch (err) {
         next(err);
     }
-});
+}));
 
 /**
  * POST /v1/auth/farm-profile
  * Save farm profile (AC6)
  */
-router.post('/farm-profile', async (req, res, next) => {
+router.post('/farm-profile', authMiddleware, requirePolicy({ userTypes: ['FARMER'] }), validated({ body: farmProfileSchema }, async (req, res, next) => {
     try {
-        const { user_id, farm_size, farming_types, main_crops } = req.body;
+        const { farm_size, farming_types, main_crops } = req.body;
         const traceId = req.headers['x-trace-id'] as string;
+        const userId = req.user!.userId;
 
-        if (!user_id || !farm_size) {
-            return sendError(res, 400, 'VALIDATION_ERROR', 'User ID and farm size are required');
-        }
-
-        authClient.SaveFarmProfile(
+        const response = await authClient.SaveFarmProfile(
             {
-                userId: user_id,
-                farmSize: farm_size,
-                farmingTypes: farming_types || [],
-                mainCrops: main_crops || [],
+                user_id: String(userId),
+                farm_size: String(farm_size),
+                farming_types: farming_types || [],
+                main_crops: main_crops || [],
             },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) return next(err);
-                sendSuccess(res, {
-                    message: response.message,
-                    profile: {
-                        id: response.profile.id,
-                        farm_size: response.profile.farmSize,
-                        farming_types: response.profile.farmingTypes,
-                        main_crops: response.profile.mainCrops,
-                    },
-                });
-            }
+            { metadata: createMetadata(traceId) }
         );
+        sendSuccess(res, {
+            message: response.message,
+            profile: {
+                id: response.profile?.id,
+                farm_size: response.profile?.farm_size,
+                farming_types: response.profile?.farming_types,
+                main_crops: response.profile?.main_crops,
+            },
+        });
     } catch (err) {
         next(err);
     }
-});
+}));
 
 /**
  * POST /v1/auth/payment-details
- * Add payment details (AC7)
+ * Add payment details (AC7). Critical action: requires step-up re-auth.
  */
-router.post('/payment-details', async (req, res, next) => {
+router.post('/payment-details', authMiddleware, requirePolicy({ userTypes: ['FARMER'] }), validated({ body: paymentDetailsSchema }, withReauth(REAUTH_ACTIONS.CHANGE_PAYMENT_DETAILS, async (req, res, next) => {
     try {
-        const { user_id, payment_type, upi_id, bank_account, ifsc_code, bank_name } = req.body;
+        const { payment_type, upi_id, bank_account, ifsc_code, bank_name } = req.body;
         const traceId = req.headers['x-trace-id'] as string;
+        const userId = req.user!.userId;
 
-        if (!user_id || !payment_type) {
-            return sendError(res, 400, 'VALIDATION_ERROR', 'User ID and payment type are required');
-        }
-
-        authClient.AddPaymentDetails(
+        const response = await authClient.AddPaymentDetails(
             {
-                userId: user_id,
-                paymentType: payment_type,
-                upiId: upi_id || '',
-                bankAccount: bank_account || '',
-                ifscCode: ifsc_code || '',
-                bankName: bank_name || '',
+                user_id: String(userId),
+                payment_type,
+                upi_id: upi_id || '',
+                bank_account: bank_account || '',
+                ifsc_code: ifsc_code || '',
+                bank_name: bank_name || '',
             },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) return next(err);
-                sendSuccess(res, {
-                    message: response.message,
-                    payment: {
-                        id: response.payment.id,
-                        payment_type: response.payment.paymentType,
-                        upi_id: response.payment.upiId,
-                        bank_account: response.payment.bankAccount,
-                        ifsc_code: response.payment.ifscCode,
-                        bank_name: response.payment.bankName,
-                        is_verified: response.payment.isVerified,
-                        is_primary: response.payment.isPrimary,
-                    },
-                }, 201);
-            }
+            { metadata: createMetadata(traceId) }
         );
+        sendSuccess(res, {
+            message: response.message,
+            payment: {
+                id: response.payment?.id,
+                payment_type: response.payment?.payment_type,
+                upi_id: response.payment?.upi_id,
+                bank_account: response.payment?.bank_account,
+                ifsc_code: response.payment?.ifsc_code,
+                bank_name: response.payment?.bank_name,
+                is_verified: response.payment?.is_verified,
+                is_primary: response.payment?.is_primary,
+            },
+        }, 201);
     } catch (err) {
         next(err);
     }
-});
+})));
 
 /**
  * POST /v1/auth/verify-upi
  * Verify UPI ID (AC7)
  */
-router.post('/verify-upi', async (req, res, next) => {
+router.post('/verify-upi', allowPublic(), validated({ body: verifyUpiSchema }, async (req, res, next) => {
     try {
         const { upi_id } = req.body;
         const traceId = req.headers['x-trace-id'] as string;
 
-        if (!upi_id) {
-            return sendError(res, 400, 'VALIDATION_ERROR', 'UPI ID is required');
-        }
-
-        authClient.VerifyUpi(
-            { upi_id: upi_id },  // Use snake_case matching proto field name
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) return next(err);
-                sendSuccess(res, {
-                    valid: response.valid,
-                    customer_name: response.customerName,
-                    message: response.message,
-                });
-            }
-        );
+        const response = await authClient.VerifyUpi({ upi_id }, { metadata: createMetadata(traceId) });
+        sendSuccess(res, {
+            valid: response.valid,
+            customer_name: response.customer_name,
+            message: response.message,
+        });
     } catch (err) {
         next(err);
     }
-});
+}));
 
 /**
  * POST /v1/auth/test/verify-upi
  * Test endpoint for UPI verification (mock mode - no gRPC required)
  * Use for local development and testing without backend services
  */
-router.post('/test/verify-upi', async (req, res) => {
+router.post('/test/verify-upi', allowPublic(), validated({ body: verifyUpiSchema }, async (req, res) => {
     const { upi_id } = req.body;
 
-    if (!upi_id) {
-        return sendError(res, 400, 'VALIDATION_ERROR', 'UPI ID is required');
-    }
-
     // UPI VPA format validation: <username>@<bank_handle>
     const vpaRegex = /^[a-zA-Z0-9._-]+@[a-zA-Z0-9]+$/;
     const isValidFormat = vpaRegex.test(upi_id);
@@ -430,93 +451,73 @@ router.post('/test/verify-upi', async (req, res) => {
         message: 'UPI ID format valid (test mode - actual verification requires Razorpay)',
         test_mode: true,
     });
-});
+}));
 
 /**
  * POST /v1/auth/pin
  * Set PIN (AC8)
  */
-router.post('/pin', async (req, res, next) => {
+router.post('/pin', authMiddleware, requirePolicy({ userTypes: ['FARMER'] }), validated({ body: setPinSchema }, async (req, res, next) => {
     try {
-        const { user_id, pin } = req.body;
+        const { pin } = req.body;
         const traceId = req.headers['x-trace-id'] as string;
+        const userId = req.user!.userId;
 
-        if (!user_id || !pin) {
-            return sendError(res, 400, 'VALIDATION_ERROR', 'User ID and PIN are required');
-        }
-
-        if (!/^\d{4}$/.test(pin)) {
-            return sendError(res, 400, 'VALIDATION_ERROR', 'PIN must be exactly 4 digits');
-        }
-
-        authClient.SetPin(
-            { userId: user_id, pin },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) return next(err);
-                sendSuccess(res, { message: response.message }, 201);
-            }
+        const response = await authClient.SetPin(
+            { user_id: String(userId), pin },
+            { metadata: createMetadata(traceId) }
         );
+        sendSuccess(res, { message: response.message }, 201);
     } catch (err) {
         next(err);
     }
-});
+}));
 
 /**
  * POST /v1/auth/login-pin
  * Login with PIN (AC8)
  */
-router.post('/login-pin', async (req, res, next) => {
+router.post('/login-pin', allowPublic(), bruteForceGuard('pin', (req) => ({
+    user: req.body?.user_id,
+    device: req.body?.device_id,
+})), validated({ body: loginPinSchema }, async (req, res, next) => {
+    const attempts = getAttemptTracker(res);
     try {
         const { user_id, pin, device_id } = req.body;
         const traceId = req.headers['x-trace-id'] as string;
 
-        if (!user_id || !pin) {
-            return sendError(res, 400, 'VALIDATION_ERROR', 'User ID and PIN are required');
-        }
-
-        authClient.LoginWithPin(
+        const response = await authClient.LoginWithPin(
             {
-                userId: user_id,
+                user_id: String(user_id),
                 pin,
-                deviceId: device_id || '',
+                device_id: device_id || '',
             },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) {
-                    try {
-                        const errorDetails = JSON.parse(err.details);
-                        if (errorDetails.error === 'INVALID_PIN') {
-                            return sendError(res, 401, errorDetails.error, errorDetails.message, {
-                                remaining_attempts: errorDetails.remainingAttempts,
-                            });
-                        }
-                        if (errorDetails.error === 'ACCOUNT_LOCKED') {
-                            return sendError(res, 403, errorDetails.error, errorDetails.message, {
-                                locked_until: errorDetails.lockedUntil,
-                            });
-                        }
-                    } catch {
-                        // Not a structured error
-                    }
-                    return next(err);
-                }
-                sendSuccess(res, {
-                    token: response.token,
-                    user: {
-                        id: response.user.id,
-                        name: response.user.name,
-                        phone: response.user.phone,
-                        user_type: response.user.userType,
-                        language: response.user.language,
-                    },
-                });
-            }
+            { metadata: createMetadata(traceId) }
         );
+        await attempts.succeed();
+        const refresh = await withRefreshToken(response.token);
+        sendSuccess(res, {
+            token: response.token,
+            ...refresh,
+            user: {
+                id: response.user?.id,
+                name: response.user?.name,
+                phone: response.user?.phone,
+                user_type: response.user?.user_type,
+                language: response.user?.language,
+            },
+        });
     } catch (err) {
+        const errorDetails = parseErrorDetails(err);
+        if (errorDetails?.error === 'INVALID_PIN') {
+            return attempts.reject(errorDetails.error, errorDetails.message);
+        }
+        if (errorDetails?.error === 'ACCOUNT_LOCKED') {
+            return sendAccountLocked(res, errorDetails.message, toTimestamp(errorDetails.lockedUntil));
+        }
         next(err);
     }
-});
+}));
 
 // =====================================================
 // Story 2.3 - Buyer Business Account Creation Endpoints
@@ -526,7 +527,7 @@ router.post('/login-pin', async (req, res, next) => {
  * POST /v1/auth/buyer/register
  * Step 1: Register buyer and send OTP
  */
-router.post('/buyer/register', async (req, res, next) => {
+router.post('/buyer/register', allowPublic(), rateLimit(RATE_LIMIT_POLICIES.OTP_IP), rateLimit(RATE_LIMIT_POLICIES.OTP_PHONE), validated({ body: buyerRegisterSchema }, async (req, res, next) => {
     try {
         const {
             business_name,
@@ -538,83 +539,61 @@ router.post('/buyer/register', async (req, res, next) => {
         } = req.body;
         const traceId = req.headers['x-trace-id'] as string;
 
-        // Basic validation
-        if (!business_name || !business_type || !email || !password || !mobile_number) {
-            return sendError(res, 400, 'VALIDATION_ERROR',
-                'Business name, type, email, password, and mobile number are required');
-        }
-
         logger.info({ email, mobile_number, business_type }, 'Buyer registration request received');
 
-        authClient.RegisterBuyer(
+        const response = await authClient.RegisterBuyer(
             {
-                businessName: business_name,
-                businessType: business_type,
+                business_name,
+                business_type,
                 email,
                 password,
-                mobileNumber: mobile_number,
-                gstNumber: gst_number || '',
+                mobile_number,
+                gst_number: gst_number || '',
             },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) {
-                    try {
-                        const errorDetails = JSON.parse(err.details);
-                        if (errorDetails.error === 'WEAK_PASSWORD') {
-                            return sendError(res, 400, errorDetails.error, errorDetails.message, {
-                                password_errors: errorDetails.errors,
-                            });
-                        }
-                        if (errorDetails.error === 'EMAIL_EXISTS') {
-                            return sendError(res, 409, errorDetails.error, errorDetails.message);
-                        }
-                        if (errorDetails.error === 'PHONE_EXISTS') {
-                            return sendError(res, 409, errorDetails.error, errorDetails.message);
-                        }
-                    } catch {
-                        // Not a structured error
-                    }
-                    return next(err);
-                }
-                sendSuccess(res, {
-                    message: response.message,
-                    expires_in: response.expiresIn,
-                });
-            }
+            { metadata: createMetadata(traceId) }
         );
+        sendSuccess(res, {
+            message: response.message,
+            expires_in: response.expires_in,
+        });
     } catch (err) {
+        const errorDetails = parseErrorDetails(err);
+        if (errorDetails?.error === 'WEAK_PASSWORD') {
+            return sendError(res, 400, errorDetails.error, errorDetails.message, {
+                password_errors: errorDetails.errors,
+            });
+        }
+        if (errorDetails?.error === 'EMAIL_EXISTS') {
+            return sendError(res, 409, errorDetails.error, errorDetails.message);
+        }
+        if (errorDetails?.error === 'PHONE_EXISTS') {
+            return sendError(res, 409, errorDetails.error, errorDetails.message);
+        }
         next(err);
     }
-});
+}));
 
 /**
  * POST /v1/auth/buyer/verify-otp
  * Step 2: Verify OTP and complete buyer registration
  */
-router.post('/buyer/verify-otp', async (req, res, next) => {
+router.post('/buyer/verify-otp', allowPublic(), bruteForceGuard('otp', (req) => ({
+    phone: req.body?.mobile_number,
+})), validated({ body: buyerVerifyOtpSchema }, async (req, res, next) => {
+    const attempts = getAttemptTracker(res);
     try {
         const { mobile_number, otp, address } = req.body;
         const traceId = req.headers['x-trace-id'] as string;
 
-        // Basic validation
-        if (!mobile_number || !otp) {
-            return sendError(res, 400, 'VALIDATION_ERROR', 'Mobile number and OTP are required');
-        }
-
-        if (!address || !address.address_line1 || !address.city || !address.state || !address.pincode) {
-            return sendError(res, 400, 'VALIDATION_ERROR',
-                'Address with address_line1, city, state, and pincode is required');
-        }
-
         logger.info({ mobile_number }, 'Buyer OTP verification request received');
 
-        authClient.VerifyBuyerOtp(
+        const response = await authClient.VerifyBuyerOtp(
             {
-                mobileNumber: mobile_number,
+                mobile_number,
                 otp,
                 address: {
-                    addressLine1: address.address_line1,
-                    addressLine2: address.address_line2 || '',
+                    address_line1: address.address_line1,
+                    address_line2: address.address_line2 || '',
                     city: address.city,
                     state: address.state,
                     pincode: address.pincode,
@@ -622,48 +601,43 @@ router.post('/buyer/verify-otp', async (req, res, next) => {
                     longitude: address.longitude || 0,
                 },
             },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) {
-                    try {
-                        const errorDetails = JSON.parse(err.details);
-                        if (errorDetails.error === 'INVALID_OTP') {
-                            return sendError(res, 401, errorDetails.error, errorDetails.message);
-                        }
-                    } catch {
-                        // Not a structured error
-                    }
-                    return next(err);
-                }
-                sendSuccess(res, {
-                    message: response.message,
-                    token: response.token,
-                    buyer: {
-                        id: response.buyer.id,
-                        user_id: response.buyer.userId,
-                        business_name: response.buyer.businessName,
-                        business_type: response.buyer.businessType,
-                        email: response.buyer.email,
-                        mobile_number: response.buyer.mobileNumber,
-                        gst_number: response.buyer.gstNumber,
-                        email_verified: response.buyer.emailVerified,
-                        address: {
-                            address_line1: response.buyer.address.addressLine1,
-                            address_line2: response.buyer.address.addressLine2,
-                            city: response.buyer.address.city,
-                            state: response.buyer.address.state,
-                            pincode: response.buyer.address.pincode,
-                            latitude: response.buyer.address.latitude,
-                            longitude: response.buyer.address.longitude,
-                        },
-                    },
-                }, 201);
-            }
+            { metadata: createMetadata(traceId) }
         );
+        await attempts.succeed();
+        const buyer = response.buyer;
+        const refresh = await withRefreshToken(response.token);
+        sendSuccess(res, {
+            message: response.message,
+            token: response.token,
+            ...refresh,
+            buyer: {
+                id: buyer?.id,
+                user_id: buyer?.user_id,
+                business_name: buyer?.business_name,
+                business_type: buyer?.business_type,
+                email: buyer?.email,
+                mobile_number: buyer?.mobile_number,
+                gst_number: buyer?.gst_number,
+                email_verified: buyer?.email_verified,
+                address: {
+                    address_line1: buyer?.address?.address_line1,
+                    address_line2: buyer?.address?.address_line2,
+                    city: buyer?.address?.city,
+                    state: buyer?.address?.state,
+                    pincode: buyer?.address?.pincode,
+                    latitude: buyer?.address?.latitude,
+                    longitude: buyer?.address?.longitude,
+                },
+            },
+        }, 201);
     } catch (err) {
+        const errorDetails = parseErrorDetails(err);
+        if (errorDetails?.error === 'INVALID_OTP') {
+            return attempts.reject(errorDetails.error, errorDetails.message);
+        }
         next(err);
     }
-});
+}));
 
 // =====================================================
 // Story 2.3 - Buyer Login & Password Management Endpoints
@@ -673,63 +647,51 @@ router.post('/buyer/verify-otp', async (req, res, next) => {
  * POST /v1/auth/buyer/login
  * AC7: Buyer email/password login
  */
-router.post('/buyer/login', async (req, res, next) => {
+router.post('/buyer/login', allowPublic(), bruteForceGuard('password', (req) => ({
+    user: req.body?.email,
+})), validated({ body: buyerLoginSchema }, async (req, res, next) => {
+    const attempts = getAttemptTracker(res);
     try {
         const { email, password } = req.body;
         const traceId = req.headers['x-trace-id'] as string;
 
-        if (!email || !password) {
-            return sendError(res, 400, 'VALIDATION_ERROR', 'Email and password are required');
-        }
-
         logger.info({ email }, 'Buyer login request received');
 
-        authClient.LoginBuyer(
-            { email, password },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) {
-                    try {
-                        const errorDetails = JSON.parse(err.details);
-                        if (errorDetails.error === 'INVALID_CREDENTIALS') {
-                            return sendError(res, 401, errorDetails.error, errorDetails.message, {
-                                remaining_attempts: errorDetails.remainingAttempts,
-                            });
-                        }
-                        if (errorDetails.error === 'ACCOUNT_LOCKED') {
-                            return sendError(res, 429, errorDetails.error, errorDetails.message, {
-                                locked_until_minutes: errorDetails.lockedUntilMinutes,
-                            });
-                        }
-                    } catch {
-                        // Not a structured error
-                    }
-                    return next(err);
-                }
-                sendSuccess(res, {
-                    message: response.message,
-                    token: response.token,
-                    user: {
-                        id: response.buyer?.userId,
-                        business_name: response.buyer?.businessName,
-                        business_type: response.buyer?.businessType,
-                        email: response.buyer?.email,
-                        mobile_number: response.buyer?.mobileNumber,
-                        email_verified: response.buyer?.emailVerified,
-                    },
-                });
-            }
-        );
+        const response = await authClient.LoginBuyer({ email, password }, { metadata: createMetadata(traceId) });
+        await attempts.succeed();
+        const refresh = await withRefreshToken(response.token);
+        sendSuccess(res, {
+            message: response.message,
+            token: response.token,
+            ...refresh,
+            user: {
+                id: response.buyer?.user_id,
+                business_name: response.buyer?.business_name,
+                business_type: response.buyer?.business_type,
+                email: response.buyer?.email,
+                mobile_number: response.buyer?.mobile_number,
+                email_verified: response.buyer?.email_verified,
+            },
+        });
     } catch (err) {
+        const errorDetails = parseErrorDetails(err);
+        if (errorDetails?.error === 'INVALID_CREDENTIALS') {
+            return attempts.reject(errorDetails.error, errorDetails.message);
+        }
+        if (errorDetails?.error === 'ACCOUNT_LOCKED') {
+            const minutes = Number(errorDetails.lockedUntilMinutes);
+            return sendAccountLocked(res, errorDetails.message,
+                Number.isFinite(minutes) ? Date.now() + minutes * 60 * 1000 : null);
+        }
         next(err);
     }
-});
+}));
 
 /**
  * POST /v1/auth/buyer/logout
  * AC12: Buyer logout - invalidate token
  */
-router.post('/buyer/logout', async (req, res, next) => {
+router.post('/buyer/logout', allowPublic(), validated({}, async (req, res, next) => {
     try {
         const token = req.headers.authorization?.replace('Bearer ', '');
         const traceId = req.headers['x-trace-id'] as string;
@@ -740,108 +702,77 @@ router.post('/buyer/logout', async (req, res, next) => {
 
         logger.info('Buyer logout request received');
 
-        authClient.LogoutBuyer(
-            { token },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) return next(err);
-                sendSuccess(res, { message: response.message });
-            }
-        );
+        const response = await authClient.LogoutBuyer({ token }, { metadata: createMetadata(traceId) });
+        await revokeLoggedOutToken(token);
+        sendSuccess(res, { message: response.message });
     } catch (err) {
         next(err);
     }
-});
+}));
 
 /**
  * POST /v1/auth/buyer/forgot-password
  * AC9: Request password reset email
  */
-router.post('/buyer/forgot-password', async (req, res, next) => {
-    try {
-        const { email } = req.body;
-        const traceId = req.headers['x-trace-id'] as string;
+router.post('/buyer/forgot-password', allowPublic(), validated({ body: forgotPasswordSchema }, async (req, res) => {
+    const { email } = req.body;
+    const traceId = req.headers['x-trace-id'] as string;
 
-        if (!email) {
-            return sendError(res, 400, 'VALIDATION_ERROR', 'Email is required');
-        }
+    logger.info({ email }, 'Forgot password request received');
 
-        logger.info({ email }, 'Forgot password request received');
-
-        authClient.ForgotPassword(
-            { email },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                // Always return success to prevent email enumeration
-                if (err) {
-                    logger.error({ err }, 'ForgotPassword error (hidden from user)');
-                }
-                sendSuccess(res, {
-                    message: response?.message || 'If this email exists, we\'ve sent a reset link.',
-                });
-            }
-        );
-    } catch (err) {
-        // Still return success to prevent enumeration
-        sendSuccess(res, {
-            message: 'If this email exists, we\'ve sent a reset link.',
+    // Always return success to prevent email enumeration
+    const response = await authClient.ForgotPassword({ email }, { metadata: createMetadata(traceId) })
+        .catch((err: unknown) => {
+            logger.error({ err }, 'ForgotPassword error (hidden from user)');
+            return undefined;
         });
-    }
-});
+    sendSuccess(res, {
+        message: response?.message || 'If this email exists, we\'ve sent a reset link.',
+    });
+}));
 
 /**
  * POST /v1/auth/buyer/reset-password
  * AC9: Reset password with token
  */
-router.post('/buyer/reset-password', async (req, res, next) => {
+router.post('/buyer/reset-password', allowPublic(), validated({ body: resetPasswordSchema }, async (req, res, next) => {
     try {
         const { token, password } = req.body;
         const traceId = req.headers['x-trace-id'] as string;
 
-        if (!token || !password) {
-            return sendError(res, 400, 'VALIDATION_ERROR', 'Token and password are required');
-        }
-
         logger.info('Reset password request received');
 
-        authClient.ResetPassword(
-            { token, newPassword: password },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) {
-                    try {
-                        const errorDetails = JSON.parse(err.details);
-                        if (errorDetails.error === 'TOKEN_EXPIRED') {
-                            return sendError(res, 400, errorDetails.error, errorDetails.message);
-                        }
-                        if (errorDetails.error === 'INVALID_PASSWORD') {
-                            return sendError(res, 400, errorDetails.error, errorDetails.message, {
-                                password_errors: errorDetails.passwordErrors,
-                            });
-                        }
-                        if (errorDetails.error === 'INVALID_TOKEN') {
-                            return sendError(res, 400, errorDetails.error, errorDetails.message);
-                        }
-                    } catch {
-                        // Not a structured error
-                    }
-                    return next(err);
-                }
-                sendSuccess(res, {
-                    message: response.message,
-                    token: response.token,
-                    user: {
-                        id: response.buyer?.userId,
-                        business_name: response.buyer?.businessName,
-                        email: response.buyer?.email,
-                    },
-                });
-            }
+        const response = await authClient.ResetPassword(
+            { token, new_password: password },
+            { metadata: createMetadata(traceId) }
         );
+        const refresh = await withRefreshToken(response.token);
+        sendSuccess(res, {
+            message: response.message,
+            token: response.token,
+            ...refresh,
+            user: {
+                id: response.buyer?.user_id,
+                business_name: response.buyer?.business_name,
+                email: response.buyer?.email,
+            },
+        });
     } catch (err) {
+        const errorDetails = parseErrorDetails(err);
+        if (errorDetails?.error === 'TOKEN_EXPIRED') {
+            return sendError(res, 400, errorDetails.error, errorDetails.message);
+        }
+        if (errorDetails?.error === 'INVALID_PASSWORD') {
+            return sendError(res, 400, errorDetails.error, errorDetails.message, {
+                password_errors: errorDetails.passwordErrors,
+            });
+        }
+        if (errorDetails?.error === 'INVALID_TOKEN') {
+            return sendError(res, 400, errorDetails.error, errorDetails.message);
+        }
         next(err);
     }
-});
+}));
 
 // =====================================================
 // Story 2.8 - Session Management & Re-authentication
@@ -851,7 +782,7 @@ router.post('/buyer/reset-password', async (req, res, next) => {
  * POST /v1/auth/logout
  * Universal logout endpoint (AC1)
  */
-router.post('/logout', async (req, res, next) => {
+router.post('/logout', allowPublic(), validated({}, async (req, res, next) => {
     try {
         const token = req.headers.authorization?.replace('Bearer ', '');
         const traceId = req.headers['x-trace-id'] as string;
@@ -862,27 +793,66 @@ router.post('/logout', async (req, res, next) => {
 
         logger.info('Logout request received');
 
-        authClient.Logout(
-            { token },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) return next(err);
-                sendSuccess(res, {
-                    success: true,
-                    message: 'Logged out successfully',
-                });
-            }
+        await authClient.Logout({ token }, { metadata: createMetadata(traceId) });
+        await revokeLoggedOutToken(token);
+        sendSuccess(res, {
+            success: true,
+            message: 'Logged out successfully',
+        });
+    } catch (err) {
+        next(err);
+    }
+}));
+
+/**
+ * POST /v1/auth/token/refresh
+ * Exchange a refresh token for a short-lived access token and a new refresh token.
+ * Reusing a consumed refresh token revokes the whole session.
+ */
+router.post('/token/refresh', allowPublic(), validated({ body: refreshTokenSchema }, async (req, res, next) => {
+    try {
+        const { body } = req;
+        const traceId = req.headers['x-trace-id'] as string;
+
+        const result = await rotateRefreshToken(body.refresh_token, (record) =>
+            authClient.IssueAccessToken(
+                {
+                    user_id: String(record.userId),
+                    session_id: record.sessionId,
+                    ttl_seconds: config.jwt.accessTokenTtlSeconds,
+                },
+                { metadata: createMetadata(traceId) }
+            )
         );
+
+        if (result.status === 'invalid') {
+            return sendError(res, 401, 'INVALID_REFRESH_TOKEN', 'Refresh token is invalid or expired');
+        }
+        if (result.status === 'revoked') {
+            return sendError(res, 401, 'SESSION_REVOKED', 'Session has been logged out. Please login again.');
+        }
+        if (result.status === 'reused') {
+            return sendError(res, 401, 'REFRESH_TOKEN_REUSED', 'Refresh token was already used. Please login again.');
+        }
+
+        logger.info({ userId: result.record.userId, sessionId: result.record.sessionId }, 'Access token refreshed');
+
+        sendSuccess(res, {
+            token: result.accessToken.token,
+            expires_in: result.accessToken.expires_in || config.jwt.accessTokenTtlSeconds,
+            refresh_token: result.refreshToken.token,
+            refresh_expires_in: result.refreshToken.expiresIn,
+        });
     } catch (err) {
         next(err);
     }
-});
+}));
 
 /**
  * POST /v1/auth/reauth/initiate
  * Initiate re-authentication for critical actions (AC8)
  */
-router.post('/reauth/initiate', async (req, res, next) => {
+router.post('/reauth/initiate', authMiddleware, requirePolicy({}), validated({ body: initiateReauthSchema }, async (req, res, next) => {
     try {
         const { action } = req.body;
         const token = req.headers.authorization?.replace('Bearer ', '');
@@ -892,14 +862,8 @@ router.post('/reauth/initiate', async (req, res, next) => {
             return sendError(res, 401, 'UNAUTHORIZED', 'Authorization token is required');
         }
 
-        if (!action) {
-            return sendError(res, 400, 'VALIDATION_ERROR', 'Action is required');
-        }
-
-        // TODO: Extract user_id and user_type from JWT token
-        // For now, these should come from the auth middleware
-        const userId = (req as any).user?.userId;
-        const userType = (req as any).user?.userType;
+        const userId = req.user?.userId;
+        const userType = req.user?.userType;
 
         if (!userId) {
             return sendError(res, 401, 'UNAUTHORIZED', 'Invalid token');
@@ -907,37 +871,36 @@ router.post('/reauth/initiate', async (req, res, next) => {
 
         logger.info({ userId, action }, 'Re-auth initiate request received');
 
-        authClient.InitiateReauth(
+        const response = await authClient.InitiateReauth(
             {
-                userId: String(userId),
+                user_id: String(userId),
                 action,
-                userType: userType || 'FARMER',
+                user_type: userType || 'FARMER',
             },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) return next(err);
-
-                if (!response.success) {
-                    return sendError(res, 400, 'REAUTH_NOT_ALLOWED', response.message);
-                }
-
-                sendSuccess(res, {
-                    reauth_token: response.reauthToken,
-                    expires_in_seconds: response.expiresInSeconds,
-                    allowed_methods: response.allowedMethods,
-                });
-            }
+            { metadata: createMetadata(traceId) }
         );
+
+        if (!response.success) {
+            return sendError(res, 400, 'REAUTH_NOT_ALLOWED', response.message);
+        }
+
+        sendSuccess(res, {
+            reauth_token: response.reauth_token,
+            expires_in_seconds: response.expires_in_seconds,
+            allowed_methods: response.allowed_methods,
+        });
     } catch (err) {
         next(err);
     }
-});
+}));
 
 /**
  * POST /v1/auth/reauth/verify
  * Verify re-authentication with PIN/OTP/Password (AC8)
  */
-router.post('/reauth/verify', async (req, res, next) => {
+router.post('/reauth/verify', authMiddleware, requirePolicy({}), bruteForceGuard('reauth', (req) => ({
+    user: (req as AuthRequest).user?.userId,
+})), validated({ body: validateReauthSchema }, async (req, res, next) => {
     try {
         const { action, reauth_token, method, credential } = req.body;
         const token = req.headers.authorization?.replace('Bearer ', '');
@@ -947,13 +910,8 @@ router.post('/reauth/verify', async (req, res, next) => {
             return sendError(res, 401, 'UNAUTHORIZED', 'Authorization token is required');
         }
 
-        if (!action || !reauth_token || !method || !credential) {
-            return sendError(res, 400, 'VALIDATION_ERROR',
-                'Action, reauth_token, method, and credential are required');
-        }
-
-        const userId = (req as any).user?.userId;
-        const phone = (req as any).user?.phone;
+        const userId = req.user?.userId;
+        const phone = req.user?.phone;
 
         if (!userId) {
             return sendError(res, 401, 'UNAUTHORIZED', 'Invalid token');
@@ -961,33 +919,39 @@ router.post('/reauth/verify', async (req, res, next) => {
 
         logger.info({ userId, action, method }, 'Re-auth verify request received');
 
-        authClient.ValidateReauth(
+        const response = await authClient.ValidateReauth(
             {
-                userId: String(userId),
+                user_id: String(userId),
                 action,
-                reauthToken: reauth_token,
+                reauth_token,
                 method,
                 credential,
                 phone: phone || '',
             },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) return next(err);
-
-                if (!response.success) {
-                    return sendError(res, 401, response.error || 'REAUTH_FAILED', response.message);
-                }
-
-                sendSuccess(res, {
-                    success: true,
-                    message: 'Re-authentication successful',
-                });
-            }
+            { metadata: createMetadata(traceId) }
         );
+
+        const attempts = getAttemptTracker(res);
+        if (!response.success) {
+            return attempts.reject(response.error || 'REAUTH_FAILED', response.message);
+        }
+        await attempts.succeed();
+
+        // The guarded request presents reauth_token as X-Reauth-Token
+        const expiresIn = await recordReauthProof(reauth_token, {
+            userId,
+            sessionId: req.user?.sessionId,
+            action,
+        });
+        sendSuccess(res, {
+            success: true,
+            message: 'Re-authentication successful',
+            reauth_token,
+            expires_in_seconds: expiresIn,
+        });
     } catch (err) {
         next(err);
     }
-});
+}));
 
 export default router;
-
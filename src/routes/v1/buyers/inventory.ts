@@ -14,11 +14,17 @@
  * @module InventoryRoutes
  */
 
-import { Router, Request, Response, NextFunction } from 'express';
+import { Router } from 'express';
+import * as grpc from '@grpc/grpc-js';
 import { z } from 'zod';
 import { catalogClient, createMetadata } from '../../../grpc/clients';
+import { grpcStatusOf } from '../../../grpc/errors';
 import { sendSuccess, sendError } from '../../../utils/response-handler';
-import { authMiddleware } from '../../../middleware/auth';
+import { authMiddleware, AuthRequest } from '../../../middleware/auth';
+import { requirePolicy } from '../../../middleware/policy';
+import { validated } from '../../../middleware/validate';
+import { apiKeyAuth, requireApiKeyScope, API_KEY_SCOPES } from '../../../middleware/api-key';
+import { rateLimit, RATE_LIMIT_POLICIES } from '../../../middleware/rate-limit';
 import pino from 'pino';
 
 const router = Router();
@@ -33,32 +39,30 @@ const logger = pino({ name: 'buyer-inventory-routes' });
  * Matches Flutter FilterPreferences.toQueryParams()
  */
 const inventoryQuerySchema = z.object({
-    query: z.object({
-        // Produce type filter (multi-select, comma-separated)
-        cropType: z.string().optional().transform((val) =>
-            val ? val.split(',').map(s => s.trim()) : undefined
-        ),
-        // Quality grade filter (A, B, C - comma-separated)
-        grade: z.string().optional().transform((val) =>
-            val ? val.split(',').map(s => s.trim().toUpperCase()) : undefined
-        ),
-        // Quantity range
-        qtyMin: z.coerce.number().min(0).optional(),
-        qtyMax: z.coerce.number().min(0).optional(),
-        // Delivery date filter (ISO 8601)
-        deliveryDate: z.string().datetime({ offset: true }).optional(),
-        // Sort option
-        sort: z.enum([
-            'price_asc',
-            'price_desc',
-            'quality_desc',
-            'freshness',
-            'quantity_desc'
-        ]).default('freshness'),
-        // Pagination
-        cursor: z.string().optional(),
-        limit: z.coerce.number().int().min(1).max(50).default(20),
-    }),
+    // Produce type filter (multi-select, comma-separated)
+    cropType: z.string().optional().transform((val) =>
+        val ? val.split(',').map(s => s.trim()) : undefined
+    ),
+    // Quality grade filter (A, B, C - comma-separated)
+    grade: z.string().optional().transform((val) =>
+        val ? val.split(',').map(s => s.trim().toUpperCase()) : undefined
+    ),
+    // Quantity range
+    qtyMin: z.coerce.number().min(0).optional(),
+    qtyMax: z.coerce.number().min(0).optional(),
+    // Delivery date filter (ISO 8601)
+    deliveryDate: z.string().datetime({ offset: true }).optional(),
+    // Sort option
+    sort: z.enum([
+        'price_asc',
+        'price_desc',
+        'quality_desc',
+        'freshness',
+        'quantity_desc'
+    ]).default('freshness'),
+    // Pagination
+    cursor: z.string().optional(),
+    limit: z.coerce.number().int().min(1).max(50).default(20),
 });
 
 // =====================================================
@@ -102,10 +106,9 @@ interface InventoryResponse {
  * - cursor: Pagination cursor (last item ID)
  * - limit: Page size (default 20, max 50)
  */
-router.get('/', authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+router.get('/', apiKeyAuth, authMiddleware, requirePolicy({ userTypes: ['BUYER'] }), requireApiKeyScope(API_KEY_SCOPES.INVENTORY_READ), rateLimit(RATE_LIMIT_POLICIES.INVENTORY_BROWSE), validated({ query: inventoryQuerySchema }, async (req, res) => {
     try {
-        const userId = (req as any).user?.id;
-        const userType = (req as any).user?.role;
+        const userId = req.user?.userId;
         const traceId = req.headers['x-trace-id'] as string || 'unknown';
 
         // Buyer authentication required
@@ -113,13 +116,7 @@ router.get('/', authMiddleware, async (req: Request, res: Response, next: NextFu
             return sendError(res, 401, 'UNAUTHORIZED', 'User not authenticated');
         }
 
-        if (userType !== 'BUYER') {
-            return sendError(res, 403, 'FORBIDDEN', 'Only buyers can browse inventory');
-        }
-
-        // Parse and validate query params
-        const parsed = await inventoryQuerySchema.parseAsync({ query: req.query });
-        const { cropType, grade, qtyMin, qtyMax, deliveryDate, sort, cursor, limit } = parsed.query;
+        const { cropType, grade, qtyMin, qtyMax, deliveryDate, sort, cursor, limit } = req.query;
 
         logger.info({
             userId,
@@ -141,67 +138,55 @@ router.get('/', authMiddleware, async (req: Request, res: Response, next: NextFu
         };
 
         // Call Catalog Service via gRPC
-        catalogClient.GetAvailableInventory(
-            grpcRequest,
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) {
-                    logger.error({ err, userId }, 'GetAvailableInventory gRPC error');
-
-                    // Handle specific gRPC errors
-                    if (err.code === 14) { // UNAVAILABLE
-                        return sendError(res, 503, 'SERVICE_UNAVAILABLE', 'Catalog service unavailable');
-                    }
-
-                    return sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch inventory');
-                }
-
-                // Map gRPC response to REST response
-                const result: InventoryResponse = {
-                    items: (response.items || []).map((item: any) => ({
-                        id: item.id,
-                        cropType: item.crop_type || item.cropType,
-                        photoUrl: item.photo_url || item.photoUrl,
-                        quantityKg: Number(item.quantity_kg || item.quantityKg),
-                        grade: item.grade,
-                        pricePerKg: Number(item.price_per_kg || item.pricePerKg),
-                        deliveryDate: item.delivery_date || item.deliveryDate,
-                        createdAt: item.created_at || item.createdAt,
-                        isNew: item.is_new || item.isNew || false,
-                    })),
-                    total: response.total || 0,
-                    nextCursor: response.next_cursor || response.nextCursor,
-                    hasMore: response.has_more ?? response.hasMore ?? false,
-                };
-
-                logger.info({
-                    userId,
-                    itemCount: result.items.length,
-                    total: result.total,
-                    hasMore: result.hasMore
-                }, 'Inventory browse successful');
-
-                sendSuccess(res, result);
-            }
-        );
+        const response = await catalogClient.GetAvailableInventory(grpcRequest, {
+            metadata: createMetadata(traceId),
+        });
+
+        // Map gRPC response to REST response
+        const result: InventoryResponse = {
+            items: response.items.map((item) => ({
+                id: item.id,
+                cropType: item.crop_type,
+                photoUrl: item.photo_url,
+                quantityKg: item.quantity_kg,
+                grade: item.grade,
+                pricePerKg: item.price_per_kg,
+                deliveryDate: item.delivery_date,
+                createdAt: item.created_at,
+                isNew: item.is_new,
+            })),
+            total: response.total,
+            nextCursor: response.next_cursor || undefined,
+            hasMore: response.has_more,
+        };
+
+        logger.info({
+            userId,
+            itemCount: result.items.length,
+            total: result.total,
+            hasMore: result.hasMore
+        }, 'Inventory browse successful');
+
+        sendSuccess(res, result);
     } catch (err) {
-        // Zod validation errors
-        if (err instanceof z.ZodError) {
-            return sendError(res, 400, 'VALIDATION_ERROR', 'Invalid query parameters', {
-                errors: err.issues.map((e: z.ZodIssue) => ({ path: e.path.join('.'), message: e.message }))
-            });
+        logger.error({ err, userId: req.user?.userId }, 'GetAvailableInventory gRPC error');
+
+        // Handle specific gRPC errors
+        if (grpcStatusOf(err) === grpc.status.UNAVAILABLE) {
+            return sendError(res, 503, 'SERVICE_UNAVAILABLE', 'Catalog service unavailable');
         }
-        next(err);
+
+        return sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch inventory');
     }
-});
+}));
 
 /**
  * GET /v1/buyers/inventory/crop-types
  * Get available crop types for filter dropdown
  */
-router.get('/crop-types', authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+router.get('/crop-types', apiKeyAuth, authMiddleware, requirePolicy({ userTypes: ['BUYER'] }), requireApiKeyScope(API_KEY_SCOPES.INVENTORY_READ), rateLimit(RATE_LIMIT_POLICIES.INVENTORY_BROWSE), validated({}, async (req, res) => {
     try {
-        const userId = (req as any).user?.id;
+        const userId = (req as AuthRequest).user?.userId;
         const traceId = req.headers['x-trace-id'] as string || 'unknown';
 
         if (!userId) {
@@ -211,26 +196,21 @@ router.get('/crop-types', authMiddleware, async (req: Request, res: Response, ne
         logger.info({ userId }, 'Get crop types request');
 
         // Call Catalog Service - returns available crop types
-        catalogClient.ListProduce(
+        const response = await catalogClient.ListProduce(
             { page: 1, page_size: 100 }, // Get all crop types
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) {
-                    logger.error({ err, userId }, 'ListProduce gRPC error');
-                    return sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch crop types');
-                }
-
-                // Extract unique crop names
-                const cropTypes = [...new Set(
-                    (response.items || []).map((item: any) => item.name).filter(Boolean)
-                )].sort();
-
-                sendSuccess(res, { cropTypes });
-            }
+            { metadata: createMetadata(traceId) }
         );
+
+        // Extract unique crop names
+        const cropTypes = [...new Set(
+            response.items.map((item) => item.name).filter(Boolean)
+        )].sort();
+
+        sendSuccess(res, { cropTypes });
     } catch (err) {
-        next(err);
+        logger.error({ err, userId: (req as AuthRequest).user?.userId }, 'ListProduce gRPC error');
+        return sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch crop types');
     }
-});
+}));
 
 export default router;
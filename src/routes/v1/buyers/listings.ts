@@ -19,11 +19,17 @@
  * @module ListingDetailsRoutes
  */
 
-import { Router, Request, Response, NextFunction } from 'express';
+import { Router } from 'express';
+import * as grpc from '@grpc/grpc-js';
 import { z } from 'zod';
 import { catalogClient, createMetadata } from '../../../grpc/clients';
+import { grpcStatusOf } from '../../../grpc/errors';
 import { sendSuccess, sendError } from '../../../utils/response-handler';
 import { authMiddleware } from '../../../middleware/auth';
+import { requirePolicy } from '../../../middleware/policy';
+import { validated } from '../../../middleware/validate';
+import { apiKeyAuth, requireApiKeyScope, API_KEY_SCOPES } from '../../../middleware/api-key';
+import { rateLimit, RATE_LIMIT_POLICIES } from '../../../middleware/rate-limit';
 import pino from 'pino';
 
 const router = Router();
@@ -37,9 +43,7 @@ const logger = pino({ name: 'buyer-listing-routes' });
  * Path parameter schema for listing ID
  */
 const listingIdParamsSchema = z.object({
-    params: z.object({
-        id: z.coerce.number().int().positive(),
-    }),
+    id: z.coerce.number().int().positive(),
 });
 
 // =====================================================
@@ -115,10 +119,9 @@ interface ListingDetailsResponse {
  * 
  * Response: ListingDetailsResponse (AC1-9)
  */
-router.get('/:id', authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id', apiKeyAuth, authMiddleware, requirePolicy({ userTypes: ['BUYER'] }), requireApiKeyScope(API_KEY_SCOPES.INVENTORY_READ), rateLimit(RATE_LIMIT_POLICIES.INVENTORY_BROWSE), validated({ params: listingIdParamsSchema }, async (req, res) => {
     try {
-        const userId = (req as any).user?.id;
-        const userType = (req as any).user?.role;
+        const userId = req.user?.userId;
         const traceId = req.headers['x-trace-id'] as string || 'unknown';
 
         // Buyer authentication required
@@ -126,100 +129,82 @@ router.get('/:id', authMiddleware, async (req: Request, res: Response, next: Nex
             return sendError(res, 401, 'UNAUTHORIZED', 'User not authenticated');
         }
 
-        if (userType !== 'BUYER') {
-            return sendError(res, 403, 'FORBIDDEN', 'Only buyers can view listing details');
-        }
-
-        // Parse and validate path params
-        const parsed = await listingIdParamsSchema.parseAsync({ params: req.params });
-        const listingId = parsed.params.id;
+        const listingId = req.params.id;
 
         logger.info({ userId, listingId }, 'Get listing details request');
 
-        // Build gRPC request
-        const grpcRequest = { id: listingId };
-
         // Call Catalog Service via gRPC
-        catalogClient.GetListingDetails(
-            grpcRequest,
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) {
-                    logger.error({ err, userId, listingId }, 'GetListingDetails gRPC error');
-
-                    // Handle specific gRPC errors
-                    if (err.code === 5) { // NOT_FOUND
-                        return sendError(res, 404, 'NOT_FOUND', 'Listing not found or not available');
-                    }
-                    if (err.code === 14) { // UNAVAILABLE
-                        return sendError(res, 503, 'SERVICE_UNAVAILABLE', 'Catalog service unavailable');
-                    }
-
-                    return sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch listing details');
-                }
-
-                // Map gRPC response to REST response (camelCase consistent)
-                const result: ListingDetailsResponse = {
-                    id: response.id,
-                    cropType: response.cropType || response.crop_type,
-                    cropCategory: response.cropCategory || response.crop_category,
-                    photos: (response.photos || []).map((p: any) => ({
-                        id: p.id,
-                        photoUrl: p.photoUrl || p.photo_url,
-                        thumbnailUrl: p.thumbnailUrl || p.thumbnail_url,
-                        isPrimary: p.isPrimary ?? p.is_primary,
-                        validationStatus: p.validationStatus || p.validation_status,
-                        qualityScore: p.qualityScore ?? p.quality_score,
-                    })),
-                    primaryPhotoUrl: response.primaryPhotoUrl || response.primary_photo_url,
-                    qualityGrade: response.qualityGrade || response.quality_grade,
-                    aiConfidence: Number(response.aiConfidence ?? response.ai_confidence ?? 0),
-                    shelfLifeDays: Number(response.shelfLifeDays ?? response.shelf_life_days ?? 0),
-                    shelfLifeDisplay: response.shelfLifeDisplay || response.shelf_life_display,
-                    farmerZone: response.farmerZone || response.farmer_zone,
-                    pricePerKg: Number(response.pricePerKg ?? response.price_per_kg ?? 0),
-                    priceBreakdown: {
-                        basePrice: Number(response.priceBreakdown?.basePrice ?? response.priceBreakdown?.base_price ?? 0),
-                        qualityAdjustment: Number(response.priceBreakdown?.qualityAdjustment ?? response.priceBreakdown?.quality_adjustment ?? 0),
-                        logisticsCost: Number(response.priceBreakdown?.logisticsCost ?? response.priceBreakdown?.logistics_cost ?? 0),
-                        platformFee: Number(response.priceBreakdown?.platformFee ?? response.priceBreakdown?.platform_fee ?? 0),
-                        finalPrice: Number(response.priceBreakdown?.finalPrice ?? response.priceBreakdown?.final_price ?? 0),
-                    },
-                    quantityKg: Number(response.quantityKg ?? response.quantity_kg ?? 0),
-                    stockStatus: response.stockStatus || response.stock_status,
-                    deliveryOptions: (response.deliveryOptions || response.delivery_options || []).map((d: any) => ({
-                        date: d.date,
-                        label: d.label,
-                        isAvailable: d.isAvailable ?? d.is_available,
-                    })),
-                    digitalTwin: {
-                        harvestTimestamp: response.digitalTwin?.harvestTimestamp || response.digitalTwin?.harvest_timestamp,
-                        verificationStatus: response.digitalTwin?.verificationStatus || response.digitalTwin?.verification_status,
-                        freshnessScore: response.digitalTwin?.freshnessScore ?? response.digitalTwin?.freshness_score,
-                        defectCount: response.digitalTwin?.defectCount ?? response.digitalTwin?.defect_count,
-                        aiGradingDetails: response.digitalTwin?.aiGradingDetails ? {
-                            grade: response.digitalTwin.aiGradingDetails.grade,
-                            confidence: Number(response.digitalTwin.aiGradingDetails.confidence ?? 0),
-                            gradedAt: response.digitalTwin.aiGradingDetails.gradedAt || response.digitalTwin.aiGradingDetails.graded_at,
-                        } : undefined,
-                    },
-                    createdAt: response.createdAt || response.created_at,
-                    updatedAt: response.updatedAt || response.updated_at,
-                };
-
-                logger.info({ userId, listingId }, 'Listing details fetched successfully');
-                sendSuccess(res, result);
-            }
+        const response = await catalogClient.GetListingDetails(
+            { listingId },
+            { metadata: createMetadata(traceId) }
         );
+
+        // Map gRPC response to REST response (camelCase consistent)
+        const twin = response.digitalTwin;
+        const result: ListingDetailsResponse = {
+            id: response.id,
+            cropType: response.cropType,
+            cropCategory: response.cropCategory,
+            photos: response.photos.map((p) => ({
+                id: p.id,
+                photoUrl: p.photoUrl,
+                thumbnailUrl: p.thumbnailUrl,
+                isPrimary: p.isPrimary,
+                validationStatus: p.validationStatus,
+                qualityScore: p.qualityScore,
+            })),
+            primaryPhotoUrl: response.primaryPhotoUrl,
+            qualityGrade: response.qualityGrade,
+            aiConfidence: response.aiConfidence,
+            shelfLifeDays: response.shelfLifeDays,
+            shelfLifeDisplay: response.shelfLifeDisplay,
+            farmerZone: response.farmerZone,
+            pricePerKg: response.pricePerKg,
+            priceBreakdown: {
+                basePrice: response.priceBreakdown?.basePrice ?? 0,
+                qualityAdjustment: response.priceBreakdown?.qualityAdjustment ?? 0,
+                logisticsCost: response.priceBreakdown?.logisticsCost ?? 0,
+                platformFee: response.priceBreakdown?.platformFee ?? 0,
+                finalPrice: response.priceBreakdown?.finalPrice ?? 0,
+            },
+            quantityKg: response.quantityKg,
+            stockStatus: response.stockStatus,
+            deliveryOptions: response.deliveryOptions.map((d) => ({
+                date: d.date,
+                label: d.label,
+                isAvailable: d.isAvailable,
+            })),
+            digitalTwin: {
+                harvestTimestamp: twin?.harvestTimestamp,
+                verificationStatus: twin?.verificationStatus ?? '',
+                freshnessScore: twin?.freshnessScore,
+                defectCount: twin?.defectCount,
+                aiGradingDetails: twin?.aiGradingDetails ? {
+                    grade: twin.aiGradingDetails.grade,
+                    confidence: twin.aiGradingDetails.confidence,
+                    gradedAt: twin.aiGradingDetails.gradedAt,
+                } : undefined,
+            },
+            createdAt: response.createdAt,
+            updatedAt: response.updatedAt,
+        };
+
+        logger.info({ userId, listingId }, 'Listing details fetched successfully');
+        sendSuccess(res, result);
     } catch (err) {
-        // Zod validation errors
-        if (err instanceof z.ZodError) {
-            return sendError(res, 400, 'VALIDATION_ERROR', 'Invalid listing ID', {
-                errors: err.issues.map((e: z.ZodIssue) => ({ path: e.path.join('.'), message: e.message }))
-            });
+        logger.error({ err, userId: req.user?.userId, listingId: req.params.id }, 'GetListingDetails gRPC error');
+
+        // Handle specific gRPC errors
+        const code = grpcStatusOf(err);
+        if (code === grpc.status.NOT_FOUND) {
+            return sendError(res, 404, 'NOT_FOUND', 'Listing not found or not available');
+        }
+        if (code === grpc.status.UNAVAILABLE) {
+            return sendError(res, 503, 'SERVICE_UNAVAILABLE', 'Catalog service unavailable');
         }
-        next(err);
+
+        return sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch listing details');
     }
-});
+}));
 
 export default router;
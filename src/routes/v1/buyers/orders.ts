@@ -2,7 +2,7 @@
  * Buyer Orders REST Endpoints - Story 4.3
  *
  * SITUATION: Buyer places order specifying quantity and delivery preferences
- * TASK: Provide REST endpoints for order placement, payment callback, cancellation
+ * TASK: Provide REST endpoints for order placement, payment status, cancellation
  * ACTION: Validate request, call Order Service gRPC, return JSON
  * RESULT: Complete order placement flow for buyer app
  *
@@ -16,12 +16,18 @@
  * @module BuyerOrdersRoutes
  */
 
-import { Router, Request, Response, NextFunction } from 'express';
+import { Router, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { orderClient, catalogClient, createMetadata } from '../../../grpc/clients';
 import { sendSuccess, sendError } from '../../../utils/response-handler';
 import { authMiddleware } from '../../../middleware/auth';
+import { requirePolicy } from '../../../middleware/policy';
+import { validated, ValidatedRequest } from '../../../middleware/validate';
+import { withReauth, REAUTH_ACTIONS } from '../../../middleware/step-up';
+import { apiKeyAuth, requireApiKeyScope, API_KEY_SCOPES } from '../../../middleware/api-key';
+import { idempotency } from '../../../middleware/idempotency';
 import pino from 'pino';
+import { grpcStatusOf, sendGrpcError } from '../../../grpc/errors';
 
 const router = Router();
 const logger = pino({ name: 'buyer-orders-routes' });
@@ -31,39 +37,34 @@ const logger = pino({ name: 'buyer-orders-routes' });
 // =====================================================
 
 /**
- * Schema for creating a buyer order (AC1-6)
+ * Schemas for creating a buyer order (AC1-6)
  */
-const createOrderSchema = z.object({
+const createOrderRequest = {
     body: z.object({
         listingId: z.number().int().positive('Listing ID must be a positive integer'),
         quantity: z.number().positive('Quantity must be greater than 0'),
         deliveryAddressId: z.string().min(1, 'Delivery address is required'),
         deliveryTimePref: z.enum(['MORNING', 'AFTERNOON', 'EVENING']),
     }),
-});
+};
 
 /**
- * Schema for payment callback (AC8-10, AC14)
+ * Schemas for payment status poll (AC8-10, AC14)
  */
-const paymentCallbackSchema = z.object({
+const paymentStatusRequest = {
     params: z.object({
         id: z.coerce.number().int().positive(),
     }),
-    body: z.object({
-        upiTransactionId: z.string().optional(),
-        status: z.enum(['SUCCESS', 'FAILED', 'PENDING']),
-        errorMessage: z.string().optional(),
-    }),
-});
+};
 
 /**
- * Schema for cancel order (AC15)
+ * Schemas for cancel order (AC15)
  */
-const cancelOrderSchema = z.object({
+const cancelOrderRequest = {
     params: z.object({
         id: z.coerce.number().int().positive(),
     }),
-});
+};
 
 // =====================================================
 // Response Types
@@ -108,16 +109,18 @@ const DELIVERY_TIME_MAP: Record<string, number> = {
  * - Action: Fetch listing, validate, call Order Service, return payment link
  * - Result: Order created with UPI payment link for mobile app
  */
-async function createOrder(req: Request, res: Response, next: NextFunction): Promise<void> {
+async function createOrder(
+    req: ValidatedRequest<typeof createOrderRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
     const correlationId = req.headers['x-request-id'] as string || `req-${Date.now()}`;
 
     try {
-        // Validate request
-        const validated = createOrderSchema.parse({ body: req.body });
-        const { listingId, quantity, deliveryAddressId, deliveryTimePref } = validated.body;
+        const { listingId, quantity, deliveryAddressId, deliveryTimePref } = req.body;
 
         // Get buyer ID from auth middleware
-        const buyerId = (req as any).user?.userId;
+        const buyerId = req.user?.userId;
         if (!buyerId) {
             sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
             return;
@@ -126,51 +129,37 @@ async function createOrder(req: Request, res: Response, next: NextFunction): Pro
         logger.info({ correlationId, listingId, quantity, buyerId }, 'Creating buyer order');
 
         // Step 1: Fetch listing details from Catalog Service
-        const listingResult = await new Promise<any>((resolve, reject) => {
-            catalogClient.GetListingDetails(
-                { listing_id: listingId },
-                createMetadata(correlationId),
-                (err: any, response: any) => {
-                    if (err) reject(err);
-                    else resolve(response);
-                }
-            );
-        });
-
-        if (!listingResult || !listingResult.listing) {
+        const listing = await catalogClient.GetListingDetails(
+            { listingId },
+            { metadata: createMetadata(correlationId) }
+        );
+
+        if (!listing.id) {
             sendError(res, 404, 'NOT_FOUND', 'Listing not found');
             return;
         }
 
-        const listing = listingResult.listing;
-
         // Step 2: Call Order Service to create order
-        const orderResult = await new Promise<any>((resolve, reject) => {
-            orderClient.CreateBuyerOrder(
-                {
-                    listing_id: listingId,
-                    buyer_id: buyerId,
-                    quantity_kg: quantity,
-                    delivery_address_id: deliveryAddressId,
-                    delivery_time_pref: DELIVERY_TIME_MAP[deliveryTimePref],
-                    listing_data: {
-                        farmer_id: listing.farmer_id,
-                        crop_type: listing.crop_type,
-                        crop_emoji: listing.crop_emoji,
-                        quantity_kg: listing.quantity_kg,
-                        price_per_kg: listing.price_per_kg,
-                        quality_grade: listing.quality_grade,
-                        farmer_zone: listing.farmer_zone,
-                        status: listing.status,
-                    },
+        const orderResult = await orderClient.CreateBuyerOrder(
+            {
+                listing_id: listingId,
+                buyer_id: buyerId,
+                quantity_kg: quantity,
+                delivery_address_id: deliveryAddressId,
+                delivery_time_pref: DELIVERY_TIME_MAP[deliveryTimePref],
+                listing_data: {
+                    farmer_id: listing.farmerId,
+                    crop_type: listing.cropType,
+                    crop_emoji: listing.cropEmoji,
+                    quantity_kg: listing.quantityKg,
+                    price_per_kg: listing.pricePerKg,
+                    quality_grade: listing.qualityGrade,
+                    farmer_zone: listing.farmerZone,
+                    status: listing.status,
                 },
-                createMetadata(correlationId),
-                (err: any, response: any) => {
-                    if (err) reject(err);
-                    else resolve(response);
-                }
-            );
-        });
+            },
+            { metadata: createMetadata(correlationId) }
+        );
 
         // Map response to camelCase for mobile client
         const response: CreateOrderResponse = {
@@ -181,61 +170,65 @@ async function createOrder(req: Request, res: Response, next: NextFunction): Pro
             upiPaymentLink: orderResult.upi_payment_link,
             estimatedDelivery: orderResult.estimated_delivery,
             produceDetails: {
-                cropType: listing.crop_type,
+                cropType: listing.cropType,
                 quantityKg: quantity,
-                qualityGrade: listing.quality_grade || 'N/A',
+                qualityGrade: listing.qualityGrade || 'N/A',
             },
         };
 
         logger.info({ correlationId, orderId: response.orderId }, 'Order created successfully');
         sendSuccess(res, response, 201, { requestId: correlationId });
-    } catch (error: any) {
+    } catch (error) {
         handleGrpcError(error, res, correlationId, next);
     }
 }
 
 /**
- * POST /v1/buyers/orders/:id/payment-callback
+ * GET /v1/buyers/orders/:id/payment-status
  *
- * Handle UPI payment callback (AC8-10, AC14)
+ * Poll the payment status of an order (AC8-10, AC14)
  *
  * STAR:
- * - Situation: UPI payment completed (success or failure)
- * - Task: Update order payment status
- * - Action: Call Order Service PaymentCallback gRPC
- * - Result: Order status updated, confirmation or retry
+ * - Situation: Buyer app returns from the UPI app and waits for the result
+ * - Task: Report the payment status recorded from the provider's webhook
+ * - Action: Call Order Service GetPaymentStatus gRPC for the buyer's order
+ * - Result: App shows confirmation or offers a retry
+ *
+ * Read-only: payment results arrive only through the signed provider
+ * webhook (POST /v1/webhooks/payments/:provider).
  */
-async function paymentCallback(req: Request, res: Response, next: NextFunction): Promise<void> {
+async function getPaymentStatus(
+    req: ValidatedRequest<typeof paymentStatusRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
     const correlationId = req.headers['x-request-id'] as string || `req-${Date.now()}`;
 
     try {
-        const validated = paymentCallbackSchema.parse({ params: req.params, body: req.body });
-        const orderId = validated.params.id;
-        const { upiTransactionId, status, errorMessage } = validated.body;
-
-        logger.info({ correlationId, orderId, status }, 'Processing payment callback');
-
-        const result = await new Promise<any>((resolve, reject) => {
-            orderClient.PaymentCallback(
-                {
-                    order_id: orderId,
-                    success: status === 'SUCCESS',
-                    transaction_id: upiTransactionId,
-                    error_message: errorMessage,
-                },
-                createMetadata(correlationId),
-                (err: any, response: any) => {
-                    if (err) reject(err);
-                    else resolve(response);
-                }
-            );
-        });
+        const orderId = req.params.id;
+
+        const buyerId = req.user?.userId;
+        if (!buyerId) {
+            sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+            return;
+        }
+
+        const result = await orderClient.GetPaymentStatus(
+            {
+                order_id: orderId,
+                buyer_id: buyerId,
+            },
+            { metadata: createMetadata(correlationId) }
+        );
 
         sendSuccess(res, {
-            success: result.success,
-            message: result.message,
+            orderId: result.order_id,
+            orderStatus: result.order_status,
+            paymentStatus: result.payment_status,
+            transactionId: result.transaction_id || null,
+            updatedAt: result.updated_at,
         }, 200, { requestId: correlationId });
-    } catch (error: any) {
+    } catch (error) {
         handleGrpcError(error, res, correlationId, next);
     }
 }
@@ -251,14 +244,17 @@ async function paymentCallback(req: Request, res: Response, next: NextFunction):
  * - Action: Call Order Service CancelOrder gRPC
  * - Result: Order cancelled, listing quantity restored
  */
-async function cancelOrder(req: Request, res: Response, next: NextFunction): Promise<void> {
+async function cancelOrder(
+    req: ValidatedRequest<typeof cancelOrderRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
     const correlationId = req.headers['x-request-id'] as string || `req-${Date.now()}`;
 
     try {
-        const validated = cancelOrderSchema.parse({ params: req.params });
-        const orderId = validated.params.id;
+        const orderId = req.params.id;
 
-        const buyerId = (req as any).user?.userId;
+        const buyerId = req.user?.userId;
         if (!buyerId) {
             sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
             return;
@@ -266,25 +262,19 @@ async function cancelOrder(req: Request, res: Response, next: NextFunction): Pro
 
         logger.info({ correlationId, orderId, buyerId }, 'Cancelling order');
 
-        const result = await new Promise<any>((resolve, reject) => {
-            orderClient.CancelOrder(
-                {
-                    order_id: orderId,
-                    buyer_id: buyerId,
-                },
-                createMetadata(correlationId),
-                (err: any, response: any) => {
-                    if (err) reject(err);
-                    else resolve(response);
-                }
-            );
-        });
+        const result = await orderClient.CancelOrder(
+            {
+                order_id: orderId,
+                buyer_id: buyerId,
+            },
+            { metadata: createMetadata(correlationId) }
+        );
 
         sendSuccess(res, {
             success: result.success,
             message: result.message,
         }, 200, { requestId: correlationId });
-    } catch (error: any) {
+    } catch (error) {
         handleGrpcError(error, res, correlationId, next);
     }
 }
@@ -294,49 +284,19 @@ async function cancelOrder(req: Request, res: Response, next: NextFunction): Pro
 // =====================================================
 
 function handleGrpcError(
-    error: any,
+    error: unknown,
     res: Response,
     correlationId: string,
     next: NextFunction
 ): void {
-    if (error instanceof z.ZodError) {
-        const issues = error.issues || [];
-        const message = issues.map((e: z.ZodIssue) => e.message).join(', ');
-        sendError(res, 400, 'VALIDATION_ERROR', message || 'Validation failed');
-        return;
-    }
-
     // Handle gRPC errors
-    if (error.code !== undefined) {
-        const grpcCode = error.code;
-        let httpStatus = 500;
-
-        switch (grpcCode) {
-            case 3: // INVALID_ARGUMENT
-                httpStatus = 400;
-                break;
-            case 5: // NOT_FOUND
-                httpStatus = 404;
-                break;
-            case 7: // PERMISSION_DENIED
-                httpStatus = 403;
-                break;
-            case 9: // FAILED_PRECONDITION
-                httpStatus = 409;
-                break;
-            case 14: // UNAVAILABLE
-                httpStatus = 503;
-                break;
-            case 16: // UNAUTHENTICATED
-                httpStatus = 401;
-                break;
-        }
-
+    const grpcCode = grpcStatusOf(error);
+    if (grpcCode !== undefined) {
         logger.warn(
-            { correlationId, grpcCode, message: error.message },
+            { correlationId, grpcCode, message: (error as Error).message },
             'gRPC error in orders route'
         );
-        sendError(res, httpStatus, 'GRPC_ERROR', error.message || 'Service error');
+        sendGrpcError(res, error);
         return;
     }
 
@@ -349,11 +309,17 @@ function handleGrpcError(
 // Route Registration
 // =====================================================
 
-// All routes require buyer authentication
-router.use(authMiddleware);
-
-router.post('/', createOrder);
-router.post('/:id/payment-callback', paymentCallback);
-router.post('/:id/cancel', cancelOrder);
+// All routes require buyer authentication; partner API keys need the orders:create scope
+router.use(
+    apiKeyAuth,
+    authMiddleware,
+    requirePolicy({ userTypes: ['BUYER'] }),
+    requireApiKeyScope(API_KEY_SCOPES.ORDERS_CREATE)
+);
+
+router.post('/', idempotency(), validated(createOrderRequest, createOrder));
+router.get('/:id/payment-status', validated(paymentStatusRequest, getPaymentStatus));
+// Cancellation is a critical action: requires step-up re-auth
+router.post('/:id/cancel', validated(cancelOrderRequest, withReauth(REAUTH_ACTIONS.CANCEL_ORDER, cancelOrder)));
 
 export default router;
@@ -2,22 +2,23 @@ import { Router } from 'express';
 import { catalogClient, createMetadata } from '../../grpc/clients';
 import { sendSuccess } from '../../utils/response-handler';
 import { authMiddleware } from '../../middleware/auth';
+import { requirePolicy } from '../../middleware/policy';
+import { validated } from '../../middleware/validate';
 
 const router = Router();
 
-router.get('/products', authMiddleware, (req, res, next) => {
-    const traceId = req.headers['x-trace-id'] as string;
+router.get('/products', authMiddleware, requirePolicy({}), validated({}, async (req, res, next) => {
+    try {
+        const traceId = req.headers['x-trace-id'] as string;
 
-    catalogClient.ListProducts(
-        {}, // Empty request for listing all
-        createMetadata(traceId),
-        (err: any, response: any) => {
-            if (err) {
-                return next(err);
-            }
-            sendSuccess(res, response.products || []);
-        }
-    );
-});
+        const response = await catalogClient.ListProducts(
+            {}, // Empty request for listing all
+            { metadata: createMetadata(traceId) }
+        );
+        sendSuccess(res, response.products);
+    } catch (err) {
+        next(err);
+    }
+}));
 
 export default router;
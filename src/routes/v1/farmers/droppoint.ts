@@ -12,8 +12,7 @@
  * @module DropPointRoutes
  */
 
-import { Router, Request, Response, NextFunction } from 'express';
-import { z } from 'zod';
+import { Router } from 'express';
 import {
     listingIdParamSchema,
     assignDropPointSchema,
@@ -21,121 +20,17 @@ import {
 } from '../../../schemas/droppoint';
 import { logisticsGrpcClient } from '../../../grpc/logistics-client';
 import { logger } from '../../../utils/logger';
+import { authMiddleware } from '../../../middleware/auth';
+import { requirePolicy } from '../../../middleware/policy';
+import { validated } from '../../../middleware/validate';
+import { idempotency } from '../../../middleware/idempotency';
+import { sendGrpcError } from '../../../grpc/errors';
+import { sendError, sendSuccess } from '../../../utils/response-handler';
 
 const router = Router();
 
-// ============================================================================
-// Type Definitions
-// ============================================================================
-
-interface AuthenticatedRequest extends Request {
-    user?: {
-        id: number;
-        role: string;
-    };
-}
-
-// ============================================================================
-// Validation Middleware
-// ============================================================================
-
-function validateBody<T extends z.ZodSchema>(schema: T) {
-    return (req: Request, res: Response, next: NextFunction) => {
-        const result = schema.safeParse(req.body);
-        if (!result.success) {
-            return res.status(400).json({
-                data: null,
-                error: {
-                    code: 'VALIDATION_ERROR',
-                    message: 'Invalid request body',
-                    details: result.error.flatten().fieldErrors,
-                },
-            });
-        }
-        req.body = result.data;
-        next();
-    };
-}
-
-function validateParams<T extends z.ZodSchema>(schema: T) {
-    return (req: Request, res: Response, next: NextFunction) => {
-        const result = schema.safeParse(req.params);
-        if (!result.success) {
-            return res.status(400).json({
-                data: null,
-                error: {
-                    code: 'VALIDATION_ERROR',
-                    message: 'Invalid path parameters',
-                    details: result.error.flatten().fieldErrors,
-                },
-            });
-        }
-        req.params = result.data as any;
-        next();
-    };
-}
-
-function validateQuery<T extends z.ZodSchema>(schema: T) {
-    return (req: Request, res: Response, next: NextFunction) => {
-        const result = schema.safeParse(req.query);
-        if (!result.success) {
-            return res.status(400).json({
-                data: null,
-                error: {
-                    code: 'VALIDATION_ERROR',
-                    message: 'Invalid query parameters',
-                    details: result.error.flatten().fieldErrors,
-                },
-            });
-        }
-        req.query = result.data as any;
-        next();
-    };
-}
-
-// ============================================================================
-// Response Helpers
-// ============================================================================
-
-function successResponse(res: Response, data: any, status = 200) {
-    return res.status(status).json({
-        data,
-        error: null,
-        meta: {
-            timestamp: new Date().toISOString(),
-        },
-    });
-}
-
-function errorResponse(res: Response, code: string, message: string, status = 500, details?: any) {
-    return res.status(status).json({
-        data: null,
-        error: { code, message, details },
-        meta: {
-            timestamp: new Date().toISOString(),
-        },
-    });
-}
-
-function mapGrpcError(error: any, res: Response) {
-    const grpc = require('@grpc/grpc-js');
-
-    if (error.code === grpc.status.NOT_FOUND) {
-        return errorResponse(res, 'NOT_FOUND', error.message || 'Resource not found', 404);
-    }
-    if (error.code === grpc.status.PERMISSION_DENIED) {
-        return errorResponse(res, 'FORBIDDEN', error.message || 'Access denied', 403);
-    }
-    if (error.code === grpc.status.INVALID_ARGUMENT) {
-        return errorResponse(res, 'BAD_REQUEST', error.message || 'Invalid input', 400);
-    }
-    if (error.code === grpc.status.FAILED_PRECONDITION) {
-        return errorResponse(res, 'CONFLICT', error.message || 'Operation not allowed', 409);
-    }
-
-    logger.error({ error }, 'Unhandled gRPC error');
-    return errorResponse(res, 'INTERNAL_ERROR', 'An unexpected error occurred', 500);
-}
+// All routes require a verified farmer token
+router.use(authMiddleware, requirePolicy({ userTypes: ['FARMER'] }));
 
 // ============================================================================
 // Routes
@@ -149,55 +44,54 @@ function mapGrpcError(error: any, res: Response) {
  */
 router.post(
     '/:id/assign-droppoint',
-    validateParams(listingIdParamSchema),
-    validateBody(assignDropPointSchema),
-    async (req: AuthenticatedRequest, res: Response) => {
+    idempotency(),
+    validated({ params: listingIdParamSchema, body: assignDropPointSchema }, async (req, res) => {
         try {
-            const farmerId = req.user?.id;
+            const farmerId = req.user?.userId;
             if (!farmerId) {
-                return errorResponse(res, 'UNAUTHORIZED', 'Authentication required', 401);
+                return sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
             }
 
-            const listingId = (req.params as any).id;
+            const listingId = req.params.id;
             const { farmer_location, crop_type, quantity_kg, preferred_date } = req.body;
 
             logger.info({ listingId, farmerId }, 'Assigning drop point via REST');
 
             const result = await logisticsGrpcClient.assignDropPoint({
-                listingId,
-                farmerId,
-                farmerLocation: {
+                listing_id: listingId,
+                farmer_id: farmerId,
+                farmer_location: {
                     latitude: farmer_location.latitude,
                     longitude: farmer_location.longitude,
                 },
-                cropType: crop_type,
-                quantityKg: quantity_kg,
-                preferredDate: preferred_date,
+                crop_type,
+                quantity_kg,
+                preferred_date,
             });
 
             // Map gRPC response to REST response format
-            return successResponse(res, {
+            return sendSuccess(res, {
                 drop_point: {
-                    id: result.dropPoint?.id,
-                    name: result.dropPoint?.name,
-                    address: result.dropPoint?.address,
+                    id: result.drop_point?.id,
+                    name: result.drop_point?.name,
+                    address: result.drop_point?.address,
                     location: {
-                        lat: result.dropPoint?.location?.latitude,
-                        lng: result.dropPoint?.location?.longitude,
+                        lat: result.drop_point?.location?.latitude,
+                        lng: result.drop_point?.location?.longitude,
                     },
-                    distance_km: result.dropPoint?.distanceKm,
+                    distance_km: result.drop_point?.distance_km,
                 },
                 pickup_window: {
-                    start: result.pickupWindow?.start,
-                    end: result.pickupWindow?.end,
+                    start: result.pickup_window?.start,
+                    end: result.pickup_window?.end,
                 },
-                crates_needed: result.cratesNeeded,
-                listing_status: result.listingStatus,
+                crates_needed: result.crates_needed,
+                listing_status: result.listing_status,
             }, 201);
         } catch (error) {
-            return mapGrpcError(error, res);
+            return sendGrpcError(res, error);
         }
-    }
+    })
 );
 
 /**
@@ -207,44 +101,43 @@ router.post(
  */
 router.get(
     '/:id/droppoint',
-    validateParams(listingIdParamSchema),
-    async (req: AuthenticatedRequest, res: Response) => {
+    validated({ params: listingIdParamSchema }, async (req, res) => {
         try {
-            const farmerId = req.user?.id;
+            const farmerId = req.user?.userId;
             if (!farmerId) {
-                return errorResponse(res, 'UNAUTHORIZED', 'Authentication required', 401);
+                return sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
             }
 
-            const listingId = (req.params as any).id;
+            const listingId = req.params.id;
 
             logger.info({ listingId, farmerId }, 'Getting drop point assignment via REST');
 
             const result = await logisticsGrpcClient.getDropPointAssignment({
-                listingId,
+                listing_id: listingId,
             });
 
-            return successResponse(res, {
+            return sendSuccess(res, {
                 drop_point: {
-                    id: result.dropPoint?.id,
-                    name: result.dropPoint?.name,
-                    address: result.dropPoint?.address,
+                    id: result.drop_point?.id,
+                    name: result.drop_point?.name,
+                    address: result.drop_point?.address,
                     location: {
-                        lat: result.dropPoint?.location?.latitude,
-                        lng: result.dropPoint?.location?.longitude,
+                        lat: result.drop_point?.location?.latitude,
+                        lng: result.drop_point?.location?.longitude,
                     },
-                    distance_km: result.dropPoint?.distanceKm,
+                    distance_km: result.drop_point?.distance_km,
                 },
                 pickup_window: {
-                    start: result.pickupWindow?.start,
-                    end: result.pickupWindow?.end,
+                    start: result.pickup_window?.start,
+                    end: result.pickup_window?.end,
                 },
-                crates_needed: result.cratesNeeded,
+                crates_needed: result.crates_needed,
                 status: result.status,
             });
         } catch (error) {
-            return mapGrpcError(error, res);
+            return sendGrpcError(res, error);
         }
-    }
+    })
 );
 
 export default router;
@@ -11,84 +11,20 @@
  * @module DroppointsRoutes
  */
 
-import { Router, Request, Response, NextFunction } from 'express';
-import { z } from 'zod';
+import { Router } from 'express';
 import { nearbyDropPointsQuerySchema } from '../../../schemas/droppoint';
 import { logisticsGrpcClient } from '../../../grpc/logistics-client';
 import { logger } from '../../../utils/logger';
+import { authMiddleware } from '../../../middleware/auth';
+import { requirePolicy } from '../../../middleware/policy';
+import { validated } from '../../../middleware/validate';
+import { sendGrpcError } from '../../../grpc/errors';
+import { sendError, sendSuccess } from '../../../utils/response-handler';
 
 const router = Router();
 
-// ============================================================================
-// Type Definitions
-// ============================================================================
-
-interface AuthenticatedRequest extends Request {
-    user?: {
-        id: number;
-        role: string;
-    };
-}
-
-// ============================================================================
-// Validation Middleware
-// ============================================================================
-
-function validateQuery<T extends z.ZodSchema>(schema: T) {
-    return (req: Request, res: Response, next: NextFunction) => {
-        const result = schema.safeParse(req.query);
-        if (!result.success) {
-            return res.status(400).json({
-                data: null,
-                error: {
-                    code: 'VALIDATION_ERROR',
-                    message: 'Invalid query parameters',
-                    details: result.error.flatten().fieldErrors,
-                },
-            });
-        }
-        req.query = result.data as any;
-        next();
-    };
-}
-
-// ============================================================================
-// Response Helpers
-// ============================================================================
-
-function successResponse(res: Response, data: any, status = 200) {
-    return res.status(status).json({
-        data,
-        error: null,
-        meta: {
-            timestamp: new Date().toISOString(),
-        },
-    });
-}
-
-function errorResponse(res: Response, code: string, message: string, status = 500, details?: any) {
-    return res.status(status).json({
-        data: null,
-        error: { code, message, details },
-        meta: {
-            timestamp: new Date().toISOString(),
-        },
-    });
-}
-
-function mapGrpcError(error: any, res: Response) {
-    const grpc = require('@grpc/grpc-js');
-
-    if (error.code === grpc.status.NOT_FOUND) {
-        return errorResponse(res, 'NOT_FOUND', error.message || 'Resource not found', 404);
-    }
-    if (error.code === grpc.status.INVALID_ARGUMENT) {
-        return errorResponse(res, 'BAD_REQUEST', error.message || 'Invalid input', 400);
-    }
-
-    logger.error({ error }, 'Unhandled gRPC error');
-    return errorResponse(res, 'INTERNAL_ERROR', 'An unexpected error occurred', 500);
-}
+// All routes require a verified farmer token
+router.use(authMiddleware, requirePolicy({ userTypes: ['FARMER'] }));
 
 // ============================================================================
 // Routes
@@ -102,15 +38,14 @@ function mapGrpcError(error: any, res: Response) {
  */
 router.get(
     '/nearby',
-    validateQuery(nearbyDropPointsQuerySchema),
-    async (req: AuthenticatedRequest, res: Response) => {
+    validated({ query: nearbyDropPointsQuerySchema }, async (req, res) => {
         try {
-            const farmerId = req.user?.id;
+            const farmerId = req.user?.userId;
             if (!farmerId) {
-                return errorResponse(res, 'UNAUTHORIZED', 'Authentication required', 401);
+                return sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
             }
 
-            const { lat, lng, radius_km } = req.query as any;
+            const { lat, lng, radius_km } = req.query;
 
             logger.info({ lat, lng, radius_km, farmerId }, 'Getting nearby drop points via REST');
 
@@ -119,11 +54,11 @@ router.get(
                     latitude: lat,
                     longitude: lng,
                 },
-                radiusKm: Number(radius_km) || 20,
+                radius_km: Number(radius_km) || 20,
             });
 
-            return successResponse(res, {
-                drop_points: (result.dropPoints || []).map((dp: any) => ({
+            return sendSuccess(res, {
+                drop_points: result.drop_points.map((dp) => ({
                     id: dp.id,
                     name: dp.name,
                     address: dp.address,
@@ -131,14 +66,14 @@ router.get(
                         lat: dp.location?.latitude,
                         lng: dp.location?.longitude,
                     },
-                    distance_km: dp.distanceKm,
-                    is_open: dp.isOpen,
+                    distance_km: dp.distance_km,
+                    is_open: dp.is_open,
                 })),
             });
         } catch (error) {
-            return mapGrpcError(error, res);
+            return sendGrpcError(res, error);
         }
-    }
+    })
 );
 
 export default router;
@@ -11,8 +11,7 @@
  * AC7: GET /v1/farmers/education/history - Get farmer's history
  */
 
-import { Router, Request, Response, NextFunction } from 'express';
-import { z } from 'zod';
+import { Router } from 'express';
 import {
     getContentQuerySchema,
     getContentDetailsParamsSchema,
@@ -20,50 +19,38 @@ import {
     toggleBookmarkBodySchema,
     getHistoryQuerySchema,
 } from '../../../schemas/education.schema';
+import { authMiddleware, AuthRequest } from '../../../middleware/auth';
+import { requirePolicy } from '../../../middleware/policy';
+import { validated } from '../../../middleware/validate';
+import { legacyResponses, sendError, sendSuccess } from '../../../utils/response-handler';
 
 const router = Router();
 
-// Middleware to extract farmer ID from auth token (placeholder)
-const extractFarmerId = (req: Request): number => {
-    // In production, extract from JWT token
-    const farmerId = req.headers['x-farmer-id'] || req.query.farmerId;
-    return Number(farmerId) || 0;
-};
+// Older apps still expect bare response bodies from these routes
+router.use(legacyResponses('bare'));
 
-// Zod validation middleware
-const validate = <T extends z.ZodSchema>(schema: T, source: 'query' | 'params' | 'body' = 'query') => {
-    return (req: Request, res: Response, next: NextFunction) => {
-        try {
-            const target = source === 'params' ? req.params : source === 'body' ? req.body : req.query;
-            schema.parse(target);
-            next();
-        } catch (error) {
-            if (error instanceof z.ZodError) {
-                res.status(400).json({
-                    error: 'Validation error',
-                    details: error.issues,
-                });
-                return;
-            }
-            next(error);
-        }
-    };
+// All routes require a verified farmer token
+router.use(authMiddleware, requirePolicy({ userTypes: ['FARMER'] }));
+
+// Farmer ID comes from the verified token only
+const extractFarmerId = (req: Pick<AuthRequest, 'user'>): number => {
+    return req.user?.userId ?? 0;
 };
 
 /**
  * GET /v1/farmers/education/content - AC1, AC2, AC6
  * Returns paginated educational content with recommendations.
  */
-router.get('/content', validate(getContentQuerySchema, 'query'), async (req: Request, res: Response) => {
+router.get('/content', validated({ query: getContentQuerySchema }, async (req, res) => {
     try {
         const farmerId = extractFarmerId(req);
 
         if (!farmerId) {
-            res.status(401).json({ error: 'Farmer ID required' });
+            sendError(res, 401, 'UNAUTHORIZED', 'Farmer ID required');
             return;
         }
 
-        const query = getContentQuerySchema.parse(req.query);
+        const query = req.query;
 
         // TODO: Call Catalog Service gRPC GetEducationalContent
         // For now, return mock data following API design from story
@@ -163,24 +150,24 @@ router.get('/content', validate(getContentQuerySchema, 'query'), async (req: Req
             unseenCount: 8,
         };
 
-        res.json(mockResponse);
+        sendSuccess(res, mockResponse);
     } catch (error) {
         console.error('Error fetching educational content:', error);
-        res.status(500).json({ error: 'Failed to fetch educational content' });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch educational content');
     }
-});
+}));
 
 /**
  * GET /v1/farmers/education/content/:id - AC3, AC4, AC5
  * Returns full content details with related content.
  */
-router.get('/content/:id', validate(getContentDetailsParamsSchema, 'params'), async (req: Request, res: Response) => {
+router.get('/content/:id', validated({ params: getContentDetailsParamsSchema }, async (req, res) => {
     try {
         const farmerId = extractFarmerId(req);
         const { id } = req.params;
 
         if (!farmerId) {
-            res.status(401).json({ error: 'Farmer ID required' });
+            sendError(res, 401, 'UNAUTHORIZED', 'Farmer ID required');
             return;
         }
 
@@ -230,12 +217,12 @@ router.get('/content/:id', validate(getContentDetailsParamsSchema, 'params'), as
             ],
         };
 
-        res.json(mockDetails);
+        sendSuccess(res, mockDetails);
     } catch (error) {
         console.error('Error fetching content details:', error);
-        res.status(500).json({ error: 'Failed to fetch content details' });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch content details');
     }
-});
+}));
 
 /**
  * POST /v1/farmers/education/content/:id/view - AC3, AC7
@@ -243,28 +230,26 @@ router.get('/content/:id', validate(getContentDetailsParamsSchema, 'params'), as
  */
 router.post(
     '/content/:id/view',
-    validate(getContentDetailsParamsSchema, 'params'),
-    validate(trackViewBodySchema, 'body'),
-    async (req: Request, res: Response) => {
+    validated({ params: getContentDetailsParamsSchema, body: trackViewBodySchema }, async (req, res) => {
         try {
             const farmerId = extractFarmerId(req);
             const { id } = req.params;
-            const { progressPercent } = trackViewBodySchema.parse(req.body);
+            const { progressPercent } = req.body;
 
             if (!farmerId) {
-                res.status(401).json({ error: 'Farmer ID required' });
+                sendError(res, 401, 'UNAUTHORIZED', 'Farmer ID required');
                 return;
             }
 
             // TODO: Call Catalog Service gRPC TrackContentView
             console.log(`Tracking view: content=${id}, farmer=${farmerId}, progress=${progressPercent}%`);
 
-            res.json({ success: true });
+            sendSuccess(res, { success: true });
         } catch (error) {
             console.error('Error tracking view:', error);
-            res.status(500).json({ error: 'Failed to track view' });
+            sendError(res, 500, 'INTERNAL_ERROR', 'Failed to track view');
         }
-    }
+    })
 );
 
 /**
@@ -273,44 +258,42 @@ router.post(
  */
 router.post(
     '/content/:id/bookmark',
-    validate(getContentDetailsParamsSchema, 'params'),
-    validate(toggleBookmarkBodySchema, 'body'),
-    async (req: Request, res: Response) => {
+    validated({ params: getContentDetailsParamsSchema, body: toggleBookmarkBodySchema }, async (req, res) => {
         try {
             const farmerId = extractFarmerId(req);
             const { id } = req.params;
-            const { bookmarked } = toggleBookmarkBodySchema.parse(req.body);
+            const { bookmarked } = req.body;
 
             if (!farmerId) {
-                res.status(401).json({ error: 'Farmer ID required' });
+                sendError(res, 401, 'UNAUTHORIZED', 'Farmer ID required');
                 return;
             }
 
             // TODO: Call Catalog Service gRPC ToggleBookmark
             console.log(`Toggling bookmark: content=${id}, farmer=${farmerId}, bookmarked=${bookmarked}`);
 
-            res.json({ success: true, bookmarked });
+            sendSuccess(res, { success: true, bookmarked });
         } catch (error) {
             console.error('Error toggling bookmark:', error);
-            res.status(500).json({ error: 'Failed to toggle bookmark' });
+            sendError(res, 500, 'INTERNAL_ERROR', 'Failed to toggle bookmark');
         }
-    }
+    })
 );
 
 /**
  * GET /v1/farmers/education/history - AC7
  * Returns farmer's viewed or bookmarked content history.
  */
-router.get('/history', validate(getHistoryQuerySchema, 'query'), async (req: Request, res: Response) => {
+router.get('/history', validated({ query: getHistoryQuerySchema }, async (req, res) => {
     try {
         const farmerId = extractFarmerId(req);
 
         if (!farmerId) {
-            res.status(401).json({ error: 'Farmer ID required' });
+            sendError(res, 401, 'UNAUTHORIZED', 'Farmer ID required');
             return;
         }
 
-        const query = getHistoryQuerySchema.parse(req.query);
+        const query = req.query;
 
         // TODO: Call Catalog Service gRPC GetFarmerContentHistory
         const mockHistory = {
@@ -357,11 +340,11 @@ router.get('/history', validate(getHistoryQuerySchema, 'query'), async (req: Req
             },
         };
 
-        res.json(mockHistory);
+        sendSuccess(res, mockHistory);
     } catch (error) {
         console.error('Error fetching history:', error);
-        res.status(500).json({ error: 'Failed to fetch history' });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch history');
     }
-});
+}));
 
 export default router;
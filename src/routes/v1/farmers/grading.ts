@@ -11,113 +11,25 @@
  * @module GradingRoutes
  */
 
-import { Router, Request, Response, NextFunction } from 'express';
-import { z } from 'zod';
+import { Router } from 'express';
 import {
     listingIdParamSchema,
     gradeListingSchema,
     confirmListingSchema,
     rejectListingSchema,
 } from '../../../schemas/grading';
-import { catalogGrpcClient } from '../../../grpc/catalog-client';
+import { catalogClient } from '../../../grpc/clients';
 import { logger } from '../../../utils/logger';
+import { authMiddleware } from '../../../middleware/auth';
+import { requirePolicy } from '../../../middleware/policy';
+import { validated } from '../../../middleware/validate';
+import { sendGrpcError } from '../../../grpc/errors';
+import { sendError, sendSuccess } from '../../../utils/response-handler';
 
 const router = Router();
 
-// ============================================================================
-// Type Definitions
-// ============================================================================
-
-interface AuthenticatedRequest extends Request {
-    user?: {
-        id: number;
-        role: string;
-    };
-}
-
-// ============================================================================
-// Validation Middleware
-// ============================================================================
-
-function validateBody<T extends z.ZodSchema>(schema: T) {
-    return (req: Request, res: Response, next: NextFunction) => {
-        const result = schema.safeParse(req.body);
-        if (!result.success) {
-            return res.status(400).json({
-                data: null,
-                error: {
-                    code: 'VALIDATION_ERROR',
-                    message: 'Invalid request body',
-                    details: result.error.flatten().fieldErrors,
-                },
-            });
-        }
-        req.body = result.data;
-        next();
-    };
-}
-
-function validateParams<T extends z.ZodSchema>(schema: T) {
-    return (req: Request, res: Response, next: NextFunction) => {
-        const result = schema.safeParse(req.params);
-        if (!result.success) {
-            return res.status(400).json({
-                data: null,
-                error: {
-                    code: 'VALIDATION_ERROR',
-                    message: 'Invalid path parameters',
-                    details: result.error.flatten().fieldErrors,
-                },
-            });
-        }
-        req.params = result.data as any;
-        next();
-    };
-}
-
-// ============================================================================
-// Response Helpers
-// ============================================================================
-
-function successResponse(res: Response, data: any, status = 200) {
-    return res.status(status).json({
-        data,
-        error: null,
-        meta: {
-            timestamp: new Date().toISOString(),
-        },
-    });
-}
-
-function errorResponse(res: Response, code: string, message: string, status = 500, details?: any) {
-    return res.status(status).json({
-        data: null,
-        error: { code, message, details },
-        meta: {
-            timestamp: new Date().toISOString(),
-        },
-    });
-}
-
-function mapGrpcError(error: any, res: Response) {
-    const grpc = require('@grpc/grpc-js');
-
-    if (error.code === grpc.status.NOT_FOUND) {
-        return errorResponse(res, 'NOT_FOUND', error.message || 'Resource not found', 404);
-    }
-    if (error.code === grpc.status.PERMISSION_DENIED) {
-        return errorResponse(res, 'FORBIDDEN', error.message || 'Access denied', 403);
-    }
-    if (error.code === grpc.status.INVALID_ARGUMENT) {
-        return errorResponse(res, 'BAD_REQUEST', error.message || 'Invalid input', 400);
-    }
-    if (error.code === grpc.status.FAILED_PRECONDITION) {
-        return errorResponse(res, 'CONFLICT', error.message || 'Operation not allowed', 409);
-    }
-
-    logger.error({ error }, 'Unhandled gRPC error');
-    return errorResponse(res, 'INTERNAL_ERROR', 'An unexpected error occurred', 500);
-}
+// All routes require a verified farmer token
+router.use(authMiddleware, requirePolicy({ userTypes: ['FARMER'] }));
 
 // ============================================================================
 // Routes
@@ -131,29 +43,27 @@ function mapGrpcError(error: any, res: Response) {
  */
 router.post(
     '/:id/grade',
-    validateParams(listingIdParamSchema),
-    validateBody(gradeListingSchema),
-    async (req: AuthenticatedRequest, res: Response) => {
+    validated({ params: listingIdParamSchema, body: gradeListingSchema }, async (req, res) => {
         try {
-            const farmerId = req.user?.id;
+            const farmerId = req.user?.userId;
             if (!farmerId) {
-                return errorResponse(res, 'UNAUTHORIZED', 'Authentication required', 401);
+                return sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
             }
 
-            const listingId = (req.params as any).id;
+            const listingId = req.params.id;
 
             logger.info({ listingId, farmerId }, 'Grading listing via REST');
 
-            const result = await catalogGrpcClient.gradeAndPrice({
+            const result = await catalogClient.GradeAndPrice({
                 listingId,
                 farmerId,
             });
 
-            return successResponse(res, result);
+            return sendSuccess(res, result);
         } catch (error) {
-            return mapGrpcError(error, res);
+            return sendGrpcError(res, error);
         }
-    }
+    })
 );
 
 /**
@@ -164,32 +74,30 @@ router.post(
  */
 router.post(
     '/:id/confirm',
-    validateParams(listingIdParamSchema),
-    validateBody(confirmListingSchema),
-    async (req: AuthenticatedRequest, res: Response) => {
+    validated({ params: listingIdParamSchema, body: confirmListingSchema }, async (req, res) => {
         try {
-            const farmerId = req.user?.id;
+            const farmerId = req.user?.userId;
             if (!farmerId) {
-                return errorResponse(res, 'UNAUTHORIZED', 'Authentication required', 401);
+                return sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
             }
 
-            const listingId = (req.params as any).id;
+            const listingId = req.params.id;
             const { grading, pricing } = req.body;
 
             logger.info({ listingId, farmerId, grade: grading.grade }, 'Confirming listing via REST');
 
-            const result = await catalogGrpcClient.confirmListing({
+            const result = await catalogClient.ConfirmListing({
                 listingId,
                 farmerId,
                 grading,
                 pricing,
             });
 
-            return successResponse(res, result);
+            return sendSuccess(res, result);
         } catch (error) {
-            return mapGrpcError(error, res);
+            return sendGrpcError(res, error);
         }
-    }
+    })
 );
 
 /**
@@ -199,31 +107,29 @@ router.post(
  */
 router.post(
     '/:id/reject',
-    validateParams(listingIdParamSchema),
-    validateBody(rejectListingSchema),
-    async (req: AuthenticatedRequest, res: Response) => {
+    validated({ params: listingIdParamSchema, body: rejectListingSchema }, async (req, res) => {
         try {
-            const farmerId = req.user?.id;
+            const farmerId = req.user?.userId;
             if (!farmerId) {
-                return errorResponse(res, 'UNAUTHORIZED', 'Authentication required', 401);
+                return sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
             }
 
-            const listingId = (req.params as any).id;
+            const listingId = req.params.id;
             const { reason } = req.body;
 
             logger.info({ listingId, farmerId, reason }, 'Rejecting listing via REST');
 
-            const result = await catalogGrpcClient.rejectListing({
+            const result = await catalogClient.RejectListing({
                 listingId,
                 farmerId,
                 reason,
             });
 
-            return successResponse(res, result);
+            return sendSuccess(res, result);
         } catch (error) {
-            return mapGrpcError(error, res);
+            return sendGrpcError(res, error);
         }
-    }
+    })
 );
 
 export default router;
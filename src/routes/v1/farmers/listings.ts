@@ -11,8 +11,7 @@
  * @module FarmersListingsRoutes
  */
 
-import { Router, Request, Response, NextFunction } from 'express';
-import { z } from 'zod';
+import { Router } from 'express';
 import {
     createListingSchema,
     updateListingSchema,
@@ -20,123 +19,20 @@ import {
     listingIdParamSchema,
     cancelListingSchema,
 } from '../../../schemas/listing';
-import { catalogGrpcClient } from '../../../grpc/catalog-client';
+import { catalogClient } from '../../../grpc/clients';
 import { logger } from '../../../utils/logger';
+import { authMiddleware } from '../../../middleware/auth';
+import { requirePolicy } from '../../../middleware/policy';
+import { validated } from '../../../middleware/validate';
+import { rateLimit, RATE_LIMIT_POLICIES } from '../../../middleware/rate-limit';
+import { idempotency } from '../../../middleware/idempotency';
+import { sendGrpcError } from '../../../grpc/errors';
+import { sendError, sendSuccess } from '../../../utils/response-handler';
 
 const router = Router();
 
-// ============================================================================
-// Type Definitions
-// ============================================================================
-
-interface AuthenticatedRequest extends Request {
-    user?: {
-        id: number;
-        role: string;
-    };
-}
-
-// ============================================================================
-// Validation Middleware
-// ============================================================================
-
-function validateBody<T extends z.ZodSchema>(schema: T) {
-    return (req: Request, res: Response, next: NextFunction) => {
-        const result = schema.safeParse(req.body);
-        if (!result.success) {
-            return res.status(400).json({
-                data: null,
-                error: {
-                    code: 'VALIDATION_ERROR',
-                    message: 'Invalid request body',
-                    details: result.error.flatten().fieldErrors,
-                },
-            });
-        }
-        req.body = result.data;
-        next();
-    };
-}
-
-function validateQuery<T extends z.ZodSchema>(schema: T) {
-    return (req: Request, res: Response, next: NextFunction) => {
-        const result = schema.safeParse(req.query);
-        if (!result.success) {
-            return res.status(400).json({
-                data: null,
-                error: {
-                    code: 'VALIDATION_ERROR',
-                    message: 'Invalid query parameters',
-                    details: result.error.flatten().fieldErrors,
-                },
-            });
-        }
-        req.query = result.data as any;
-        next();
-    };
-}
-
-function validateParams<T extends z.ZodSchema>(schema: T) {
-    return (req: Request, res: Response, next: NextFunction) => {
-        const result = schema.safeParse(req.params);
-        if (!result.success) {
-            return res.status(400).json({
-                data: null,
-                error: {
-                    code: 'VALIDATION_ERROR',
-                    message: 'Invalid path parameters',
-                    details: result.error.flatten().fieldErrors,
-                },
-            });
-        }
-        req.params = result.data as any;
-        next();
-    };
-}
-
-// ============================================================================
-// Response Helpers
-// ============================================================================
-
-function successResponse(res: Response, data: any, status = 200) {
-    return res.status(status).json({
-        data,
-        error: null,
-        meta: {
-            timestamp: new Date().toISOString(),
-        },
-    });
-}
-
-function errorResponse(res: Response, code: string, message: string, status = 500, details?: any) {
-    return res.status(status).json({
-        data: null,
-        error: { code, message, details },
-        meta: {
-            timestamp: new Date().toISOString(),
-        },
-    });
-}
-
-function mapGrpcError(error: any, res: Response) {
-    const grpc = require('@grpc/grpc-js');
-
-    if (error.code === grpc.status.NOT_FOUND) {
-        return errorResponse(res, 'NOT_FOUND', error.message || 'Resource not found', 404);
-    }
-    if (error.code === grpc.status.PERMISSION_DENIED) {
-        return errorResponse(res, 'FORBIDDEN', error.message || 'Access denied', 403);
-    }
-    if (error.code === grpc.status.INVALID_ARGUMENT) {
-        return errorResponse(res, 'BAD_REQUEST', error.message || 'Invalid input', 400);
-    }
-    if (error.code === grpc.status.FAILED_PRECONDITION) {
-        return errorResponse(res, 'CONFLICT', error.message || 'Operation not allowed', 409);
-    }
-
-    logger.error({ error }, 'Unhandled gRPC error');
-    return errorResponse(res, 'INTERNAL_ERROR', 'An unexpected error occurred', 500);
-}
+// All routes require a verified farmer token
+router.use(authMiddleware, requirePolicy({ userTypes: ['FARMER'] }));
 
 // ============================================================================
 // Routes
@@ -148,15 +44,16 @@ function mapGrpcError(error: any, res: Response) {
  */
 router.post(
     '/',
-    validateBody(createListingSchema),
-    async (req: AuthenticatedRequest, res: Response) => {
+    rateLimit(RATE_LIMIT_POLICIES.LISTING_CREATE),
+    idempotency(),
+    validated({ body: createListingSchema }, async (req, res) => {
         try {
-            const farmerId = req.user?.id;
+            const farmerId = req.user?.userId;
             if (!farmerId) {
-                return errorResponse(res, 'UNAUTHORIZED', 'Authentication required', 401);
+                return sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
             }
 
-            const listing = await catalogGrpcClient.createListing({
+            const listing = await catalogClient.CreateListing({
                 farmerId,
                 cropId: req.body.cropId,
                 quantityKg: req.body.quantityKg,
@@ -170,11 +67,11 @@ router.post(
             });
 
             logger.info({ listingId: listing.id, farmerId }, 'Listing created via REST');
-            return successResponse(res, listing, 201);
+            return sendSuccess(res, listing, 201);
         } catch (error) {
-            return mapGrpcError(error, res);
+            return sendGrpcError(res, error);
         }
-    }
+    })
 );
 
 /**
@@ -183,27 +80,26 @@ router.post(
  */
 router.get(
     '/',
-    validateQuery(listListingsQuerySchema),
-    async (req: AuthenticatedRequest, res: Response) => {
+    validated({ query: listListingsQuerySchema }, async (req, res) => {
         try {
-            const farmerId = req.user?.id;
+            const farmerId = req.user?.userId;
             if (!farmerId) {
-                return errorResponse(res, 'UNAUTHORIZED', 'Authentication required', 401);
+                return sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
             }
 
-            const query = req.query as any;
-            const result = await catalogGrpcClient.listFarmerListings({
+            const query = req.query;
+            const result = await catalogClient.ListFarmerListings({
                 farmerId,
                 status: query.status,
                 page: query.page,
                 pageSize: query.pageSize,
             });
 
-            return successResponse(res, result);
+            return sendSuccess(res, result);
         } catch (error) {
-            return mapGrpcError(error, res);
+            return sendGrpcError(res, error);
         }
-    }
+    })
 );
 
 /**
@@ -212,22 +108,21 @@ router.get(
  */
 router.get(
     '/:id',
-    validateParams(listingIdParamSchema),
-    async (req: AuthenticatedRequest, res: Response) => {
+    validated({ params: listingIdParamSchema }, async (req, res) => {
         try {
-            const farmerId = req.user?.id;
+            const farmerId = req.user?.userId;
             if (!farmerId) {
-                return errorResponse(res, 'UNAUTHORIZED', 'Authentication required', 401);
+                return sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
             }
 
-            const id = (req.params as any).id;
-            const listing = await catalogGrpcClient.getListing({ id, farmerId });
+            const id = req.params.id;
+            const listing = await catalogClient.GetListing({ id, farmerId });
 
-            return successResponse(res, listing);
+            return sendSuccess(res, listing);
         } catch (error) {
-            return mapGrpcError(error, res);
+            return sendGrpcError(res, error);
         }
-    }
+    })
 );
 
 /**
@@ -236,28 +131,26 @@ router.get(
  */
 router.patch(
     '/:id',
-    validateParams(listingIdParamSchema),
-    validateBody(updateListingSchema),
-    async (req: AuthenticatedRequest, res: Response) => {
+    validated({ params: listingIdParamSchema, body: updateListingSchema }, async (req, res) => {
         try {
-            const farmerId = req.user?.id;
+            const farmerId = req.user?.userId;
             if (!farmerId) {
-                return errorResponse(res, 'UNAUTHORIZED', 'Authentication required', 401);
+                return sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
             }
 
-            const id = (req.params as any).id;
-            const listing = await catalogGrpcClient.updateListing({
+            const id = req.params.id;
+            const listing = await catalogClient.UpdateListing({
                 id,
                 farmerId,
                 ...req.body,
             });
 
             logger.info({ listingId: id, farmerId }, 'Listing updated via REST');
-            return successResponse(res, listing);
+            return sendSuccess(res, listing);
         } catch (error) {
-            return mapGrpcError(error, res);
+            return sendGrpcError(res, error);
         }
-    }
+    })
 );
 
 /**
@@ -271,26 +164,24 @@ router.patch(
  */
 router.delete(
     '/:id',
-    validateParams(listingIdParamSchema),
-    validateBody(cancelListingSchema),
-    async (req: AuthenticatedRequest, res: Response) => {
+    validated({ params: listingIdParamSchema, body: cancelListingSchema }, async (req, res) => {
         try {
-            const farmerId = req.user?.id;
+            const farmerId = req.user?.userId;
             if (!farmerId) {
-                return errorResponse(res, 'UNAUTHORIZED', 'Authentication required', 401);
+                return sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
             }
 
-            const id = (req.params as any).id;
+            const id = req.params.id;
             const { reason } = req.body;
 
-            await catalogGrpcClient.cancelListing({ id, farmerId, cancellationReason: reason });
+            await catalogClient.CancelListing({ id, farmerId, cancellationReason: reason });
 
             logger.info({ listingId: id, farmerId, reason }, 'Listing cancelled via REST (Story 3.9)');
-            return successResponse(res, { success: true, message: 'Listing cancelled successfully' });
+            return sendSuccess(res, { success: true, message: 'Listing cancelled successfully' });
         } catch (error) {
-            return mapGrpcError(error, res);
+            return sendGrpcError(res, error);
         }
-    }
+    })
 );
 
 export default router;
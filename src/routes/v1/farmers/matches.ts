@@ -11,131 +11,26 @@
  * @module FarmersMatchesRoutes
  */
 
-import { Router, Request, Response, NextFunction } from 'express';
-import { z } from 'zod';
+import { Router } from 'express';
 import {
     acceptMatchSchema,
     rejectMatchSchema,
     matchIdParamSchema,
     listMatchesQuerySchema,
 } from '../../../schemas/match';
-import { orderMatchGrpcClient } from '../../../grpc/order-match-client';
+import { matchClient } from '../../../grpc/clients';
 import { logger } from '../../../utils/logger';
+import { authMiddleware } from '../../../middleware/auth';
+import { requirePolicy } from '../../../middleware/policy';
+import { validated } from '../../../middleware/validate';
+import { idempotency } from '../../../middleware/idempotency';
+import { sendGrpcError } from '../../../grpc/errors';
+import { sendError, sendSuccess } from '../../../utils/response-handler';
 
 const router = Router();
 
-// ============================================================================
-// Type Definitions
-// ============================================================================
-
-interface AuthenticatedRequest extends Request {
-    user?: {
-        id: number;
-        role: string;
-    };
-}
-
-// ============================================================================
-// Validation Middleware
-// ============================================================================
-
-function validateBody<T extends z.ZodSchema>(schema: T) {
-    return (req: Request, res: Response, next: NextFunction) => {
-        const result = schema.safeParse(req.body);
-        if (!result.success) {
-            return res.status(400).json({
-                data: null,
-                error: {
-                    code: 'VALIDATION_ERROR',
-                    message: 'Invalid request body',
-                    details: result.error.flatten().fieldErrors,
-                },
-            });
-        }
-        req.body = result.data;
-        next();
-    };
-}
-
-function validateQuery<T extends z.ZodSchema>(schema: T) {
-    return (req: Request, res: Response, next: NextFunction) => {
-        const result = schema.safeParse(req.query);
-        if (!result.success) {
-            return res.status(400).json({
-                data: null,
-                error: {
-                    code: 'VALIDATION_ERROR',
-                    message: 'Invalid query parameters',
-                    details: result.error.flatten().fieldErrors,
-                },
-            });
-        }
-        req.query = result.data as any;
-        next();
-    };
-}
-
-function validateParams<T extends z.ZodSchema>(schema: T) {
-    return (req: Request, res: Response, next: NextFunction) => {
-        const result = schema.safeParse(req.params);
-        if (!result.success) {
-            return res.status(400).json({
-                data: null,
-                error: {
-                    code: 'VALIDATION_ERROR',
-                    message: 'Invalid path parameters',
-                    details: result.error.flatten().fieldErrors,
-                },
-            });
-        }
-        req.params = result.data as any;
-        next();
-    };
-}
-
-// ============================================================================
-// Response Helpers
-// ============================================================================
-
-function successResponse(res: Response, data: any, status = 200) {
-    return res.status(status).json({
-        data,
-        error: null,
-        meta: {
-            timestamp: new Date().toISOString(),
-        },
-    });
-}
-
-function errorResponse(res: Response, code: string, message: string, status = 500, details?: any) {
-    return res.status(status).json({
-        data: null,
-        error: { code, message, details },
-        meta: {
-            timestamp: new Date().toISOString(),
-        },
-    });
-}
-
-function mapGrpcError(error: any, res: Response) {
-    const grpc = require('@grpc/grpc-js');
-
-    if (error.code === grpc.status.NOT_FOUND) {
-        return errorResponse(res, 'NOT_FOUND', error.message || 'Match not found', 404);
-    }
-    if (error.code === grpc.status.PERMISSION_DENIED) {
-        return errorResponse(res, 'FORBIDDEN', error.message || 'Access denied', 403);
-    }
-    if (error.code === grpc.status.INVALID_ARGUMENT) {
-        return errorResponse(res, 'BAD_REQUEST', error.message || 'Invalid input', 400);
-    }
-    if (error.code === grpc.status.FAILED_PRECONDITION) {
-        return errorResponse(res, 'CONFLICT', error.message || 'Match expired or already actioned', 409);
-    }
-
-    logger.error({ error }, 'Unhandled gRPC error in matches route');
-    return errorResponse(res, 'INTERNAL_ERROR', 'An unexpected error occurred', 500);
-}
+// All routes require a verified farmer token
+router.use(authMiddleware, requirePolicy({ userTypes: ['FARMER'] }));
 
 // ============================================================================
 // Routes
@@ -147,20 +42,19 @@ function mapGrpcError(error: any, res: Response) {
  */
 router.get(
     '/',
-    validateQuery(listMatchesQuerySchema),
-    async (req: AuthenticatedRequest, res: Response) => {
+    validated({ query: listMatchesQuerySchema }, async (req, res) => {
         try {
-            const farmerId = req.user?.id;
+            const farmerId = req.user?.userId;
             if (!farmerId) {
-                return errorResponse(res, 'UNAUTHORIZED', 'Authentication required', 401);
+                return sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
             }
 
-            const query = req.query as any;
-            const result = await orderMatchGrpcClient.getPendingMatches(
-                String(farmerId),
-                query.limit || 10,
-                ((query.page || 1) - 1) * (query.limit || 10) // offset calculation
-            );
+            const query = req.query;
+            const result = await matchClient.GetPendingMatches({
+                farmer_id: String(farmerId),
+                limit: query.limit || 10,
+                offset: ((query.page || 1) - 1) * (query.limit || 10), // offset calculation
+            });
 
             // Transform snake_case to camelCase for mobile app
             const matches = result.matches.map(m => ({
@@ -182,16 +76,16 @@ router.get(
                 deliveryDate: m.delivery_date,
             }));
 
-            return successResponse(res, {
+            return sendSuccess(res, {
                 matches,
                 totalCount: result.total_count,
                 page: query.page || 1,
                 limit: query.limit || 10,
             });
         } catch (error) {
-            return mapGrpcError(error, res);
+            return sendGrpcError(res, error);
         }
-    }
+    })
 );
 
 /**
@@ -200,19 +94,18 @@ router.get(
  */
 router.get(
     '/:id',
-    validateParams(matchIdParamSchema),
-    async (req: AuthenticatedRequest, res: Response) => {
+    validated({ params: matchIdParamSchema }, async (req, res) => {
         try {
-            const farmerId = req.user?.id;
+            const farmerId = req.user?.userId;
             if (!farmerId) {
-                return errorResponse(res, 'UNAUTHORIZED', 'Authentication required', 401);
+                return sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
             }
 
-            const matchId = (req.params as any).id;
-            const result = await orderMatchGrpcClient.getMatchById(matchId);
+            const matchId = req.params.id;
+            const result = await matchClient.GetMatchById({ match_id: matchId });
 
             if (!result.match) {
-                return errorResponse(res, 'NOT_FOUND', 'Match not found', 404);
+                return sendError(res, 404, 'NOT_FOUND', 'Match not found');
             }
 
             const m = result.match;
@@ -235,11 +128,11 @@ router.get(
                 deliveryDate: m.delivery_date,
             };
 
-            return successResponse(res, match);
+            return sendSuccess(res, match);
         } catch (error) {
-            return mapGrpcError(error, res);
+            return sendGrpcError(res, error);
         }
-    }
+    })
 );
 
 /**
@@ -248,35 +141,34 @@ router.get(
  */
 router.post(
     '/:id/accept',
-    validateParams(matchIdParamSchema),
-    validateBody(acceptMatchSchema),
-    async (req: AuthenticatedRequest, res: Response) => {
+    idempotency(),
+    validated({ params: matchIdParamSchema, body: acceptMatchSchema }, async (req, res) => {
         try {
-            const farmerId = req.user?.id;
+            const farmerId = req.user?.userId;
             if (!farmerId) {
-                return errorResponse(res, 'UNAUTHORIZED', 'Authentication required', 401);
+                return sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
             }
 
-            const matchId = (req.params as any).id;
+            const matchId = req.params.id;
             const { isPartial, acceptedQuantity } = req.body;
 
-            const result = await orderMatchGrpcClient.acceptMatch(
-                matchId,
-                isPartial,
-                acceptedQuantity
-            );
+            const result = await matchClient.AcceptMatch({
+                match_id: matchId,
+                is_partial: isPartial,
+                accepted_quantity: acceptedQuantity,
+            });
 
             logger.info({ matchId, farmerId, isPartial }, 'Match accepted via REST');
 
-            return successResponse(res, {
+            return sendSuccess(res, {
                 success: result.success,
                 orderId: result.order_id,
                 message: result.message || 'Match accepted successfully',
             });
         } catch (error) {
-            return mapGrpcError(error, res);
+            return sendGrpcError(res, error);
         }
-    }
+    })
 );
 
 /**
@@ -285,34 +177,33 @@ router.post(
  */
 router.post(
     '/:id/reject',
-    validateParams(matchIdParamSchema),
-    validateBody(rejectMatchSchema),
-    async (req: AuthenticatedRequest, res: Response) => {
+    idempotency(),
+    validated({ params: matchIdParamSchema, body: rejectMatchSchema }, async (req, res) => {
         try {
-            const farmerId = req.user?.id;
+            const farmerId = req.user?.userId;
             if (!farmerId) {
-                return errorResponse(res, 'UNAUTHORIZED', 'Authentication required', 401);
+                return sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
             }
 
-            const matchId = (req.params as any).id;
+            const matchId = req.params.id;
             const { reason, otherReasonText } = req.body;
 
-            const result = await orderMatchGrpcClient.rejectMatch(
-                matchId,
-                reason,
-                otherReasonText
-            );
+            const result = await matchClient.RejectMatch({
+                match_id: matchId,
+                reason_code: reason,
+                other_reason_text: otherReasonText,
+            });
 
             logger.info({ matchId, farmerId, reason }, 'Match rejected via REST');
 
-            return successResponse(res, {
+            return sendSuccess(res, {
                 success: result.success,
                 message: 'Match rejected successfully',
             });
         } catch (error) {
-            return mapGrpcError(error, res);
+            return sendGrpcError(res, error);
         }
-    }
+    })
 );
 
 export default router;
@@ -13,11 +13,21 @@
  * - DELETE /device-token - Unregister FCM token (AC: 7)
  */
 
-import { Router, Request, Response, NextFunction } from 'express';
+import { Router } from 'express';
 import { z } from 'zod';
+import { authMiddleware, AuthRequest } from '../../../middleware/auth';
+import { requirePolicy } from '../../../middleware/policy';
+import { validated } from '../../../middleware/validate';
+import { legacyResponses, sendError, sendSuccess } from '../../../utils/response-handler';
 
 const router = Router();
 
+// Older apps still expect bare response bodies from these routes
+router.use(legacyResponses('bare'));
+
+// All routes require a verified farmer token
+router.use(authMiddleware, requirePolicy({ userTypes: ['FARMER'] }));
+
 // ============================================================================
 // Zod Schemas for Validation
 // ============================================================================
@@ -54,31 +64,10 @@ const deviceTokenSchema = z.object({
 // Helper Functions
 // ============================================================================
 
-// Extract farmer ID from auth token (placeholder)
-const extractFarmerId = (req: Request): string | null => {
-    // In production, extract from JWT token
-    const farmerId = req.headers['x-farmer-id'] || req.query.farmerId;
-    return farmerId ? String(farmerId) : null;
-};
-
-// Zod validation middleware
-const validate = <T extends z.ZodSchema>(schema: T, source: 'query' | 'body' | 'params' = 'query') => {
-    return (req: Request, res: Response, next: NextFunction) => {
-        try {
-            const data = source === 'query' ? req.query : source === 'body' ? req.body : req.params;
-            schema.parse(data);
-            next();
-        } catch (error) {
-            if (error instanceof z.ZodError) {
-                res.status(400).json({
-                    error: 'Validation error',
-                    details: error.issues
-                });
-                return;
-            }
-            next(error);
-        }
-    };
+// Farmer ID comes from the verified token only
+const extractFarmerId = (req: Pick<AuthRequest, 'user'>): string | null => {
+    const userId = req.user?.userId;
+    return userId ? String(userId) : null;
 };
 
 // ============================================================================
@@ -89,16 +78,16 @@ const validate = <T extends z.ZodSchema>(schema: T, source: 'query' | 'body' | '
  * GET /v1/farmers/notifications
  * Returns paginated notification list.
  */
-router.get('/', validate(getNotificationsQuerySchema), async (req: Request, res: Response) => {
+router.get('/', validated({ query: getNotificationsQuerySchema }, async (req, res) => {
     try {
         const farmerId = extractFarmerId(req);
 
         if (!farmerId) {
-            res.status(401).json({ error: 'Farmer ID required' });
+            sendError(res, 401, 'UNAUTHORIZED', 'Farmer ID required');
             return;
         }
 
-        const query = getNotificationsQuerySchema.parse(req.query);
+        const query = req.query;
 
         // TODO: Call Notification Service gRPC GetFarmerNotifications
         // For now, return mock data
@@ -144,35 +133,35 @@ router.get('/', validate(getNotificationsQuerySchema), async (req: Request, res:
             }
         };
 
-        res.json(mockNotifications);
+        sendSuccess(res, mockNotifications);
     } catch (error) {
         console.error('Error fetching notifications:', error);
-        res.status(500).json({ error: 'Failed to fetch notifications' });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch notifications');
     }
-});
+}));
 
 /**
  * GET /v1/farmers/notifications/unread-count
  * Returns unread notification count for badge.
  */
-router.get('/unread-count', async (req: Request, res: Response) => {
+router.get('/unread-count', validated({}, async (req, res) => {
     try {
         const farmerId = extractFarmerId(req);
 
         if (!farmerId) {
-            res.status(401).json({ error: 'Farmer ID required' });
+            sendError(res, 401, 'UNAUTHORIZED', 'Farmer ID required');
             return;
         }
 
         // TODO: Call Notification Service gRPC GetUnreadCount
         const mockCount = { count: 5 };
 
-        res.json(mockCount);
+        sendSuccess(res, mockCount);
     } catch (error) {
         console.error('Error fetching unread count:', error);
-        res.status(500).json({ error: 'Failed to fetch unread count' });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch unread count');
     }
-});
+}));
 
 // ============================================================================
 // Mark as Read Endpoints (AC: 3)
@@ -182,44 +171,44 @@ router.get('/unread-count', async (req: Request, res: Response) => {
  * POST /v1/farmers/notifications/:id/read
  * Marks a single notification as read.
  */
-router.post('/:id/read', validate(markReadParamsSchema, 'params'), async (req: Request, res: Response) => {
+router.post('/:id/read', validated({ params: markReadParamsSchema }, async (req, res) => {
     try {
         const farmerId = extractFarmerId(req);
         const { id } = req.params;
 
         if (!farmerId) {
-            res.status(401).json({ error: 'Farmer ID required' });
+            sendError(res, 401, 'UNAUTHORIZED', 'Farmer ID required');
             return;
         }
 
         // TODO: Call Notification Service gRPC MarkNotificationRead
-        res.json({ success: true, notification_id: id });
+        sendSuccess(res, { success: true, notification_id: id });
     } catch (error) {
         console.error('Error marking notification as read:', error);
-        res.status(500).json({ error: 'Failed to mark as read' });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Failed to mark as read');
     }
-});
+}));
 
 /**
  * POST /v1/farmers/notifications/read-all
  * Marks all notifications as read.
  */
-router.post('/read-all', async (req: Request, res: Response) => {
+router.post('/read-all', validated({}, async (req, res) => {
     try {
         const farmerId = extractFarmerId(req);
 
         if (!farmerId) {
-            res.status(401).json({ error: 'Farmer ID required' });
+            sendError(res, 401, 'UNAUTHORIZED', 'Farmer ID required');
             return;
         }
 
         // TODO: Call Notification Service gRPC MarkAllNotificationsRead
-        res.json({ success: true, updated_count: 5 });
+        sendSuccess(res, { success: true, updated_count: 5 });
     } catch (error) {
         console.error('Error marking all as read:', error);
-        res.status(500).json({ error: 'Failed to mark all as read' });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Failed to mark all as read');
     }
-});
+}));
 
 // ============================================================================
 // Delete Notification Endpoint
@@ -229,23 +218,23 @@ router.post('/read-all', async (req: Request, res: Response) => {
  * DELETE /v1/farmers/notifications/:id
  * Deletes a notification.
  */
-router.delete('/:id', validate(markReadParamsSchema, 'params'), async (req: Request, res: Response) => {
+router.delete('/:id', validated({ params: markReadParamsSchema }, async (req, res) => {
     try {
         const farmerId = extractFarmerId(req);
         const { id } = req.params;
 
         if (!farmerId) {
-            res.status(401).json({ error: 'Farmer ID required' });
+            sendError(res, 401, 'UNAUTHORIZED', 'Farmer ID required');
             return;
         }
 
         // TODO: Call Notification Service gRPC DeleteNotification
-        res.json({ success: true });
+        sendSuccess(res, { success: true });
     } catch (error) {
         console.error('Error deleting notification:', error);
-        res.status(500).json({ error: 'Failed to delete notification' });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Failed to delete notification');
     }
-});
+}));
 
 // ============================================================================
 // Preferences Endpoints (AC: 4)
@@ -255,12 +244,12 @@ router.delete('/:id', validate(markReadParamsSchema, 'params'), async (req: Requ
  * GET /v1/farmers/notifications/preferences
  * Returns notification preferences.
  */
-router.get('/preferences', async (req: Request, res: Response) => {
+router.get('/preferences', validated({}, async (req, res) => {
     try {
         const farmerId = extractFarmerId(req);
 
         if (!farmerId) {
-            res.status(401).json({ error: 'Farmer ID required' });
+            sendError(res, 401, 'UNAUTHORIZED', 'Farmer ID required');
             return;
         }
 
@@ -278,27 +267,27 @@ router.get('/preferences', async (req: Request, res: Response) => {
             educational_content: true
         };
 
-        res.json(mockPreferences);
+        sendSuccess(res, mockPreferences);
     } catch (error) {
         console.error('Error fetching preferences:', error);
-        res.status(500).json({ error: 'Failed to fetch preferences' });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch preferences');
     }
-});
+}));
 
 /**
  * PUT /v1/farmers/notifications/preferences
  * Updates notification preferences.
  */
-router.put('/preferences', validate(preferencesSchema, 'body'), async (req: Request, res: Response) => {
+router.put('/preferences', validated({ body: preferencesSchema }, async (req, res) => {
     try {
         const farmerId = extractFarmerId(req);
 
         if (!farmerId) {
-            res.status(401).json({ error: 'Farmer ID required' });
+            sendError(res, 401, 'UNAUTHORIZED', 'Farmer ID required');
             return;
         }
 
-        const preferences = preferencesSchema.parse(req.body);
+        const preferences = req.body;
 
         // TODO: Call Notification Service gRPC UpdateNotificationPreferences
         const updatedPreferences = {
@@ -314,12 +303,12 @@ router.put('/preferences', validate(preferencesSchema, 'body'), async (req: Requ
             educational_content: preferences.educational_content ?? true
         };
 
-        res.json(updatedPreferences);
+        sendSuccess(res, updatedPreferences);
     } catch (error) {
         console.error('Error updating preferences:', error);
-        res.status(500).json({ error: 'Failed to update preferences' });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Failed to update preferences');
     }
-});
+}));
 
 // ============================================================================
 // Device Token Endpoints (AC: 7)
@@ -329,49 +318,49 @@ router.put('/preferences', validate(preferencesSchema, 'body'), async (req: Requ
  * POST /v1/farmers/device-token
  * Registers FCM device token.
  */
-router.post('/device-token', validate(deviceTokenSchema, 'body'), async (req: Request, res: Response) => {
+router.post('/device-token', validated({ body: deviceTokenSchema }, async (req, res) => {
     try {
         const farmerId = extractFarmerId(req);
 
         if (!farmerId) {
-            res.status(401).json({ error: 'Farmer ID required' });
+            sendError(res, 401, 'UNAUTHORIZED', 'Farmer ID required');
             return;
         }
 
-        const { fcm_token, device_type } = deviceTokenSchema.parse(req.body);
+        const { fcm_token, device_type } = req.body;
 
         // TODO: Call Notification Service gRPC RegisterDeviceToken
-        res.json({
+        sendSuccess(res, {
             success: true,
             token_id: `token-${Date.now()}`
         });
     } catch (error) {
         console.error('Error registering device token:', error);
-        res.status(500).json({ error: 'Failed to register device token' });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Failed to register device token');
     }
-});
+}));
 
 /**
  * DELETE /v1/farmers/device-token
  * Unregisters FCM device token (logout).
  */
-router.delete('/device-token', validate(deviceTokenSchema, 'body'), async (req: Request, res: Response) => {
+router.delete('/device-token', validated({ body: deviceTokenSchema }, async (req, res) => {
     try {
         const farmerId = extractFarmerId(req);
 
         if (!farmerId) {
-            res.status(401).json({ error: 'Farmer ID required' });
+            sendError(res, 401, 'UNAUTHORIZED', 'Farmer ID required');
             return;
         }
 
-        const { fcm_token } = deviceTokenSchema.parse(req.body);
+        const { fcm_token } = req.body;
 
         // TODO: Call Notification Service gRPC UnregisterDeviceToken
-        res.json({ success: true });
+        sendSuccess(res, { success: true });
     } catch (error) {
         console.error('Error unregistering device token:', error);
-        res.status(500).json({ error: 'Failed to unregister device token' });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Failed to unregister device token');
     }
-});
+}));
 
 export default router;
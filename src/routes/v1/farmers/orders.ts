@@ -11,16 +11,19 @@
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
+import * as grpc from '@grpc/grpc-js';
 import { authMiddleware, AuthRequest } from '../../../middleware/auth';
+import { requirePolicy } from '../../../middleware/policy';
 import { orderClient, createMetadata } from '../../../grpc/clients';
+import { grpcStatusOf } from '../../../grpc/errors';
 import { sendSuccess, sendError } from '../../../utils/response-handler';
 import { getOrdersQuerySchema, getOrderDetailsParamsSchema } from '../../../schemas/order-status.schema';
 import { logger } from '../../../utils/logger';
 
 const router = Router();
 
-// All routes require authentication
-router.use(authMiddleware);
+// All routes require a verified farmer token
+router.use(authMiddleware, requirePolicy({ userTypes: ['FARMER'] }));
 
 // ============================================
 // GET /v1/farmers/orders - List farmer's orders
@@ -42,61 +45,55 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
         }
 
         const { status, page, limit } = queryResult.data;
-        const farmerId = (req as AuthRequest).user.id;
+        const farmerId = (req as AuthRequest).user!.userId;
 
         logger.info({ correlationId, farmerId, status, page, limit }, 'GET /farmers/orders');
 
         // Call gRPC
-        orderClient.GetFarmerOrders(
+        const response = await orderClient.GetFarmerOrders(
             {
                 farmer_id: farmerId,
                 status_filter: status,
                 page,
                 limit
             },
-            createMetadata(correlationId),
-            (err: any, response: any) => {
-                if (err) {
-                    logger.error({ correlationId, error: err }, 'gRPC GetFarmerOrders failed');
-                    return next(err);
-                }
-
-                // Map snake_case to camelCase for REST response
-                const orders = response.orders.map((order: any) => ({
-                    id: order.order_id,
-                    listing: {
-                        id: order.listing?.id || '',
-                        cropType: order.listing?.crop_type || '',
-                        cropEmoji: order.listing?.crop_emoji || '🌾',
-                        quantityKg: order.listing?.quantity_kg || 0,
-                        photoUrl: order.listing?.photo_url
-                    },
-                    buyer: {
-                        businessType: order.buyer?.business_type || '',
-                        city: order.buyer?.city || '',
-                        area: order.buyer?.area
-                    },
-                    trackingStatus: mapProtoStatus(order.tracking_status),
-                    currentStep: order.current_step || 1,
-                    totalSteps: order.total_steps || 7,
-                    totalAmount: order.total_amount || 0,
-                    eta: order.eta || null,
-                    delayMinutes: order.delay_minutes || null,
-                    createdAt: order.created_at
-                }));
-
-                sendSuccess(res, {
-                    orders,
-                    pagination: {
-                        page: response.pagination?.page || page,
-                        limit: response.pagination?.limit || limit,
-                        total: response.pagination?.total || 0
-                    }
-                });
-            }
+            { metadata: createMetadata(correlationId) }
         );
+
+        // Map snake_case to camelCase for REST response
+        const orders = response.orders.map((order) => ({
+            id: order.order_id,
+            listing: {
+                id: order.listing?.id || '',
+                cropType: order.listing?.crop_type || '',
+                cropEmoji: order.listing?.crop_emoji || '🌾',
+                quantityKg: order.listing?.quantity_kg || 0,
+                photoUrl: order.listing?.photo_url
+            },
+            buyer: {
+                businessType: order.buyer?.business_type || '',
+                city: order.buyer?.city || '',
+                area: order.buyer?.area
+            },
+            trackingStatus: mapProtoStatus(order.tracking_status),
+            currentStep: order.current_step || 1,
+            totalSteps: order.total_steps || 7,
+            totalAmount: order.total_amount || 0,
+            eta: order.eta || null,
+            delayMinutes: order.delay_minutes || null,
+            createdAt: order.created_at
+        }));
+
+        sendSuccess(res, {
+            orders,
+            pagination: {
+                page: response.pagination?.page || page,
+                limit: response.pagination?.limit || limit,
+                total: response.pagination?.total || 0
+            }
+        });
     } catch (err) {
-        logger.error({ correlationId, error: err }, 'Unexpected error in GET /farmers/orders');
+        logger.error({ correlationId, error: err }, 'GET /farmers/orders failed');
         next(err);
     }
 });
@@ -121,81 +118,76 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
         }
 
         const { id: orderId } = paramsResult.data;
-        const farmerId = (req as AuthRequest).user.id;
+        const farmerId = (req as AuthRequest).user!.userId;
 
         logger.info({ correlationId, farmerId, orderId }, 'GET /farmers/orders/:id');
 
         // Call gRPC
-        orderClient.GetFarmerOrderDetails(
+        const response = await orderClient.GetFarmerOrderDetails(
             {
                 order_id: orderId,
                 farmer_id: farmerId
             },
-            createMetadata(correlationId),
-            (err: any, response: any) => {
-                if (err) {
-                    logger.error({ correlationId, error: err }, 'gRPC GetFarmerOrderDetails failed');
-
-                    // Map gRPC errors to HTTP status
-                    if (err.code === 5) { // NOT_FOUND
-                        return sendError(res, 404, 'ORDER_NOT_FOUND', 'Order not found');
-                    }
-                    if (err.code === 7) { // PERMISSION_DENIED
-                        return sendError(res, 403, 'UNAUTHORIZED', 'Not authorized to view this order');
-                    }
-                    return next(err);
-                }
-
-                // Map response to camelCase
-                const order = {
-                    id: response.order_id,
-                    farmerId: response.farmer_id,
-                    listing: {
-                        id: response.listing?.id || '',
-                        cropType: response.listing?.crop_type || '',
-                        cropEmoji: response.listing?.crop_emoji || '🌾',
-                        quantityKg: response.listing?.quantity_kg || 0,
-                        photoUrl: response.listing?.photo_url
-                    },
-                    buyer: {
-                        businessType: response.buyer?.business_type || '',
-                        city: response.buyer?.city || '',
-                        area: response.buyer?.area
-                    },
-                    trackingStatus: mapProtoStatus(response.tracking_status),
-                    currentStep: response.current_step || 1,
-                    totalSteps: response.total_steps || 7,
-                    totalAmount: response.total_amount || 0,
-                    eta: response.eta || null,
-                    delayMinutes: response.delay_minutes || null,
-                    delayReason: response.delay_reason || null,
-                    hauler: response.hauler ? {
-                        id: response.hauler.id,
-                        name: response.hauler.name,
-                        phone: response.hauler.phone,
-                        vehicleType: response.hauler.vehicle_type,
-                        vehicleNumber: response.hauler.vehicle_number
-                    } : null,
-                    statusHistory: (response.status_history || []).map((event: any) => ({
-                        step: event.step,
-                        status: mapProtoStatus(event.status),
-                        label: event.label,
-                        completed: event.completed,
-                        active: event.active,
-                        timestamp: event.timestamp || null,
-                        actor: event.actor || null,
-                        note: event.note || null
-                    })),
-                    upiTransactionId: response.upi_transaction_id || null,
-                    createdAt: response.created_at,
-                    updatedAt: response.updated_at
-                };
-
-                sendSuccess(res, order);
-            }
+            { metadata: createMetadata(correlationId) }
         );
+
+        // Map response to camelCase
+        const order = {
+            id: response.order_id,
+            farmerId: response.farmer_id,
+            listing: {
+                id: response.listing?.id || '',
+                cropType: response.listing?.crop_type || '',
+                cropEmoji: response.listing?.crop_emoji || '🌾',
+                quantityKg: response.listing?.quantity_kg || 0,
+                photoUrl: response.listing?.photo_url
+            },
+            buyer: {
+                businessType: response.buyer?.business_type || '',
+                city: response.buyer?.city || '',
+                area: response.buyer?.area
+            },
+            trackingStatus: mapProtoStatus(response.tracking_status),
+            currentStep: response.current_step || 1,
+            totalSteps: response.total_steps || 7,
+            totalAmount: response.total_amount || 0,
+            eta: response.eta || null,
+            delayMinutes: response.delay_minutes || null,
+            delayReason: response.delay_reason || null,
+            hauler: response.hauler ? {
+                id: response.hauler.id,
+                name: response.hauler.name,
+                phone: response.hauler.phone,
+                vehicleType: response.hauler.vehicle_type,
+                vehicleNumber: response.hauler.vehicle_number
+            } : null,
+            statusHistory: (response.status_history || []).map((event) => ({
+                step: event.step,
+                status: mapProtoStatus(event.status),
+                label: event.label,
+                completed: event.completed,
+                active: event.active,
+                timestamp: event.timestamp || null,
+                actor: event.actor || null,
+                note: event.note || null
+            })),
+            upiTransactionId: response.upi_transaction_id || null,
+            createdAt: response.created_at,
+            updatedAt: response.updated_at
+        };
+
+        sendSuccess(res, order);
     } catch (err) {
-        logger.error({ correlationId, error: err }, 'Unexpected error in GET /farmers/orders/:id');
+        logger.error({ correlationId, error: err }, 'GET /farmers/orders/:id failed');
+
+        // Map gRPC errors to HTTP status
+        const code = grpcStatusOf(err);
+        if (code === grpc.status.NOT_FOUND) {
+            return sendError(res, 404, 'ORDER_NOT_FOUND', 'Order not found');
+        }
+        if (code === grpc.status.PERMISSION_DENIED) {
+            return sendError(res, 403, 'UNAUTHORIZED', 'Not authorized to view this order');
+        }
         next(err);
     }
 });
@@ -220,58 +212,53 @@ router.get('/:id/receipt', async (req: Request, res: Response, next: NextFunctio
         }
 
         const { id: orderId } = paramsResult.data;
-        const farmerId = (req as AuthRequest).user.id;
+        const farmerId = (req as AuthRequest).user!.userId;
 
         logger.info({ correlationId, farmerId, orderId }, 'GET /farmers/orders/:id/receipt');
 
         // Get order details for receipt
-        orderClient.GetFarmerOrderDetails(
+        const response = await orderClient.GetFarmerOrderDetails(
             {
                 order_id: orderId,
                 farmer_id: farmerId
             },
-            createMetadata(correlationId),
-            (err: any, response: any) => {
-                if (err) {
-                    if (err.code === 5) {
-                        return sendError(res, 404, 'ORDER_NOT_FOUND', 'Order not found');
-                    }
-                    return next(err);
-                }
-
-                // Only completed (PAID) orders have receipts
-                if (response.tracking_status !== 7) { // PAID = 7
-                    return sendError(res, 400, 'ORDER_NOT_COMPLETED', 'Receipt only available for completed orders');
-                }
-
-                // Return receipt data for client-side PDF generation
-                const receiptData = {
-                    receiptNumber: `RCP-${orderId}`,
-                    orderId: response.order_id,
-                    date: response.updated_at || new Date().toISOString(),
-                    farmer: {
-                        id: response.farmer_id
-                        // Name, phone would come from auth context or separate call
-                    },
-                    listing: {
-                        cropType: response.listing?.crop_type,
-                        quantityKg: response.listing?.quantity_kg,
-                        pricePerKg: response.total_amount / (response.listing?.quantity_kg || 1)
-                    },
-                    buyer: {
-                        businessType: response.buyer?.business_type,
-                        city: response.buyer?.city
-                    },
-                    totalAmount: response.total_amount,
-                    upiTransactionId: response.upi_transaction_id,
-                    status: 'PAID'
-                };
-
-                sendSuccess(res, receiptData);
-            }
+            { metadata: createMetadata(correlationId) }
         );
+
+        // Only completed (PAID) orders have receipts
+        if (response.tracking_status !== 7) { // PAID = 7
+            return sendError(res, 400, 'ORDER_NOT_COMPLETED', 'Receipt only available for completed orders');
+        }
+
+        // Return receipt data for client-side PDF generation
+        const receiptData = {
+            receiptNumber: `RCP-${orderId}`,
+            orderId: response.order_id,
+            date: response.updated_at || new Date().toISOString(),
+            farmer: {
+                id: response.farmer_id
+                // Name, phone would come from auth context or separate call
+            },
+            listing: {
+                cropType: response.listing?.crop_type,
+                quantityKg: response.listing?.quantity_kg,
+                pricePerKg: response.total_amount / (response.listing?.quantity_kg || 1)
+            },
+            buyer: {
+                businessType: response.buyer?.business_type,
+                city: response.buyer?.city
+            },
+            totalAmount: response.total_amount,
+            upiTransactionId: response.upi_transaction_id,
+            status: 'PAID'
+        };
+
+        sendSuccess(res, receiptData);
     } catch (err) {
-        logger.error({ correlationId, error: err }, 'Unexpected error in GET /farmers/orders/:id/receipt');
+        if (grpcStatusOf(err) === grpc.status.NOT_FOUND) {
+            return sendError(res, 404, 'ORDER_NOT_FOUND', 'Order not found');
+        }
+        logger.error({ correlationId, error: err }, 'GET /farmers/orders/:id/receipt failed');
         next(err);
     }
 });
@@ -282,21 +269,16 @@ router.get('/:id/receipt', async (req: Request, res: Response, next: NextFunctio
 
 router.get('/count', async (req: Request, res: Response, next: NextFunction) => {
     const correlationId = (req.headers['x-correlation-id'] as string) || '';
-    const farmerId = (req as AuthRequest).user.id;
+    const farmerId = (req as AuthRequest).user!.userId;
 
     try {
         logger.info({ correlationId, farmerId }, 'GET /farmers/orders/count');
 
-        orderClient.GetActiveOrderCount(
+        const response = await orderClient.GetActiveOrderCount(
             { farmer_id: farmerId },
-            createMetadata(correlationId),
-            (err: any, response: any) => {
-                if (err) {
-                    return next(err);
-                }
-                sendSuccess(res, { count: response.count || 0 });
-            }
+            { metadata: createMetadata(correlationId) }
         );
+        sendSuccess(res, { count: response.count || 0 });
     } catch (err) {
         next(err);
     }
@@ -9,111 +9,24 @@
  * @module PhotoRoutes
  */
 
-import { Router, Request, Response } from 'express';
-import { z } from 'zod';
-import { catalogGrpcClient } from '../../../grpc/catalog-client';
+import { Router } from 'express';
+import { catalogClient } from '../../../grpc/clients';
 import {
     presignRequestSchema,
     confirmUploadSchema,
     listingIdParamSchema,
     photoIdParamSchema,
 } from '../../../schemas/photo';
-import { logger } from '../../../utils/logger';
+import { authMiddleware } from '../../../middleware/auth';
+import { requirePolicy } from '../../../middleware/policy';
+import { validated } from '../../../middleware/validate';
+import { sendGrpcError } from '../../../grpc/errors';
+import { sendError, sendSuccess } from '../../../utils/response-handler';
 
 const router = Router({ mergeParams: true });
 
-// ============================================================================
-// Type Definitions
-// ============================================================================
-
-interface AuthenticatedRequest extends Request {
-    user?: {
-        id: number;
-        role: string;
-    };
-}
-
-// ============================================================================
-// Validation Middleware
-// ============================================================================
-
-function validateBody<T extends z.ZodTypeAny>(schema: T) {
-    return (req: Request, res: Response, next: Function) => {
-        const result = schema.safeParse(req.body);
-        if (!result.success) {
-            return res.status(400).json({
-                data: null,
-                error: {
-                    code: 'VALIDATION_ERROR',
-                    message: 'Invalid request body',
-                    details: result.error.flatten(),
-                },
-            });
-        }
-        req.body = result.data;
-        next();
-    };
-}
-
-function validateParams<T extends z.ZodTypeAny>(schema: T) {
-    return (req: Request, res: Response, next: Function) => {
-        const result = schema.safeParse(req.params);
-        if (!result.success) {
-            return res.status(400).json({
-                data: null,
-                error: {
-                    code: 'VALIDATION_ERROR',
-                    message: 'Invalid path parameters',
-                    details: result.error.flatten(),
-                },
-            });
-        }
-        Object.assign(req.params, result.data);
-        next();
-    };
-}
-
-// ============================================================================
-// Response Helpers
-// ============================================================================
-
-function successResponse(res: Response, data: any, status = 200) {
-    return res.status(status).json({
-        data,
-        error: null,
-    });
-}
-
-function errorResponse(
-    res: Response,
-    code: string,
-    message: string,
-    status = 500,
-    details?: any
-) {
-    return res.status(status).json({
-        data: null,
-        error: { code, message, details },
-    });
-}
-
-function mapGrpcError(error: any, res: Response) {
-    const grpcCode = error.code;
-
-    switch (grpcCode) {
-        case 3: // INVALID_ARGUMENT
-            return errorResponse(res, 'INVALID_ARGUMENT', error.details, 400);
-        case 5: // NOT_FOUND
-            return errorResponse(res, 'NOT_FOUND', error.details, 404);
-        case 7: // PERMISSION_DENIED
-            return errorResponse(res, 'PERMISSION_DENIED', error.details, 403);
-        case 16: // UNAUTHENTICATED
-            return errorResponse(res, 'UNAUTHENTICATED', error.details, 401);
-        default:
-            logger.error({ error }, 'gRPC error');
-            return errorResponse(res, 'INTERNAL_ERROR', 'An error occurred', 500);
-    }
-}
+// All routes require a verified farmer token
+router.use(authMiddleware, requirePolicy({ userTypes: ['FARMER'] }));
 
 // ============================================================================
 // Routes
@@ -125,33 +38,31 @@ function mapGrpcError(error: any, res: Response) {
  */
 router.post(
     '/:listingId/photos/presign',
-    validateParams(listingIdParamSchema),
-    validateBody(presignRequestSchema),
-    async (req: AuthenticatedRequest, res: Response) => {
+    validated({ params: listingIdParamSchema, body: presignRequestSchema }, async (req, res) => {
         try {
-            const farmerId = req.user?.id;
+            const farmerId = req.user?.userId;
             if (!farmerId) {
-                return errorResponse(res, 'UNAUTHENTICATED', 'Not authenticated', 401);
+                return sendError(res, 401, 'UNAUTHENTICATED', 'Not authenticated');
             }
 
-            const listingId = Number(req.params.listingId);
+            const listingId = req.params.listingId;
 
-            const result = await catalogGrpcClient.getPresignedUrl({
+            const result = await catalogClient.GetPresignedUrl({
                 farmerId,
                 listingId,
                 fileName: req.body.fileName,
                 contentType: req.body.contentType,
             });
 
-            return successResponse(res, {
+            return sendSuccess(res, {
                 photoId: result.photoId,
                 presignedUrl: result.presignedUrl,
                 expiresIn: result.expiresIn,
             }, 201);
         } catch (error) {
-            return mapGrpcError(error, res);
+            return sendGrpcError(res, error);
         }
-    }
+    })
 );
 
 /**
@@ -160,30 +71,28 @@ router.post(
  */
 router.post(
     '/:listingId/photos/:photoId/confirm',
-    validateParams(photoIdParamSchema),
-    validateBody(confirmUploadSchema),
-    async (req: AuthenticatedRequest, res: Response) => {
+    validated({ params: photoIdParamSchema, body: confirmUploadSchema }, async (req, res) => {
         try {
-            const farmerId = req.user?.id;
+            const farmerId = req.user?.userId;
             if (!farmerId) {
-                return errorResponse(res, 'UNAUTHENTICATED', 'Not authenticated', 401);
+                return sendError(res, 401, 'UNAUTHENTICATED', 'Not authenticated');
             }
 
-            const listingId = Number(req.params.listingId);
-            const photoId = Number(req.params.photoId);
+            const listingId = req.params.listingId;
+            const photoId = req.params.photoId;
 
-            const photo = await catalogGrpcClient.confirmPhotoUpload({
+            const photo = await catalogClient.ConfirmPhotoUpload({
                 farmerId,
                 listingId,
                 photoId,
                 ...req.body,
             });
 
-            return successResponse(res, photo);
+            return sendSuccess(res, photo);
         } catch (error) {
-            return mapGrpcError(error, res);
+            return sendGrpcError(res, error);
         }
-    }
+    })
 );
 
 /**
@@ -192,26 +101,25 @@ router.post(
  */
 router.get(
     '/:listingId/photos',
-    validateParams(listingIdParamSchema),
-    async (req: AuthenticatedRequest, res: Response) => {
+    validated({ params: listingIdParamSchema }, async (req, res) => {
         try {
-            const farmerId = req.user?.id;
+            const farmerId = req.user?.userId;
             if (!farmerId) {
-                return errorResponse(res, 'UNAUTHENTICATED', 'Not authenticated', 401);
+                return sendError(res, 401, 'UNAUTHENTICATED', 'Not authenticated');
             }
 
-            const listingId = Number(req.params.listingId);
+            const listingId = req.params.listingId;
 
-            const result = await catalogGrpcClient.getListingPhotos({
+            const result = await catalogClient.GetListingPhotos({
                 farmerId,
                 listingId,
             });
 
-            return successResponse(res, result.photos);
+            return sendSuccess(res, result.photos);
         } catch (error) {
-            return mapGrpcError(error, res);
+            return sendGrpcError(res, error);
         }
-    }
+    })
 );
 
 /**
@@ -220,28 +128,27 @@ router.get(
  */
 router.delete(
     '/:listingId/photos/:photoId',
-    validateParams(photoIdParamSchema),
-    async (req: AuthenticatedRequest, res: Response) => {
+    validated({ params: photoIdParamSchema }, async (req, res) => {
         try {
-            const farmerId = req.user?.id;
+            const farmerId = req.user?.userId;
             if (!farmerId) {
-                return errorResponse(res, 'UNAUTHENTICATED', 'Not authenticated', 401);
+                return sendError(res, 401, 'UNAUTHENTICATED', 'Not authenticated');
             }
 
-            const listingId = Number(req.params.listingId);
-            const photoId = Number(req.params.photoId);
+            const listingId = req.params.listingId;
+            const photoId = req.params.photoId;
 
-            await catalogGrpcClient.deletePhoto({
+            await catalogClient.DeletePhoto({
                 farmerId,
                 listingId,
                 photoId,
             });
 
-            return successResponse(res, { success: true, message: 'Photo deleted' });
+            return sendSuccess(res, { success: true, message: 'Photo deleted' });
         } catch (error) {
-            return mapGrpcError(error, res);
+            return sendGrpcError(res, error);
         }
-    }
+    })
 );
 
 export default router;
@@ -10,58 +10,45 @@
  * AC8: PATCH /v1/farmers/ratings/:id/seen - Mark rating as viewed
  */
 
-import { Router, Request, Response, NextFunction } from 'express';
-import { z } from 'zod';
+import { Router } from 'express';
 import {
     getRatingsQuerySchema,
     getRatingSummaryQuerySchema,
     getRatingDetailsParamsSchema,
     markRatingSeenParamsSchema
 } from '../../../schemas/rating.schema';
+import { authMiddleware, AuthRequest } from '../../../middleware/auth';
+import { requirePolicy } from '../../../middleware/policy';
+import { validated } from '../../../middleware/validate';
+import { legacyResponses, sendError, sendSuccess } from '../../../utils/response-handler';
 
 const router = Router();
 
-// Middleware to extract farmer ID from auth token (placeholder)
-const extractFarmerId = (req: Request): number => {
-    // In production, extract from JWT token
-    const farmerId = req.headers['x-farmer-id'] || req.query.farmerId;
-    return Number(farmerId) || 0;
-};
+// Older apps still expect bare response bodies from these routes
+router.use(legacyResponses('bare'));
 
-// Zod validation middleware
-const validate = <T extends z.ZodSchema>(schema: T, source: 'query' | 'params' = 'query') => {
-    return (req: Request, res: Response, next: NextFunction) => {
-        try {
-            const target = source === 'params' ? req.params : req.query;
-            schema.parse(target);
-            next();
-        } catch (error) {
-            if (error instanceof z.ZodError) {
-                res.status(400).json({
-                    error: 'Validation error',
-                    details: error.issues
-                });
-                return;
-            }
-            next(error);
-        }
-    };
+// All routes require a verified farmer token
+router.use(authMiddleware, requirePolicy({ userTypes: ['FARMER'] }));
+
+// Farmer ID comes from the verified token only
+const extractFarmerId = (req: Pick<AuthRequest, 'user'>): number => {
+    return req.user?.userId ?? 0;
 };
 
 /**
  * GET /v1/farmers/ratings - AC1, AC2, AC3
  * Returns paginated rating list with summary stats.
  */
-router.get('/', validate(getRatingsQuerySchema, 'query'), async (req: Request, res: Response) => {
+router.get('/', validated({ query: getRatingsQuerySchema }, async (req, res) => {
     try {
         const farmerId = extractFarmerId(req);
 
         if (!farmerId) {
-            res.status(401).json({ error: 'Farmer ID required' });
+            sendError(res, 401, 'UNAUTHORIZED', 'Farmer ID required');
             return;
         }
 
-        const query = getRatingsQuerySchema.parse(req.query);
+        const query = req.query;
 
         // TODO: Call Order Service gRPC GetFarmerRatings
         // For now, return mock data following API design from story
@@ -123,23 +110,23 @@ router.get('/', validate(getRatingsQuerySchema, 'query'), async (req: Request, r
             }
         };
 
-        res.json(mockRatings);
+        sendSuccess(res, mockRatings);
     } catch (error) {
         console.error('Error fetching ratings:', error);
-        res.status(500).json({ error: 'Failed to fetch ratings' });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch ratings');
     }
-});
+}));
 
 /**
  * GET /v1/farmers/ratings/summary - AC2
  * Returns aggregate rating stats without list.
  */
-router.get('/summary', validate(getRatingSummaryQuerySchema, 'query'), async (req: Request, res: Response) => {
+router.get('/summary', validated({ query: getRatingSummaryQuerySchema }, async (req, res) => {
     try {
         const farmerId = extractFarmerId(req);
 
         if (!farmerId) {
-            res.status(401).json({ error: 'Farmer ID required' });
+            sendError(res, 401, 'UNAUTHORIZED', 'Farmer ID required');
             return;
         }
 
@@ -156,24 +143,24 @@ router.get('/summary', validate(getRatingSummaryQuerySchema, 'query'), async (re
             unseenCount: 2
         };
 
-        res.json(mockSummary);
+        sendSuccess(res, mockSummary);
     } catch (error) {
         console.error('Error fetching rating summary:', error);
-        res.status(500).json({ error: 'Failed to fetch rating summary' });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch rating summary');
     }
-});
+}));
 
 /**
  * GET /v1/farmers/ratings/:id - AC4, AC5
  * Returns full rating details with recommendations.
  */
-router.get('/:id', validate(getRatingDetailsParamsSchema, 'params'), async (req: Request, res: Response) => {
+router.get('/:id', validated({ params: getRatingDetailsParamsSchema }, async (req, res) => {
     try {
         const farmerId = extractFarmerId(req);
         const { id } = req.params;
 
         if (!farmerId) {
-            res.status(401).json({ error: 'Farmer ID required' });
+            sendError(res, 401, 'UNAUTHORIZED', 'Farmer ID required');
             return;
         }
 
@@ -201,33 +188,33 @@ router.get('/:id', validate(getRatingDetailsParamsSchema, 'params'), async (req:
             buyerPhotoUrl: null
         };
 
-        res.json(mockDetails);
+        sendSuccess(res, mockDetails);
     } catch (error) {
         console.error('Error fetching rating details:', error);
-        res.status(500).json({ error: 'Failed to fetch rating details' });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch rating details');
     }
-});
+}));
 
 /**
  * PATCH /v1/farmers/ratings/:id/seen - AC8
  * Marks rating as seen by farmer.
  */
-router.patch('/:id/seen', validate(markRatingSeenParamsSchema, 'params'), async (req: Request, res: Response) => {
+router.patch('/:id/seen', validated({ params: markRatingSeenParamsSchema }, async (req, res) => {
     try {
         const farmerId = extractFarmerId(req);
         const { id } = req.params;
 
         if (!farmerId) {
-            res.status(401).json({ error: 'Farmer ID required' });
+            sendError(res, 401, 'UNAUTHORIZED', 'Farmer ID required');
             return;
         }
 
         // TODO: Call Order Service gRPC MarkRatingSeen
-        res.json({ success: true });
+        sendSuccess(res, { success: true });
     } catch (error) {
         console.error('Error marking rating as seen:', error);
-        res.status(500).json({ error: 'Failed to mark rating as seen' });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Failed to mark rating as seen');
     }
-});
+}));
 
 export default router;
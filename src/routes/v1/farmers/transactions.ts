@@ -10,55 +10,40 @@
  * AC5: GET /v1/farmers/transactions/:id/receipt - Download PDF receipt
  */
 
-import { Router, Request, Response, NextFunction } from 'express';
-import { z } from 'zod';
+import { Router } from 'express';
 import {
     getEarningsQuerySchema,
     getTransactionsQuerySchema,
     getTransactionDetailsParamsSchema,
     getReceiptParamsSchema
 } from '../../../schemas/transaction.schema';
+import { authMiddleware, AuthRequest } from '../../../middleware/auth';
+import { requirePolicy } from '../../../middleware/policy';
+import { validated } from '../../../middleware/validate';
+import { legacyResponses, sendError, sendSuccess } from '../../../utils/response-handler';
 
 const router = Router();
 
-// Middleware to extract farmer ID from auth token (placeholder)
-const extractFarmerId = (req: Request): number => {
-    // In production, extract from JWT token
-    // For now, use query param or header
-    const farmerId = req.headers['x-farmer-id'] || req.query.farmerId;
-    return Number(farmerId) || 0;
-};
+// Older apps still expect bare response bodies from these routes. The router
+// is mounted on /farmers itself, where router.use() would reach every other
+// /farmers router too, so each route opts in
+const bareResponses = legacyResponses('bare');
 
-// Zod validation middleware
-const validate = <T extends z.ZodSchema>(schema: T) => {
-    return (req: Request, res: Response, next: NextFunction) => {
-        try {
-            const target = Object.keys(req.params).length > 0 ? req.params : req.query;
-            schema.parse(target);
-            next();
-        } catch (error) {
-            if (error instanceof z.ZodError) {
-                res.status(400).json({
-                    error: 'Validation error',
-                    details: error.issues
-                });
-                return;
-            }
-            next(error);
-        }
-    };
+// Farmer ID comes from the verified token only
+const extractFarmerId = (req: Pick<AuthRequest, 'user'>): number => {
+    return req.user?.userId ?? 0;
 };
 
 /**
  * GET /v1/farmers/earnings - AC1
  * Returns farmer earnings summary (total, monthly, pending).
  */
-router.get('/earnings', validate(getEarningsQuerySchema), async (req: Request, res: Response) => {
+router.get('/earnings', bareResponses, authMiddleware, requirePolicy({ userTypes: ['FARMER'] }), validated({ query: getEarningsQuerySchema }, async (req, res) => {
     try {
         const farmerId = extractFarmerId(req);
 
         if (!farmerId) {
-            res.status(401).json({ error: 'Farmer ID required' });
+            sendError(res, 401, 'UNAUTHORIZED', 'Farmer ID required');
             return;
         }
 
@@ -75,28 +60,28 @@ router.get('/earnings', validate(getEarningsQuerySchema), async (req: Request, r
             currency: 'INR'
         };
 
-        res.json(mockEarnings);
+        sendSuccess(res, mockEarnings);
     } catch (error) {
         console.error('Error fetching earnings:', error);
-        res.status(500).json({ error: 'Failed to fetch earnings' });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch earnings');
     }
-});
+}));
 
 /**
  * GET /v1/farmers/transactions - AC2, AC3
  * Returns paginated transaction list with optional filters.
  */
-router.get('/transactions', validate(getTransactionsQuerySchema), async (req: Request, res: Response) => {
+router.get('/transactions', bareResponses, authMiddleware, requirePolicy({ userTypes: ['FARMER'] }), validated({ query: getTransactionsQuerySchema }, async (req, res) => {
     try {
         const farmerId = extractFarmerId(req);
 
         if (!farmerId) {
-            res.status(401).json({ error: 'Farmer ID required' });
+            sendError(res, 401, 'UNAUTHORIZED', 'Farmer ID required');
             return;
         }
 
         // Parse query params
-        const query = getTransactionsQuerySchema.parse(req.query);
+        const query = req.query;
 
         // TODO: Call Order Service gRPC GetFarmerTransactions
         // For now, return mock data
@@ -129,24 +114,24 @@ router.get('/transactions', validate(getTransactionsQuerySchema), async (req: Re
             }
         };
 
-        res.json(mockTransactions);
+        sendSuccess(res, mockTransactions);
     } catch (error) {
         console.error('Error fetching transactions:', error);
-        res.status(500).json({ error: 'Failed to fetch transactions' });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch transactions');
     }
-});
+}));
 
 /**
  * GET /v1/farmers/transactions/:id - AC4
  * Returns full transaction details with timeline and payment breakdown.
  */
-router.get('/transactions/:id', validate(getTransactionDetailsParamsSchema), async (req: Request, res: Response) => {
+router.get('/transactions/:id', bareResponses, authMiddleware, requirePolicy({ userTypes: ['FARMER'] }), validated({ params: getTransactionDetailsParamsSchema }, async (req, res) => {
     try {
         const farmerId = extractFarmerId(req);
         const { id } = req.params;
 
         if (!farmerId) {
-            res.status(401).json({ error: 'Farmer ID required' });
+            sendError(res, 401, 'UNAUTHORIZED', 'Farmer ID required');
             return;
         }
 
@@ -193,24 +178,24 @@ router.get('/transactions/:id', validate(getTransactionDetailsParamsSchema), asy
             canDownloadReceipt: true
         };
 
-        res.json(mockDetails);
+        sendSuccess(res, mockDetails);
     } catch (error) {
         console.error('Error fetching transaction details:', error);
-        res.status(500).json({ error: 'Failed to fetch transaction details' });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch transaction details');
     }
-});
+}));
 
 /**
  * GET /v1/farmers/transactions/:id/receipt - AC5
  * Returns PDF receipt for download.
  */
-router.get('/transactions/:id/receipt', validate(getReceiptParamsSchema), async (req: Request, res: Response) => {
+router.get('/transactions/:id/receipt', bareResponses, authMiddleware, requirePolicy({ userTypes: ['FARMER'] }), validated({ params: getReceiptParamsSchema }, async (req, res) => {
     try {
         const farmerId = extractFarmerId(req);
         const { id } = req.params;
 
         if (!farmerId) {
-            res.status(401).json({ error: 'Farmer ID required' });
+            sendError(res, 401, 'UNAUTHORIZED', 'Farmer ID required');
             return;
         }
 
@@ -218,15 +203,14 @@ router.get('/transactions/:id/receipt', validate(getReceiptParamsSchema), async
         // TODO: Call ReceiptService to generate/retrieve PDF
 
         // For now, return a placeholder response
-        res.status(501).json({
-            message: 'Receipt generation not yet implemented',
+        sendError(res, 501, 'NOT_IMPLEMENTED', 'Receipt generation not yet implemented', {
             transactionId: id,
-            note: 'Task 4 - ReceiptService will implement PDF generation'
+            note: 'Task 4 - ReceiptService will implement PDF generation',
         });
     } catch (error) {
         console.error('Error fetching receipt:', error);
-        res.status(500).json({ error: 'Failed to fetch receipt' });
+        sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch receipt');
     }
-});
+}));
 
 export default router;
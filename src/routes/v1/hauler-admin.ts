@@ -11,50 +11,52 @@
  * @created 2025-12-12
  */
 
-import express, { Router, Request, Response } from 'express';
+import express, { Router } from 'express';
+import { z } from 'zod';
 import { authClient } from '../../grpc/clients';
+import { authMiddleware, AuthRequest } from '../../middleware/auth';
+import { requirePolicy, ADMIN_POLICY } from '../../middleware/policy';
+import { rateLimit, RATE_LIMIT_POLICIES } from '../../middleware/rate-limit';
+import { validated } from '../../middleware/validate';
+import { sendGrpcError } from '../../grpc/errors';
+import { legacyResponses, sendError, sendSuccess } from '../../utils/response-handler';
 
 const router: Router = express.Router();
 
+// Older apps still expect { success, data } bodies from these routes
+router.use(legacyResponses('status-flag'));
+
+// All admin routes require a district manager or platform admin
+router.use(authMiddleware, requirePolicy(ADMIN_POLICY), rateLimit(RATE_LIMIT_POLICIES.ADMIN));
+
 // ============ Helper Functions ============
 
 /**
- * Extract admin user context from request headers (or JWT in production)
- * In production, validate DISTRICT_MANAGER role from JWT
+ * Extract admin user context from the verified token
  */
-function getAdminFromRequest(req: Request): { userId: number } | null {
-    const userId = req.headers['x-user-id'] as string;
-    // In production, also check x-user-role === 'DISTRICT_MANAGER' or 'ADMIN'
-    if (!userId) return null;
-    return { userId: parseInt(userId, 10) };
+function getAdminFromRequest(req: Pick<AuthRequest, 'user'>): { userId: number } | null {
+    const user = req.user;
+    if (!user) return null;
+    return { userId: user.userId };
 }
 
-/**
- * Parse gRPC error into HTTP response
- */
-function parseGrpcError(error: any): { status: number; body: Record<string, any> } {
-    const grpcCode = error.code;
-    let httpStatus = 500;
-
-    switch (grpcCode) {
-        case 3: httpStatus = 400; break; // INVALID_ARGUMENT
-        case 5: httpStatus = 404; break; // NOT_FOUND
-        case 6: httpStatus = 409; break; // ALREADY_EXISTS
-        case 7: httpStatus = 403; break; // PERMISSION_DENIED
-        case 9: httpStatus = 400; break; // FAILED_PRECONDITION
-        case 16: httpStatus = 401; break; // UNAUTHENTICATED
-        default: httpStatus = 500;
-    }
+// ============ Request Schemas ============
 
-    let body: Record<string, any>;
-    try {
-        body = JSON.parse(error.details);
-    } catch {
-        body = { error: 'ERROR', message: error.details || 'Unknown error' };
-    }
+const haulerParamsSchema = z.object({ haulerId: z.string().min(1) });
 
-    return { status: httpStatus, body };
-}
+const pendingQuerySchema = z.object({
+    page: z.coerce.number().int().positive().default(1),
+    limit: z.coerce.number().int().min(1).max(50).default(10),
+    district: z.string().optional(),
+});
+
+const verifyHaulerSchema = z.discriminatedUnion('action', [
+    z.object({ action: z.literal('APPROVE'), rejection_reason: z.string().optional() }),
+    z.object({
+        action: z.literal('REJECT'),
+        rejection_reason: z.string().trim().min(1, 'rejection_reason is required when rejecting'),
+    }),
+]);
 
 // ============ Verification Queue ============
 
@@ -67,39 +69,28 @@ function parseGrpcError(error: any): { status: number; body: Record<string, any>
  * - limit: Items per page (default 10, max 50)
  * - district: Optional district filter
  */
-router.get('/pending', async (req: Request, res: Response) => {
+router.get('/pending', validated({ query: pendingQuerySchema }, async (req, res) => {
     try {
         const admin = getAdminFromRequest(req);
         if (!admin) {
-            return res.status(401).json({
-                error: 'UNAUTHORIZED',
-                message: 'Admin authentication required'
-            });
+            return sendError(res, 401, 'UNAUTHORIZED', 'Admin authentication required');
         }
 
-        const { page = '1', limit = '10', district } = req.query;
-
-        authClient.GetPendingHaulerVerifications({
-            page: parseInt(page as string, 10),
-            limit: parseInt(limit as string, 10),
-            district_filter: district as string || '',
-        }, (error: any, response: any) => {
-            if (error) {
-                const errorDetails = parseGrpcError(error);
-                return res.status(errorDetails.status).json(errorDetails.body);
-            }
-            res.status(200).json({
-                success: true,
-                data: {
-                    haulers: response.haulers || [],
-                    pagination: response.pagination,
-                }
-            });
+        const { page, limit, district } = req.query;
+
+        const response = await authClient.GetPendingHaulerVerifications({
+            page,
+            limit,
+            district_filter: district || '',
+        });
+        sendSuccess(res, {
+            haulers: response.haulers,
+            pagination: response.pagination,
         });
-    } catch (error: any) {
-        res.status(500).json({ error: 'INTERNAL_ERROR', message: error.message });
+    } catch (error) {
+        sendGrpcError(res, error);
     }
-});
+}));
 
 // ============ Verification Actions ============
 
@@ -111,55 +102,27 @@ router.get('/pending', async (req: Request, res: Response) => {
  * - action: 'APPROVE' or 'REJECT'
  * - rejection_reason: Required if action is REJECT
  */
-router.post('/:haulerId/verify', async (req: Request, res: Response) => {
+router.post('/:haulerId/verify', validated({ params: haulerParamsSchema, body: verifyHaulerSchema }, async (req, res) => {
     try {
         const admin = getAdminFromRequest(req);
         if (!admin) {
-            return res.status(401).json({
-                error: 'UNAUTHORIZED',
-                message: 'Admin authentication required'
-            });
+            return sendError(res, 401, 'UNAUTHORIZED', 'Admin authentication required');
         }
 
         const { haulerId } = req.params;
         const { action, rejection_reason } = req.body;
 
-        // Validate action
-        if (!action || !['APPROVE', 'REJECT'].includes(action)) {
-            return res.status(400).json({
-                error: 'VALIDATION_ERROR',
-                message: 'action must be APPROVE or REJECT',
-            });
-        }
-
-        // Validate rejection reason if rejecting
-        if (action === 'REJECT' && (!rejection_reason || rejection_reason.trim() === '')) {
-            return res.status(400).json({
-                error: 'VALIDATION_ERROR',
-                message: 'rejection_reason is required when rejecting',
-            });
-        }
-
-        authClient.VerifyHaulerAccount({
+        const response = await authClient.VerifyHaulerAccount({
             hauler_id: haulerId,
             action,
             rejection_reason: rejection_reason || '',
             verified_by_user_id: admin.userId,
-        }, (error: any, response: any) => {
-            if (error) {
-                const errorDetails = parseGrpcError(error);
-                return res.status(errorDetails.status).json(errorDetails.body);
-            }
-            res.status(200).json({
-                success: true,
-                message: action === 'APPROVE' ? 'Hauler approved' : 'Hauler rejected',
-                data: response
-            });
         });
-    } catch (error: any) {
-        res.status(500).json({ error: 'INTERNAL_ERROR', message: error.message });
+        sendSuccess(res, response, 200, { message: action === 'APPROVE' ? 'Hauler approved' : 'Hauler rejected' });
+    } catch (error) {
+        sendGrpcError(res, error);
     }
-});
+}));
 
 // ============ Hauler Details ============
 
@@ -167,32 +130,24 @@ router.post('/:haulerId/verify', async (req: Request, res: Response) => {
  * GET /v1/admin/haulers/:haulerId
  * Get detailed hauler profile for admin review
  */
-router.get('/:haulerId', async (req: Request, res: Response) => {
+router.get('/:haulerId', validated({ params: haulerParamsSchema }, async (req, res) => {
     try {
         const admin = getAdminFromRequest(req);
         if (!admin) {
-            return res.status(401).json({
-                error: 'UNAUTHORIZED',
-                message: 'Admin authentication required'
-            });
+            return sendError(res, 401, 'UNAUTHORIZED', 'Admin authentication required');
         }
 
         const { haulerId } = req.params;
 
         // Use GetHaulerProfile with the hauler's user ID
         // In a real scenario, we'd need a separate admin endpoint or lookup
-        authClient.GetHaulerProfile({
+        const response = await authClient.GetHaulerProfile({
             user_id: haulerId, // Note: This assumes haulerId maps to userId
-        }, (error: any, response: any) => {
-            if (error) {
-                const errorDetails = parseGrpcError(error);
-                return res.status(errorDetails.status).json(errorDetails.body);
-            }
-            res.status(200).json({ success: true, data: response });
         });
-    } catch (error: any) {
-        res.status(500).json({ error: 'INTERNAL_ERROR', message: error.message });
+        sendSuccess(res, response);
+    } catch (error) {
+        sendGrpcError(res, error);
     }
-});
+}));
 
 export default router;
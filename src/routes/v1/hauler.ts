@@ -12,48 +12,74 @@
  * @created 2025-12-12
  */
 
-import express, { Router, Request, Response } from 'express';
+import express, { Router } from 'express';
+import { z } from 'zod';
 import { authClient } from '../../grpc/clients';
+import { authMiddleware, AuthRequest } from '../../middleware/auth';
+import { requirePolicy, allowPublic } from '../../middleware/policy';
+import { bruteForceGuard, getAttemptTracker } from '../../middleware/brute-force';
+import { rateLimit, RATE_LIMIT_POLICIES } from '../../middleware/rate-limit';
+import { validated } from '../../middleware/validate';
+import { sendGrpcError, toGatewayError } from '../../grpc/errors';
+import { legacyResponses, sendError, sendSuccess } from '../../utils/response-handler';
 
 const router: Router = express.Router();
 
+// Older apps still expect { success, data } bodies from these routes
+router.use(legacyResponses('status-flag'));
+
 // ============ Helper Functions ============
 
 /**
- * Extract user context from request headers (or JWT in production)
+ * Extract user context from the verified token
  */
-function getUserFromRequest(req: Request): { userId: number } | null {
-    const userId = req.headers['x-user-id'] as string;
-    if (!userId) return null;
-    return { userId: parseInt(userId, 10) };
+function getUserFromRequest(req: Pick<AuthRequest, 'user'>): { userId: number } | null {
+    const user = req.user;
+    if (!user) return null;
+    return { userId: user.userId };
 }
 
-/**
- * Parse gRPC error into HTTP response
- */
-function parseGrpcError(error: any): { status: number; body: Record<string, any> } {
-    const grpcCode = error.code;
-    let httpStatus = 500;
-
-    switch (grpcCode) {
-        case 3: httpStatus = 400; break; // INVALID_ARGUMENT
-        case 5: httpStatus = 404; break; // NOT_FOUND
-        case 6: httpStatus = 409; break; // ALREADY_EXISTS
-        case 7: httpStatus = 403; break; // PERMISSION_DENIED
-        case 9: httpStatus = 400; break; // FAILED_PRECONDITION
-        case 16: httpStatus = 401; break; // UNAUTHENTICATED
-        default: httpStatus = 500;
-    }
+// ============ Request Schemas ============
 
-    let body: Record<string, any>;
-    try {
-        body = JSON.parse(error.details);
-    } catch {
-        body = { error: 'ERROR', message: error.details || 'Unknown error' };
-    }
+// Issued by step 1 and presented by every later step
+const registrationToken = z.string().min(1, 'Registration token is required');
 
-    return { status: httpStatus, body };
-}
+const personalInfoSchema = z.object({
+    full_name: z.string().min(1, 'Full name is required'),
+    mobile_number: z.string().min(1, 'Mobile number is required'),
+    alternate_phone: z.string().optional(),
+});
+
+const verifyOtpSchema = z.object({
+    registration_token: registrationToken,
+    mobile_number: z.string().min(1, 'Mobile number is required'),
+    otp: z.string().min(1, 'OTP is required'),
+});
+
+const vehicleInfoSchema = z.object({
+    registration_token: registrationToken,
+    vehicle_type: z.string().min(1, 'Vehicle type is required'),
+    vehicle_number: z.string().min(1, 'Vehicle number is required'),
+    payload_capacity_kg: z.number().nonnegative().optional(),
+    photo_front_url: z.string().optional(),
+    photo_side_url: z.string().optional(),
+    photo_other_urls: z.array(z.string()).optional(),
+});
+
+const licenseInfoSchema = z.object({
+    registration_token: registrationToken,
+    dl_number: z.string().min(1, 'Driving license number is required'),
+    dl_expiry: z.string().min(1, 'Driving license expiry is required'),
+    dl_front_url: z.string().optional(),
+    dl_back_url: z.string().optional(),
+});
+
+const paymentInfoSchema = z.object({
+    registration_token: registrationToken,
+    upi_id: z.string().min(1, 'UPI ID is required'),
+    bank_account: z.string().optional(),
+    ifsc_code: z.string().optional(),
+});
 
 // ============ Step 1: Personal Information ============
 
@@ -61,63 +87,47 @@ function parseGrpcError(error: any): { status: number; body: Record<string, any>
  * POST /v1/hauler/register/step1
  * Initiate registration with personal info, sends OTP (AC2)
  */
-router.post('/step1', async (req: Request, res: Response) => {
+router.post('/step1', allowPublic(), rateLimit(RATE_LIMIT_POLICIES.OTP_IP), rateLimit(RATE_LIMIT_POLICIES.OTP_PHONE), validated({ body: personalInfoSchema }, async (req, res) => {
     try {
         const { full_name, mobile_number, alternate_phone } = req.body;
 
-        if (!full_name || !mobile_number) {
-            return res.status(400).json({
-                error: 'VALIDATION_ERROR',
-                message: 'full_name and mobile_number are required',
-            });
-        }
-
-        authClient.HaulerRegisterStep1({
+        const response = await authClient.HaulerRegisterStep1({
             full_name,
             mobile_number,
             alternate_phone: alternate_phone || '',
-        }, (error: any, response: any) => {
-            if (error) {
-                const errorDetails = parseGrpcError(error);
-                return res.status(errorDetails.status).json(errorDetails.body);
-            }
-            res.status(200).json({ success: true, data: response });
         });
-    } catch (error: any) {
-        res.status(500).json({ error: 'INTERNAL_ERROR', message: error.message });
+        sendSuccess(res, response);
+    } catch (error) {
+        sendGrpcError(res, error);
     }
-});
+}));
 
 /**
  * POST /v1/hauler/register/step1/verify-otp
  * Verify OTP and create user account
  */
-router.post('/step1/verify-otp', async (req: Request, res: Response) => {
+router.post('/step1/verify-otp', allowPublic(), bruteForceGuard('otp', (req) => ({
+    phone: req.body?.mobile_number,
+})), validated({ body: verifyOtpSchema }, async (req, res) => {
+    const attempts = getAttemptTracker(res);
     try {
         const { registration_token, mobile_number, otp } = req.body;
 
-        if (!registration_token || !mobile_number || !otp) {
-            return res.status(400).json({
-                error: 'VALIDATION_ERROR',
-                message: 'registration_token, mobile_number, and otp are required',
-            });
-        }
-
-        authClient.HaulerVerifyOtp({
+        const response = await authClient.HaulerVerifyOtp({
             registration_token,
             mobile_number,
             otp,
-        }, (error: any, response: any) => {
-            if (error) {
-                const errorDetails = parseGrpcError(error);
-                return res.status(errorDetails.status).json(errorDetails.body);
-            }
-            res.status(200).json({ success: true, data: response });
         });
-    } catch (error: any) {
-        res.status(500).json({ error: 'INTERNAL_ERROR', message: error.message });
+        await attempts.succeed();
+        sendSuccess(res, response);
+    } catch (error) {
+        const { code, message } = toGatewayError(error);
+        if (code === 'INVALID_OTP') {
+            return attempts.reject(code, message);
+        }
+        sendGrpcError(res, error);
     }
-});
+}));
 
 // ============ Step 2: Vehicle Information ============
 
@@ -126,7 +136,7 @@ router.post('/step1/verify-otp', async (req: Request, res: Response) => {
  * Add vehicle information and photos (AC3)
  * Note: For multipart/form-data with file uploads, add multer middleware
  */
-router.post('/step2', async (req: Request, res: Response) => {
+router.post('/step2', allowPublic(), validated({ body: vehicleInfoSchema }, async (req, res) => {
     try {
         const {
             registration_token,
@@ -138,14 +148,7 @@ router.post('/step2', async (req: Request, res: Response) => {
             photo_other_urls,
         } = req.body;
 
-        if (!registration_token || !vehicle_type || !vehicle_number) {
-            return res.status(400).json({
-                error: 'VALIDATION_ERROR',
-                message: 'registration_token, vehicle_type, and vehicle_number are required',
-            });
-        }
-
-        authClient.HaulerAddVehicleInfo({
+        const response = await authClient.HaulerAddVehicleInfo({
             registration_token,
             vehicle_type,
             vehicle_number,
@@ -153,17 +156,12 @@ router.post('/step2', async (req: Request, res: Response) => {
             photo_front_url: photo_front_url || '',
             photo_side_url: photo_side_url || '',
             photo_other_urls: photo_other_urls || [],
-        }, (error: any, response: any) => {
-            if (error) {
-                const errorDetails = parseGrpcError(error);
-                return res.status(errorDetails.status).json(errorDetails.body);
-            }
-            res.status(200).json({ success: true, data: response });
         });
-    } catch (error: any) {
-        res.status(500).json({ error: 'INTERNAL_ERROR', message: error.message });
+        sendSuccess(res, response);
+    } catch (error) {
+        sendGrpcError(res, error);
     }
-});
+}));
 
 // ============ Step 3: License Information ============
 
@@ -171,7 +169,7 @@ router.post('/step2', async (req: Request, res: Response) => {
  * POST /v1/hauler/register/step3
  * Add driving license information and photos (AC4)
  */
-router.post('/step3', async (req: Request, res: Response) => {
+router.post('/step3', allowPublic(), validated({ body: licenseInfoSchema }, async (req, res) => {
     try {
         const {
             registration_token,
@@ -181,30 +179,18 @@ router.post('/step3', async (req: Request, res: Response) => {
             dl_back_url,
         } = req.body;
 
-        if (!registration_token || !dl_number || !dl_expiry) {
-            return res.status(400).json({
-                error: 'VALIDATION_ERROR',
-                message: 'registration_token, dl_number, and dl_expiry are required',
-            });
-        }
-
-        authClient.HaulerAddLicenseInfo({
+        const response = await authClient.HaulerAddLicenseInfo({
             registration_token,
             dl_number,
             dl_expiry,
             dl_front_url: dl_front_url || '',
             dl_back_url: dl_back_url || '',
-        }, (error: any, response: any) => {
-            if (error) {
-                const errorDetails = parseGrpcError(error);
-                return res.status(errorDetails.status).json(errorDetails.body);
-            }
-            res.status(200).json({ success: true, data: response });
         });
-    } catch (error: any) {
-        res.status(500).json({ error: 'INTERNAL_ERROR', message: error.message });
+        sendSuccess(res, response);
+    } catch (error) {
+        sendGrpcError(res, error);
     }
-});
+}));
 
 // ============ Step 4: Payment Information ============
 
@@ -212,7 +198,7 @@ router.post('/step3', async (req: Request, res: Response) => {
  * POST /v1/hauler/register/step4
  * Add payment details with UPI verification (AC5)
  */
-router.post('/step4', async (req: Request, res: Response) => {
+router.post('/step4', allowPublic(), validated({ body: paymentInfoSchema }, async (req, res) => {
     try {
         const {
             registration_token,
@@ -221,29 +207,17 @@ router.post('/step4', async (req: Request, res: Response) => {
             ifsc_code,
         } = req.body;
 
-        if (!registration_token || !upi_id) {
-            return res.status(400).json({
-                error: 'VALIDATION_ERROR',
-                message: 'registration_token and upi_id are required',
-            });
-        }
-
-        authClient.HaulerAddPaymentInfo({
+        const response = await authClient.HaulerAddPaymentInfo({
             registration_token,
             upi_id,
             bank_account: bank_account || '',
             ifsc_code: ifsc_code || '',
-        }, (error: any, response: any) => {
-            if (error) {
-                const errorDetails = parseGrpcError(error);
-                return res.status(errorDetails.status).json(errorDetails.body);
-            }
-            res.status(200).json({ success: true, data: response });
         });
-    } catch (error: any) {
-        res.status(500).json({ error: 'INTERNAL_ERROR', message: error.message });
+        sendSuccess(res, response);
+    } catch (error) {
+        sendGrpcError(res, error);
     }
-});
+}));
 
 // ============ Submit Registration ============
 
@@ -251,30 +225,18 @@ router.post('/step4', async (req: Request, res: Response) => {
  * POST /v1/hauler/register/submit
  * Submit completed registration for verification (AC6)
  */
-router.post('/submit', async (req: Request, res: Response) => {
+router.post('/submit', allowPublic(), validated({ body: z.object({ registration_token: registrationToken }) }, async (req, res) => {
     try {
         const { registration_token } = req.body;
 
-        if (!registration_token) {
-            return res.status(400).json({
-                error: 'VALIDATION_ERROR',
-                message: 'registration_token is required',
-            });
-        }
-
-        authClient.HaulerSubmitRegistration({
+        const response = await authClient.HaulerSubmitRegistration({
             registration_token,
-        }, (error: any, response: any) => {
-            if (error) {
-                const errorDetails = parseGrpcError(error);
-                return res.status(errorDetails.status).json(errorDetails.body);
-            }
-            res.status(201).json({ success: true, data: response });
         });
-    } catch (error: any) {
-        res.status(500).json({ error: 'INTERNAL_ERROR', message: error.message });
+        sendSuccess(res, response, 201);
+    } catch (error) {
+        sendGrpcError(res, error);
     }
-});
+}));
 
 // ============ Vehicle Eligibility ============
 
@@ -282,23 +244,18 @@ router.post('/submit', async (req: Request, res: Response) => {
  * GET /v1/hauler/register/eligibility
  * Get vehicle eligibility rules (AC8)
  */
-router.get('/eligibility', async (req: Request, res: Response) => {
+router.get('/eligibility', allowPublic(), validated({ query: z.object({ vehicle_type: z.string().optional() }) }, async (req, res) => {
     try {
         const { vehicle_type } = req.query;
 
-        authClient.GetVehicleEligibility({
-            vehicle_type: vehicle_type as string || '',
-        }, (error: any, response: any) => {
-            if (error) {
-                const errorDetails = parseGrpcError(error);
-                return res.status(errorDetails.status).json(errorDetails.body);
-            }
-            res.status(200).json({ success: true, data: response });
+        const response = await authClient.GetVehicleEligibility({
+            vehicle_type: vehicle_type || '',
         });
-    } catch (error: any) {
-        res.status(500).json({ error: 'INTERNAL_ERROR', message: error.message });
+        sendSuccess(res, response);
+    } catch (error) {
+        sendGrpcError(res, error);
     }
-});
+}));
 
 // ============ Hauler Profile ============
 
@@ -306,25 +263,20 @@ router.get('/eligibility', async (req: Request, res: Response) => {
  * GET /v1/hauler/profile
  * Get current hauler's profile
  */
-router.get('/profile', async (req: Request, res: Response) => {
+router.get('/profile', authMiddleware, requirePolicy({ userTypes: ['HAULER'] }), validated({}, async (req, res) => {
     try {
         const user = getUserFromRequest(req);
         if (!user) {
-            return res.status(401).json({ error: 'UNAUTHORIZED', message: 'Authentication required' });
+            return sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
         }
 
-        authClient.GetHaulerProfile({
+        const response = await authClient.GetHaulerProfile({
             user_id: user.userId.toString(),
-        }, (error: any, response: any) => {
-            if (error) {
-                const errorDetails = parseGrpcError(error);
-                return res.status(errorDetails.status).json(errorDetails.body);
-            }
-            res.status(200).json({ success: true, data: response });
         });
-    } catch (error: any) {
-        res.status(500).json({ error: 'INTERNAL_ERROR', message: error.message });
+        sendSuccess(res, response);
+    } catch (error) {
+        sendGrpcError(res, error);
     }
-});
+}));
 
 export default router;
@@ -8,10 +8,12 @@ import haulerAdminRoutes from './hauler-admin';
 import agentRoutes from './agent'; // Story 2.6
 import agentAdminRoutes from './agent-admin'; // Story 2.6
 import profileRoutes from './users/profile'; // Story 2.7
+import sessionRoutes from './users/sessions'; // Story 2.8
 import buyerAddressRoutes from './buyers/addresses'; // Story 2.7
 import buyerInventoryRoutes from './buyers/inventory'; // Story 4.1
 import buyerListingsRoutes from './buyers/listings'; // Story 4.2
 import buyerOrdersRoutes from './buyers/orders'; // Story 4.3
+import paymentWebhookRoutes from './webhooks/payments'; // Story 4.3
 import farmersListingsRoutes from './farmers/listings'; // Story 3.1
 import farmersPhotosRoutes from './farmers/photos'; // Story 3.2
 import farmersGradingRoutes from './farmers/grading'; // Story 3.3
@@ -22,32 +24,42 @@ import farmersTransactionsRoutes from './farmers/transactions'; // Story 3.7
 import farmersNotificationsRoutes from './farmers/notifications'; // Story 3.8
 import farmersRatingsRoutes from './farmers/ratings'; // Story 3.10
 import farmersEducationRoutes from './farmers/education'; // Story 3.11
+import { ApiVersion } from '../versions';
 
-const router = Router();
-
-router.use('/auth', authRoutes);
-router.use('/catalog', catalogRoutes);
-router.use('/orders', orderRoutes);
-router.use('/buyer/team', teamRoutes); // Story 2.4 Team Management
-router.use('/hauler/register', haulerRoutes); // Story 2.5 Hauler Registration
-router.use('/admin/haulers', haulerAdminRoutes); // Story 2.5 Admin Verification
-router.use('/agent', agentRoutes); // Story 2.6 Agent Mobile App
-router.use('/admin', agentAdminRoutes); // Story 2.6 Agent Admin Management
-router.use('/users', profileRoutes); // Story 2.7 Profile Management
-router.use('/buyers/addresses', buyerAddressRoutes); // Story 2.7 Delivery Addresses
-router.use('/buyers/inventory', buyerInventoryRoutes); // Story 4.1 Inventory Browse
-router.use('/buyers/listings', buyerListingsRoutes); // Story 4.2 Listing Details
-router.use('/buyers/orders', buyerOrdersRoutes); // Story 4.3 Order Placement
-router.use('/farmers/listings', farmersListingsRoutes); // Story 3.1 Farmer Listings
-router.use('/farmers/listings', farmersPhotosRoutes); // Story 3.2 Photo Upload
-router.use('/farmers/listings', farmersGradingRoutes); // Story 3.3 AI Grading & Pricing
-router.use('/farmers/listings', farmersDroppointRoutes); // Story 3.4 Drop Point Assignment
-router.use('/farmers/droppoints', farmersDroppointsRoutes); // Story 3.4 Drop Point Discovery
-router.use('/farmers/matches', farmersMatchesRoutes); // Story 3.5 Buyer Match View
-router.use('/farmers', farmersTransactionsRoutes); // Story 3.7 Transaction History
-router.use('/farmers/notifications', farmersNotificationsRoutes); // Story 3.8 Notifications
-router.use('/farmers/ratings', farmersRatingsRoutes); // Story 3.10 Quality Ratings
-router.use('/farmers/education', farmersEducationRoutes); // Story 3.11 Educational Content
-
-export default router;
+/**
+ * v1 route table, in mount order. Exported so tests and tooling can walk
+ * every route with its full path.
+ */
+export const v1Routes: Array<{ path: string; router: Router }> = [
+    { path: '/auth', router: authRoutes },
+    { path: '/catalog', router: catalogRoutes },
+    { path: '/orders', router: orderRoutes },
+    { path: '/buyer/team', router: teamRoutes }, // Story 2.4 Team Management
+    { path: '/hauler/register', router: haulerRoutes }, // Story 2.5 Hauler Registration
+    { path: '/admin/haulers', router: haulerAdminRoutes }, // Story 2.5 Admin Verification
+    { path: '/agent', router: agentRoutes }, // Story 2.6 Agent Mobile App
+    { path: '/admin', router: agentAdminRoutes }, // Story 2.6 Agent Admin Management
+    { path: '/users', router: profileRoutes }, // Story 2.7 Profile Management
+    { path: '/users/sessions', router: sessionRoutes }, // Story 2.8 Session Management
+    { path: '/buyers/addresses', router: buyerAddressRoutes }, // Story 2.7 Delivery Addresses
+    { path: '/buyers/inventory', router: buyerInventoryRoutes }, // Story 4.1 Inventory Browse
+    { path: '/buyers/listings', router: buyerListingsRoutes }, // Story 4.2 Listing Details
+    { path: '/buyers/orders', router: buyerOrdersRoutes }, // Story 4.3 Order Placement
+    { path: '/webhooks/payments', router: paymentWebhookRoutes }, // Story 4.3 Payment Provider Webhooks
+    { path: '/farmers/listings', router: farmersListingsRoutes }, // Story 3.1 Farmer Listings
+    { path: '/farmers/listings', router: farmersPhotosRoutes }, // Story 3.2 Photo Upload
+    { path: '/farmers/listings', router: farmersGradingRoutes }, // Story 3.3 AI Grading & Pricing
+    { path: '/farmers/listings', router: farmersDroppointRoutes }, // Story 3.4 Drop Point Assignment
+    { path: '/farmers/droppoints', router: farmersDroppointsRoutes }, // Story 3.4 Drop Point Discovery
+    { path: '/farmers/matches', router: farmersMatchesRoutes }, // Story 3.5 Buyer Match View
+    { path: '/farmers', router: farmersTransactionsRoutes }, // Story 3.7 Transaction History
+    { path: '/farmers/notifications', router: farmersNotificationsRoutes }, // Story 3.8 Notifications
+    { path: '/farmers/ratings', router: farmersRatingsRoutes }, // Story 3.10 Quality Ratings
+    { path: '/farmers/education', router: farmersEducationRoutes }, // Story 3.11 Educational Content
+];
 
+export const v1: ApiVersion = {
+    version: '1',
+    prefix: '/v1',
+    routes: v1Routes,
+};
@@ -2,33 +2,36 @@ import { Router } from 'express';
 import { createOrderSchema } from '../../schemas';
 import { orderClient, createMetadata } from '../../grpc/clients';
 import { sendSuccess } from '../../utils/response-handler';
-import { authMiddleware, AuthRequest } from '../../middleware/auth';
+import { authMiddleware } from '../../middleware/auth';
+import { requirePolicy } from '../../middleware/policy';
+import { validated } from '../../middleware/validate';
+import { deprecated } from '../../middleware/deprecation';
 
 const router = Router();
 
-router.post('/', authMiddleware, async (req, res, next) => {
+// Superseded by /v1/buyers/orders, which adds idempotency and payment
+router.post('/', deprecated({
+    since: '2026-10-19',
+    sunset: '2027-04-30',
+    successor: '/v1/buyers/orders',
+}), authMiddleware, requirePolicy({}), validated({ body: createOrderSchema }, async (req, res, next) => {
     try {
-        const { body } = await createOrderSchema.parseAsync(req);
+        const { body } = req;
         const traceId = req.headers['x-trace-id'] as string;
-        const userId = (req as AuthRequest).user.id;
+        const userId = req.user!.userId;
 
-        orderClient.CreateOrder(
+        const response = await orderClient.CreateOrder(
             {
                 userId,
                 items: body.items,
                 deliveryAddressId: body.deliveryAddressId
             },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) {
-                    return next(err);
-                }
-                sendSuccess(res, response);
-            }
+            { metadata: createMetadata(traceId) }
         );
+        sendSuccess(res, response);
     } catch (err) {
         next(err);
     }
-});
+}));
 
 export default router;
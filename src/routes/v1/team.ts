@@ -1,309 +1,340 @@
-import express, { Router, Request, Response } from 'express';
+import express, { Router } from 'express';
+import { z } from 'zod';
 import { authClient } from '../../grpc/clients';
+import { authMiddleware, AuthRequest } from '../../middleware/auth';
+import { requirePolicy, allowPublic, AccessPolicy } from '../../middleware/policy';
+import { withReauth, REAUTH_ACTIONS } from '../../middleware/step-up';
+import { API_KEY_SCOPES } from '../../middleware/api-key';
+import { validated } from '../../middleware/validate';
+import { createApiKey, listApiKeys, revokeApiKey, ApiKeySummary } from '../../utils/api-key-store';
+import { config } from '../../config';
+import { sendGrpcError } from '../../grpc/errors';
+import { legacyResponses, sendError, sendSuccess } from '../../utils/response-handler';
 
 const router: Router = express.Router();
 
+// Older apps still expect { success, data } bodies from these routes
+router.use(legacyResponses('status-flag'));
+
 /**
  * Story 2.4 - Team Management REST Endpoints
  * Gateway routes proxying to Auth Service gRPC methods
  */
 
-// Helper to extract user from JWT
-function getUserFromRequest(req: Request): { userId: number; buyerOrgId: number } | null {
-    // In production, extract from verified JWT token
-    // For now, use headers for development
-    const userId = req.headers['x-user-id'] as string;
-    const buyerOrgId = req.headers['x-buyer-org-id'] as string;
+// Only buyer organisation admins may manage the team
+const TEAM_ADMIN_POLICY: AccessPolicy = { userTypes: ['BUYER'], teamRoles: ['ADMIN'] };
+
+// Helper to extract the caller's organisation membership from the verified token
+function getUserFromRequest(req: Pick<AuthRequest, 'user'>): { userId: number; buyerOrgId: number } | null {
+    const user = req.user;
 
-    if (!userId || !buyerOrgId) return null;
-    return { userId: parseInt(userId, 10), buyerOrgId: parseInt(buyerOrgId, 10) };
+    if (!user || !user.buyerOrgId) return null;
+    return { userId: user.userId, buyerOrgId: user.buyerOrgId };
 }
 
+const memberParamsSchema = z.object({ memberId: z.string().min(1) });
+
+const inviteSchema = z.object({
+    email: z.string().min(1, 'Email is required'),
+    mobile_number: z.string().min(1, 'Mobile number is required'),
+    role: z.string().min(1, 'Role is required'),
+    note: z.string().optional(),
+});
+
+const acceptInviteSchema = z.object({
+    token: z.string().min(1, 'Token is required'),
+    full_name: z.string().min(1, 'Full name is required'),
+    password: z.string().min(1, 'Password is required'),
+});
+
+const listMembersQuerySchema = z.object({
+    page: z.coerce.number().int().positive().default(1),
+    limit: z.coerce.number().int().positive().default(10),
+    role: z.string().optional(),
+    status: z.string().optional(),
+    search: z.string().optional(),
+});
+
+const updateRoleSchema = z.object({
+    role: z.string().min(1, 'Role is required'),
+});
+
 /**
  * POST /v1/buyer/team/invite
  * Invite a new team member (AC2, AC3)
  */
-router.post('/invite', async (req: Request, res: Response) => {
+router.post('/invite', authMiddleware, requirePolicy(TEAM_ADMIN_POLICY), validated({ body: inviteSchema }, async (req, res) => {
     try {
         const user = getUserFromRequest(req);
         if (!user) {
-            return res.status(401).json({ error: 'UNAUTHORIZED', message: 'Authentication required' });
+            return sendError(res, 403, 'FORBIDDEN', 'Buyer organisation membership required');
         }
 
         const { email, mobile_number, role, note } = req.body;
 
-        if (!email || !mobile_number || !role) {
-            return res.status(400).json({
-                error: 'VALIDATION_ERROR',
-                message: 'Email, mobile_number, and role are required',
-            });
-        }
-
-        authClient.InviteTeamMember({
+        const response = await authClient.InviteTeamMember({
             buyer_org_id: user.buyerOrgId,
             email,
             mobile_number,
             role,
             note: note || '',
             invited_by_user_id: user.userId,
-        }, (error: any, response: any) => {
-            if (error) {
-                const errorDetails = parseGrpcError(error);
-                return res.status(errorDetails.status).json(errorDetails.body);
-            }
-            res.status(201).json({ success: true, data: response });
         });
-    } catch (error: any) {
-        res.status(500).json({ error: 'INTERNAL_ERROR', message: error.message });
+        sendSuccess(res, response, 201);
+    } catch (error) {
+        sendGrpcError(res, error);
     }
-});
+}));
 
 /**
  * POST /v1/buyer/team/accept-invite
  * Accept a team invitation (AC4, AC9)
  */
-router.post('/accept-invite', async (req: Request, res: Response) => {
+router.post('/accept-invite', allowPublic(), validated({ body: acceptInviteSchema }, async (req, res) => {
     try {
         const { token, full_name, password } = req.body;
 
-        if (!token || !full_name || !password) {
-            return res.status(400).json({
-                error: 'VALIDATION_ERROR',
-                message: 'Token, full_name, and password are required',
-            });
-        }
-
-        authClient.AcceptTeamInvitation({
+        const response = await authClient.AcceptTeamInvitation({
             token,
             full_name,
             password,
-        }, (error: any, response: any) => {
-            if (error) {
-                const errorDetails = parseGrpcError(error);
-                return res.status(errorDetails.status).json(errorDetails.body);
-            }
-            res.status(201).json({ success: true, data: response });
         });
-    } catch (error: any) {
-        res.status(500).json({ error: 'INTERNAL_ERROR', message: error.message });
+        sendSuccess(res, response, 201);
+    } catch (error) {
+        sendGrpcError(res, error);
     }
-});
+}));
 
 /**
  * GET /v1/buyer/team
  * List team members with filters (AC1, AC5)
  */
-router.get('/', async (req: Request, res: Response) => {
+router.get('/', authMiddleware, requirePolicy({ userTypes: ['BUYER'] }), validated({ query: listMembersQuerySchema }, async (req, res) => {
     try {
         const user = getUserFromRequest(req);
         if (!user) {
-            return res.status(401).json({ error: 'UNAUTHORIZED', message: 'Authentication required' });
+            return sendError(res, 403, 'FORBIDDEN', 'Buyer organisation membership required');
         }
 
-        const { page = '1', limit = '10', role, status, search } = req.query;
+        const { page, limit, role, status, search } = req.query;
 
-        authClient.ListTeamMembers({
+        const response = await authClient.ListTeamMembers({
             buyer_org_id: user.buyerOrgId,
-            page: parseInt(page as string, 10),
-            limit: parseInt(limit as string, 10),
-            role_filter: role as string || '',
-            status_filter: status as string || '',
-            search: search as string || '',
-        }, (error: any, response: any) => {
-            if (error) {
-                const errorDetails = parseGrpcError(error);
-                return res.status(errorDetails.status).json(errorDetails.body);
-            }
-            res.json({ success: true, data: response });
+            page,
+            limit,
+            role_filter: role || '',
+            status_filter: status || '',
+            search: search || '',
         });
-    } catch (error: any) {
-        res.status(500).json({ error: 'INTERNAL_ERROR', message: error.message });
+        sendSuccess(res, response);
+    } catch (error) {
+        sendGrpcError(res, error);
     }
-});
+}));
 
 /**
  * PATCH /v1/buyer/team/:memberId/role
- * Update team member role (AC6)
+ * Update team member role (AC6). Critical action: requires step-up re-auth.
  */
-router.patch('/:memberId/role', async (req: Request, res: Response) => {
+router.patch('/:memberId/role', authMiddleware, requirePolicy(TEAM_ADMIN_POLICY), validated({ params: memberParamsSchema, body: updateRoleSchema }, withReauth(REAUTH_ACTIONS.CHANGE_TEAM_ROLE, async (req, res) => {
     try {
         const user = getUserFromRequest(req);
         if (!user) {
-            return res.status(401).json({ error: 'UNAUTHORIZED', message: 'Authentication required' });
+            return sendError(res, 403, 'FORBIDDEN', 'Buyer organisation membership required');
         }
 
         const { memberId } = req.params;
         const { role } = req.body;
 
-        if (!role) {
-            return res.status(400).json({
-                error: 'VALIDATION_ERROR',
-                message: 'Role is required',
-            });
-        }
-
-        authClient.UpdateTeamMemberRole({
+        const response = await authClient.UpdateTeamMemberRole({
             buyer_org_id: user.buyerOrgId,
             member_id: memberId,
             new_role: role,
             changed_by_user_id: user.userId,
-        }, (error: any, response: any) => {
-            if (error) {
-                const errorDetails = parseGrpcError(error);
-                return res.status(errorDetails.status).json(errorDetails.body);
-            }
-            res.json({ success: true, data: response });
         });
-    } catch (error: any) {
-        res.status(500).json({ error: 'INTERNAL_ERROR', message: error.message });
+        sendSuccess(res, response);
+    } catch (error) {
+        sendGrpcError(res, error);
     }
-});
+})));
 
 /**
  * POST /v1/buyer/team/:memberId/deactivate
  * Deactivate team member (AC7)
  */
-router.post('/:memberId/deactivate', async (req: Request, res: Response) => {
+router.post('/:memberId/deactivate', authMiddleware, requirePolicy(TEAM_ADMIN_POLICY), validated({ params: memberParamsSchema }, async (req, res) => {
     try {
         const user = getUserFromRequest(req);
         if (!user) {
-            return res.status(401).json({ error: 'UNAUTHORIZED', message: 'Authentication required' });
+            return sendError(res, 403, 'FORBIDDEN', 'Buyer organisation membership required');
         }
 
         const { memberId } = req.params;
 
-        authClient.DeactivateTeamMember({
+        const response = await authClient.DeactivateTeamMember({
             buyer_org_id: user.buyerOrgId,
             member_id: memberId,
             deactivated_by_user_id: user.userId,
-        }, (error: any, response: any) => {
-            if (error) {
-                const errorDetails = parseGrpcError(error);
-                return res.status(errorDetails.status).json(errorDetails.body);
-            }
-            res.json({ success: true, message: 'Member deactivated', data: response });
         });
-    } catch (error: any) {
-        res.status(500).json({ error: 'INTERNAL_ERROR', message: error.message });
+        sendSuccess(res, response, 200, { message: 'Member deactivated' });
+    } catch (error) {
+        sendGrpcError(res, error);
     }
-});
+}));
 
 /**
  * DELETE /v1/buyer/team/:memberId
  * Delete team member (AC7)
  */
-router.delete('/:memberId', async (req: Request, res: Response) => {
+router.delete('/:memberId', authMiddleware, requirePolicy(TEAM_ADMIN_POLICY), validated({ params: memberParamsSchema }, async (req, res) => {
     try {
         const user = getUserFromRequest(req);
         if (!user) {
-            return res.status(401).json({ error: 'UNAUTHORIZED', message: 'Authentication required' });
+            return sendError(res, 403, 'FORBIDDEN', 'Buyer organisation membership required');
         }
 
         const { memberId } = req.params;
 
-        authClient.DeleteTeamMember({
+        const response = await authClient.DeleteTeamMember({
             buyer_org_id: user.buyerOrgId,
             member_id: memberId,
             deleted_by_user_id: user.userId,
-        }, (error: any, response: any) => {
-            if (error) {
-                const errorDetails = parseGrpcError(error);
-                return res.status(errorDetails.status).json(errorDetails.body);
-            }
-            res.json({ success: true, message: 'Member deleted', data: response });
         });
-    } catch (error: any) {
-        res.status(500).json({ error: 'INTERNAL_ERROR', message: error.message });
+        sendSuccess(res, response, 200, { message: 'Member deleted' });
+    } catch (error) {
+        sendGrpcError(res, error);
     }
-});
+}));
 
 /**
  * POST /v1/buyer/team/invite/:invitationId/resend
  * Resend invitation (AC9)
  */
-router.post('/invite/:invitationId/resend', async (req: Request, res: Response) => {
+router.post('/invite/:invitationId/resend', authMiddleware, requirePolicy(TEAM_ADMIN_POLICY), validated({ params: z.object({ invitationId: z.string().min(1) }) }, async (req, res) => {
     try {
         const user = getUserFromRequest(req);
         if (!user) {
-            return res.status(401).json({ error: 'UNAUTHORIZED', message: 'Authentication required' });
+            return sendError(res, 403, 'FORBIDDEN', 'Buyer organisation membership required');
         }
 
         const { invitationId } = req.params;
 
-        authClient.ResendTeamInvitation({
+        const response = await authClient.ResendTeamInvitation({
             buyer_org_id: user.buyerOrgId,
             invitation_id: invitationId,
             resent_by_user_id: user.userId,
-        }, (error: any, response: any) => {
-            if (error) {
-                const errorDetails = parseGrpcError(error);
-                return res.status(errorDetails.status).json(errorDetails.body);
-            }
-            res.json({ success: true, message: 'Invitation resent', data: response });
         });
-    } catch (error: any) {
-        res.status(500).json({ error: 'INTERNAL_ERROR', message: error.message });
+        sendSuccess(res, response, 200, { message: 'Invitation resent' });
+    } catch (error) {
+        sendGrpcError(res, error);
     }
-});
+}));
 
 /**
  * GET /v1/buyer/team/invitation/:token
  * Validate invitation token (for accept-invite screen)
  */
-router.get('/invitation/:token', async (req: Request, res: Response) => {
+router.get('/invitation/:token', allowPublic(), validated({ params: z.object({ token: z.string().min(1) }) }, async (req, res) => {
     try {
         const { token } = req.params;
 
-        authClient.ValidateInvitationToken({
+        const response = await authClient.ValidateInvitationToken({
             token,
-        }, (error: any, response: any) => {
-            if (error) {
-                const errorDetails = parseGrpcError(error);
-                return res.status(errorDetails.status).json(errorDetails.body);
-            }
-            res.json({ success: true, data: response });
         });
-    } catch (error: any) {
-        res.status(500).json({ error: 'INTERNAL_ERROR', message: error.message });
+        sendSuccess(res, response);
+    } catch (error) {
+        sendGrpcError(res, error);
     }
+}));
+
+// ============ Partner API Keys ============
+
+const createApiKeySchema = z.object({
+    name: z.string().min(1, 'Name is required'),
+    scopes: z.array(z.enum(Object.values(API_KEY_SCOPES))).min(1, 'At least one scope is required'),
+    rate_limit_per_minute: z.number().int().min(1).max(config.apiKeys.maxRateLimitPerMinute)
+        .default(config.apiKeys.defaultRateLimitPerMinute),
 });
 
+function toApiKeyResponse(key: Omit<ApiKeySummary, 'lastUsedAt'> & { lastUsedAt?: string | null }) {
+    return {
+        id: key.id,
+        name: key.name,
+        prefix: key.prefix,
+        scopes: key.scopes,
+        rate_limit_per_minute: key.rateLimitPerMinute,
+        created_by_user_id: key.createdBy,
+        created_at: key.createdAt,
+        last_used_at: key.lastUsedAt ?? null,
+    };
+}
+
 /**
- * Parse gRPC error into HTTP response
+ * POST /v1/buyer/team/api-keys
+ * Create an API key for the organisation's ERP integration.
+ * The plain key is only returned in this response.
  */
-function parseGrpcError(error: any): { status: number; body: Record<string, any> } {
-    const grpcCode = error.code;
-    let httpStatus = 500;
-
-    // Map gRPC codes to HTTP status codes
-    switch (grpcCode) {
-        case 3: // INVALID_ARGUMENT
-            httpStatus = 400;
-            break;
-        case 5: // NOT_FOUND
-            httpStatus = 404;
-            break;
-        case 6: // ALREADY_EXISTS
-            httpStatus = 409;
-            break;
-        case 7: // PERMISSION_DENIED
-            httpStatus = 403;
-            break;
-        case 16: // UNAUTHENTICATED
-            httpStatus = 401;
-            break;
-        default:
-            httpStatus = 500;
+router.post('/api-keys', authMiddleware, requirePolicy(TEAM_ADMIN_POLICY), validated({ body: createApiKeySchema }, async (req, res, next) => {
+    try {
+        const user = getUserFromRequest(req);
+        if (!user) {
+            return sendError(res, 403, 'FORBIDDEN', 'Buyer organisation membership required');
+        }
+
+        const { name, scopes, rate_limit_per_minute } = req.body;
+
+        const { key, record } = await createApiKey({
+            buyerOrgId: user.buyerOrgId,
+            name,
+            scopes: [...new Set<string>(scopes)],
+            createdBy: user.userId,
+            rateLimitPerMinute: rate_limit_per_minute,
+        });
+
+        sendSuccess(res, { ...toApiKeyResponse(record), key }, 201);
+    } catch (error) {
+        next(error);
     }
+}));
 
-    let body: Record<string, any>;
+/**
+ * GET /v1/buyer/team/api-keys
+ * List the organisation's API keys (without the keys themselves)
+ */
+router.get('/api-keys', authMiddleware, requirePolicy(TEAM_ADMIN_POLICY), validated({}, async (req, res, next) => {
     try {
-        body = JSON.parse(error.details);
-    } catch {
-        body = { error: 'ERROR', message: error.details || 'Unknown error' };
+        const user = getUserFromRequest(req);
+        if (!user) {
+            return sendError(res, 403, 'FORBIDDEN', 'Buyer organisation membership required');
+        }
+
+        const keys = await listApiKeys(user.buyerOrgId);
+        sendSuccess(res, { api_keys: keys.map(toApiKeyResponse) });
+    } catch (error) {
+        next(error);
     }
+}));
 
-    return { status: httpStatus, body };
-}
+/**
+ * DELETE /v1/buyer/team/api-keys/:keyId
+ * Revoke an API key; it stops working immediately
+ */
+router.delete('/api-keys/:keyId', authMiddleware, requirePolicy(TEAM_ADMIN_POLICY), validated({ params: z.object({ keyId: z.string().min(1) }) }, async (req, res, next) => {
+    try {
+        const user = getUserFromRequest(req);
+        if (!user) {
+            return sendError(res, 403, 'FORBIDDEN', 'Buyer organisation membership required');
+        }
+
+        const revoked = await revokeApiKey(user.buyerOrgId, req.params.keyId);
+        if (!revoked) {
+            return sendError(res, 404, 'NOT_FOUND', 'API key not found');
+        }
+
+        sendSuccess(res, { id: req.params.keyId, revoked: true });
+    } catch (error) {
+        next(error);
+    }
+}));
 
 export default router;
@@ -9,11 +9,15 @@
  * - POST /v1/users/profile/verify/confirm - Confirm verification
  */
 
-import { Router } from 'express';
+import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { authClient, createMetadata } from '../../../grpc/clients';
 import { sendSuccess, sendError } from '../../../utils/response-handler';
 import { authMiddleware } from '../../../middleware/auth';
+import { requirePolicy } from '../../../middleware/policy';
+import { withReauth, REAUTH_ACTIONS } from '../../../middleware/step-up';
+import { validated } from '../../../middleware/validate';
+import type { GetUserProfileResponse__Output } from '../../../grpc/generated/cropfresh/auth/GetUserProfileResponse';
 import pino from 'pino';
 
 const router = Router();
@@ -24,59 +28,53 @@ const logger = pino({ name: 'profile-routes' });
 // =====================================================
 
 const updateFarmerProfileSchema = z.object({
-    body: z.object({
-        language_preference: z.string().optional(),
-        farming_types: z.array(z.string()).optional(),
-        village: z.string().optional(),
-        taluk: z.string().optional(),
-        district: z.string().optional(),
-    }),
+    language_preference: z.string().optional(),
+    farming_types: z.array(z.string()).optional(),
+    village: z.string().optional(),
+    taluk: z.string().optional(),
+    district: z.string().optional(),
 });
 
 const updateBuyerProfileSchema = z.object({
-    body: z.object({
-        business_name: z.string().min(1).optional(),
-        quality_preference: z.enum(['GRADE_A_ONLY', 'GRADE_A_B', 'ALL_GRADES']).optional(),
-        order_frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY']).optional(),
-    }),
+    business_name: z.string().min(1).optional(),
+    quality_preference: z.enum(['GRADE_A_ONLY', 'GRADE_A_B', 'ALL_GRADES']).optional(),
+    order_frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY']).optional(),
 });
 
 const updateHaulerProfileSchema = z.object({
-    body: z.object({
-        vehicle_number: z.string().regex(/^[A-Z]{2}-\d{2}-[A-Z]{2}-\d{4}$/).optional(),
-        vehicle_capacity_kg: z.number().positive().optional(),
-        dl_expiry: z.string().datetime().optional(),
-        available_hours_start: z.string().regex(/^\d{2}:\d{2}$/).optional(),
-        available_hours_end: z.string().regex(/^\d{2}:\d{2}$/).optional(),
-        available_days: z.array(z.enum(['MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT', 'SUN'])).optional(),
-    }),
+    vehicle_number: z.string().regex(/^[A-Z]{2}-\d{2}-[A-Z]{2}-\d{4}$/).optional(),
+    vehicle_capacity_kg: z.number().positive().optional(),
+    dl_expiry: z.string().datetime().optional(),
+    available_hours_start: z.string().regex(/^\d{2}:\d{2}$/).optional(),
+    available_hours_end: z.string().regex(/^\d{2}:\d{2}$/).optional(),
+    available_days: z.array(z.enum(['MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT', 'SUN'])).optional(),
 });
 
 const updateAgentProfileSchema = z.object({
-    body: z.object({
-        language_preference: z.string().optional(),
-    }),
+    language_preference: z.string().optional(),
 });
 
+// Every field a profile update may carry; each user type keeps its own
+const updateProfileSchema = z.object({
+    ...updateFarmerProfileSchema.shape,
+    ...updateBuyerProfileSchema.shape,
+    ...updateHaulerProfileSchema.shape,
+    ...updateAgentProfileSchema.shape,
+}).describe('Only the fields of the caller\'s user type are applied');
+
 const initiateVerificationSchema = z.object({
-    body: z.object({
-        field_name: z.enum(['phone', 'email', 'upi_id']),
-        new_value: z.string().min(1),
-    }),
+    field_name: z.enum(['phone', 'email', 'upi_id']),
+    new_value: z.string().min(1),
 });
 
 const confirmVerificationSchema = z.object({
-    body: z.object({
-        field_name: z.enum(['phone', 'email', 'upi_id']),
-        token: z.string().min(1),
-    }),
+    field_name: z.enum(['phone', 'email', 'upi_id']),
+    token: z.string().min(1),
 });
 
 const auditLogQuerySchema = z.object({
-    query: z.object({
-        limit: z.coerce.number().int().min(1).max(50).default(50),
-        offset: z.coerce.number().int().min(0).default(0),
-    }),
+    limit: z.coerce.number().int().min(1).max(50).default(50),
+    offset: z.coerce.number().int().min(0).default(0),
 });
 
 // =====================================================
@@ -87,9 +85,9 @@ const auditLogQuerySchema = z.object({
  * GET /v1/users/profile
  * Get current user profile based on user type
  */
-router.get('/profile', authMiddleware, async (req, res, next) => {
+router.get('/profile', authMiddleware, requirePolicy({}), validated({}, async (req, res, next) => {
     try {
-        const userId = (req as any).user?.id;
+        const userId = req.user?.userId;
         const traceId = req.headers['x-trace-id'] as string;
 
         if (!userId) {
@@ -98,39 +96,31 @@ router.get('/profile', authMiddleware, async (req, res, next) => {
 
         logger.info({ userId }, 'Get profile request');
 
-        authClient.GetUserProfile(
-            { user_id: String(userId) },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) {
-                    logger.error({ err, userId }, 'GetUserProfile gRPC error');
-                    return next(err);
-                }
-
-                if (!response.success) {
-                    return sendError(res, 404, 'NOT_FOUND', response.message);
-                }
-
-                sendSuccess(res, {
-                    user_type: response.user_type,
-                    profile: response[`${response.user_type.toLowerCase()}_profile`],
-                    pending_verifications: response.pending_verifications || [],
-                });
-            }
-        );
+        const response = await authClient.GetUserProfile({ user_id: String(userId) }, { metadata: createMetadata(traceId) });
+
+        if (!response.success) {
+            return sendError(res, 404, 'NOT_FOUND', response.message);
+        }
+
+        sendSuccess(res, {
+            user_type: response.user_type,
+            profile: profileOf(response),
+            pending_verifications: response.pending_verifications,
+        });
     } catch (err) {
+        logger.error({ err, userId: req.user?.userId }, 'GetUserProfile gRPC error');
         next(err);
     }
-});
+}));
 
 /**
  * PATCH /v1/users/profile
  * Update profile fields based on user type
  */
-router.patch('/profile', authMiddleware, async (req, res, next) => {
+router.patch('/profile', authMiddleware, requirePolicy({}), validated({ body: updateProfileSchema }, async (req, res, next) => {
     try {
-        const userId = (req as any).user?.id;
-        const userType = (req as any).user?.role;
+        const userId = req.user?.userId;
+        const userType = req.user?.userType;
         const traceId = req.headers['x-trace-id'] as string;
         const ipAddress = req.ip || req.socket.remoteAddress;
 
@@ -143,16 +133,16 @@ router.patch('/profile', authMiddleware, async (req, res, next) => {
         // Route to appropriate handler based on user type
         switch (userType) {
             case 'FARMER':
-                await handleFarmerUpdate(req, res, next, userId, traceId, ipAddress);
+                await handleFarmerUpdate(req, res, userId, traceId, ipAddress);
                 break;
             case 'BUYER':
-                await handleBuyerUpdate(req, res, next, userId, traceId, ipAddress);
+                await handleBuyerUpdate(req, res, userId, traceId, ipAddress);
                 break;
             case 'HAULER':
-                await handleHaulerUpdate(req, res, next, userId, traceId, ipAddress);
+                await handleHaulerUpdate(req, res, userId, traceId, ipAddress);
                 break;
             case 'AGENT':
-                await handleAgentUpdate(req, res, next, userId, traceId, ipAddress);
+                await handleAgentUpdate(req, res, userId, traceId, ipAddress);
                 break;
             default:
                 sendError(res, 400, 'INVALID_USER_TYPE', 'Profile updates not supported for this user type');
@@ -160,219 +150,193 @@ router.patch('/profile', authMiddleware, async (req, res, next) => {
     } catch (err) {
         next(err);
     }
-});
+}));
 
 /**
  * GET /v1/users/profile/history
  * Get profile change audit log
  */
-router.get('/profile/history', authMiddleware, async (req, res, next) => {
+router.get('/profile/history', authMiddleware, requirePolicy({}), validated({ query: auditLogQuerySchema }, async (req, res, next) => {
     try {
-        const userId = (req as any).user?.id;
+        const userId = req.user?.userId;
         const traceId = req.headers['x-trace-id'] as string;
 
         if (!userId) {
             return sendError(res, 401, 'UNAUTHORIZED', 'User not authenticated');
         }
 
-        const { query } = await auditLogQuerySchema.parseAsync(req);
+        const { query } = req;
 
         logger.info({ userId, limit: query.limit, offset: query.offset }, 'Get profile history request');
 
-        authClient.GetProfileAuditLog(
-            {
-                user_id: String(userId),
-                limit: query.limit,
-                offset: query.offset,
-            },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) {
-                    logger.error({ err, userId }, 'GetProfileAuditLog gRPC error');
-                    return next(err);
-                }
-
-                sendSuccess(res, {
-                    entries: response.entries || [],
-                    total_count: response.total_count || 0,
-                });
-            }
-        );
+        const response = await authClient.GetProfileAuditLog({
+            user_id: String(userId),
+            limit: query.limit,
+            offset: query.offset,
+        }, { metadata: createMetadata(traceId) });
+
+        sendSuccess(res, {
+            entries: response.entries,
+            total_count: response.total_count,
+        });
     } catch (err) {
+        logger.error({ err, userId: req.user?.userId }, 'GetProfileAuditLog gRPC error');
         next(err);
     }
-});
+}));
 
 /**
  * POST /v1/users/profile/verify
  * Initiate field verification
  */
-router.post('/profile/verify', authMiddleware, async (req, res, next) => {
+router.post('/profile/verify', authMiddleware, requirePolicy({}), validated({ body: initiateVerificationSchema }, async (req, res, next) => {
     try {
-        const userId = (req as any).user?.id;
+        const userId = req.user?.userId;
         const traceId = req.headers['x-trace-id'] as string;
 
         if (!userId) {
             return sendError(res, 401, 'UNAUTHORIZED', 'User not authenticated');
         }
 
-        const { body } = await initiateVerificationSchema.parseAsync(req);
+        const { body } = req;
 
         logger.info({ userId, fieldName: body.field_name }, 'Initiate verification request');
 
-        authClient.InitiateFieldVerification(
-            {
-                user_id: String(userId),
-                field_name: body.field_name,
-                new_value: body.new_value,
-            },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) {
-                    logger.error({ err, userId }, 'InitiateFieldVerification gRPC error');
-                    return next(err);
-                }
-
-                if (!response.success) {
-                    return sendError(res, 400, 'VERIFICATION_FAILED', response.message);
-                }
-
-                sendSuccess(res, {
-                    message: response.message,
-                    verification_type: response.verification_type,
-                    expires_in_seconds: response.expires_in_seconds,
-                });
-            }
-        );
+        const response = await authClient.InitiateFieldVerification({
+            user_id: String(userId),
+            field_name: body.field_name,
+            new_value: body.new_value,
+        }, { metadata: createMetadata(traceId) });
+
+        if (!response.success) {
+            return sendError(res, 400, 'VERIFICATION_FAILED', response.message);
+        }
+
+        sendSuccess(res, {
+            message: response.message,
+            verification_type: response.verification_type,
+            expires_in_seconds: response.expires_in_seconds,
+        });
     } catch (err) {
+        logger.error({ err, userId: req.user?.userId }, 'InitiateFieldVerification gRPC error');
         next(err);
     }
-});
+}));
 
 /**
  * POST /v1/users/profile/verify/confirm
- * Confirm field verification
+ * Confirm field verification. Critical action: requires step-up re-auth.
  */
-router.post('/profile/verify/confirm', authMiddleware, async (req, res, next) => {
+router.post('/profile/verify/confirm', authMiddleware, requirePolicy({}), validated({ body: confirmVerificationSchema }, withReauth(REAUTH_ACTIONS.CONFIRM_PROFILE_CHANGE, async (req, res, next) => {
     try {
-        const userId = (req as any).user?.id;
+        const userId = req.user?.userId;
         const traceId = req.headers['x-trace-id'] as string;
 
         if (!userId) {
             return sendError(res, 401, 'UNAUTHORIZED', 'User not authenticated');
         }
 
-        const { body } = await confirmVerificationSchema.parseAsync(req);
+        const { body } = req;
 
         logger.info({ userId, fieldName: body.field_name }, 'Confirm verification request');
 
-        authClient.ConfirmFieldVerification(
-            {
-                user_id: String(userId),
-                field_name: body.field_name,
-                token: body.token,
-            },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) {
-                    logger.error({ err, userId }, 'ConfirmFieldVerification gRPC error');
-                    return next(err);
-                }
-
-                if (!response.success) {
-                    return sendError(res, 400, 'VERIFICATION_FAILED', response.message);
-                }
-
-                sendSuccess(res, { message: response.message });
-            }
-        );
+        const response = await authClient.ConfirmFieldVerification({
+            user_id: String(userId),
+            field_name: body.field_name,
+            token: body.token,
+        }, { metadata: createMetadata(traceId) });
+
+        if (!response.success) {
+            return sendError(res, 400, 'VERIFICATION_FAILED', response.message);
+        }
+
+        sendSuccess(res, { message: response.message });
     } catch (err) {
+        logger.error({ err, userId: req.user?.userId }, 'ConfirmFieldVerification gRPC error');
         next(err);
     }
-});
+})));
 
 // =====================================================
 // Helper Functions for User-Type-Specific Updates
 // =====================================================
 
-async function handleFarmerUpdate(req: any, res: any, next: any, userId: number, traceId: string, ipAddress?: string) {
-    const { body } = await updateFarmerProfileSchema.parseAsync(req);
+/**
+ * The profile matching the user's type, if the response carries one
+ */
+function profileOf(response: GetUserProfileResponse__Output) {
+    switch (response.user_type) {
+        case 'FARMER':
+            return response.farmer_profile;
+        case 'BUYER':
+            return response.buyer_profile;
+        case 'HAULER':
+            return response.hauler_profile;
+        case 'AGENT':
+            return response.agent_profile;
+        default:
+            return undefined;
+    }
+}
 
-    authClient.UpdateFarmerProfile(
-        {
-            user_id: String(userId),
-            ...body,
-            ip_address: ipAddress,
-        },
-        createMetadata(traceId),
-        (err: any, response: any) => {
-            if (err) return next(err);
-            if (!response.success) {
-                return sendError(res, 400, 'UPDATE_FAILED', response.message);
-            }
-            sendSuccess(res, { message: 'Profile updated successfully', profile: response.profile });
-        }
-    );
+async function handleFarmerUpdate(req: Request, res: Response, userId: number, traceId: string, ipAddress?: string) {
+    const body = updateFarmerProfileSchema.parse(req.body);
+
+    const response = await authClient.UpdateFarmerProfile({
+        user_id: String(userId),
+        ...body,
+        ip_address: ipAddress,
+    }, { metadata: createMetadata(traceId) });
+
+    if (!response.success) {
+        return sendError(res, 400, 'UPDATE_FAILED', response.message);
+    }
+    sendSuccess(res, { message: 'Profile updated successfully', profile: response.profile });
 }
 
-async function handleBuyerUpdate(req: any, res: any, next: any, userId: number, traceId: string, ipAddress?: string) {
-    const { body } = await updateBuyerProfileSchema.parseAsync(req);
+async function handleBuyerUpdate(req: Request, res: Response, userId: number, traceId: string, ipAddress?: string) {
+    const body = updateBuyerProfileSchema.parse(req.body);
 
-    authClient.UpdateBuyerProfile(
-        {
-            user_id: String(userId),
-            ...body,
-            ip_address: ipAddress,
-        },
-        createMetadata(traceId),
-        (err: any, response: any) => {
-            if (err) return next(err);
-            if (!response.success) {
-                return sendError(res, 400, 'UPDATE_FAILED', response.message);
-            }
-            sendSuccess(res, { message: 'Profile updated successfully', profile: response.profile });
-        }
-    );
+    const response = await authClient.UpdateBuyerProfile({
+        user_id: String(userId),
+        ...body,
+        ip_address: ipAddress,
+    }, { metadata: createMetadata(traceId) });
+
+    if (!response.success) {
+        return sendError(res, 400, 'UPDATE_FAILED', response.message);
+    }
+    sendSuccess(res, { message: 'Profile updated successfully', profile: response.profile });
 }
 
-async function handleHaulerUpdate(req: any, res: any, next: any, userId: number, traceId: string, ipAddress?: string) {
-    const { body } = await updateHaulerProfileSchema.parseAsync(req);
+async function handleHaulerUpdate(req: Request, res: Response, userId: number, traceId: string, ipAddress?: string) {
+    const body = updateHaulerProfileSchema.parse(req.body);
 
-    authClient.UpdateHaulerProfile(
-        {
-            user_id: String(userId),
-            ...body,
-            ip_address: ipAddress,
-        },
-        createMetadata(traceId),
-        (err: any, response: any) => {
-            if (err) return next(err);
-            if (!response.success) {
-                return sendError(res, 400, 'UPDATE_FAILED', response.message);
-            }
-            sendSuccess(res, { message: 'Profile updated successfully', profile: response.profile });
-        }
-    );
+    const response = await authClient.UpdateHaulerProfile({
+        user_id: String(userId),
+        ...body,
+        ip_address: ipAddress,
+    }, { metadata: createMetadata(traceId) });
+
+    if (!response.success) {
+        return sendError(res, 400, 'UPDATE_FAILED', response.message);
+    }
+    sendSuccess(res, { message: 'Profile updated successfully', profile: response.profile });
 }
 
-async function handleAgentUpdate(req: any, res: any, next: any, userId: number, traceId: string, ipAddress?: string) {
-    const { body } = await updateAgentProfileSchema.parseAsync(req);
+async function handleAgentUpdate(req: Request, res: Response, userId: number, traceId: string, ipAddress?: string) {
+    const body = updateAgentProfileSchema.parse(req.body);
 
-    authClient.UpdateAgentProfile(
-        {
-            user_id: String(userId),
-            ...body,
-            ip_address: ipAddress,
-        },
-        createMetadata(traceId),
-        (err: any, response: any) => {
-            if (err) return next(err);
-            if (!response.success) {
-                return sendError(res, 400, 'UPDATE_FAILED', response.message);
-            }
-            sendSuccess(res, { message: 'Profile updated successfully', profile: response.profile });
-        }
-    );
+    const response = await authClient.UpdateAgentProfile({
+        user_id: String(userId),
+        ...body,
+        ip_address: ipAddress,
+    }, { metadata: createMetadata(traceId) });
+
+    if (!response.success) {
+        return sendError(res, 400, 'UPDATE_FAILED', response.message);
+    }
+    sendSuccess(res, { message: 'Profile updated successfully', profile: response.profile });
 }
 
 export default router;
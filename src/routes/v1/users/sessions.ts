@@ -7,82 +7,64 @@
  * - DELETE /v1/users/sessions          - Revoke all except current (AC5)
  */
 
-import { Router, Request, Response, NextFunction } from 'express';
+import { Router } from 'express';
 import { authClient, createMetadata } from '../../../grpc/clients';
 import { sendSuccess, sendError } from '../../../utils/response-handler';
 import { logger } from '../../../utils/logger';
-import {
-    listSessionsSchema,
-    revokeSessionSchema,
-    revokeAllSessionsSchema,
-} from '../../../schemas/session-schemas';
+import { revokeSessionParamsSchema } from '../../../schemas/session-schemas';
 import { authMiddleware } from '../../../middleware/auth';
-
-// Type for authenticated request with user info
-interface AuthRequest extends Request {
-    user?: {
-        userId: number;
-        sessionId: number;
-        phone?: string;
-    };
-}
+import { requirePolicy } from '../../../middleware/policy';
+import { validated } from '../../../middleware/validate';
+import { revokeSession } from '../../../middleware/token-blacklist';
+import { config } from '../../../config';
 
 const router = Router();
 
 // All session routes require authentication
-router.use(authMiddleware);
+router.use(authMiddleware, requirePolicy({}));
 
 /**
  * GET /v1/users/sessions
  * List all active sessions for the current user (AC3)
  */
-router.get('/', async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.get('/', validated({}, async (req, res, next) => {
     try {
-        await listSessionsSchema.parseAsync(req);
         const traceId = req.headers['x-trace-id'] as string;
         const { userId, sessionId } = req.user!;
 
         logger.info({ userId }, 'List sessions request received');
 
-        authClient.ListActiveSessions(
-            {
-                userId: String(userId),
-                currentSessionId: sessionId,
-            },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) {
-                    return next(err);
-                }
-
-                sendSuccess(res, {
-                    sessions: response.sessions?.map((s: any) => ({
-                        id: s.id,
-                        device_name: s.deviceName || 'Unknown Device',
-                        device_id: s.deviceId,
-                        login_time: s.loginTime,
-                        last_active_at: s.lastActiveAt,
-                        location_city: s.locationCity,
-                        location_region: s.locationRegion,
-                        ip_address: s.ipAddress,
-                        is_current_device: s.isCurrentDevice,
-                    })) || [],
-                    current_session_id: response.currentSessionId,
-                });
-            }
-        );
+        const response = await authClient.ListActiveSessions({
+            user_id: String(userId),
+            current_session_id: sessionId,
+        }, { metadata: createMetadata(traceId) });
+
+        sendSuccess(res, {
+            sessions: response.sessions.map((s) => ({
+                id: s.id,
+                device_name: s.device_name || 'Unknown Device',
+                device_id: s.device_id,
+                login_time: s.login_time,
+                last_active_at: s.last_active_at,
+                location_city: s.location_city,
+                location_region: s.location_region,
+                ip_address: s.ip_address,
+                is_current_device: s.is_current_device,
+            })),
+            current_session_id: response.current_session_id,
+        });
     } catch (err) {
         next(err);
     }
-});
+}));
 
 /**
  * DELETE /v1/users/sessions/:sessionId
  * Revoke a specific session (remote logout) (AC4)
  */
-router.delete('/:sessionId', async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.delete('/:sessionId', validated({ params: revokeSessionParamsSchema }, async (req, res, next) => {
     try {
-        const { params } = await revokeSessionSchema.parseAsync(req);
+        const { params } = req;
         const traceId = req.headers['x-trace-id'] as string;
         const { userId, sessionId: currentSessionId } = req.user!;
 
@@ -100,72 +82,79 @@ router.delete('/:sessionId', async (req: AuthRequest, res: Response, next: NextF
             );
         }
 
-        authClient.RevokeSession(
-            {
-                userId: String(userId),
-                sessionId: targetSessionId,
-                currentSessionId,
-            },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) {
-                    return next(err);
-                }
-
-                if (!response.success) {
-                    return sendError(
-                        res,
-                        404,
-                        response.error || 'SESSION_NOT_FOUND',
-                        response.message || 'Session not found or already revoked'
-                    );
-                }
-
-                sendSuccess(res, {
-                    message: 'Device logged out successfully',
-                });
-            }
-        );
+        const response = await authClient.RevokeSession({
+            user_id: String(userId),
+            session_id: targetSessionId,
+            current_session_id: currentSessionId,
+        }, { metadata: createMetadata(traceId) });
+
+        if (!response.success) {
+            return sendError(
+                res,
+                404,
+                response.error || 'SESSION_NOT_FOUND',
+                response.message || 'Session not found or already revoked'
+            );
+        }
+
+        // Cut off the revoked device's access tokens on every replica now,
+        // not when they expire
+        revokeSession(targetSessionId, config.jwt.refreshTokenTtlSeconds).catch((error) => {
+            logger.error({ error, targetSessionId }, 'Failed to blacklist revoked session');
+        });
+
+        sendSuccess(res, {
+            message: 'Device logged out successfully',
+        });
     } catch (err) {
         next(err);
     }
-});
+}));
 
 /**
  * DELETE /v1/users/sessions
  * Revoke all sessions except current (AC5)
  */
-router.delete('/', async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.delete('/', validated({}, async (req, res, next) => {
     try {
-        await revokeAllSessionsSchema.parseAsync(req);
         const traceId = req.headers['x-trace-id'] as string;
         const { userId, sessionId: currentSessionId, phone } = req.user!;
 
         logger.info({ userId }, 'Revoke all sessions request received');
 
-        authClient.RevokeAllSessions(
-            {
-                userId: String(userId),
-                currentSessionId,
-                phone: phone || '',
-            },
-            createMetadata(traceId),
-            (err: any, response: any) => {
-                if (err) {
-                    return next(err);
-                }
-
-                sendSuccess(res, {
-                    revoked_count: response.revokedCount,
-                    message: response.revokedCount > 0
-                        ? 'All other devices logged out'
-                        : 'No other sessions to logout',
-                });
-            }
-        );
+        // RevokeAllSessions reports only a count, so note which sessions it
+        // is about to end first
+        const { sessions } = await authClient.ListActiveSessions({
+            user_id: String(userId),
+            current_session_id: currentSessionId,
+        }, { metadata: createMetadata(traceId) });
+        const revokedSessionIds = sessions
+            .filter((session) => !session.is_current_device && session.id !== currentSessionId)
+            .map((session) => session.id);
+
+        const response = await authClient.RevokeAllSessions({
+            user_id: String(userId),
+            current_session_id: currentSessionId,
+            phone: phone || '',
+        }, { metadata: createMetadata(traceId) });
+
+        // Cut off every revoked device's access tokens on every replica now,
+        // not when they expire
+        await Promise.all(revokedSessionIds.map((revokedSessionId) =>
+            revokeSession(revokedSessionId, config.jwt.refreshTokenTtlSeconds).catch((error) => {
+                logger.error({ error, revokedSessionId }, 'Failed to blacklist revoked session');
+            })
+        ));
+
+        sendSuccess(res, {
+            revoked_count: response.revoked_count,
+            message: response.revoked_count > 0
+                ? 'All other devices logged out'
+                : 'No other sessions to logout',
+        });
     } catch (err) {
         next(err);
     }
-});
+}));
 
 export default router;
@@ -0,0 +1,256 @@
+/**
+ * Payment Provider Webhooks - Story 4.3 (AC8-10, AC14)
+ *
+ * Server-to-server payment result notifications:
+ * - POST /v1/webhooks/payments/razorpay - Razorpay payment.* events
+ * - POST /v1/webhooks/payments/cashfree - Cashfree PAYMENT_*_WEBHOOK events
+ *
+ * Replaces the buyer-authenticated payment callback, which let a buyer app
+ * mark its own order as paid. Events are authenticated with the provider's
+ * HMAC signature (see webhook-signature), mapped from the provider's payload
+ * to a payment event and forwarded to the Order Service. Both carry the
+ * gateway order ID: Razorpay in the payment's notes.order_id, set at
+ * checkout, and Cashfree as the order_id the order was created with.
+ *
+ * Providers redeliver until they get a 2xx, so handling is idempotent by
+ * event ID: a processed event is answered from Redis without calling the
+ * Order Service again.
+ */
+
+import { Router, Response, NextFunction, RequestHandler } from 'express';
+import { z } from 'zod';
+import { orderClient, createMetadata } from '../../../grpc/clients';
+import { sendSuccess, sendError } from '../../../utils/response-handler';
+import { allowPublic } from '../../../middleware/policy';
+import { RequestSchemas, validated, ValidatedRequest } from '../../../middleware/validate';
+import { verifyCashfreeSignature, verifyRazorpaySignature } from '../../../middleware/webhook-signature';
+import { getRedisClient } from '../../../utils/redis';
+import { config } from '../../../config';
+import pino from 'pino';
+
+const router = Router();
+const logger = pino({ name: 'payment-webhook-routes' });
+
+const PAYMENT_EVENT_PREFIX = 'webhook:payment:';
+const PROCESSING_MARKER = 'processing';
+
+// Long enough for one Order Service call; a crashed handler frees the event
+const PROCESSING_LOCK_SECONDS = 60;
+
+/**
+ * A payment result in the gateway's terms, whichever provider reported it
+ */
+interface PaymentEvent {
+    /** Unique per delivery of one event; redeliveries repeat it */
+    eventId: string;
+    orderId: number;
+    status: 'SUCCESS' | 'FAILED' | 'PENDING';
+    transactionId?: string;
+    errorMessage?: string;
+}
+
+// =====================================================
+// Zod Validation Schemas
+// =====================================================
+
+const orderId = z.coerce.number().int().positive();
+
+const razorpayEventRequest = {
+    headers: z.object({
+        'x-razorpay-event-id': z.string().min(1, 'Event ID is required'),
+    }),
+    body: z.object({
+        event: z.string().min(1),
+        payload: z.object({
+            payment: z.object({
+                entity: z.object({
+                    id: z.string().min(1),
+                    error_description: z.string().nullish(),
+                    notes: z.object({ order_id: orderId }),
+                }),
+            }),
+        }),
+    }),
+};
+
+const cashfreeEventRequest = {
+    body: z.object({
+        type: z.string().min(1),
+        data: z.object({
+            order: z.object({ order_id: orderId }),
+            payment: z.object({
+                cf_payment_id: z.union([z.string().min(1), z.number()]).transform(String),
+                payment_status: z.string().min(1),
+                payment_message: z.string().nullish(),
+            }),
+        }),
+    }),
+};
+
+// =====================================================
+// Provider Payload Mapping
+// =====================================================
+
+// Razorpay: payment.captured settles the order, payment.failed fails it;
+// payment.authorized and the rest are acknowledged only
+function razorpayEvent(req: ValidatedRequest<typeof razorpayEventRequest>): PaymentEvent {
+    const { event, payload } = req.body;
+    const payment = payload.payment.entity;
+    const statuses: Record<string, PaymentEvent['status']> = {
+        'payment.captured': 'SUCCESS',
+        'payment.failed': 'FAILED',
+    };
+    return {
+        eventId: req.headers['x-razorpay-event-id'],
+        orderId: payment.notes.order_id,
+        status: statuses[event] ?? 'PENDING',
+        transactionId: payment.id,
+        errorMessage: payment.error_description ?? undefined,
+    };
+}
+
+// Cashfree sends no event ID; one event type per payment identifies a delivery
+function cashfreeEvent(req: ValidatedRequest<typeof cashfreeEventRequest>): PaymentEvent {
+    const { type, data } = req.body;
+    const statuses: Record<string, PaymentEvent['status']> = {
+        SUCCESS: 'SUCCESS',
+        FAILED: 'FAILED',
+        USER_DROPPED: 'FAILED',
+        CANCELLED: 'FAILED',
+    };
+    return {
+        eventId: `${type}:${data.payment.cf_payment_id}`,
+        orderId: data.order.order_id,
+        status: statuses[data.payment.payment_status] ?? 'PENDING',
+        transactionId: data.payment.cf_payment_id,
+        errorMessage: data.payment.payment_message ?? undefined,
+    };
+}
+
+interface PaymentEventResult {
+    event_id: string;
+    order_id: number;
+    forwarded: boolean;
+    success?: boolean;
+    message?: string;
+}
+
+// =====================================================
+// Route Handlers
+// =====================================================
+
+/**
+ * POST /v1/webhooks/payments/<provider>
+ *
+ * Forward a signed payment event to the Order Service PaymentCallback.
+ * PENDING events are acknowledged without changing the order.
+ */
+async function handlePaymentEvent(
+    provider: string,
+    event: PaymentEvent,
+    req: ValidatedRequest<RequestSchemas>,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    const correlationId = req.headers['x-request-id'] as string || `req-${Date.now()}`;
+
+    const eventKey = `${PAYMENT_EVENT_PREFIX}${provider}:${event.eventId}`;
+    const redis = getRedisClient();
+
+    try {
+        const claimed = await redis.set(eventKey, PROCESSING_MARKER, 'EX', PROCESSING_LOCK_SECONDS, 'NX');
+        if (claimed !== 'OK') {
+            const stored = await redis.get(eventKey);
+            if (!stored || stored === PROCESSING_MARKER) {
+                // The provider retries; by then the first delivery has finished
+                sendError(res, 409, 'EVENT_IN_PROGRESS', 'Event is already being processed');
+                return;
+            }
+
+            logger.info({ correlationId, provider, eventId: event.eventId }, 'Duplicate payment event');
+            sendSuccess(res, { ...JSON.parse(stored), duplicate: true }, 200, { requestId: correlationId });
+            return;
+        }
+    } catch (error) {
+        next(error);
+        return;
+    }
+
+    try {
+        logger.info(
+            { correlationId, provider, eventId: event.eventId, orderId: event.orderId, status: event.status },
+            'Processing payment event'
+        );
+
+        let result: PaymentEventResult = { event_id: event.eventId, order_id: event.orderId, forwarded: false };
+
+        if (event.status !== 'PENDING') {
+            const response = await orderClient.PaymentCallback(
+                {
+                    order_id: event.orderId,
+                    success: event.status === 'SUCCESS',
+                    transaction_id: event.transactionId,
+                    error_message: event.errorMessage,
+                },
+                { metadata: createMetadata(correlationId) }
+            );
+            result = { ...result, forwarded: true, success: response.success, message: response.message };
+        }
+
+        await redis.set(eventKey, JSON.stringify(result), 'EX', config.paymentWebhooks.eventTtlSeconds);
+        sendSuccess(res, { ...result, duplicate: false }, 200, { requestId: correlationId });
+    } catch (error) {
+        // Release the event so the provider's redelivery is processed
+        await redis.del(eventKey).catch(() => undefined);
+        logger.error({ correlationId, provider, eventId: event.eventId, error }, 'Payment event failed');
+        next(error);
+    }
+}
+
+// =====================================================
+// Route Registration
+// =====================================================
+
+function providerSecret(provider: string): string | undefined {
+    const { secrets } = config.paymentWebhooks;
+    return Object.prototype.hasOwnProperty.call(secrets, provider) ? secrets[provider] : undefined;
+}
+
+/**
+ * Signature check, then the provider's payload parsed and mapped to a payment event
+ */
+function paymentEventRoute<S extends RequestSchemas>(
+    provider: string,
+    verify: RequestHandler,
+    request: S,
+    toEvent: (req: ValidatedRequest<S>) => PaymentEvent
+): RequestHandler[] {
+    return [
+        verify,
+        ...validated(request, (req, res, next) =>
+            handlePaymentEvent(provider, toEvent(req), req as ValidatedRequest<RequestSchemas>, res, next)
+        ),
+    ];
+}
+
+const PAYMENT_PROVIDERS: Record<string, RequestHandler[]> = {
+    razorpay: paymentEventRoute(
+        'razorpay',
+        verifyRazorpaySignature(() => providerSecret('razorpay')),
+        razorpayEventRequest,
+        razorpayEvent
+    ),
+    cashfree: paymentEventRoute(
+        'cashfree',
+        verifyCashfreeSignature(() => providerSecret('cashfree'), config.paymentWebhooks.toleranceSeconds),
+        cashfreeEventRequest,
+        cashfreeEvent
+    ),
+};
+
+// No user token: providers authenticate with their signing secret
+for (const [provider, handlers] of Object.entries(PAYMENT_PROVIDERS)) {
+    router.post(`/${provider}`, allowPublic(), ...handlers);
+}
+
+export default router;
@@ -0,0 +1,60 @@
+/**
+ * API Versions
+ *
+ * Each API version is a route table mounted under its own prefix, so a new
+ * version runs side by side with the ones apps still call. A version brings
+ * its own OpenAPI document and docs page, and a whole version can be marked
+ * deprecated once its successor ships.
+ */
+
+import { Router } from 'express';
+import { rejectIdentityHeaders } from '../middleware/auth';
+import { deprecated } from '../middleware/deprecation';
+import { OpenApiOptions } from '../utils/openapi';
+import { createDocsRouter } from './docs';
+
+export interface ApiVersion extends OpenApiOptions {
+    /** Routers of the version, in mount order */
+    routes: Array<{ path: string; router: Router }>;
+}
+
+/**
+ * Build the router for one API version, to be mounted at its prefix
+ */
+export function createVersionRouter(api: ApiVersion): Router {
+    const router = Router();
+
+    if (api.deprecation) {
+        router.use(deprecated(api.deprecation));
+    }
+
+    // Identity comes from the verified token; refuse client-asserted identity headers
+    router.use(rejectIdentityHeaders);
+
+    for (const { path, router: routes } of api.routes) {
+        router.use(path, routes);
+    }
+
+    // OpenAPI document and docs page, generated from the route table
+    router.use(createDocsRouter(api.routes, api));
+
+    return router;
+}
+
+/**
+ * Mount every API version at its prefix
+ */
+export function createApiRouter(versions: ApiVersion[]): Router {
+    const prefixes = new Set<string>();
+    const router = Router();
+
+    for (const api of versions) {
+        if (prefixes.has(api.prefix)) {
+            throw new Error(`API version prefix ${api.prefix} is mounted twice`);
+        }
+        prefixes.add(api.prefix);
+        router.use(api.prefix, createVersionRouter(api));
+    }
+
+    return router;
+}
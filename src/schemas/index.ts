@@ -1,39 +1,122 @@
 import { z } from 'zod';
 
 export const loginSchema = z.object({
-    body: z.object({
-        phoneNumber: z.string().min(10, 'Phone number must be at least 10 digits'),
-        otp: z.string().length(6, 'OTP must be 6 digits'),
-    }),
+    phoneNumber: z.string().min(10, 'Phone number must be at least 10 digits'),
+    otp: z.string().length(6, 'OTP must be 6 digits'),
 });
 
 export const createOrderSchema = z.object({
-    body: z.object({
-        items: z.array(z.object({
-            productId: z.string(),
-            quantity: z.number().positive(),
-        })).min(1, 'Order must contain at least one item'),
-        deliveryAddressId: z.string(),
-    }),
+    items: z.array(z.object({
+        productId: z.string(),
+        quantity: z.number().positive(),
+    })).min(1, 'Order must contain at least one item'),
+    deliveryAddressId: z.string(),
 });
 
 export const requestOtpSchema = z.object({
-    body: z.object({
-        phoneNumber: z.string().min(10, 'Phone number must be at least 10 digits'),
-    }),
+    phoneNumber: z.string().min(10, 'Phone number must be at least 10 digits'),
 });
 
 // Story 2.2 - Farmer Passwordless Login Schemas
 export const loginRequestOtpSchema = z.object({
-    body: z.object({
-        phone_number: z.string().min(10, 'Phone number must be at least 10 digits'),
-    }),
+    phone_number: z.string().min(10, 'Phone number must be at least 10 digits'),
 });
 
 export const loginVerifyOtpSchema = z.object({
-    body: z.object({
-        phone_number: z.string().min(10, 'Phone number must be at least 10 digits'),
-        otp: z.string().length(6, 'OTP must be 6 digits'),
-        device_id: z.string().min(1, 'Device ID is required'),
+    phone_number: z.string().min(10, 'Phone number must be at least 10 digits'),
+    otp: z.string().length(6, 'OTP must be 6 digits'),
+    device_id: z.string().min(1, 'Device ID is required'),
+});
+
+export const refreshTokenSchema = z.object({
+    refresh_token: z.string().min(1, 'Refresh token is required'),
+});
+
+// Story 2.1 - Farmer Onboarding Schemas
+
+// PIN login runs before the farmer has a token, so the user is named in the body
+const onboardingUserId = z.union([z.string().min(1), z.number().int().positive()], 'User ID is required');
+
+export const createFarmerProfileSchema = z.object({
+    full_name: z.string().min(1, 'Full name is required'),
+    village: z.string().optional(),
+    taluk: z.string().optional(),
+    district: z.string().min(1, 'District is required'),
+    state: z.string().min(1, 'State is required'),
+    pincode: z.string().optional(),
+});
+
+export const updateFarmerProfileSchema = z.object({
+    full_name: z.string().optional(),
+    village: z.string().optional(),
+    taluk: z.string().optional(),
+    district: z.string().optional(),
+    state: z.string().optional(),
+    pincode: z.string().optional(),
+});
+
+export const farmProfileSchema = z.object({
+    farm_size: z.union([z.string().min(1), z.number().positive()], 'Farm size is required'),
+    farming_types: z.array(z.string()).optional(),
+    main_crops: z.array(z.string()).optional(),
+});
+
+export const paymentDetailsSchema = z.object({
+    payment_type: z.string().min(1, 'Payment type is required'),
+    upi_id: z.string().optional(),
+    bank_account: z.string().optional(),
+    ifsc_code: z.string().optional(),
+    bank_name: z.string().optional(),
+});
+
+export const verifyUpiSchema = z.object({
+    upi_id: z.string().min(1, 'UPI ID is required'),
+});
+
+export const setPinSchema = z.object({
+    pin: z.string().regex(/^\d{4}$/, 'PIN must be exactly 4 digits'),
+});
+
+export const loginPinSchema = z.object({
+    user_id: onboardingUserId,
+    pin: z.string().min(1, 'PIN is required'),
+    device_id: z.string().optional(),
+});
+
+// Story 2.3 - Buyer Business Account Schemas
+export const buyerRegisterSchema = z.object({
+    business_name: z.string().min(1, 'Business name is required'),
+    business_type: z.string().min(1, 'Business type is required'),
+    email: z.string().min(1, 'Email is required'),
+    password: z.string().min(1, 'Password is required'),
+    mobile_number: z.string().min(1, 'Mobile number is required'),
+    gst_number: z.string().optional(),
+});
+
+export const buyerVerifyOtpSchema = z.object({
+    mobile_number: z.string().min(1, 'Mobile number is required'),
+    otp: z.string().min(1, 'OTP is required'),
+    address: z.object({
+        address_line1: z.string().min(1, 'Address line 1 is required'),
+        address_line2: z.string().optional(),
+        city: z.string().min(1, 'City is required'),
+        state: z.string().min(1, 'State is required'),
+        pincode: z.string().min(1, 'Pincode is required'),
+        latitude: z.number().optional(),
+        longitude: z.number().optional(),
     }),
 });
+
+export const buyerLoginSchema = z.object({
+    email: z.string().min(1, 'Email is required'),
+    password: z.string().min(1, 'Password is required'),
+});
+
+export const forgotPasswordSchema = z.object({
+    email: z.string().min(1, 'Email is required'),
+});
+
+export const resetPasswordSchema = z.object({
+    token: z.string().min(1, 'Token is required'),
+    password: z.string().min(1, 'Password is required'),
+});
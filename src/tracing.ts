@@ -2,12 +2,14 @@
  * OpenTelemetry Tracing Configuration for Gateway
  * Configured for SigNoz integration (Story 1.8)
  */
-import { NodeSDK } from '@opentelemetry/sdk-node';
+import { NodeSDK, tracing } from '@opentelemetry/sdk-node';
 import { getNodeAutoInstrumentations } from '@opentelemetry/auto-instrumentations-node';
 import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
 import { resourceFromAttributes } from '@opentelemetry/resources';
 import { SEMRESATTRS_SERVICE_NAME, SEMRESATTRS_SERVICE_VERSION, SEMRESATTRS_DEPLOYMENT_ENVIRONMENT } from '@opentelemetry/semantic-conventions';
+import { config } from './config';
 import { logger } from './utils/logger';
+import { createSampler, ErrorSamplingSpanProcessor } from './utils/trace-sampling';
 
 const SERVICE_NAME = process.env.SERVICE_NAME || 'cropfresh-service-gateway';
 const SERVICE_VERSION = process.env.SERVICE_VERSION || '1.0.0';
@@ -22,21 +24,25 @@ const sdk = new NodeSDK({
         [SEMRESATTRS_SERVICE_VERSION]: SERVICE_VERSION,
         [SEMRESATTRS_DEPLOYMENT_ENVIRONMENT]: ENVIRONMENT,
     }),
-    traceExporter: new OTLPTraceExporter({
-        url: OTEL_ENDPOINT,
-    }),
+    sampler: createSampler(config.tracing),
+    spanProcessors: [
+        new ErrorSamplingSpanProcessor(new tracing.BatchSpanProcessor(new OTLPTraceExporter({
+            url: OTEL_ENDPOINT,
+        }))),
+    ],
     instrumentations: [
         getNodeAutoInstrumentations({
             '@opentelemetry/instrumentation-http': { enabled: true },
             '@opentelemetry/instrumentation-express': { enabled: true },
-            '@opentelemetry/instrumentation-grpc': { enabled: true },
+            // Client spans come from the telemetry interceptor in GrpcClientFactory
+            '@opentelemetry/instrumentation-grpc': { enabled: false },
         }),
     ],
 });
 
 try {
     sdk.start();
-    logger.info({ serviceName: SERVICE_NAME, endpoint: OTEL_ENDPOINT }, 'OpenTelemetry tracing initialized');
+    logger.info({ serviceName: SERVICE_NAME, endpoint: OTEL_ENDPOINT, ...config.tracing }, 'OpenTelemetry tracing initialized');
 } catch (error) {
     logger.error(error, 'Error initializing OpenTelemetry tracing');
 }
@@ -0,0 +1,154 @@
+/**
+ * Partner API Key Store
+ *
+ * API keys let a buyer organisation's ERP call the buyer APIs without a
+ * human login. Keys are created and revoked by the organisation's team
+ * admins and act on behalf of the admin who created them.
+ *
+ * Only a SHA-256 hash of each key is stored; the plain key is returned once,
+ * at creation. Records live in Redis:
+ * - apikey:hash:<sha256>  -> key ID
+ * - apikey:key:<id>       -> key record (JSON)
+ * - apikey:org:<orgId>    -> set of the organisation's key IDs
+ * - apikey:used:<id>      -> last use timestamp
+ * - apikey:creator:<id>   -> set while the creator is confirmed as an admin
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { getRedisClient } from './redis';
+
+const API_KEY_PREFIX = 'apikey:';
+const KEY_PREFIX = 'cfk_live_';
+
+export interface ApiKeyRecord {
+    id: string;
+    buyerOrgId: number;
+    name: string;
+    scopes: string[];
+    /** First characters of the key, to tell keys apart in listings */
+    prefix: string;
+    /** Team admin who created the key; requests act as this user */
+    createdBy: number;
+    createdAt: string;
+    rateLimitPerMinute: number;
+}
+
+export interface ApiKeySummary extends ApiKeyRecord {
+    lastUsedAt: string | null;
+}
+
+function hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+}
+
+const hashIndexKey = (hash: string) => `${API_KEY_PREFIX}hash:${hash}`;
+const recordKey = (id: string) => `${API_KEY_PREFIX}key:${id}`;
+const orgIndexKey = (buyerOrgId: number) => `${API_KEY_PREFIX}org:${buyerOrgId}`;
+const lastUsedKey = (id: string) => `${API_KEY_PREFIX}used:${id}`;
+const creatorConfirmedKey = (id: string) => `${API_KEY_PREFIX}creator:${id}`;
+
+/**
+ * Create a key. The returned plain key cannot be recovered later.
+ */
+export async function createApiKey(
+    fields: Omit<ApiKeyRecord, 'id' | 'prefix' | 'createdAt'>
+): Promise<{ key: string; record: ApiKeyRecord }> {
+    const key = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const hash = hashKey(key);
+    const record: ApiKeyRecord = {
+        ...fields,
+        id: randomBytes(8).toString('hex'),
+        prefix: key.slice(0, KEY_PREFIX.length + 6),
+        createdAt: new Date().toISOString(),
+    };
+
+    const redis = getRedisClient();
+    await redis.set(recordKey(record.id), JSON.stringify({ ...record, hash }));
+    await redis.set(hashIndexKey(hash), record.id);
+    await redis.sadd(orgIndexKey(record.buyerOrgId), record.id);
+
+    return { key, record };
+}
+
+async function getStoredRecord(id: string): Promise<(ApiKeyRecord & { hash: string }) | null> {
+    const stored = await getRedisClient().get(recordKey(id));
+    return stored ? JSON.parse(stored) : null;
+}
+
+/**
+ * Look up the record for a presented key
+ */
+export async function resolveApiKey(key: string): Promise<ApiKeyRecord | null> {
+    if (!key.startsWith(KEY_PREFIX)) {
+        return null;
+    }
+
+    const id = await getRedisClient().get(hashIndexKey(hashKey(key)));
+    if (!id) {
+        return null;
+    }
+
+    const stored = await getStoredRecord(id);
+    if (!stored) {
+        return null;
+    }
+    const { hash: _hash, ...record } = stored;
+    return record;
+}
+
+/**
+ * Record that a key was just used
+ */
+export async function touchApiKey(id: string): Promise<void> {
+    await getRedisClient().set(lastUsedKey(id), new Date().toISOString());
+}
+
+/**
+ * Whether the key's creator was recently confirmed as an active team admin
+ */
+export async function isCreatorConfirmed(id: string): Promise<boolean> {
+    return (await getRedisClient().exists(creatorConfirmedKey(id))) > 0;
+}
+
+/**
+ * Remember for a while that the key's creator is still an active team admin
+ */
+export async function confirmCreator(id: string, ttlSeconds: number): Promise<void> {
+    await getRedisClient().set(creatorConfirmedKey(id), '1', 'EX', ttlSeconds);
+}
+
+/**
+ * List an organisation's keys, without secrets
+ */
+export async function listApiKeys(buyerOrgId: number): Promise<ApiKeySummary[]> {
+    const redis = getRedisClient();
+    const ids = await redis.smembers(orgIndexKey(buyerOrgId));
+
+    const summaries = await Promise.all(ids.map(async (id) => {
+        const stored = await getStoredRecord(id);
+        if (!stored) {
+            return null;
+        }
+        const { hash: _hash, ...record } = stored;
+        return { ...record, lastUsedAt: await redis.get(lastUsedKey(id)) };
+    }));
+
+    return summaries
+        .filter((summary): summary is ApiKeySummary => summary !== null)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Revoke a key of the organisation. Returns false if it has no such key.
+ */
+export async function revokeApiKey(buyerOrgId: number, id: string): Promise<boolean> {
+    const stored = await getStoredRecord(id);
+    if (!stored || stored.buyerOrgId !== buyerOrgId) {
+        return false;
+    }
+
+    const redis = getRedisClient();
+    await redis.del(hashIndexKey(stored.hash), recordKey(id), lastUsedKey(id), creatorConfirmedKey(id));
+    await redis.srem(orgIndexKey(buyerOrgId), id);
+    return true;
+}
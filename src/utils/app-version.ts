@@ -0,0 +1,37 @@
+import { Request } from 'express';
+
+export const APP_VERSION_HEADER = 'x-app-version';
+
+/**
+ * Version of the mobile app making the request, from X-App-Version
+ */
+export function appVersion(req: Request): string | undefined {
+    const value = req.headers[APP_VERSION_HEADER];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Whether a value is a dotted numeric version, optionally with a pre-release
+ * or build suffix, e.g. "3.2.0" or "3.2.0-beta.1"
+ */
+export function isAppVersion(value: string): boolean {
+    return /^\d+(\.\d+)*([-+][0-9A-Za-z.+-]*)?$/.test(value);
+}
+
+/**
+ * Compare dotted numeric versions, e.g. "2.10.0" > "2.9.3"; a pre-release
+ * or build suffix is ignored
+ *
+ * @returns negative, zero or positive as `a` is older, equal or newer
+ */
+export function compareVersions(a: string, b: string): number {
+    const parts = (version: string) => version.split(/[-+]/)[0].split('.').map((part) => parseInt(part, 10) || 0);
+    const [left, right] = [parts(a), parts(b)];
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const diff = (left[i] ?? 0) - (right[i] ?? 0);
+        if (diff !== 0) {
+            return diff;
+        }
+    }
+    return 0;
+}
@@ -0,0 +1,137 @@
+/**
+ * JWKS Key Store
+ *
+ * Caches the auth-service public signing keys from a JWKS document, which can
+ * be served over HTTP or read from a local file. Keys are selected by `kid`.
+ *
+ * Rotation:
+ * - The document is refreshed every `refreshIntervalMs`, and early (at most
+ *   once per `minRefreshIntervalMs`) when a token names an unknown `kid`.
+ * - A key that disappears from the document is retired, not dropped: tokens
+ *   it signed are accepted for `retiredKeyGraceMs` so they can expire naturally.
+ * - If a refresh fails, the cached keys stay in use.
+ */
+
+import { createPublicKey, KeyObject, JsonWebKey } from 'crypto';
+import { promises as fs } from 'fs';
+import { logger } from './logger';
+
+export interface JwksKeyStoreOptions {
+    refreshIntervalMs: number;
+    retiredKeyGraceMs: number;
+    minRefreshIntervalMs?: number;
+    fetchTimeoutMs?: number;
+}
+
+interface CachedKey {
+    key: KeyObject;
+    alg?: string;
+    retiredAt?: number;
+}
+
+interface JwksDocument {
+    keys?: Array<JsonWebKey & { kid?: string; alg?: string; use?: string }>;
+}
+
+export class JwksKeyStore {
+    private keys = new Map<string, CachedKey>();
+    private lastRefreshAt = 0;
+    private refreshing: Promise<void> | null = null;
+
+    constructor(
+        private readonly source: string,
+        private readonly options: JwksKeyStoreOptions
+    ) {}
+
+    /**
+     * Resolve the public key for a `kid`, or null if it is unknown or retired
+     * beyond the grace period
+     */
+    async getKey(kid: string | undefined): Promise<{ key: KeyObject; alg?: string } | null> {
+        if (!kid) {
+            return null;
+        }
+
+        const now = Date.now();
+        if (now - this.lastRefreshAt >= this.options.refreshIntervalMs) {
+            await this.refresh();
+        } else if (!this.keys.has(kid)
+            && now - this.lastRefreshAt >= (this.options.minRefreshIntervalMs ?? 30000)) {
+            // Unknown kid: the auth-service may have just rotated
+            await this.refresh();
+        }
+
+        const cached = this.keys.get(kid);
+        if (!cached || this.isExpired(cached, Date.now())) {
+            return null;
+        }
+        return { key: cached.key, alg: cached.alg };
+    }
+
+    /**
+     * Reload the JWKS document. Concurrent callers share one load.
+     */
+    refresh(): Promise<void> {
+        if (!this.refreshing) {
+            this.refreshing = this.load()
+                .catch((err) => {
+                    logger.error({ err, source: this.source }, 'JWKS refresh failed, keeping cached keys');
+                })
+                .finally(() => {
+                    this.lastRefreshAt = Date.now();
+                    this.refreshing = null;
+                });
+        }
+        return this.refreshing;
+    }
+
+    private isExpired(cached: CachedKey, now: number): boolean {
+        return cached.retiredAt !== undefined && now - cached.retiredAt > this.options.retiredKeyGraceMs;
+    }
+
+    private async load(): Promise<void> {
+        const document = await this.fetchDocument();
+        const now = Date.now();
+        const published = new Set<string>();
+
+        for (const jwk of document.keys || []) {
+            if (!jwk.kid || jwk.use === 'enc') {
+                continue;
+            }
+            try {
+                const key = createPublicKey({ key: jwk, format: 'jwk' });
+                this.keys.set(jwk.kid, { key, alg: jwk.alg });
+                published.add(jwk.kid);
+            } catch (err) {
+                logger.warn({ err, kid: jwk.kid }, 'Skipping unusable JWKS key');
+            }
+        }
+
+        for (const [kid, cached] of this.keys) {
+            if (published.has(kid)) {
+                continue;
+            }
+            if (cached.retiredAt === undefined) {
+                cached.retiredAt = now;
+                logger.info({ kid }, 'JWKS key retired');
+            } else if (this.isExpired(cached, now)) {
+                this.keys.delete(kid);
+            }
+        }
+    }
+
+    private async fetchDocument(): Promise<JwksDocument> {
+        if (/^https?:\/\//.test(this.source)) {
+            const response = await fetch(this.source, {
+                signal: AbortSignal.timeout(this.options.fetchTimeoutMs ?? 5000),
+            });
+            if (!response.ok) {
+                throw new Error(`JWKS request failed with status ${response.status}`);
+            }
+            return await response.json() as JwksDocument;
+        }
+
+        const filePath = this.source.replace(/^file:\/\//, '');
+        return JSON.parse(await fs.readFile(filePath, 'utf8')) as JwksDocument;
+    }
+}
@@ -1,8 +1,21 @@
 import pino from 'pino';
 import { AsyncLocalStorage } from 'async_hooks';
+import type { Request } from 'express';
+
+export interface RequestContext {
+    traceId: string;
+    /** Set when a downstream call was rejected by an open circuit breaker */
+    circuitOpen?: { service: string; retryAfterSeconds: number };
+    /** Epoch ms by which downstream calls for this request must finish */
+    deadline?: number;
+    /** Aborted when the client disconnects from a read before the response is sent */
+    signal?: AbortSignal;
+    /** The inbound HTTP request, so downstream calls can be labelled with its route */
+    request?: Request;
+}
 
 // Create AsyncLocalStorage for trace ID context
-export const asyncLocalStorage = new AsyncLocalStorage<{ traceId: string }>();
+export const asyncLocalStorage = new AsyncLocalStorage<RequestContext>();
 
 const transport = process.env.NODE_ENV !== 'production'
     ? {
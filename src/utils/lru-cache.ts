@@ -0,0 +1,60 @@
+/**
+ * LRU Cache
+ *
+ * Small in-process cache with a size bound and optional per-entry expiry.
+ * Relies on Map preserving insertion order: the first key is the least
+ * recently used one.
+ */
+
+interface LruEntry<V> {
+    value: V;
+    expiresAt?: number;
+}
+
+export class LruCache<V> {
+    private entries = new Map<string, LruEntry<V>>();
+
+    constructor(private readonly maxEntries: number) {}
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    get(key: string): V | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+        if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+
+        // Mark as most recently used
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    has(key: string): boolean {
+        return this.get(key) !== undefined;
+    }
+
+    set(key: string, value: V, expiresAt?: number): void {
+        this.entries.delete(key);
+        this.entries.set(key, { value, expiresAt });
+
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value as string;
+            this.entries.delete(oldest);
+        }
+    }
+
+    delete(key: string): boolean {
+        return this.entries.delete(key);
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+}
@@ -0,0 +1,263 @@
+/**
+ * OpenAPI Document
+ *
+ * Generates an OpenAPI 3.1 document from the route table itself: paths and
+ * methods from the mounted routers, parameters and request bodies from each
+ * route's validate() schemas, security from its access policy, deprecation
+ * from deprecated(), and error responses from the envelope and the gRPC error catalog. Nothing is written
+ * by hand, so the document cannot drift from what the gateway enforces.
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { getPolicyTag, AccessPolicy } from '../middleware/policy';
+import { getRequestSchemas, RequestSchemas } from '../middleware/validate';
+import { apiKeyAuth, API_KEY_HEADER } from '../middleware/api-key';
+import { getDeprecation, Deprecation } from '../middleware/deprecation';
+import { GRPC_ERROR_CATALOG } from '../grpc/errors';
+import { collectRoutes, RouteEntry } from './route-table';
+
+type JsonSchema = Record<string, any>;
+
+export interface OpenApiOptions {
+    /** Prefix the routers are mounted under, e.g. /v1 */
+    prefix: string;
+    /** Version of the API the document describes */
+    version: string;
+    /** Set when the whole version is deprecated */
+    deprecation?: Deprecation;
+}
+
+// Errors the gateway itself answers with, besides those mapped from gRPC
+const GATEWAY_ERRORS: Array<{ status: number; code: string }> = [
+    { status: 400, code: 'VALIDATION_ERROR' },
+    { status: 401, code: 'UNAUTHORIZED' },
+    { status: 403, code: 'FORBIDDEN' },
+    { status: 429, code: 'RATE_LIMITED' },
+];
+
+// Statuses only protected routes answer with
+const AUTH_STATUSES = new Set([401, 403]);
+
+// OK is no error, and a cancelled request has no client left to answer
+const UNANSWERED_STATUSES = new Set([200, 499]);
+
+const STATUS_DESCRIPTIONS: Record<number, string> = {
+    400: 'Bad request',
+    401: 'Missing or invalid credentials',
+    403: 'Caller may not access this resource',
+    404: 'Not found',
+    409: 'Conflicts with the current state of the resource',
+    429: 'Too many requests',
+    500: 'Internal error',
+    501: 'Not implemented',
+    503: 'Service unavailable',
+    504: 'Upstream service timed out',
+};
+
+/**
+ * Error codes for each HTTP status the gateway answers with
+ */
+function errorCodesByStatus(): Map<number, string[]> {
+    const codes = new Map<number, string[]>();
+    const entries = [...GATEWAY_ERRORS, ...Object.values(GRPC_ERROR_CATALOG)]
+        .filter(({ status }) => !UNANSWERED_STATUSES.has(status));
+    for (const { status, code } of entries) {
+        const list = codes.get(status) ?? [];
+        if (!list.includes(code)) list.push(code);
+        codes.set(status, list);
+    }
+    return new Map([...codes].sort(([a], [b]) => a - b));
+}
+
+function toJsonSchema(schema: z.ZodType): JsonSchema {
+    // Requests are documented as clients send them, before coercions and defaults apply
+    const { $schema: _dialect, ...jsonSchema } = z.toJSONSchema(schema, { io: 'input', unrepresentable: 'any' });
+    return jsonSchema;
+}
+
+// /farmers/listings/:id -> /farmers/listings/{id}
+function toOpenApiPath(path: string): string {
+    return path.replace(/:(\w+)/g, '{$1}');
+}
+
+// POST /v1/farmers/listings/:id/grade -> postFarmersListingsByIdGrade
+function operationId(method: string, path: string, prefix: string): string {
+    const words = path.slice(prefix.length).split('/').filter(Boolean)
+        .map((segment) => (segment.startsWith(':') ? `by-${segment.slice(1)}` : segment))
+        .flatMap((segment) => segment.split(/[-_]/))
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1));
+    return `${method.toLowerCase()}${words.join('')}`;
+}
+
+function parameters(schemas: RequestSchemas): JsonSchema[] {
+    const locations = [['params', 'path'], ['query', 'query'], ['headers', 'header']] as const;
+    return locations.flatMap(([part, location]) => {
+        const schema = schemas[part];
+        if (!schema) return [];
+
+        const { properties = {}, required = [] } = toJsonSchema(schema);
+        return Object.entries(properties as Record<string, JsonSchema>).map(([name, property]) => {
+            const { description, ...propertySchema } = property;
+            return {
+                name,
+                in: location,
+                required: location === 'path' || required.includes(name),
+                ...(description && { description }),
+                schema: propertySchema,
+            };
+        });
+    });
+}
+
+function security(handlers: unknown[], isPublic: boolean): JsonSchema[] {
+    if (isPublic) return [];
+    const schemes: JsonSchema[] = [{ bearerAuth: [] }];
+    if (handlers.includes(apiKeyAuth)) schemes.push({ apiKey: [] });
+    return schemes;
+}
+
+function operation(route: RouteEntry, options: OpenApiOptions, errorStatuses: number[]): JsonSchema {
+    const schemas: RequestSchemas = {};
+    const policies: AccessPolicy[] = [];
+    let markedPublic = false;
+    let deprecation = options.deprecation;
+    for (const handler of route.handlers) {
+        Object.assign(schemas, getRequestSchemas(handler));
+        deprecation = getDeprecation(handler) ?? deprecation;
+        const tag = getPolicyTag(handler);
+        if (tag?.public) markedPublic = true;
+        if (tag && !tag.public) policies.push(tag.policy);
+    }
+    const isPublic = markedPublic && policies.length === 0;
+
+    const errorResponses = errorStatuses
+        .filter((status) => !(isPublic && AUTH_STATUSES.has(status)))
+        .map((status) => [String(status), { $ref: `#/components/responses/Error${status}` }]);
+
+    return {
+        operationId: operationId(route.method, route.path, options.prefix),
+        tags: [route.mountPath.replace(/^\//, '')],
+        parameters: parameters(schemas),
+        ...(schemas.body && {
+            requestBody: {
+                required: true,
+                content: { 'application/json': { schema: toJsonSchema(schemas.body) } },
+            },
+        }),
+        security: security(route.handlers, isPublic),
+        ...(policies.length > 0 && { 'x-access-policies': policies }),
+        ...(deprecation && { deprecated: true, 'x-deprecation': deprecation }),
+        responses: {
+            '2XX': { $ref: '#/components/responses/Success' },
+            ...Object.fromEntries(errorResponses),
+        },
+    };
+}
+
+function components(errorCodes: Map<number, string[]>): JsonSchema {
+    const meta = {
+        type: 'object',
+        required: ['timestamp', 'request_id'],
+        properties: {
+            timestamp: { type: 'string', format: 'date-time' },
+            request_id: { type: 'string', description: 'Trace ID of the request, also sent as X-Trace-ID' },
+        },
+    };
+
+    return {
+        securitySchemes: {
+            bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+            apiKey: { type: 'apiKey', in: 'header', name: API_KEY_HEADER },
+        },
+        schemas: {
+            SuccessResponse: {
+                type: 'object',
+                required: ['data', 'meta', 'error'],
+                properties: {
+                    data: {},
+                    meta,
+                    error: { type: 'null' },
+                },
+            },
+            FieldViolation: {
+                type: 'object',
+                required: ['field', 'description'],
+                properties: {
+                    field: { type: 'string', description: 'Dotted path of the offending field' },
+                    description: { type: 'string' },
+                },
+            },
+            ErrorResponse: {
+                type: 'object',
+                required: ['data', 'meta', 'error'],
+                properties: {
+                    data: { type: 'null' },
+                    meta,
+                    error: {
+                        type: 'object',
+                        required: ['code', 'message'],
+                        properties: {
+                            code: {
+                                type: 'string',
+                                description: 'Gateway error code, or the backend\'s reason when it gives one',
+                            },
+                            message: { type: 'string' },
+                            details: {
+                                type: 'object',
+                                properties: {
+                                    field_violations: {
+                                        type: 'array',
+                                        items: { $ref: '#/components/schemas/FieldViolation' },
+                                    },
+                                },
+                                additionalProperties: true,
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        responses: {
+            Success: {
+                description: 'Success',
+                content: { 'application/json': { schema: { $ref: '#/components/schemas/SuccessResponse' } } },
+            },
+            ...Object.fromEntries([...errorCodes].map(([status, codes]) => [`Error${status}`, {
+                description: `${STATUS_DESCRIPTIONS[status] ?? 'Error'}: ${codes.join(', ')}`,
+                content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } },
+            }])),
+        },
+    };
+}
+
+/**
+ * Build the OpenAPI document for a set of mounted routers
+ */
+export function buildOpenApiDocument(
+    mounts: Array<{ path: string; router: Router }>,
+    options: OpenApiOptions
+): JsonSchema {
+    const errorCodes = errorCodesByStatus();
+    const errorStatuses = [...errorCodes.keys()];
+
+    const paths: Record<string, Record<string, JsonSchema>> = {};
+    for (const route of collectRoutes(mounts, options.prefix)) {
+        const path = toOpenApiPath(route.path);
+        paths[path] = { ...paths[path], [route.method.toLowerCase()]: operation(route, options, errorStatuses) };
+    }
+
+    return {
+        openapi: '3.1.0',
+        info: {
+            title: 'CropFresh API Gateway',
+            version: options.version,
+            description: 'Every response uses the `{ data, meta, error }` envelope. '
+                + 'While a cut-over version is configured, some routers answer requests whose X-App-Version '
+                + 'is below it, missing or unreadable in their older shapes. '
+                + 'Deprecated operations answer with Deprecation, Sunset and Link headers.',
+        },
+        paths,
+        components: components(errorCodes),
+    };
+}
@@ -0,0 +1,41 @@
+/**
+ * Shared Redis Client
+ *
+ * One lazily connected client for the gateway's Redis-backed state: token
+ * blacklist, refresh tokens and other short-lived keys shared with the
+ * auth-service.
+ */
+
+import { Redis } from 'ioredis';
+import { config } from '../config';
+import { logger } from './logger';
+
+let redisClient: Redis | null = null;
+
+/**
+ * Get or create the shared Redis client
+ */
+export function getRedisClient(): Redis {
+    if (!redisClient) {
+        redisClient = new Redis(config.redisUrl, {
+            enableOfflineQueue: true,
+            maxRetriesPerRequest: 3,
+            lazyConnect: true,
+        });
+
+        redisClient.on('error', (err) => {
+            logger.error({ err }, 'Redis connection error');
+        });
+    }
+    return redisClient;
+}
+
+/**
+ * Close the Redis connection gracefully
+ */
+export async function closeRedis(): Promise<void> {
+    if (redisClient) {
+        await redisClient.quit();
+        redisClient = null;
+    }
+}
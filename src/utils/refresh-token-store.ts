@@ -0,0 +1,134 @@
+/**
+ * Refresh Token Store
+ *
+ * Opaque, rotating refresh tokens kept in Redis and tied to an auth-service
+ * session (the session IDs listed by /v1/users/sessions).
+ *
+ * Every refresh consumes the presented token and issues a new one. A token
+ * that is presented again after it was consumed has leaked or is being
+ * replayed, so the whole session family is revoked through the token
+ * blacklist and the caller has to log in again.
+ *
+ * Rotation does not extend the family: every token of a session expires at
+ * the deadline set when the first one was issued at login, so a session
+ * ends `config.jwt.refreshTokenTtlSeconds` after login however often it is
+ * refreshed.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { config } from '../config';
+import { getRedisClient } from './redis';
+import { logger } from './logger';
+import { isSessionRevoked, revokeSession } from '../middleware/token-blacklist';
+
+const REFRESH_TOKEN_PREFIX = 'refresh:token:';
+const REFRESH_TOKEN_USED_PREFIX = 'refresh:used:';
+
+export interface RefreshTokenRecord {
+    userId: number;
+    userType: string;
+    sessionId: number;
+    issuedAt: number;
+    /** When every token of the session family expires (epoch ms) */
+    familyExpiresAt: number;
+}
+
+export interface IssuedRefreshToken {
+    token: string;
+    expiresIn: number;
+}
+
+export type RefreshTokenRotation<T> =
+    | { status: 'rotated'; record: RefreshTokenRecord; accessToken: T; refreshToken: IssuedRefreshToken }
+    | { status: 'invalid' }
+    | { status: 'revoked' }
+    | { status: 'reused'; record: RefreshTokenRecord };
+
+function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issue a new refresh token for a session. Without `familyExpiresAt` this
+ * starts a new family that lasts `config.jwt.refreshTokenTtlSeconds`.
+ */
+export async function issueRefreshToken(
+    subject: Omit<RefreshTokenRecord, 'issuedAt' | 'familyExpiresAt'>,
+    familyExpiresAt?: number
+): Promise<IssuedRefreshToken> {
+    const token = randomBytes(32).toString('base64url');
+    const issuedAt = Date.now();
+    const record: RefreshTokenRecord = {
+        userId: subject.userId,
+        userType: subject.userType,
+        sessionId: subject.sessionId,
+        issuedAt,
+        familyExpiresAt: familyExpiresAt ?? issuedAt + config.jwt.refreshTokenTtlSeconds * 1000,
+    };
+    const ttlSeconds = Math.ceil((record.familyExpiresAt - issuedAt) / 1000);
+
+    await getRedisClient().set(
+        `${REFRESH_TOKEN_PREFIX}${hashToken(token)}`,
+        JSON.stringify(record),
+        'EX',
+        ttlSeconds
+    );
+
+    return { token, expiresIn: ttlSeconds };
+}
+
+/**
+ * Exchange a refresh token for a new access token and refresh token.
+ *
+ * `mintAccessToken` runs before the presented token is consumed, so a failed
+ * mint leaves the token usable for a retry.
+ */
+export async function rotateRefreshToken<T>(
+    token: string,
+    mintAccessToken: (record: RefreshTokenRecord) => Promise<T>
+): Promise<RefreshTokenRotation<T>> {
+    const redis = getRedisClient();
+    const tokenHash = hashToken(token);
+    const ttlSeconds = config.jwt.refreshTokenTtlSeconds;
+
+    const stored = await redis.get(`${REFRESH_TOKEN_PREFIX}${tokenHash}`);
+    if (!stored) {
+        return { status: 'invalid' };
+    }
+    const record = JSON.parse(stored) as RefreshTokenRecord;
+    // A token can outlive its family by the rounding of its Redis TTL
+    if (Date.now() >= record.familyExpiresAt) {
+        return { status: 'invalid' };
+    }
+
+    if (await isSessionRevoked(record.sessionId)) {
+        return { status: 'revoked' };
+    }
+
+    const reuse = async (): Promise<RefreshTokenRotation<T>> => {
+        logger.warn({ userId: record.userId, sessionId: record.sessionId }, 'Refresh token reuse detected');
+        await revokeSession(record.sessionId, ttlSeconds);
+        return { status: 'reused', record };
+    };
+
+    if (await redis.exists(`${REFRESH_TOKEN_USED_PREFIX}${tokenHash}`)) {
+        return reuse();
+    }
+
+    const accessToken = await mintAccessToken(record);
+
+    // Only one caller can consume a token; a concurrent loser is a replay
+    const consumed = await redis.set(
+        `${REFRESH_TOKEN_USED_PREFIX}${tokenHash}`,
+        Date.now().toString(),
+        'EX',
+        ttlSeconds,
+        'NX'
+    );
+    if (consumed !== 'OK') {
+        return reuse();
+    }
+
+    const refreshToken = await issueRefreshToken(record, record.familyExpiresAt);
+    return { status: 'rotated', record, accessToken, refreshToken };
+}
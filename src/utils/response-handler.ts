@@ -1,4 +1,24 @@
-import { Response } from 'express';
+/**
+ * Response Envelope
+ *
+ * Every route answers through sendSuccess/sendError, so clients always get
+ * `{ data, meta: { timestamp, request_id }, error }`. Validation failures,
+ * the gateway's own and those a backend reports, carry the same
+ * `details.field_violations` list.
+ *
+ * Routers that predate the envelope declare their old shape with
+ * legacyResponses(); while apps migrate, requests whose X-App-Version is
+ * below the configured cut-over are answered in that shape instead, as are
+ * requests with a missing or unreadable X-App-Version, since apps that
+ * predate the header predate the envelope too. With no cut-over, every
+ * request gets the envelope.
+ */
+
+import { Request, RequestHandler, Response } from 'express';
+import { ZodError } from 'zod';
+import { config } from '../config';
+import { appVersion, compareVersions, isAppVersion } from './app-version';
+import { resolveTraceId } from './trace-context';
 
 export interface StandardResponse<T> {
     data: T;
@@ -23,14 +43,72 @@ export interface ErrorResponse {
     };
 }
 
+export interface FieldViolation {
+    /** Dotted path of the offending field, e.g. "farmer_location.latitude" */
+    field: string;
+    description: string;
+}
+
+/**
+ * Response shapes of routers that predate the envelope:
+ * - "status-flag": `{ success: true, message?, data }` and
+ *   `{ success: false, error: CODE, message, ...details }`
+ * - "bare": the data itself, and `{ error: message, details? }`
+ */
+export type LegacyResponseFormat = 'status-flag' | 'bare';
+
+const LEGACY_FORMAT_KEY = 'legacyResponseFormat';
+
+// Request parts the route schemas wrap fields in, e.g. z.object({ body: ... })
+const REQUEST_PARTS = new Set(['body', 'query', 'params', 'headers']);
+
+/**
+ * Request ID of the response; assigned here if no middleware has yet
+ */
+function requestId(res: Response): string {
+    let traceId = (res.getHeader('X-Trace-ID') as string) || (res.req?.headers['x-trace-id'] as string);
+    if (!traceId) {
+        traceId = resolveTraceId(res.req);
+        res.setHeader('X-Trace-ID', traceId);
+    }
+    return traceId;
+}
+
+function wantsLegacyResponse(req: Request): boolean {
+    const { envelopeMinAppVersion } = config.responses;
+    if (!envelopeMinAppVersion) {
+        return false;
+    }
+    const version = appVersion(req);
+    return !version || !isAppVersion(version) || compareVersions(version, envelopeMinAppVersion) < 0;
+}
+
+/**
+ * Answer older apps on this router in the shape it used before the envelope
+ */
+export const legacyResponses = (format: LegacyResponseFormat): RequestHandler => (req, res, next) => {
+    if (wantsLegacyResponse(req)) {
+        res.locals[LEGACY_FORMAT_KEY] = format;
+    }
+    next();
+};
+
 export const sendSuccess = <T>(res: Response, data: T, statusCode: number = 200, meta: Record<string, any> = {}) => {
-    const traceId = res.getHeader('X-Trace-ID') as string;
+    const legacyFormat: LegacyResponseFormat | undefined = res.locals[LEGACY_FORMAT_KEY];
+    if (legacyFormat === 'bare') {
+        res.status(statusCode).json(data);
+        return;
+    }
+    if (legacyFormat === 'status-flag') {
+        res.status(statusCode).json({ success: true, ...(meta.message && { message: meta.message }), data });
+        return;
+    }
 
     const response: StandardResponse<T> = {
         data,
         meta: {
             timestamp: new Date().toISOString(),
-            request_id: traceId,
+            request_id: requestId(res),
             ...meta,
         },
         error: null,
@@ -46,13 +124,21 @@ export const sendError = (
     message: string,
     details?: Record<string, any>
 ) => {
-    const traceId = res.getHeader('X-Trace-ID') as string;
+    const legacyFormat: LegacyResponseFormat | undefined = res.locals[LEGACY_FORMAT_KEY];
+    if (legacyFormat === 'bare') {
+        res.status(statusCode).json({ error: message, ...(details && { details }) });
+        return;
+    }
+    if (legacyFormat === 'status-flag') {
+        res.status(statusCode).json({ success: false, error: code, message, ...details });
+        return;
+    }
 
     const response: ErrorResponse = {
         data: null,
         meta: {
             timestamp: new Date().toISOString(),
-            request_id: traceId,
+            request_id: requestId(res),
         },
         error: {
             code,
@@ -63,3 +149,23 @@ export const sendError = (
 
     res.status(statusCode).json(response);
 };
+
+/**
+ * Field violations of a failed zod parse, with paths relative to the
+ * request part they were found in
+ */
+export function fieldViolations(error: ZodError): FieldViolation[] {
+    return error.issues.map((issue) => {
+        const path = issue.path.map(String);
+        if (path.length > 1 && REQUEST_PARTS.has(path[0])) {
+            path.shift();
+        }
+        return { field: path.join('.'), description: issue.message };
+    });
+}
+
+/**
+ * 400 VALIDATION_ERROR listing every field that failed
+ */
+export const sendValidationError = (res: Response, error: ZodError, message = 'Validation failed') =>
+    sendError(res, 400, 'VALIDATION_ERROR', message, { field_violations: fieldViolations(error) });
@@ -0,0 +1,65 @@
+/**
+ * Route Table
+ *
+ * Walks mounted Express routers and lists every route with its full path
+ * and the handlers that run for it: router-level middleware registered
+ * before the route, then the route's own stack. Middleware tagged with a
+ * policy or request schemas can be read back from the handlers, so docs and
+ * tests work from the same declarations the routes enforce.
+ */
+
+import { Router } from 'express';
+
+export interface RouteEntry {
+    method: string;
+    /** Full Express path, e.g. /v1/farmers/listings/:id */
+    path: string;
+    /** Path the route's router is mounted at, without the prefix */
+    mountPath: string;
+    /** Every handler that runs for the route, outermost first */
+    handlers: unknown[];
+}
+
+interface Layer {
+    handle: unknown;
+    route?: {
+        path: string;
+        methods: Record<string, boolean>;
+        stack: Layer[];
+    };
+}
+
+function joinPath(prefix: string, path: string): string {
+    const joined = `${prefix}/${path}`.replace(/\/+/g, '/');
+    return joined.length > 1 ? joined.replace(/\/$/, '') : joined;
+}
+
+/**
+ * List the routes of a set of mounted routers, in mount order
+ */
+export function collectRoutes(mounts: Array<{ path: string; router: Router }>, prefix = ''): RouteEntry[] {
+    const entries: RouteEntry[] = [];
+
+    for (const mount of mounts) {
+        const routerHandlers: unknown[] = [];
+
+        for (const layer of (mount.router as unknown as { stack: Layer[] }).stack) {
+            if (!layer.route) {
+                routerHandlers.push(layer.handle);
+                continue;
+            }
+
+            const handlers = [...routerHandlers, ...layer.route.stack.map((routeLayer) => routeLayer.handle)];
+            for (const method of Object.keys(layer.route.methods)) {
+                entries.push({
+                    method: method.toUpperCase(),
+                    path: joinPath(`${prefix}${mount.path}`, layer.route.path),
+                    mountPath: mount.path,
+                    handlers,
+                });
+            }
+        }
+    }
+
+    return entries;
+}
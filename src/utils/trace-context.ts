@@ -0,0 +1,84 @@
+/**
+ * W3C Trace Context
+ *
+ * The gateway's trace ID is the OpenTelemetry trace ID of the request, so
+ * `trace_id` in logs, the X-Trace-ID header and the exported traces all
+ * agree. Callers continue a trace with a valid `traceparent` (and
+ * `tracestate`); an X-Trace-ID header from the client is not trusted and is
+ * replaced. The gateway continues the trace to backends in the gRPC
+ * metadata, together with baggage describing the caller. Baggage sent by
+ * clients is dropped, so backends only see entries the gateway set.
+ */
+
+import { randomBytes } from 'crypto';
+import { Request, Response } from 'express';
+import { Baggage, Context, isSpanContextValid, isValidSpanId, isValidTraceId, propagation, trace } from '@opentelemetry/api';
+import type { AuthRequest } from '../middleware/auth';
+import { appVersion } from './app-version';
+
+const TRACEPARENT = /^([\da-f]{2})-([\da-f]{32})-([\da-f]{16})-[\da-f]{2}$/;
+
+/** Baggage keys the gateway sets from the authenticated request */
+export const BAGGAGE_KEYS = {
+    userType: 'user.type',
+    zone: 'user.zone',
+    appVersion: 'app.version',
+} as const;
+
+/**
+ * Trace ID of the current request: the active span's when tracing is on,
+ * otherwise the caller's `traceparent` if valid, otherwise a new one
+ */
+export function resolveTraceId(req: Request): string {
+    const spanContext = trace.getActiveSpan()?.spanContext();
+    if (spanContext && isSpanContextValid(spanContext)) {
+        return spanContext.traceId;
+    }
+
+    const traceparent = TRACEPARENT.exec(String(req.headers.traceparent ?? '').trim().toLowerCase());
+    if (traceparent) {
+        const [, version, traceId, parentId] = traceparent;
+        if (version !== 'ff' && isValidTraceId(traceId) && isValidSpanId(parentId)) {
+            return traceId;
+        }
+    }
+
+    return randomBytes(16).toString('hex');
+}
+
+/**
+ * Send `traceparent`/`tracestate` of the request's span back to the caller
+ */
+export function setTraceResponseHeaders(res: Response, ctx: Context): void {
+    const carrier: Record<string, string> = {};
+    propagation.inject(ctx, carrier);
+    for (const header of ['traceparent', 'tracestate']) {
+        if (carrier[header]) {
+            res.setHeader(header, carrier[header]);
+        }
+    }
+}
+
+/**
+ * Replace the baggage in `ctx` with entries describing the caller of `req`.
+ * User entries come from the verified token only; whatever baggage the
+ * client sent is dropped.
+ */
+export function withRequestBaggage(ctx: Context, req: Request | undefined): Context {
+    if (!req) {
+        return propagation.deleteBaggage(ctx);
+    }
+
+    const user = (req as AuthRequest).user;
+    const entries: Array<[string, string | undefined]> = [
+        [BAGGAGE_KEYS.userType, user?.userType],
+        [BAGGAGE_KEYS.zone, user?.zone],
+        [BAGGAGE_KEYS.appVersion, appVersion(req)],
+    ];
+
+    let baggage: Baggage = propagation.createBaggage();
+    for (const [key, value] of entries) {
+        baggage = value ? baggage.setEntry(key, { value }) : baggage;
+    }
+    return propagation.setBaggage(ctx, baggage);
+}
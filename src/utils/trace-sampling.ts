@@ -0,0 +1,97 @@
+/**
+ * Trace Sampling
+ *
+ * New traces are sampled at a configured ratio, and requests continuing a
+ * caller's trace follow the caller's decision. With error sampling on,
+ * spans left out are still recorded, and any that end in error are
+ * exported anyway so failures are never lost to sampling.
+ */
+
+import { Context, SpanStatusCode, TraceFlags } from '@opentelemetry/api';
+import { tracing } from '@opentelemetry/sdk-node';
+
+export interface SamplingOptions {
+    /** Share of new traces sampled, 0-1 */
+    sampleRatio: number;
+    /** Export spans that end in error even when their trace is not sampled */
+    sampleErrors: boolean;
+}
+
+/**
+ * Records spans without sampling them, so errors can be exported on end
+ */
+class RecordOnlySampler implements tracing.Sampler {
+    shouldSample(): tracing.SamplingResult {
+        return { decision: tracing.SamplingDecision.RECORD };
+    }
+
+    toString(): string {
+        return 'RecordOnlySampler';
+    }
+}
+
+/**
+ * Samples at a ratio and hands traces it leaves out to a fallback
+ */
+class RatioSampler implements tracing.Sampler {
+    private readonly ratio: tracing.Sampler;
+
+    constructor(sampleRatio: number, private readonly fallback: tracing.Sampler) {
+        this.ratio = new tracing.TraceIdRatioBasedSampler(sampleRatio);
+    }
+
+    shouldSample(...args: Parameters<tracing.Sampler['shouldSample']>): tracing.SamplingResult {
+        const result = this.ratio.shouldSample(...args);
+        return result.decision === tracing.SamplingDecision.RECORD_AND_SAMPLED
+            ? result
+            : this.fallback.shouldSample(...args);
+    }
+
+    toString(): string {
+        return `RatioSampler{${this.ratio.toString()}, fallback=${this.fallback.toString()}}`;
+    }
+}
+
+/**
+ * Parent-based sampler for the gateway's spans
+ */
+export function createSampler({ sampleRatio, sampleErrors }: SamplingOptions): tracing.Sampler {
+    const notSampled = sampleErrors ? new RecordOnlySampler() : new tracing.AlwaysOffSampler();
+    return new tracing.ParentBasedSampler({
+        root: new RatioSampler(sampleRatio, notSampled),
+        remoteParentNotSampled: notSampled,
+        localParentNotSampled: notSampled,
+    });
+}
+
+/**
+ * Passes sampled spans to `delegate`, and unsampled ones too when they end
+ * in error. Processors downstream only export spans flagged as sampled, so
+ * an error span is passed on with the flag set.
+ */
+export class ErrorSamplingSpanProcessor implements tracing.SpanProcessor {
+    constructor(private readonly delegate: tracing.SpanProcessor) {}
+
+    onStart(span: tracing.Span, parentContext: Context): void {
+        this.delegate.onStart(span, parentContext);
+    }
+
+    onEnd(span: tracing.ReadableSpan): void {
+        const spanContext = span.spanContext();
+        if (spanContext.traceFlags & TraceFlags.SAMPLED) {
+            this.delegate.onEnd(span);
+        } else if (span.status.code === SpanStatusCode.ERROR) {
+            this.delegate.onEnd(Object.create(span, {
+                spanContext: { value: () => ({ ...spanContext, traceFlags: spanContext.traceFlags | TraceFlags.SAMPLED }) },
+            }));
+        }
+    }
+
+    forceFlush(): Promise<void> {
+        return this.delegate.forceFlush();
+    }
+
+    shutdown(): Promise<void> {
+        return this.delegate.shutdown();
+    }
+}
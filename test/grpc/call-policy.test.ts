@@ -0,0 +1,196 @@
+/**
+ * gRPC Call Policy - Unit Tests
+ *
+ * Tests deadlines from the request budget, retries of idempotent reads and
+ * cancellation on client disconnect against a local gRPC server.
+ */
+
+import * as grpc from '@grpc/grpc-js';
+import { EventEmitter } from 'events';
+import { Request, Response } from 'express';
+import { config } from '../../src/config';
+import { callDeadline, callPolicyInterceptor, requestBudget, retryServiceConfig } from '../../src/grpc/call-policy';
+import { asyncLocalStorage, RequestContext } from '../../src/utils/logger';
+
+// Mock logger
+jest.mock('../../src/utils/logger', () => {
+    const { AsyncLocalStorage } = jest.requireActual('async_hooks');
+    return {
+        asyncLocalStorage: new AsyncLocalStorage(),
+        logger: {
+            info: jest.fn(),
+            error: jest.fn(),
+            warn: jest.fn(),
+        },
+    };
+});
+
+// ============================================================================
+// Test Server
+// ============================================================================
+
+const method = (name: string) => ({
+    path: `/test.ThingService/${name}`,
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: Buffer) => value,
+    requestDeserialize: (value: Buffer) => value,
+    responseSerialize: (value: Buffer) => value,
+    responseDeserialize: (value: Buffer) => value,
+});
+
+const serviceDefinition = {
+    GetThing: method('GetThing'),
+    CreateThing: method('CreateThing'),
+};
+
+type Handler = (call: grpc.ServerUnaryCall<Buffer, Buffer>, callback: grpc.sendUnaryData<Buffer>) => void;
+
+const handlers: Record<keyof typeof serviceDefinition, jest.Mock> = {
+    GetThing: jest.fn(),
+    CreateThing: jest.fn(),
+};
+
+const ThingClient = grpc.makeGenericClientConstructor(serviceDefinition, 'ThingService');
+
+let server: grpc.Server;
+let client: grpc.Client;
+
+const call = (name: keyof typeof serviceDefinition) => new Promise<grpc.ServiceError | null>((resolve) => {
+    client.makeUnaryRequest(
+        serviceDefinition[name].path,
+        (value: Buffer) => value,
+        (value: Buffer) => value,
+        Buffer.from('request'),
+        (err: grpc.ServiceError | null) => resolve(err)
+    );
+});
+
+const inRequest = <T>(context: Partial<RequestContext>, fn: () => T): T =>
+    asyncLocalStorage.run({ traceId: 'trace-1', ...context }, fn);
+
+beforeAll(async () => {
+    server = new grpc.Server();
+    server.addService(serviceDefinition, {
+        GetThing: (call: any, callback: any) => (handlers.GetThing as unknown as Handler)(call, callback),
+        CreateThing: (call: any, callback: any) => (handlers.CreateThing as unknown as Handler)(call, callback),
+    });
+    const port = await new Promise<number>((resolve, reject) => {
+        server.bindAsync('127.0.0.1:0', grpc.ServerCredentials.createInsecure(), (err, boundPort) => {
+            return err ? reject(err) : resolve(boundPort);
+        });
+    });
+
+    client = new ThingClient(`127.0.0.1:${port}`, grpc.credentials.createInsecure(), {
+        ...retryServiceConfig(serviceDefinition),
+        interceptors: [callPolicyInterceptor],
+    });
+});
+
+afterAll(() => {
+    client.close();
+    server.forceShutdown();
+});
+
+beforeEach(() => {
+    jest.resetAllMocks();
+});
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('retryServiceConfig', () => {
+    it('should retry reads on UNAVAILABLE', async () => {
+        handlers.GetThing
+            .mockImplementationOnce((_call, callback) => callback({ code: grpc.status.UNAVAILABLE }))
+            .mockImplementationOnce((_call, callback) => callback(null, Buffer.from('ok')));
+
+        const err = await call('GetThing');
+
+        expect(err).toBeNull();
+        expect(handlers.GetThing).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry writes', async () => {
+        handlers.CreateThing.mockImplementation((_call, callback) => callback({ code: grpc.status.UNAVAILABLE }));
+
+        const err = await call('CreateThing');
+
+        expect(err?.code).toBe(grpc.status.UNAVAILABLE);
+        expect(handlers.CreateThing).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only list read methods', () => {
+        const serviceConfig = JSON.parse(retryServiceConfig(serviceDefinition)['grpc.service_config'] as string);
+
+        expect(serviceConfig.methodConfig[0].name).toEqual([{ service: 'test.ThingService', method: 'GetThing' }]);
+    });
+});
+
+describe('callDeadline', () => {
+    it('should use the default deadline outside a request', () => {
+        expect(callDeadline('/test.ThingService/GetThing', 1000)).toBe(1000 + config.grpc.defaultDeadlineMs);
+    });
+
+    it('should use a per-method deadline', () => {
+        config.grpc.methodDeadlinesMs.CreateThing = '250';
+
+        expect(callDeadline('/test.ThingService/CreateThing', 1000)).toBe(1250);
+        delete config.grpc.methodDeadlinesMs.CreateThing;
+    });
+
+    it('should be capped by the request budget', () => {
+        const deadline = inRequest({ deadline: 1100 }, () => callDeadline('/test.ThingService/GetThing', 1000));
+
+        expect(deadline).toBe(1100);
+    });
+});
+
+describe('callPolicyInterceptor', () => {
+    it('should fail with DEADLINE_EXCEEDED when the request budget runs out', async () => {
+        handlers.GetThing.mockImplementation(() => undefined);
+
+        const err = await inRequest({ deadline: Date.now() + 100 }, () => call('GetThing'));
+
+        expect(err?.code).toBe(grpc.status.DEADLINE_EXCEEDED);
+    });
+
+    it('should cancel the call when the client disconnects', async () => {
+        const serverCancelled = new Promise<void>((resolve) => {
+            handlers.CreateThing.mockImplementation((serverCall: grpc.ServerUnaryCall<Buffer, Buffer>) => {
+                serverCall.on('cancelled', () => resolve());
+            });
+        });
+        const controller = new AbortController();
+
+        const pending = inRequest({ signal: controller.signal }, () => call('CreateThing'));
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        controller.abort();
+
+        expect((await pending)?.code).toBe(grpc.status.CANCELLED);
+        await serverCancelled;
+    });
+});
+
+describe('requestBudget', () => {
+    // Runs requestBudget for a request, then the client disconnects mid-response
+    const disconnect = (method: string): AbortSignal | undefined => {
+        const res = Object.assign(new EventEmitter(), { writableFinished: false });
+        const store: RequestContext = { traceId: 'trace-1' };
+
+        asyncLocalStorage.run(store, () => {
+            requestBudget({ method } as Request, res as unknown as Response, jest.fn());
+        });
+        res.emit('close');
+        return store.signal;
+    };
+
+    it('should abort a read\'s calls when the client disconnects', () => {
+        expect(disconnect('GET')?.aborted).toBe(true);
+    });
+
+    it.each(['POST', 'PUT', 'PATCH', 'DELETE'])('should let a %s run to completion', (method) => {
+        expect(disconnect(method)?.aborted).toBe(false);
+    });
+});
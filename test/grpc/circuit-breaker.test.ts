@@ -0,0 +1,240 @@
+/**
+ * Circuit Breaker - Unit Tests
+ *
+ * Tests breaker state transitions, the client interceptor against a local
+ * gRPC server, and the 503 response for requests hitting an open circuit.
+ */
+
+import * as grpc from '@grpc/grpc-js';
+import request from 'supertest';
+import express from 'express';
+import {
+    CircuitBreaker,
+    circuitBreakerInterceptor,
+    circuitOpenResponder,
+} from '../../src/grpc/circuit-breaker';
+import { asyncLocalStorage } from '../../src/utils/logger';
+
+// Mock logger
+jest.mock('../../src/utils/logger', () => {
+    const { AsyncLocalStorage } = jest.requireActual('async_hooks');
+    return {
+        asyncLocalStorage: new AsyncLocalStorage(),
+        logger: {
+            info: jest.fn(),
+            error: jest.fn(),
+            warn: jest.fn(),
+        },
+    };
+});
+
+const settings = { failureThreshold: 3, openMs: 10000 };
+const call = { probe: false };
+
+// ============================================================================
+// Breaker State
+// ============================================================================
+
+describe('CircuitBreaker', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const tripped = () => {
+        const breaker = new CircuitBreaker('order', settings);
+        for (let i = 0; i < settings.failureThreshold; i++) {
+            breaker.record(grpc.status.UNAVAILABLE, breaker.tryAcquire()!);
+        }
+        return breaker;
+    };
+
+    it('should open after consecutive failures and reject calls', () => {
+        const breaker = tripped();
+
+        expect(breaker.getState()).toBe('open');
+        expect(breaker.tryAcquire()).toBeNull();
+        expect(breaker.retryAfterSeconds()).toBe(10);
+    });
+
+    it('should not count business errors as failures', () => {
+        const breaker = new CircuitBreaker('order', settings);
+        for (let i = 0; i < 5; i++) {
+            breaker.record(grpc.status.NOT_FOUND, call);
+        }
+
+        expect(breaker.getState()).toBe('closed');
+    });
+
+    it('should reset the failure count after a success', () => {
+        const breaker = new CircuitBreaker('order', settings);
+        breaker.record(grpc.status.UNAVAILABLE, call);
+        breaker.record(grpc.status.UNAVAILABLE, call);
+        breaker.record(grpc.status.OK, call);
+        breaker.record(grpc.status.UNAVAILABLE, call);
+
+        expect(breaker.getState()).toBe('closed');
+    });
+
+    it('should allow one probe when half-open and close on success', () => {
+        const breaker = tripped();
+        const now = Date.now();
+        jest.spyOn(Date, 'now').mockReturnValue(now + settings.openMs);
+
+        expect(breaker.getState()).toBe('half-open');
+        const probe = breaker.tryAcquire();
+        expect(probe).toEqual({ probe: true });
+        expect(breaker.tryAcquire()).toBeNull();
+
+        breaker.record(grpc.status.OK, probe!);
+        expect(breaker.getState()).toBe('closed');
+    });
+
+    it('should reopen when the probe fails', () => {
+        const breaker = tripped();
+        jest.spyOn(Date, 'now').mockReturnValue(Date.now() + settings.openMs);
+
+        breaker.record(grpc.status.DEADLINE_EXCEEDED, breaker.tryAcquire()!);
+
+        expect(breaker.getState()).toBe('open');
+    });
+
+    it('should not let a call from before the circuit opened decide the probe', () => {
+        const breaker = tripped();
+        jest.spyOn(Date, 'now').mockReturnValue(Date.now() + settings.openMs);
+        const probe = breaker.tryAcquire();
+
+        breaker.record(grpc.status.OK, call);
+        expect(breaker.getState()).toBe('half-open');
+        expect(breaker.tryAcquire()).toBeNull();
+
+        breaker.record(grpc.status.UNAVAILABLE, probe!);
+        expect(breaker.getState()).toBe('open');
+    });
+
+    it('should treat cancelled calls as neither success nor failure', () => {
+        const breaker = new CircuitBreaker('order', settings);
+        breaker.record(grpc.status.UNAVAILABLE, call);
+        breaker.record(grpc.status.UNAVAILABLE, call);
+        breaker.record(grpc.status.CANCELLED, call);
+        breaker.record(grpc.status.UNAVAILABLE, call);
+
+        expect(breaker.getState()).toBe('open');
+    });
+
+    it('should let another call probe after the probe is cancelled', () => {
+        const breaker = tripped();
+        jest.spyOn(Date, 'now').mockReturnValue(Date.now() + settings.openMs);
+
+        breaker.record(grpc.status.CANCELLED, breaker.tryAcquire()!);
+        expect(breaker.getState()).toBe('half-open');
+
+        const probe = breaker.tryAcquire();
+        expect(probe).toEqual({ probe: true });
+        breaker.record(grpc.status.OK, probe!);
+        expect(breaker.getState()).toBe('closed');
+    });
+});
+
+// ============================================================================
+// Client Interceptor
+// ============================================================================
+
+describe('circuitBreakerInterceptor', () => {
+    const serviceDefinition = {
+        Ping: {
+            path: '/test.PingService/Ping',
+            requestStream: false,
+            responseStream: false,
+            requestSerialize: (value: Buffer) => value,
+            requestDeserialize: (value: Buffer) => value,
+            responseSerialize: (value: Buffer) => value,
+            responseDeserialize: (value: Buffer) => value,
+        },
+    };
+    const PingClient = grpc.makeGenericClientConstructor(serviceDefinition, 'PingService');
+
+    let server: grpc.Server;
+    let address: string;
+    const handler = jest.fn();
+
+    beforeAll(async () => {
+        server = new grpc.Server();
+        server.addService(serviceDefinition, {
+            Ping: (call: grpc.ServerUnaryCall<Buffer, Buffer>, callback: grpc.sendUnaryData<Buffer>) => {
+                handler();
+                callback({ code: grpc.status.UNAVAILABLE, details: 'down' });
+            },
+        });
+        const port = await new Promise<number>((resolve, reject) => {
+            server.bindAsync('127.0.0.1:0', grpc.ServerCredentials.createInsecure(), (err, boundPort) => {
+                return err ? reject(err) : resolve(boundPort);
+            });
+        });
+        address = `127.0.0.1:${port}`;
+    });
+
+    afterAll(() => {
+        server.forceShutdown();
+    });
+
+    it('should fail fast without calling the backend once open', async () => {
+        const breaker = new CircuitBreaker('ping', settings);
+        const client = new PingClient(address, grpc.credentials.createInsecure(), {
+            interceptors: [circuitBreakerInterceptor(breaker)],
+        });
+        const ping = () => new Promise<grpc.ServiceError>((resolve) => {
+            client.makeUnaryRequest(
+                serviceDefinition.Ping.path,
+                (value: Buffer) => value,
+                (value: Buffer) => value,
+                Buffer.from('ping'),
+                (err: grpc.ServiceError | null) => resolve(err as grpc.ServiceError)
+            );
+        });
+
+        for (let i = 0; i < settings.failureThreshold; i++) {
+            await ping();
+        }
+        const rejected = await ping();
+        client.close();
+
+        expect(handler).toHaveBeenCalledTimes(settings.failureThreshold);
+        expect(rejected.code).toBe(grpc.status.UNAVAILABLE);
+        expect(rejected.details).toBe('Circuit open for ping service');
+    });
+});
+
+// ============================================================================
+// Express Responder
+// ============================================================================
+
+describe('circuitOpenResponder', () => {
+    const app = express();
+    app.use((_req, _res, next) => asyncLocalStorage.run({ traceId: 'trace-1' }, next));
+    app.use(circuitOpenResponder);
+    app.get('/open', (_req, res) => {
+        asyncLocalStorage.getStore()!.circuitOpen = { service: 'order', retryAfterSeconds: 12 };
+        res.status(500).json({ error: 'INTERNAL_ERROR' });
+    });
+    app.get('/closed', (_req, res) => {
+        res.status(500).json({ error: 'INTERNAL_ERROR' });
+    });
+
+    it('should answer 503 with Retry-After when a circuit rejected the call', async () => {
+        const response = await request(app).get('/open');
+
+        expect(response.status).toBe(503);
+        expect(response.headers['retry-after']).toBe('12');
+        expect(response.body.error).toMatchObject({
+            code: 'SERVICE_UNAVAILABLE',
+            details: { service: 'order', retry_after_seconds: 12 },
+        });
+    });
+
+    it('should leave other errors alone', async () => {
+        const response = await request(app).get('/closed');
+
+        expect(response.status).toBe(500);
+        expect(response.body.error).toBe('INTERNAL_ERROR');
+    });
+});
@@ -0,0 +1,170 @@
+/**
+ * Outbound gRPC Telemetry - Unit Tests
+ *
+ * Tests per-call metrics labelled with the calling HTTP route against a
+ * local gRPC server.
+ */
+
+import * as grpc from '@grpc/grpc-js';
+import { propagation } from '@opentelemetry/api';
+import { W3CBaggagePropagator } from '@opentelemetry/core';
+import { clientTelemetryInterceptor, currentRoute } from '../../src/grpc/client-telemetry';
+import { retryServiceConfig } from '../../src/grpc/call-policy';
+import {
+    grpcClientDuration,
+    grpcClientMessageSize,
+    grpcClientRetries,
+    grpcClientTotal,
+} from '../../src/middleware/monitoring';
+import { asyncLocalStorage, RequestContext } from '../../src/utils/logger';
+
+// Mock logger
+jest.mock('../../src/utils/logger', () => {
+    const { AsyncLocalStorage } = jest.requireActual('async_hooks');
+    return {
+        asyncLocalStorage: new AsyncLocalStorage(),
+        logger: {
+            info: jest.fn(),
+            error: jest.fn(),
+            warn: jest.fn(),
+        },
+    };
+});
+
+// ============================================================================
+// Test Server
+// ============================================================================
+
+const identity = (value: Buffer) => value;
+const serviceDefinition = {
+    GetThing: {
+        path: '/test.ThingService/GetThing',
+        requestStream: false,
+        responseStream: false,
+        requestSerialize: identity,
+        requestDeserialize: identity,
+        responseSerialize: identity,
+        responseDeserialize: identity,
+    },
+};
+
+const ThingClient = grpc.makeGenericClientConstructor(serviceDefinition, 'ThingService');
+const handler = jest.fn();
+
+let server: grpc.Server;
+let client: grpc.Client;
+
+const getThing = (body: string) => new Promise<grpc.ServiceError | null>((resolve) => {
+    client.makeUnaryRequest(
+        serviceDefinition.GetThing.path,
+        identity,
+        identity,
+        Buffer.from(body),
+        (err: grpc.ServiceError | null) => resolve(err)
+    );
+});
+
+const fromRoute = <T>(baseUrl: string, routePath: string, fn: () => T, extra: Record<string, unknown> = {}): T =>
+    asyncLocalStorage.run(
+        {
+            traceId: 'trace-1',
+            request: { baseUrl, route: { path: routePath }, headers: {}, ...extra },
+        } as unknown as RequestContext,
+        fn
+    );
+
+// Value of the first sample matching the labels (and series name, for histograms)
+const sample = async (metric: any, labels: Record<string, string>, name?: string): Promise<number | undefined> =>
+    (await metric.get()).values.find((value: any) =>
+        (!name || value.metricName === name) &&
+        Object.entries(labels).every(([key, val]) => value.labels[key] === val)
+    )?.value;
+
+beforeAll(async () => {
+    propagation.setGlobalPropagator(new W3CBaggagePropagator());
+
+    server = new grpc.Server();
+    server.addService(serviceDefinition, {
+        GetThing: (call: any, callback: any) => handler(call, callback),
+    });
+    const port = await new Promise<number>((resolve, reject) => {
+        server.bindAsync('127.0.0.1:0', grpc.ServerCredentials.createInsecure(), (err, boundPort) => {
+            return err ? reject(err) : resolve(boundPort);
+        });
+    });
+
+    client = new ThingClient(`127.0.0.1:${port}`, grpc.credentials.createInsecure(), {
+        ...retryServiceConfig(serviceDefinition),
+        interceptors: [clientTelemetryInterceptor('things', serviceDefinition)],
+    });
+});
+
+afterAll(() => {
+    propagation.disable();
+    client.close();
+    server.forceShutdown();
+});
+
+beforeEach(() => {
+    handler.mockReset();
+    grpcClientDuration.reset();
+    grpcClientTotal.reset();
+    grpcClientMessageSize.reset();
+    grpcClientRetries.reset();
+});
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('clientTelemetryInterceptor', () => {
+    it('should record the call against the calling HTTP route', async () => {
+        handler.mockImplementation((_call, callback) => callback(null, Buffer.from('response')));
+
+        await fromRoute('/v1/buyers/listings', '/:id', () => getThing('req'));
+
+        const labels = { service: 'things', method: 'GetThing', status_code: 'OK', route: '/v1/buyers/listings/:id' };
+        expect(await sample(grpcClientTotal, labels)).toBe(1);
+        expect(await sample(grpcClientDuration, labels, 'grpc_client_duration_seconds_count')).toBe(1);
+    });
+
+    it('should record request and response sizes', async () => {
+        handler.mockImplementation((_call, callback) => callback(null, Buffer.from('response')));
+
+        await getThing('req');
+
+        expect(await sample(grpcClientMessageSize, { direction: 'request' }, 'grpc_client_message_size_bytes_sum')).toBe(3);
+        expect(await sample(grpcClientMessageSize, { direction: 'response' }, 'grpc_client_message_size_bytes_sum')).toBe(8);
+    });
+
+    it('should record the status code and retries of a failed call', async () => {
+        handler.mockImplementation((_call, callback) => callback({ code: grpc.status.UNAVAILABLE }));
+
+        const err = await getThing('req');
+
+        expect(err?.code).toBe(grpc.status.UNAVAILABLE);
+        expect(await sample(grpcClientTotal, { status_code: 'UNAVAILABLE', route: 'none' })).toBe(1);
+        expect(await sample(grpcClientRetries, { service: 'things', method: 'GetThing' })).toBe(2);
+    });
+
+    it('should send baggage describing the caller', async () => {
+        handler.mockImplementation((_call, callback) => callback(null, Buffer.from('response')));
+
+        await fromRoute('/v1/farmers/listings', '/', () => getThing('req'), {
+            headers: { 'x-app-version': '2.4.1' },
+            user: { userId: 7, userType: 'FARMER', zone: 'KA-BLR' },
+        });
+
+        const [baggage] = handler.mock.calls[0][0].metadata.get('baggage');
+        expect(String(baggage).split(',').sort()).toEqual(['app.version=2.4.1', 'user.type=FARMER', 'user.zone=KA-BLR']);
+    });
+});
+
+describe('currentRoute', () => {
+    it('should fall back to the router mount path before a route matches', () => {
+        expect(asyncLocalStorage.run(
+            { traceId: 't', request: { baseUrl: '/v1/buyers' } } as unknown as RequestContext,
+            () => currentRoute()
+        )).toBe('/v1/buyers');
+    });
+});
@@ -0,0 +1,55 @@
+/**
+ * gRPC Client Registry - Unit Tests
+ *
+ * Tests startup validation of registered protos and services.
+ */
+
+import path from 'path';
+import { CLIENT_REGISTRY, validateClientRegistry } from '../../src/grpc/clients';
+
+// Mock logger
+jest.mock('../../src/utils/logger', () => {
+    const { AsyncLocalStorage } = jest.requireActual('async_hooks');
+    return {
+        asyncLocalStorage: new AsyncLocalStorage(),
+        logger: {
+            info: jest.fn(),
+            error: jest.fn(),
+            warn: jest.fn(),
+        },
+    };
+});
+
+const LOGISTICS_PROTO = path.resolve(__dirname, '../../src/protos/proto/logistics.proto');
+
+describe('validateClientRegistry', () => {
+    it('should pass when every proto defines its service', () => {
+        expect(() => validateClientRegistry({ dropPoint: CLIENT_REGISTRY.dropPoint })).not.toThrow();
+    });
+
+    it('should report every registration that does not resolve', () => {
+        const validate = () => validateClientRegistry({
+            dropPoint: CLIENT_REGISTRY.dropPoint,
+            routes: {
+                backend: 'logistics',
+                serviceName: 'cropfresh.logistics.RouteService',
+                protoPath: LOGISTICS_PROTO,
+            },
+            tracking: {
+                backend: 'logistics',
+                serviceName: 'cropfresh.logistics.TrackingService',
+                protoPath: path.join(__dirname, 'missing.proto'),
+            },
+        });
+
+        expect(validate).toThrow('routes: Service cropfresh.logistics.RouteService not found');
+        expect(validate).toThrow(/tracking: .*missing\.proto/);
+    });
+
+    it('should register logistics through the shared registry', () => {
+        expect(CLIENT_REGISTRY.dropPoint).toMatchObject({
+            backend: 'logistics',
+            protoPath: LOGISTICS_PROTO,
+        });
+    });
+});
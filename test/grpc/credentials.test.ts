@@ -0,0 +1,89 @@
+/**
+ * gRPC Channel Credentials - Unit Tests
+ *
+ * Tests how service security config maps to channel credentials and that
+ * the service token is re-read after the token file rotates.
+ */
+
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { bearerTokenCredentials, createChannelSecurity, ServiceSecurityConfig } from '../../src/grpc/credentials';
+
+const security = (overrides: Partial<ServiceSecurityConfig['tls']> = {}, tokenFile = ''): ServiceSecurityConfig => ({
+    tls: {
+        enabled: true,
+        caFile: '',
+        certFile: '',
+        keyFile: '',
+        serverNameOverride: '',
+        ...overrides,
+    },
+    tokenFile,
+});
+
+describe('createChannelSecurity', () => {
+    it('should use insecure credentials when TLS is disabled', () => {
+        const { credentials } = createChannelSecurity('auth', security({ enabled: false }));
+
+        expect(credentials._isSecure()).toBe(false);
+    });
+
+    it('should use TLS with a custom CA and client certificate', () => {
+        const { credentials, options } = createChannelSecurity('auth', security({
+            caFile: '/certs/ca.pem',
+            certFile: '/certs/gateway.pem',
+            keyFile: '/certs/gateway-key.pem',
+            serverNameOverride: 'auth.internal',
+        }));
+
+        expect(credentials._isSecure()).toBe(true);
+        expect(options['grpc.ssl_target_name_override']).toBe('auth.internal');
+    });
+
+    it('should use TLS with the system roots when no CA is set', () => {
+        const { credentials, options } = createChannelSecurity('auth', security());
+
+        expect(credentials._isSecure()).toBe(true);
+        expect(options).toEqual({});
+    });
+
+    it('should refuse a client certificate without its key', () => {
+        expect(() => createChannelSecurity('auth', security({ certFile: '/certs/gateway.pem' })))
+            .toThrow('mutual TLS');
+    });
+
+    it('should refuse to send a service token without TLS', () => {
+        expect(() => createChannelSecurity('auth', security({ enabled: false }, '/var/run/token')))
+            .toThrow('requires TLS');
+    });
+});
+
+describe('bearerTokenCredentials', () => {
+    const callOptions = { service_url: 'https://auth.internal/cropfresh.auth.AuthService', method_name: 'Login' };
+
+    it('should send the token file contents and pick up a rotated token', async () => {
+        const tokenFile = path.join(mkdtempSync(path.join(tmpdir(), 'grpc-token-')), 'token');
+        writeFileSync(tokenFile, 'first-token\n');
+        const credentials = bearerTokenCredentials(tokenFile, 0);
+
+        const first = await credentials.generateMetadata(callOptions);
+        expect(first.get('authorization')).toEqual(['Bearer first-token']);
+
+        writeFileSync(tokenFile, 'second-token\n');
+        const second = await credentials.generateMetadata(callOptions);
+        expect(second.get('authorization')).toEqual(['Bearer second-token']);
+    });
+
+    it('should keep the cached token within the refresh interval', async () => {
+        const tokenFile = path.join(mkdtempSync(path.join(tmpdir(), 'grpc-token-')), 'token');
+        writeFileSync(tokenFile, 'first-token');
+        const credentials = bearerTokenCredentials(tokenFile, 60000);
+
+        await credentials.generateMetadata(callOptions);
+        writeFileSync(tokenFile, 'second-token');
+        const metadata = await credentials.generateMetadata(callOptions);
+
+        expect(metadata.get('authorization')).toEqual(['Bearer first-token']);
+    });
+});
@@ -0,0 +1,178 @@
+/**
+ * gRPC Error Catalog - Unit Tests
+ *
+ * Tests decoding of google.rpc.Status rich error details and the mapping
+ * of gRPC errors to gateway error codes and HTTP statuses.
+ */
+
+import * as grpc from '@grpc/grpc-js';
+import * as protobuf from 'protobufjs';
+import request from 'supertest';
+import express from 'express';
+import { decodeErrorDetails, sendGrpcError, toGatewayError } from '../../src/grpc/errors';
+import { config } from '../../src/config';
+import { legacyResponses } from '../../src/utils/response-handler';
+
+// Mock logger
+jest.mock('../../src/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        error: jest.fn(),
+        warn: jest.fn(),
+    },
+}));
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const { root } = protobuf.parse(`
+    syntax = "proto3";
+    package google.rpc;
+    message Any { string type_url = 1; bytes value = 2; }
+    message Duration { int64 seconds = 1; int32 nanos = 2; }
+    message Status { int32 code = 1; string message = 2; repeated Any details = 3; }
+    message ErrorInfo { string reason = 1; string domain = 2; map<string, string> metadata = 3; }
+    message RetryInfo { Duration retry_delay = 1; }
+    message QuotaFailure { message Violation { string subject = 1; string description = 2; } repeated Violation violations = 1; }
+    message BadRequest { message FieldViolation { string field = 1; string description = 2; } repeated FieldViolation field_violations = 1; }
+`, { keepCase: true });
+
+const packAny = (typeName: string, payload: Record<string, unknown>) => {
+    const type = root.lookupType(`google.rpc.${typeName}`);
+    return {
+        type_url: `type.googleapis.com/google.rpc.${typeName}`,
+        value: type.encode(type.fromObject(payload)).finish(),
+    };
+};
+
+const richError = (code: grpc.status, message: string, details: ReturnType<typeof packAny>[]) => {
+    const Status = root.lookupType('google.rpc.Status');
+    const metadata = new grpc.Metadata();
+    metadata.set(
+        'grpc-status-details-bin',
+        Buffer.from(Status.encode(Status.fromObject({ code, message, details })).finish())
+    );
+    return { code, details: message, metadata };
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('decodeErrorDetails', () => {
+    it('should decode ErrorInfo, BadRequest, RetryInfo and QuotaFailure', () => {
+        const err = richError(grpc.status.RESOURCE_EXHAUSTED, 'Too many listings', [
+            packAny('ErrorInfo', { reason: 'LISTING_QUOTA_EXCEEDED', domain: 'catalog', metadata: { limit: '50' } }),
+            packAny('BadRequest', { field_violations: [{ field: 'quantity_kg', description: 'Too large' }] }),
+            packAny('RetryInfo', { retry_delay: { seconds: 2, nanos: 500000000 } }),
+            packAny('QuotaFailure', { violations: [{ subject: 'farmer:42', description: 'Daily listings' }] }),
+        ]);
+
+        expect(decodeErrorDetails(err)).toEqual({
+            reason: 'LISTING_QUOTA_EXCEEDED',
+            domain: 'catalog',
+            metadata: { limit: '50' },
+            fieldViolations: [{ field: 'quantity_kg', description: 'Too large' }],
+            quotaViolations: [{ subject: 'farmer:42', description: 'Daily listings' }],
+            retryDelayMs: 2500,
+        });
+    });
+
+    it('should read the JSON details older services send', () => {
+        const err = {
+            code: grpc.status.PERMISSION_DENIED,
+            details: JSON.stringify({ error: 'ACCOUNT_LOCKED', message: 'Locked', lockedUntil: '2030-01-01' }),
+        };
+
+        expect(decodeErrorDetails(err)).toMatchObject({
+            reason: 'ACCOUNT_LOCKED',
+            metadata: { lockedUntil: '2030-01-01' },
+        });
+    });
+});
+
+describe('toGatewayError', () => {
+    it('should map FAILED_PRECONDITION to 409 CONFLICT', () => {
+        expect(toGatewayError({ code: grpc.status.FAILED_PRECONDITION, details: 'Listing already matched' })).toEqual({
+            status: 409,
+            code: 'CONFLICT',
+            message: 'Listing already matched',
+        });
+    });
+
+    it('should report field violations as a validation error', () => {
+        const err = richError(grpc.status.INVALID_ARGUMENT, 'Invalid listing', [
+            packAny('BadRequest', { field_violations: [{ field: 'crop_id', description: 'Unknown crop' }] }),
+        ]);
+
+        expect(toGatewayError(err)).toEqual({
+            status: 400,
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid listing',
+            details: { field_violations: [{ field: 'crop_id', description: 'Unknown crop' }] },
+        });
+    });
+
+    it('should use the ErrorInfo reason as the code', () => {
+        const err = richError(grpc.status.FAILED_PRECONDITION, 'Match expired', [
+            packAny('ErrorInfo', { reason: 'MATCH_EXPIRED', domain: 'order' }),
+        ]);
+
+        expect(toGatewayError(err)).toMatchObject({ status: 409, code: 'MATCH_EXPIRED', message: 'Match expired' });
+    });
+
+    it('should not expose internal messages', () => {
+        expect(toGatewayError({ code: grpc.status.INTERNAL, details: 'pq: relation "listings" does not exist' }))
+            .toEqual({ status: 500, code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' });
+    });
+
+    it('should treat errors without a gRPC code as internal', () => {
+        expect(toGatewayError(new Error('boom')).status).toBe(500);
+    });
+});
+
+describe('sendGrpcError', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should send Retry-After from RetryInfo', async () => {
+        const err = richError(grpc.status.UNAVAILABLE, 'Overloaded', [
+            packAny('RetryInfo', { retry_delay: { seconds: 3 } }),
+        ]);
+        const app = express();
+        app.get('/test', (_req, res) => sendGrpcError(res, err));
+
+        const response = await request(app).get('/test');
+
+        expect(response.status).toBe(503);
+        expect(response.headers['retry-after']).toBe('3');
+        expect(response.body.error).toEqual({
+            code: 'SERVICE_UNAVAILABLE',
+            message: 'Service temporarily unavailable',
+            details: { retry_after_seconds: 3 },
+        });
+    });
+
+    it('should answer an older app in its router\'s status-flag shape', async () => {
+        const err = {
+            code: grpc.status.ALREADY_EXISTS,
+            details: JSON.stringify({ error: 'PHONE_EXISTS', message: 'Phone registered', field: 'mobile_number' }),
+        };
+        const app = express();
+        app.use(legacyResponses('status-flag'));
+        app.get('/test', (_req, res) => sendGrpcError(res, err));
+        jest.replaceProperty(config.responses, 'envelopeMinAppVersion', '3.2.0');
+
+        const response = await request(app).get('/test').set('X-App-Version', '3.1.0');
+
+        expect(response.status).toBe(409);
+        expect(response.body).toEqual({
+            success: false,
+            error: 'PHONE_EXISTS',
+            message: 'Phone registered',
+            field: 'mobile_number',
+        });
+    });
+});
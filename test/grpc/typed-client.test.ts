@@ -0,0 +1,92 @@
+/**
+ * Typed Promise Clients - Unit Tests
+ *
+ * Tests the promise wrapper over a generic client against a local gRPC server.
+ */
+
+import * as grpc from '@grpc/grpc-js';
+import { callUnary, promisifyClient } from '../../src/grpc/typed-client';
+
+// ============================================================================
+// Test Server
+// ============================================================================
+
+const identity = (value: Buffer) => value;
+const serviceDefinition = {
+    GetThing: {
+        path: '/test.ThingService/GetThing',
+        requestStream: false,
+        responseStream: false,
+        requestSerialize: identity,
+        requestDeserialize: identity,
+        responseSerialize: identity,
+        responseDeserialize: identity,
+    },
+};
+
+const ThingClient = grpc.makeGenericClientConstructor(serviceDefinition, 'ThingService');
+
+let server: grpc.Server;
+let client: grpc.Client;
+let lastMetadata: grpc.Metadata | undefined;
+
+beforeAll(async () => {
+    server = new grpc.Server();
+    server.addService(serviceDefinition, {
+        GetThing: (call: grpc.ServerUnaryCall<Buffer, Buffer>, callback: grpc.sendUnaryData<Buffer>) => {
+            lastMetadata = call.metadata;
+            if (call.request.toString() === 'missing') {
+                return callback({ code: grpc.status.NOT_FOUND, details: 'Thing not found' });
+            }
+            callback(null, Buffer.from(`thing:${call.request.toString()}`));
+        },
+    });
+    const port = await new Promise<number>((resolve, reject) => {
+        server.bindAsync('127.0.0.1:0', grpc.ServerCredentials.createInsecure(), (err, boundPort) => {
+            return err ? reject(err) : resolve(boundPort);
+        });
+    });
+    client = new ThingClient(`127.0.0.1:${port}`, grpc.credentials.createInsecure());
+});
+
+afterAll(() => {
+    client.close();
+    server.forceShutdown();
+});
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('promisifyClient', () => {
+    it('should resolve with the response', async () => {
+        const things = promisifyClient(client) as any;
+
+        await expect(things.GetThing(Buffer.from('1'))).resolves.toEqual(Buffer.from('thing:1'));
+    });
+
+    it('should reject with the gRPC status error', async () => {
+        const things = promisifyClient(client) as any;
+
+        await expect(things.GetThing(Buffer.from('missing'))).rejects.toMatchObject({
+            code: grpc.status.NOT_FOUND,
+            details: 'Thing not found',
+        });
+    });
+
+    it('should send the given metadata', async () => {
+        const things = promisifyClient(client) as any;
+        const metadata = new grpc.Metadata();
+        metadata.set('x-farmer-id', '42');
+
+        await things.GetThing(Buffer.from('1'), { metadata });
+
+        expect(lastMetadata?.get('x-farmer-id')).toEqual(['42']);
+    });
+});
+
+describe('callUnary', () => {
+    it('should reject when the method is not on the client', async () => {
+        await expect(callUnary(client, 'GetMissing', {})).rejects.toThrow('gRPC method GetMissing not found');
+    });
+});
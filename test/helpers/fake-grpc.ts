@@ -0,0 +1,167 @@
+/**
+ * Fake gRPC Backends
+ *
+ * Starts a real in-process gRPC server for a backend, serving every service
+ * the client registry maps to it from the same protos the gateway loads,
+ * and points the gateway's clients at it. Calls therefore go through the
+ * gateway's real interceptors, serialization, deadlines and error mapping.
+ *
+ * Tests script each RPC with handle(); a handler returns the response or
+ * throws a FakeGrpcError. RPCs nobody scripted answer UNIMPLEMENTED. Every
+ * call is recorded with its request, metadata and deadline.
+ *
+ * Most backends' protos come from the protos submodule. Starting a backend
+ * whose protos are not checked out fails, rather than quietly skipping the
+ * tests that depend on it.
+ */
+
+import * as grpc from '@grpc/grpc-js';
+import fs from 'fs';
+import { config } from '../../src/config';
+import { GrpcClientFactory } from '../../src/grpc/client-factory';
+import { Backend, CLIENT_REGISTRY, ClientRegistration, closeClients } from '../../src/grpc/clients';
+
+export interface RecordedCall {
+    /** RPC name as declared in the proto, e.g. "GetDropPointAssignment" */
+    method: string;
+    request: any;
+    metadata: grpc.Metadata;
+    /** Milliseconds from when the call arrived to its deadline; Infinity without one */
+    deadlineMs: number;
+}
+
+export type FakeHandler = (request: any, call: RecordedCall) => unknown | Promise<unknown>;
+
+/**
+ * Thrown from a handler to answer with a gRPC status
+ */
+export class FakeGrpcError extends Error {
+    constructor(
+        public readonly code: grpc.status,
+        message = '',
+        public readonly metadata = new grpc.Metadata()
+    ) {
+        super(message);
+    }
+}
+
+const registrationsFor = (backend: Backend): ClientRegistration[] =>
+    Object.values(CLIENT_REGISTRY as Record<string, ClientRegistration>)
+        .filter((registration) => registration.backend === backend);
+
+export class FakeGrpcBackend {
+    readonly calls: RecordedCall[] = [];
+    private readonly handlers = new Map<string, FakeHandler>();
+
+    private constructor(
+        private readonly server: grpc.Server,
+        private readonly restoreAddress: () => void
+    ) {}
+
+    /**
+     * Serve a backend's services and route the gateway's clients to them
+     */
+    static async start(backend: Backend): Promise<FakeGrpcBackend> {
+        const server = new grpc.Server();
+        const methods = new Set<string>();
+        let fake: FakeGrpcBackend | undefined;
+
+        for (const { serviceName, protoPath } of registrationsFor(backend)) {
+            if (!fs.existsSync(protoPath)) {
+                throw new Error(`${protoPath} is missing; check out the protos submodule (git submodule update --init)`);
+            }
+            const { service } = GrpcClientFactory.loadService(serviceName, protoPath);
+            const implementation: grpc.UntypedServiceImplementation = {};
+            for (const method of Object.keys(service)) {
+                if (methods.has(method)) {
+                    throw new Error(`RPC ${method} is declared by more than one ${backend} service`);
+                }
+                methods.add(method);
+                implementation[method] = (call: grpc.ServerUnaryCall<any, any>, callback: grpc.sendUnaryData<any>) =>
+                    fake!.dispatch(method, call, callback);
+            }
+            server.addService(service, implementation);
+        }
+
+        const port = await new Promise<number>((resolve, reject) => {
+            server.bindAsync('127.0.0.1:0', grpc.ServerCredentials.createInsecure(), (err, boundPort) => {
+                return err ? reject(err) : resolve(boundPort);
+            });
+        });
+
+        const target = config.services[backend];
+        const { host, port: originalPort } = target;
+        target.host = '127.0.0.1';
+        target.port = String(port);
+        // Clients are cached with the address they were created for
+        closeClients();
+
+        fake = new FakeGrpcBackend(server, () => {
+            target.host = host;
+            target.port = originalPort;
+        });
+        return fake;
+    }
+
+    /**
+     * Script an RPC; replaces any earlier handler for it
+     */
+    handle(method: string, handler: FakeHandler): this {
+        this.handlers.set(method, handler);
+        return this;
+    }
+
+    /**
+     * Calls received for one RPC, oldest first
+     */
+    callsTo(method: string): RecordedCall[] {
+        return this.calls.filter((call) => call.method === method);
+    }
+
+    /**
+     * Forget handlers and recorded calls
+     */
+    reset(): void {
+        this.handlers.clear();
+        this.calls.length = 0;
+    }
+
+    /**
+     * Stop serving and point the gateway back at the configured address
+     */
+    async stop(): Promise<void> {
+        closeClients();
+        this.restoreAddress();
+        await new Promise<void>((resolve) => this.server.tryShutdown(() => resolve()));
+    }
+
+    private dispatch(method: string, call: grpc.ServerUnaryCall<any, any>, callback: grpc.sendUnaryData<any>): void {
+        const deadline = Number(call.getDeadline());
+        const recorded: RecordedCall = {
+            method,
+            request: call.request,
+            metadata: call.metadata,
+            deadlineMs: deadline - Date.now(),
+        };
+        this.calls.push(recorded);
+
+        const handler = this.handlers.get(method);
+        if (!handler) {
+            return callback({ code: grpc.status.UNIMPLEMENTED, details: `${method} is not scripted` });
+        }
+
+        Promise.resolve()
+            .then(() => handler(call.request, recorded))
+            .then(
+                (response) => callback(null, response),
+                (err) => err instanceof FakeGrpcError
+                    ? callback({ code: err.code, details: err.message, metadata: err.metadata })
+                    : callback({ code: grpc.status.INTERNAL, details: String(err) })
+            );
+    }
+}
+
+/**
+ * Resolve after `ms`, for handlers that outlive a deadline
+ */
+export const delay = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
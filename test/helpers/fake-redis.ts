@@ -0,0 +1,223 @@
+/**
+ * Fake Redis
+ *
+ * In-memory stand-in for the subset of ioredis commands the gateway uses.
+ * Expiry is tracked against Date.now() so tests can move time with a spy.
+ * Connections made with duplicate() share data and pub/sub with the original.
+ * Lua scripts the gateway runs are emulated in TypeScript.
+ */
+
+import { EventEmitter } from 'events';
+import { TOKEN_BUCKET_SCRIPT } from '../../src/middleware/rate-limit';
+import { ADMIT_ATTEMPT_SCRIPT, RELEASE_ATTEMPT_SCRIPT } from '../../src/middleware/brute-force';
+
+type Entry = { value: string; expiresAt?: number };
+
+export class FakeRedis extends EventEmitter {
+    private channels = new Set<string>();
+
+    constructor(
+        private data = new Map<string, Entry>(),
+        private bus = new EventEmitter()
+    ) {
+        super();
+        this.bus.on('message', (channel: string, message: string) => {
+            if (this.channels.has(channel)) {
+                this.emit('message', channel, message);
+            }
+        });
+    }
+
+    private live(key: string): Entry | undefined {
+        const entry = this.data.get(key);
+        if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+            this.data.delete(key);
+            return undefined;
+        }
+        return entry;
+    }
+
+    async get(key: string): Promise<string | null> {
+        return this.live(key)?.value ?? null;
+    }
+
+    async getdel(key: string): Promise<string | null> {
+        const value = await this.get(key);
+        this.data.delete(key);
+        return value;
+    }
+
+    async set(key: string, value: string, ...args: Array<string | number>): Promise<'OK' | null> {
+        let expiresAt: number | undefined;
+        let onlyIfAbsent = false;
+
+        for (let i = 0; i < args.length; i++) {
+            const flag = String(args[i]).toUpperCase();
+            if (flag === 'EX') expiresAt = Date.now() + Number(args[++i]) * 1000;
+            else if (flag === 'PX') expiresAt = Date.now() + Number(args[++i]);
+            else if (flag === 'NX') onlyIfAbsent = true;
+        }
+
+        if (onlyIfAbsent && this.live(key)) {
+            return null;
+        }
+        this.data.set(key, { value, expiresAt });
+        return 'OK';
+    }
+
+    async incr(key: string): Promise<number> {
+        const entry = this.live(key);
+        const value = (Number(entry?.value) || 0) + 1;
+        this.data.set(key, { value: String(value), expiresAt: entry?.expiresAt });
+        return value;
+    }
+
+    async expire(key: string, seconds: number): Promise<number> {
+        return this.pexpire(key, seconds * 1000);
+    }
+
+    async pexpire(key: string, ms: number): Promise<number> {
+        const entry = this.live(key);
+        if (!entry) return 0;
+        entry.expiresAt = Date.now() + ms;
+        return 1;
+    }
+
+    async exists(...keys: string[]): Promise<number> {
+        return keys.filter((key) => this.live(key)).length;
+    }
+
+    async del(...keys: string[]): Promise<number> {
+        return keys.filter((key) => this.data.delete(key)).length;
+    }
+
+    async sadd(key: string, ...members: string[]): Promise<number> {
+        const set = new Set<string>(JSON.parse(this.live(key)?.value ?? '[]'));
+        const before = set.size;
+        members.forEach((member) => set.add(member));
+        this.data.set(key, { value: JSON.stringify([...set]) });
+        return set.size - before;
+    }
+
+    async srem(key: string, ...members: string[]): Promise<number> {
+        const set = new Set<string>(JSON.parse(this.live(key)?.value ?? '[]'));
+        const removed = members.filter((member) => set.delete(member)).length;
+        this.data.set(key, { value: JSON.stringify([...set]) });
+        return removed;
+    }
+
+    async smembers(key: string): Promise<string[]> {
+        return JSON.parse(this.live(key)?.value ?? '[]');
+    }
+
+    async eval(script: string, numKeys: number, ...args: Array<string | number>): Promise<unknown> {
+        const keys = args.slice(0, numKeys).map(String);
+        const argv = args.slice(numKeys).map(Number);
+
+        if (script === TOKEN_BUCKET_SCRIPT) {
+            return this.takeToken(keys[0], argv[0], argv[1], argv[2]);
+        }
+        if (script === ADMIT_ATTEMPT_SCRIPT) {
+            return this.admitAttempt(keys, argv[0], argv[1], argv.slice(2));
+        }
+        if (script === RELEASE_ATTEMPT_SCRIPT) {
+            keys.filter((key) => (Number(this.live(key)?.value) || 0) > 0)
+                .forEach((key) => this.data.get(key)!.value = String(Number(this.data.get(key)!.value) - 1));
+            return 0;
+        }
+        throw new Error('NOSCRIPT FakeRedis does not emulate this script');
+    }
+
+    private takeToken(key: string, limit: number, windowMs: number, cost: number): number[] {
+        const now = Date.now();
+        const rate = limit / windowMs;
+        const state = JSON.parse(this.live(key)?.value ?? 'null') as { tokens: number; ts: number } | null;
+        let tokens = Math.min(limit, (state?.tokens ?? limit) + Math.max(0, now - (state?.ts ?? now)) * rate);
+
+        let allowed = 0;
+        if (tokens >= cost) {
+            tokens -= cost;
+            allowed = 1;
+        }
+
+        this.data.set(key, { value: JSON.stringify({ tokens, ts: now }), expiresAt: now + windowMs });
+        const retryMs = allowed ? 0 : Math.ceil((cost - tokens) / rate);
+        return [allowed, Math.floor(tokens), retryMs, Math.ceil((limit - tokens) / rate)];
+    }
+
+    // Synchronous, so concurrent calls cannot interleave, as in Redis
+    private admitAttempt(keys: string[], now: number, windowSeconds: number, maxAttempts: number[]): number[] {
+        const entries = keys.map((key) => this.live(key));
+        let remaining = Infinity;
+        let lockedUntil = 0;
+
+        for (const [i, max] of maxAttempts.entries()) {
+            const failEntry = entries[i * 2];
+            const fails = Number(failEntry?.value) || 0;
+            const blocked = Number(entries[i * 2 + 1]?.value) || 0;
+            if (blocked > now) {
+                lockedUntil = Math.max(lockedUntil, blocked);
+            }
+            if (fails >= max) {
+                lockedUntil = Math.max(lockedUntil, failEntry?.expiresAt ?? now);
+            }
+            remaining = Math.min(remaining, max - fails);
+        }
+        if (lockedUntil > 0) {
+            return [0, Math.max(0, remaining), lockedUntil];
+        }
+
+        const failures = maxAttempts.map((_max, i) => {
+            const entry = entries[i * 2];
+            const failures = (Number(entry?.value) || 0) + 1;
+            this.data.set(keys[i * 2], {
+                value: String(failures),
+                expiresAt: entry?.expiresAt ?? Date.now() + windowSeconds * 1000,
+            });
+            return failures;
+        });
+        return [1, Math.max(0, remaining - 1), 0, ...failures];
+    }
+
+    async pttl(key: string): Promise<number> {
+        const entry = this.live(key);
+        if (!entry) return -2;
+        return entry.expiresAt === undefined ? -1 : entry.expiresAt - Date.now();
+    }
+
+    /**
+     * Returns every matching key in one batch; only trailing `*` patterns
+     */
+    async scan(cursor: string, ...args: Array<string | number>): Promise<[string, string[]]> {
+        const matchIndex = args.findIndex((arg) => String(arg).toUpperCase() === 'MATCH');
+        const prefix = matchIndex >= 0 ? String(args[matchIndex + 1]).replace(/\*$/, '') : '';
+        return ['0', this.keys().filter((key) => key.startsWith(prefix))];
+    }
+
+    async publish(channel: string, message: string): Promise<number> {
+        this.bus.emit('message', channel, message);
+        return 0;
+    }
+
+    async subscribe(...channels: string[]): Promise<number> {
+        channels.forEach((channel) => this.channels.add(channel));
+        return this.channels.size;
+    }
+
+    duplicate(): FakeRedis {
+        return new FakeRedis(this.data, this.bus);
+    }
+
+    async quit(): Promise<'OK'> {
+        this.channels.clear();
+        return 'OK';
+    }
+
+    keys(): string[] {
+        return [...this.data.keys()].filter((key) => this.live(key));
+    }
+
+    flushall(): void {
+        this.data.clear();
+    }
+}
@@ -0,0 +1,48 @@
+/**
+ * Route Policy Helper
+ *
+ * Walks mounted Express routers and reports, for every route, the access
+ * policies that guard it. Router-level policy middleware applies to the routes
+ * registered after it; route-level policy middleware applies to that route only.
+ */
+
+import { Router } from 'express';
+import { AccessPolicy, getPolicyTag } from '../../src/middleware/policy';
+import { collectRoutes } from '../../src/utils/route-table';
+
+export interface RoutePolicyEntry {
+    method: string;
+    path: string;
+    /** Explicitly marked public with allowPublic() and no enforced policy */
+    isPublic: boolean;
+    /** Every policy enforced on the route, outermost first */
+    policies: AccessPolicy[];
+}
+
+/**
+ * Collect the policy table for a list of mounted routers
+ */
+export function collectRoutePolicies(
+    mounts: Array<{ path: string; router: Router }>,
+    prefix = ''
+): RoutePolicyEntry[] {
+    return collectRoutes(mounts, prefix).map(({ method, path, handlers }) => {
+        const policies: AccessPolicy[] = [];
+        let markedPublic = false;
+        for (const handler of handlers) {
+            const tag = getPolicyTag(handler);
+            if (tag?.public) markedPublic = true;
+            if (tag && !tag.public) policies.push(tag.policy);
+        }
+        return { method, path, isPublic: markedPublic && policies.length === 0, policies };
+    });
+}
+
+/**
+ * Routes that neither enforce a policy nor are explicitly public
+ */
+export function findUndeclaredRoutes(entries: RoutePolicyEntry[]): string[] {
+    return entries
+        .filter((entry) => !entry.isPublic && entry.policies.length === 0)
+        .map((entry) => `${entry.method} ${entry.path}`);
+}
@@ -0,0 +1,384 @@
+/**
+ * Route Contract Tests
+ *
+ * Drives each route family through the full gateway against in-process
+ * backends serving the gateway's own protos, so requests and responses
+ * cross real protobuf serialization, metadata, deadlines and status codes.
+ *
+ * Every proto but logistics comes from the protos submodule, so check it
+ * out (`git submodule update --init`) before running these.
+ */
+
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import * as grpc from '@grpc/grpc-js';
+import app from '../../src/index';
+import { config } from '../../src/config';
+import { issueRefreshToken } from '../../src/utils/refresh-token-store';
+import { FakeRedis } from '../helpers/fake-redis';
+import { delay, FakeGrpcBackend, FakeGrpcError } from '../helpers/fake-grpc';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+const fakeRedis = new FakeRedis();
+
+jest.mock('../../src/tracing', () => ({}));
+
+jest.mock('../../src/utils/redis', () => ({
+    getRedisClient: () => fakeRedis,
+}));
+
+// Real pino so pino-http works, kept quiet
+jest.mock('../../src/utils/logger', () => {
+    const { AsyncLocalStorage } = jest.requireActual('async_hooks');
+    return {
+        asyncLocalStorage: new AsyncLocalStorage(),
+        logger: jest.requireActual('pino')({ level: 'silent' }),
+    };
+});
+
+// ============================================================================
+// Test Setup
+// ============================================================================
+
+const sign = (claims: object) => jwt.sign(claims, config.jwtSecret, { expiresIn: '1h' });
+
+const farmerToken = sign({ userId: 5, userType: 'FARMER', zone: 'KA-BLR' });
+const buyerToken = sign({ userId: 8, userType: 'BUYER' });
+
+const methodDeadlines = { ...config.grpc.methodDeadlinesMs };
+
+beforeEach(() => {
+    fakeRedis.flushall();
+    config.grpc.methodDeadlinesMs = { ...methodDeadlines };
+});
+
+// ============================================================================
+// Logistics
+// ============================================================================
+
+const ASSIGNMENT = {
+    assignment_id: 'asg-1',
+    listing_id: 42,
+    drop_point: {
+        id: 'dp-7',
+        name: 'Kolar Collection Centre',
+        address: 'APMC Yard, Kolar',
+        location: { latitude: 13.1367, longitude: 78.1292 },
+        distance_km: 4.5,
+        is_open: true,
+    },
+    pickup_window: { start: '2026-10-20T06:00:00Z', end: '2026-10-20T09:00:00Z' },
+    crates_needed: 3,
+    status: 'CONFIRMED',
+    listing_status: 'ASSIGNED',
+};
+
+describe('Logistics routes', () => {
+    let logistics: FakeGrpcBackend;
+
+    beforeAll(async () => {
+        logistics = await FakeGrpcBackend.start('logistics');
+    });
+
+    afterAll(() => logistics.stop());
+
+    beforeEach(() => logistics.reset());
+
+    it('should send the drop point assignment request and map the response', async () => {
+        logistics.handle('AssignDropPoint', () => ASSIGNMENT);
+
+        const res = await request(app)
+            .post('/v1/farmers/listings/42/assign-droppoint')
+            .set('Authorization', `Bearer ${farmerToken}`)
+            .send({ farmer_location: { latitude: 13.1, longitude: 78.1 }, crop_type: 'tomato', quantity_kg: 120 });
+
+        expect(res.status).toBe(201);
+        expect(res.body.data).toEqual({
+            drop_point: {
+                id: 'dp-7',
+                name: 'Kolar Collection Centre',
+                address: 'APMC Yard, Kolar',
+                location: { lat: 13.1367, lng: 78.1292 },
+                distance_km: 4.5,
+            },
+            pickup_window: { start: '2026-10-20T06:00:00Z', end: '2026-10-20T09:00:00Z' },
+            crates_needed: 3,
+            listing_status: 'ASSIGNED',
+        });
+        expect(logistics.callsTo('AssignDropPoint')[0].request).toMatchObject({
+            listing_id: 42,
+            farmer_id: 5,
+            farmer_location: { latitude: 13.1, longitude: 78.1 },
+            crop_type: 'tomato',
+            quantity_kg: 120,
+        });
+    });
+
+    it('should not call the backend for an invalid body', async () => {
+        const res = await request(app)
+            .post('/v1/farmers/listings/42/assign-droppoint')
+            .set('Authorization', `Bearer ${farmerToken}`)
+            .send({ crop_type: 'tomato' });
+
+        expect(res.status).toBe(400);
+        expect(logistics.calls).toHaveLength(0);
+    });
+
+    it('should continue the caller trace in the call metadata', async () => {
+        logistics.handle('GetDropPointAssignment', () => ASSIGNMENT);
+
+        const res = await request(app)
+            .get('/v1/farmers/listings/42/droppoint')
+            .set('Authorization', `Bearer ${farmerToken}`)
+            .set('traceparent', '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+
+        expect(res.status).toBe(200);
+        expect(res.headers['x-trace-id']).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+        expect(logistics.calls[0].metadata.get('trace-id')).toEqual(['4bf92f3577b34da6a3ce929d0e0e4736']);
+    });
+
+    it('should map NOT_FOUND to 404 with the backend message', async () => {
+        logistics.handle('GetDropPointAssignment', () => {
+            throw new FakeGrpcError(grpc.status.NOT_FOUND, 'No drop point assigned to listing 42');
+        });
+
+        const res = await request(app)
+            .get('/v1/farmers/listings/42/droppoint')
+            .set('Authorization', `Bearer ${farmerToken}`);
+
+        expect(res.status).toBe(404);
+        expect(res.body.error).toMatchObject({ code: 'NOT_FOUND', message: 'No drop point assigned to listing 42' });
+    });
+
+    it('should retry a read the backend was unavailable for', async () => {
+        let attempts = 0;
+        logistics.handle('GetDropPointAssignment', () => {
+            attempts += 1;
+            if (attempts === 1) {
+                throw new FakeGrpcError(grpc.status.UNAVAILABLE, 'Restarting');
+            }
+            return ASSIGNMENT;
+        });
+
+        const res = await request(app)
+            .get('/v1/farmers/listings/42/droppoint')
+            .set('Authorization', `Bearer ${farmerToken}`);
+
+        expect(res.status).toBe(200);
+        expect(res.body.data.status).toBe('CONFIRMED');
+        expect(logistics.callsTo('GetDropPointAssignment')).toHaveLength(2);
+    });
+
+    it('should answer 504 when the backend misses the method deadline', async () => {
+        config.grpc.methodDeadlinesMs = { ...methodDeadlines, GetDropPointAssignment: '100' };
+        logistics.handle('GetDropPointAssignment', async () => {
+            await delay(300);
+            return ASSIGNMENT;
+        });
+
+        const res = await request(app)
+            .get('/v1/farmers/listings/42/droppoint')
+            .set('Authorization', `Bearer ${farmerToken}`);
+
+        expect(res.status).toBe(504);
+        expect(res.body.error.code).toBe('GATEWAY_TIMEOUT');
+        expect(logistics.calls[0].deadlineMs).toBeLessThanOrEqual(100);
+    });
+});
+
+// ============================================================================
+// Auth
+// ============================================================================
+
+describe('Auth routes', () => {
+    let auth: FakeGrpcBackend;
+
+    beforeAll(async () => {
+        auth = await FakeGrpcBackend.start('auth');
+    });
+
+    afterAll(() => auth.stop());
+
+    beforeEach(() => auth.reset());
+
+    it('should map an unregistered phone to 404', async () => {
+        auth.handle('RequestLoginOtp', () => {
+            throw new FakeGrpcError(
+                grpc.status.NOT_FOUND,
+                JSON.stringify({ error: 'PHONE_NOT_REGISTERED', message: 'Phone number is not registered' })
+            );
+        });
+
+        const res = await request(app)
+            .post('/v1/auth/login/request-otp')
+            .send({ phone_number: '9876543210' });
+
+        expect(res.status).toBe(404);
+        expect(res.body.error.code).toBe('PHONE_NOT_REGISTERED');
+        expect(auth.calls[0].metadata.get('trace-id')).toEqual([res.headers['x-trace-id']]);
+    });
+
+    it('should set the PIN of the signed-in farmer, not the one in the body', async () => {
+        auth.handle('SetPin', () => ({ success: true, message: 'PIN set' }));
+
+        const res = await request(app)
+            .post('/v1/auth/pin')
+            .set('Authorization', `Bearer ${farmerToken}`)
+            .send({ user_id: 99, pin: '1234' });
+
+        expect(res.status).toBe(201);
+        expect(auth.callsTo('SetPin')[0].request).toMatchObject({ user_id: '5', pin: '1234' });
+    });
+
+    it('should require a farmer token to change onboarding details', async () => {
+        const res = await request(app).post('/v1/auth/pin').send({ user_id: 5, pin: '1234' });
+
+        expect(res.status).toBe(401);
+        expect(auth.calls).toHaveLength(0);
+    });
+
+    it('should mint the access token for the refresh token\'s session', async () => {
+        auth.handle('IssueAccessToken', () => ({ token: 'access-1', expires_in: 900 }));
+        const { token } = await issueRefreshToken({ userId: 5, userType: 'FARMER', sessionId: 3 });
+
+        const res = await request(app)
+            .post('/v1/auth/token/refresh')
+            .send({ refresh_token: token });
+
+        expect(res.status).toBe(200);
+        expect(res.body.data).toMatchObject({ token: 'access-1', expires_in: 900 });
+        expect(auth.callsTo('IssueAccessToken')[0].request).toEqual({
+            user_id: '5',
+            session_id: 3,
+            ttl_seconds: config.jwt.accessTokenTtlSeconds,
+        });
+    });
+
+    it('should keep the refresh token usable when the auth service is unavailable', async () => {
+        auth.handle('IssueAccessToken', () => {
+            throw new FakeGrpcError(grpc.status.UNAVAILABLE, 'auth-service down');
+        });
+        const { token } = await issueRefreshToken({ userId: 5, userType: 'FARMER', sessionId: 3 });
+
+        const refresh = () => request(app).post('/v1/auth/token/refresh').send({ refresh_token: token });
+
+        expect((await refresh()).status).toBe(503);
+
+        auth.handle('IssueAccessToken', () => ({ token: 'access-2', expires_in: 900 }));
+        expect((await refresh()).status).toBe(200);
+    });
+
+    it('should cut off the other sessions\' tokens when revoking all', async () => {
+        const current = sign({ userId: 5, userType: 'FARMER', sessionId: 51 });
+        const otherDevice = sign({ userId: 5, userType: 'FARMER', sessionId: 52 });
+        auth.handle('ListActiveSessions', () => ({
+            sessions: [{ id: 51, is_current_device: true }, { id: 52, is_current_device: false }],
+            current_session_id: 51,
+        }));
+        auth.handle('RevokeAllSessions', () => ({ revoked_count: 1 }));
+
+        const res = await request(app)
+            .delete('/v1/users/sessions')
+            .set('Authorization', `Bearer ${current}`);
+
+        expect(res.status).toBe(200);
+        expect(res.body.data.revoked_count).toBe(1);
+        expect(auth.callsTo('RevokeAllSessions')[0].request).toMatchObject({ user_id: '5', current_session_id: 51 });
+
+        const rejected = await request(app)
+            .get('/v1/users/sessions')
+            .set('Authorization', `Bearer ${otherDevice}`);
+        expect(rejected.status).toBe(401);
+        expect(rejected.body.error.code).toBe('TOKEN_INVALIDATED');
+
+        const kept = await request(app)
+            .get('/v1/users/sessions')
+            .set('Authorization', `Bearer ${current}`);
+        expect(kept.status).toBe(200);
+    });
+});
+
+// ============================================================================
+// Catalog
+// ============================================================================
+
+describe('Catalog routes', () => {
+    let catalog: FakeGrpcBackend;
+
+    beforeAll(async () => {
+        catalog = await FakeGrpcBackend.start('catalog');
+    });
+
+    afterAll(() => catalog.stop());
+
+    beforeEach(() => catalog.reset());
+
+    it('should map a missing listing to 404', async () => {
+        catalog.handle('GetListingDetails', () => {
+            throw new FakeGrpcError(grpc.status.NOT_FOUND, 'Listing 42 not found');
+        });
+
+        const res = await request(app)
+            .get('/v1/buyers/listings/42')
+            .set('Authorization', `Bearer ${buyerToken}`);
+
+        expect(res.status).toBe(404);
+        expect(res.body.error.code).toBe('NOT_FOUND');
+        expect(catalog.callsTo('GetListingDetails')).toHaveLength(1);
+    });
+
+    it('should set a deadline on every call', async () => {
+        catalog.handle('GetListingDetails', () => ({}));
+
+        await request(app)
+            .get('/v1/buyers/listings/42')
+            .set('Authorization', `Bearer ${buyerToken}`);
+
+        expect(catalog.calls[0].deadlineMs).toBeLessThanOrEqual(config.grpc.defaultDeadlineMs);
+    });
+});
+
+// ============================================================================
+// Order / Match
+// ============================================================================
+
+describe('Order and match routes', () => {
+    const MATCH_ID = '0b6f3a2e-5d1c-4f7a-9e3b-2c8d1a4f6e90';
+    let order: FakeGrpcBackend;
+
+    beforeAll(async () => {
+        order = await FakeGrpcBackend.start('order');
+    });
+
+    afterAll(() => order.stop());
+
+    beforeEach(() => order.reset());
+
+    it('should answer 404 when the backend returns no match', async () => {
+        order.handle('GetMatchById', () => ({}));
+
+        const res = await request(app)
+            .get(`/v1/farmers/matches/${MATCH_ID}`)
+            .set('Authorization', `Bearer ${farmerToken}`);
+
+        expect(res.status).toBe(404);
+        expect(order.callsTo('GetMatchById')[0].request.match_id).toBe(MATCH_ID);
+    });
+
+    it('should map an expired match to 409', async () => {
+        order.handle('AcceptMatch', () => {
+            throw new FakeGrpcError(grpc.status.FAILED_PRECONDITION, 'Match has expired');
+        });
+
+        const res = await request(app)
+            .post(`/v1/farmers/matches/${MATCH_ID}/accept`)
+            .set('Authorization', `Bearer ${farmerToken}`)
+            .send({ isPartial: false });
+
+        expect(res.status).toBe(409);
+        expect(res.body.error).toMatchObject({ code: 'CONFLICT', message: 'Match has expired' });
+    });
+});
@@ -0,0 +1,137 @@
+/**
+ * Auth Middleware - Unit Tests
+ *
+ * Verifies the typed principal built from JWT claims and the rejection of
+ * client-asserted identity headers.
+ */
+
+import request from 'supertest';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { config } from '../../src/config';
+import {
+    authMiddleware,
+    rejectIdentityHeaders,
+    principalFromClaims,
+    AuthRequest,
+} from '../../src/middleware/auth';
+import { FakeRedis } from '../helpers/fake-redis';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+const fakeRedis = new FakeRedis();
+
+jest.mock('../../src/utils/redis', () => ({
+    getRedisClient: () => fakeRedis,
+}));
+
+// ============================================================================
+// Test App Setup
+// ============================================================================
+
+const app = express();
+app.use(rejectIdentityHeaders);
+app.get('/me', authMiddleware, (req: AuthRequest, res) => {
+    res.json({ user: req.user });
+});
+
+const sign = (claims: object, options: jwt.SignOptions = {}) =>
+    jwt.sign(claims, config.jwtSecret, { expiresIn: '5m', ...options });
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Auth Middleware', () => {
+    describe('principalFromClaims', () => {
+        it('should normalise alternate claim names', () => {
+            expect(principalFromClaims({
+                sub: '42',
+                role: 'buyer',
+                buyer_org_id: '7',
+                team_role: 'admin',
+                scope: 'inventory:read orders:write',
+                session_id: 3,
+                zone_id: 12,
+            })).toEqual({
+                userId: 42,
+                userType: 'BUYER',
+                buyerOrgId: 7,
+                teamRole: 'ADMIN',
+                scopes: ['inventory:read', 'orders:write'],
+                zone: '12',
+                sessionId: 3,
+                phone: undefined,
+            });
+        });
+
+        it('should return null when the token has no user or type', () => {
+            expect(principalFromClaims({ userType: 'FARMER' })).toBeNull();
+            expect(principalFromClaims({ userId: 1 })).toBeNull();
+        });
+    });
+
+    describe('authMiddleware', () => {
+        it('should populate the principal from a valid token', async () => {
+            const token = sign({ userId: 5, userType: 'FARMER', sessionId: 9, phone: '+919876543210' });
+
+            const response = await request(app)
+                .get('/me')
+                .set('Authorization', `Bearer ${token}`);
+
+            expect(response.status).toBe(200);
+            expect(response.body.user).toEqual({
+                userId: 5,
+                userType: 'FARMER',
+                sessionId: 9,
+                phone: '+919876543210',
+            });
+        });
+
+        it('should return 401 without a token', async () => {
+            const response = await request(app).get('/me');
+
+            expect(response.status).toBe(401);
+            expect(response.body.error.code).toBe('UNAUTHORIZED');
+        });
+
+        it('should return 401 TOKEN_EXPIRED for an expired token', async () => {
+            const token = sign({ userId: 5, userType: 'FARMER' }, { expiresIn: -10 });
+
+            const response = await request(app)
+                .get('/me')
+                .set('Authorization', `Bearer ${token}`);
+
+            expect(response.status).toBe(401);
+            expect(response.body.error.code).toBe('TOKEN_EXPIRED');
+        });
+
+        it('should return 401 for a token signed with another secret', async () => {
+            const token = jwt.sign({ userId: 5, userType: 'FARMER' }, 'not-the-gateway-secret');
+
+            const response = await request(app)
+                .get('/me')
+                .set('Authorization', `Bearer ${token}`);
+
+            expect(response.status).toBe(401);
+            expect(response.body.error.code).toBe('INVALID_TOKEN');
+        });
+    });
+
+    describe('rejectIdentityHeaders', () => {
+        it('should reject requests asserting identity through headers', async () => {
+            const token = sign({ userId: 5, userType: 'FARMER' });
+
+            const response = await request(app)
+                .get('/me')
+                .set('Authorization', `Bearer ${token}`)
+                .set('X-Farmer-Id', '99');
+
+            expect(response.status).toBe(400);
+            expect(response.body.error.code).toBe('IDENTITY_HEADER_NOT_ALLOWED');
+            expect(response.body.error.details.headers).toEqual(['x-farmer-id']);
+        });
+    });
+});
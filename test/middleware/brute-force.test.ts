@@ -0,0 +1,198 @@
+/**
+ * Brute-force Protection - Unit Tests
+ *
+ * Drives POST /v1/auth/login-pin with a fake Redis and a mocked auth-service
+ * client to check progressive delays, lockouts and the uniform error payload.
+ */
+
+import request from 'supertest';
+import express from 'express';
+import authRouter from '../../src/routes/v1/auth';
+import { config } from '../../src/config';
+import { delayAfterFailures } from '../../src/middleware/brute-force';
+import { errorHandler } from '../../src/middleware/error-handler';
+import { FakeRedis } from '../helpers/fake-redis';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+const fakeRedis = new FakeRedis();
+const mockAuthClient = {
+    LoginWithPin: jest.fn(),
+};
+
+jest.mock('../../src/utils/redis', () => ({
+    getRedisClient: () => fakeRedis,
+}));
+
+// Getter defers the lookup until the router calls the client
+jest.mock('../../src/grpc/clients', () => ({
+    get authClient() {
+        return mockAuthClient;
+    },
+    createMetadata: jest.fn(),
+}));
+
+// Mock logger
+jest.mock('../../src/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        error: jest.fn(),
+        warn: jest.fn(),
+    },
+}));
+
+// ============================================================================
+// Test App Setup
+// ============================================================================
+
+const app = express();
+app.use(express.json());
+app.use('/v1/auth', authRouter);
+app.use(errorHandler);
+
+const loginPin = (userId: number, pin: string, deviceId = 'device-1') =>
+    request(app).post('/v1/auth/login-pin').send({ user_id: userId, pin, device_id: deviceId });
+
+const wrongPin = () => {
+    mockAuthClient.LoginWithPin.mockRejectedValue({
+        code: 16,
+        details: JSON.stringify({ error: 'INVALID_PIN', message: 'Incorrect PIN' }),
+    });
+};
+
+// Step past any progressive delay
+const advance = (ms: number) => {
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + ms);
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Brute-force Protection', () => {
+    beforeEach(() => {
+        fakeRedis.flushall();
+        jest.restoreAllMocks();
+        jest.clearAllMocks();
+    });
+
+    it('should grow the delay exponentially after the free attempts', () => {
+        const { freeAttempts, baseDelayMs, maxDelayMs } = config.bruteForce;
+
+        expect(delayAfterFailures(freeAttempts)).toBe(0);
+        expect(delayAfterFailures(freeAttempts + 1)).toBe(baseDelayMs);
+        expect(delayAfterFailures(freeAttempts + 2)).toBe(baseDelayMs * 2);
+        expect(delayAfterFailures(100)).toBe(maxDelayMs);
+    });
+
+    it('should count down remaining attempts in a uniform payload', async () => {
+        wrongPin();
+
+        const first = await loginPin(1, '0000');
+        const second = await loginPin(1, '1111');
+
+        expect(first.status).toBe(401);
+        expect(first.body.error.code).toBe('INVALID_PIN');
+        expect(first.body.error.details).toEqual({
+            remaining_attempts: config.bruteForce.maxAttempts - 1,
+            locked_until: null,
+        });
+        expect(second.body.error.details.remaining_attempts).toBe(config.bruteForce.maxAttempts - 2);
+    });
+
+    it('should refuse attempts during a progressive delay without calling the service', async () => {
+        wrongPin();
+        for (let i = 0; i <= config.bruteForce.freeAttempts; i++) {
+            await loginPin(1, '0000');
+        }
+        expect(mockAuthClient.LoginWithPin).toHaveBeenCalledTimes(config.bruteForce.freeAttempts + 1);
+
+        const throttled = await loginPin(1, '0000');
+
+        expect(throttled.status).toBe(429);
+        expect(throttled.body.error.code).toBe('TOO_MANY_ATTEMPTS');
+        expect(throttled.body.error.details.locked_until).toEqual(expect.any(String));
+        expect(mockAuthClient.LoginWithPin).toHaveBeenCalledTimes(config.bruteForce.freeAttempts + 1);
+    });
+
+    it('should lock out after the maximum number of failures', async () => {
+        wrongPin();
+        let response: request.Response | undefined;
+        for (let i = 0; i < config.bruteForce.maxAttempts; i++) {
+            advance(config.bruteForce.maxDelayMs * (i + 1));
+            response = await loginPin(1, '0000');
+        }
+
+        expect(response!.status).toBe(429);
+        expect(response!.body.error.details.remaining_attempts).toBe(0);
+
+        // Still locked out from another device, since the user is tracked too
+        advance(config.bruteForce.maxDelayMs * 10);
+        const otherDevice = await loginPin(1, '0000', 'device-2');
+        expect(otherDevice.status).toBe(429);
+    });
+
+    it('should clear failures after a correct PIN', async () => {
+        wrongPin();
+        await loginPin(1, '0000');
+
+        mockAuthClient.LoginWithPin.mockResolvedValue({
+            token: 'not-a-jwt',
+            user: { id: 1, name: 'Farmer', phone: '', user_type: 'FARMER' },
+        });
+        expect((await loginPin(1, '1234')).status).toBe(200);
+
+        wrongPin();
+        const response = await loginPin(1, '0000');
+        expect(response.body.error.details.remaining_attempts).toBe(config.bruteForce.maxAttempts - 1);
+    });
+
+    it('should let no more concurrent guesses through than attempts remain', async () => {
+        mockAuthClient.LoginWithPin.mockImplementation(() => new Promise((_resolve, reject) => {
+            setTimeout(() => reject({
+                code: 16,
+                details: JSON.stringify({ error: 'INVALID_PIN', message: 'Incorrect PIN' }),
+            }), 20);
+        }));
+
+        const responses = await Promise.all(
+            Array.from({ length: config.bruteForce.maxAttempts + 3 }, (_, i) => loginPin(1, String(i).padStart(4, '0')))
+        );
+
+        expect(mockAuthClient.LoginWithPin).toHaveBeenCalledTimes(config.bruteForce.maxAttempts);
+        // The three refused guesses, and the one that used the last attempt
+        expect(responses.filter((response) => response.status === 429)).toHaveLength(4);
+    });
+
+    it('should not count an attempt the service could not judge', async () => {
+        mockAuthClient.LoginWithPin.mockRejectedValue({ code: 14, details: 'auth-service down' });
+        expect((await loginPin(1, '0000')).status).toBe(503);
+
+        wrongPin();
+        const response = await loginPin(1, '0000');
+        expect(response.body.error.details.remaining_attempts).toBe(config.bruteForce.maxAttempts - 1);
+    });
+
+    it('should relay a downstream lockout with the same payload', async () => {
+        mockAuthClient.LoginWithPin.mockRejectedValue({
+            code: 7,
+            details: JSON.stringify({
+                error: 'ACCOUNT_LOCKED',
+                message: 'Account locked',
+                lockedUntil: '2030-01-01T00:00:00.000Z',
+            }),
+        });
+
+        const response = await loginPin(1, '0000');
+
+        expect(response.status).toBe(403);
+        expect(response.body.error).toEqual({
+            code: 'ACCOUNT_LOCKED',
+            message: 'Account locked',
+            details: { remaining_attempts: 0, locked_until: '2030-01-01T00:00:00.000Z' },
+        });
+    });
+});
@@ -0,0 +1,86 @@
+/**
+ * Deprecation Middleware - Unit Tests
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { deprecated, getDeprecation } from '../../src/middleware/deprecation';
+import { deprecatedRequestsTotal } from '../../src/middleware/monitoring';
+
+const deprecation = {
+    since: '2026-10-19',
+    sunset: '2027-04-30',
+    successor: '/v1/buyers/orders',
+};
+
+const buildApp = () => {
+    const app = express();
+    const orders = express.Router();
+    orders.post('/', deprecated(deprecation), (_req, res) => {
+        res.json({ ok: true });
+    });
+    app.use('/v1/orders', orders);
+    return app;
+};
+
+// Count recorded for the labels, if any
+const recorded = async (labels: Record<string, string>): Promise<number | undefined> =>
+    (await deprecatedRequestsTotal.get()).values.find((value) =>
+        Object.entries(labels).every(([key, val]) => (value.labels as Record<string, unknown>)[key] === val)
+    )?.value;
+
+describe('deprecated', () => {
+    beforeEach(() => {
+        deprecatedRequestsTotal.reset();
+    });
+
+    it('should announce the deprecation, sunset and successor', async () => {
+        const response = await request(buildApp()).post('/v1/orders');
+
+        expect(response.status).toBe(200);
+        expect(response.headers['deprecation']).toBe(`@${Date.parse('2026-10-19') / 1000}`);
+        expect(response.headers['sunset']).toBe('Fri, 30 Apr 2027 00:00:00 GMT');
+        expect(response.headers['link']).toBe('</v1/buyers/orders>; rel="successor-version"');
+    });
+
+    it('should leave out the headers it has no value for', async () => {
+        const app = express();
+        app.get('/legacy', deprecated({ since: '2026-10-19' }), (_req, res) => {
+            res.json({ ok: true });
+        });
+
+        const response = await request(app).get('/legacy');
+
+        expect(response.headers['deprecation']).toBeDefined();
+        expect(response.headers['sunset']).toBeUndefined();
+        expect(response.headers['link']).toBeUndefined();
+    });
+
+    it('should count requests per route and app version', async () => {
+        const app = buildApp();
+        await request(app).post('/v1/orders').set('X-App-Version', '2.3.1');
+        await request(app).post('/v1/orders').set('X-App-Version', '2.3.1-beta');
+        await request(app).post('/v1/orders').set('X-App-Version', '3.0.0');
+
+        expect(await recorded({ method: 'POST', route: '/v1/orders/', app_version: '2.3.1' })).toBe(2);
+        expect(await recorded({ method: 'POST', route: '/v1/orders/', app_version: '3.0.0' })).toBe(1);
+    });
+
+    it('should not label requests with arbitrary app versions', async () => {
+        const app = buildApp();
+        await request(app).post('/v1/orders');
+        await request(app).post('/v1/orders').set('X-App-Version', 'nightly-build-7f3a');
+
+        expect(await recorded({ route: '/v1/orders/', app_version: 'unknown' })).toBe(2);
+    });
+
+    it('should reject dates it cannot announce', () => {
+        expect(() => deprecated({ since: 'soon' })).toThrow('Invalid deprecation since date');
+        expect(() => deprecated({ since: '2026-10-19', sunset: '2026-01-01' })).toThrow('is before');
+    });
+
+    it('should tag the middleware with its deprecation', () => {
+        expect(getDeprecation(deprecated(deprecation))).toBe(deprecation);
+        expect(getDeprecation(() => undefined)).toBeUndefined();
+    });
+});
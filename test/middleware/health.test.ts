@@ -0,0 +1,168 @@
+/**
+ * Health Checks - Unit Tests
+ *
+ * Tests the readiness handler over cached background probes and the gRPC
+ * health protocol client against a local server.
+ */
+
+import * as grpc from '@grpc/grpc-js';
+import request from 'supertest';
+import express from 'express';
+import {
+    createReadinessHandler,
+    DependencyCheck,
+    probeDependencies,
+    startDependencyProbes,
+    stopDependencyProbes,
+} from '../../src/middleware/health';
+import { checkGrpcHealth, closeHealthClients } from '../../src/grpc/health-client';
+
+// Mock logger
+jest.mock('../../src/utils/logger', () => {
+    const { AsyncLocalStorage } = jest.requireActual('async_hooks');
+    return {
+        asyncLocalStorage: new AsyncLocalStorage(),
+        logger: {
+            info: jest.fn(),
+            error: jest.fn(),
+            warn: jest.fn(),
+        },
+    };
+});
+
+const app = express();
+app.get('/ready', createReadinessHandler());
+
+const dependency = (name: string, critical: boolean, healthy: boolean): DependencyCheck => ({
+    name,
+    critical,
+    check: jest.fn(async () => {
+        if (!healthy) {
+            throw new Error(`${name} down`);
+        }
+    }),
+});
+
+// ============================================================================
+// Readiness Handler
+// ============================================================================
+
+describe('GET /ready', () => {
+    afterEach(() => {
+        stopDependencyProbes();
+    });
+
+    it('should be healthy when every dependency is up', async () => {
+        await startDependencyProbes([dependency('redis', true, true), dependency('catalog', false, true)]);
+
+        const response = await request(app).get('/ready');
+
+        expect(response.status).toBe(200);
+        expect(response.body.status).toBe('healthy');
+        expect(response.body.dependencies[0]).toMatchObject({ name: 'redis', status: 'ok', latency: expect.any(Number) });
+    });
+
+    it('should stay ready but degraded when a degradable dependency fails', async () => {
+        await startDependencyProbes([dependency('redis', true, true), dependency('catalog', false, false)]);
+
+        const response = await request(app).get('/ready');
+
+        expect(response.status).toBe(200);
+        expect(response.body.status).toBe('degraded');
+        expect(response.body.checks).toEqual({ redis: 'ok', catalog: 'failed' });
+        expect(response.body.dependencies[1].error).toBe('catalog down');
+    });
+
+    it('should fail when a critical dependency fails', async () => {
+        await startDependencyProbes([dependency('redis', true, false), dependency('catalog', false, true)]);
+
+        const response = await request(app).get('/ready');
+
+        expect(response.status).toBe(503);
+        expect(response.body.status).toBe('unhealthy');
+    });
+
+    it('should answer from cache without probing', async () => {
+        const redis = dependency('redis', true, true);
+        await startDependencyProbes([redis]);
+
+        await request(app).get('/ready');
+        await request(app).get('/ready');
+
+        expect(redis.check).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pick up recovery on the next probe', async () => {
+        let healthy = false;
+        const redis: DependencyCheck = {
+            name: 'redis',
+            critical: true,
+            check: async () => {
+                if (!healthy) throw new Error('down');
+            },
+        };
+        await startDependencyProbes([redis]);
+        expect((await request(app).get('/ready')).status).toBe(503);
+
+        healthy = true;
+        await probeDependencies();
+        expect((await request(app).get('/ready')).status).toBe(200);
+    });
+});
+
+// ============================================================================
+// gRPC Health Client
+// ============================================================================
+
+describe('checkGrpcHealth', () => {
+    const identity = (value: Buffer) => value;
+    const healthService = {
+        Check: {
+            path: '/grpc.health.v1.Health/Check',
+            requestStream: false,
+            responseStream: false,
+            requestSerialize: identity,
+            requestDeserialize: identity,
+            responseSerialize: identity,
+            responseDeserialize: identity,
+        },
+    };
+    // HealthCheckResponse with field 1 (status) as a varint
+    const servingStatus = jest.fn();
+
+    let server: grpc.Server;
+    let address: string;
+
+    beforeAll(async () => {
+        server = new grpc.Server();
+        server.addService(healthService, {
+            Check: (_call: unknown, callback: grpc.sendUnaryData<Buffer>) => {
+                callback(null, Buffer.from([0x08, servingStatus()]));
+            },
+        });
+        const port = await new Promise<number>((resolve, reject) => {
+            server.bindAsync('127.0.0.1:0', grpc.ServerCredentials.createInsecure(), (err, boundPort) => {
+                return err ? reject(err) : resolve(boundPort);
+            });
+        });
+        address = `127.0.0.1:${port}`;
+    });
+
+    afterAll(() => {
+        closeHealthClients();
+        server.forceShutdown();
+    });
+
+    it('should resolve when the backend is SERVING', async () => {
+        servingStatus.mockReturnValue(1);
+
+        await expect(checkGrpcHealth('catalog', address, { timeoutMs: 1000 })).resolves.toBeUndefined();
+    });
+
+    it('should reject when the backend is NOT_SERVING', async () => {
+        servingStatus.mockReturnValue(2);
+
+        await expect(checkGrpcHealth('catalog', address, { timeoutMs: 1000 }))
+            .rejects.toThrow('Health status NOT_SERVING');
+    });
+});
@@ -0,0 +1,161 @@
+/**
+ * Idempotency-Key Middleware - Unit Tests
+ *
+ * Tests replay of stored responses, the in-flight lock, key reuse with a
+ * different body and retries after server errors, cancellations and
+ * disconnects, with a fake Redis.
+ */
+
+import request from 'supertest';
+import express, { NextFunction, Response } from 'express';
+import { AuthRequest } from '../../src/middleware/auth';
+import { idempotency } from '../../src/middleware/idempotency';
+import { FakeRedis } from '../helpers/fake-redis';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+const fakeRedis = new FakeRedis();
+
+jest.mock('../../src/utils/redis', () => ({
+    getRedisClient: () => fakeRedis,
+}));
+
+// Mock logger
+jest.mock('../../src/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        error: jest.fn(),
+        warn: jest.fn(),
+    },
+}));
+
+// ============================================================================
+// Test App Setup
+// ============================================================================
+
+const handler = jest.fn();
+
+const app = express();
+app.use(express.json());
+app.use((req: AuthRequest, _res: Response, next: NextFunction) => {
+    req.user = { userId: Number(req.headers['x-test-user'] ?? 1), userType: 'BUYER' };
+    next();
+});
+app.post('/orders', idempotency(), (req, res) => handler(req, res));
+
+const createOrder = (body: object, key = 'order-key-1', user = '1') =>
+    request(app)
+        .post('/orders')
+        .set('Idempotency-Key', key)
+        .set('X-Test-User', user)
+        .send(body);
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('idempotency', () => {
+    let orderId: number;
+
+    beforeEach(() => {
+        fakeRedis.flushall();
+        jest.clearAllMocks();
+        orderId = 0;
+        handler.mockImplementation((_req, res: Response) => {
+            res.status(201).json({ data: { orderId: ++orderId }, error: null });
+        });
+    });
+
+    it('should replay the stored response for a retry', async () => {
+        const first = await createOrder({ listing_id: 5 });
+        const retry = await createOrder({ listing_id: 5 });
+
+        expect(first.status).toBe(201);
+        expect(retry.status).toBe(201);
+        expect(retry.body).toEqual(first.body);
+        expect(retry.headers['idempotent-replayed']).toBe('true');
+        expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return 422 when a key is reused with a different body', async () => {
+        await createOrder({ listing_id: 5 });
+        const reused = await createOrder({ listing_id: 6 });
+
+        expect(reused.status).toBe(422);
+        expect(reused.body.error.code).toBe('IDEMPOTENCY_KEY_REUSED');
+    });
+
+    it('should return 409 while the first request is in flight', async () => {
+        let finish: () => void = () => undefined;
+        handler.mockImplementationOnce((_req, res: Response) => {
+            finish = () => res.status(201).json({ data: { orderId: 1 }, error: null });
+        });
+
+        const first = createOrder({ listing_id: 5 }).then((response) => response);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        const concurrent = await createOrder({ listing_id: 5 });
+        finish();
+
+        expect(concurrent.status).toBe(409);
+        expect(concurrent.body.error.code).toBe('REQUEST_IN_PROGRESS');
+        expect((await first).status).toBe(201);
+    });
+
+    it('should let a retry run again after a server error', async () => {
+        handler.mockImplementationOnce((_req, res: Response) => {
+            res.status(503).json({ data: null, error: { code: 'SERVICE_UNAVAILABLE' } });
+        });
+
+        expect((await createOrder({ listing_id: 5 })).status).toBe(503);
+        expect((await createOrder({ listing_id: 5 })).status).toBe(201);
+        expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should let a retry run again after a cancelled request', async () => {
+        handler.mockImplementationOnce((_req, res: Response) => {
+            res.status(499).json({ data: null, error: { code: 'REQUEST_CANCELLED' } });
+        });
+
+        expect((await createOrder({ listing_id: 5 })).status).toBe(499);
+        expect((await createOrder({ listing_id: 5 })).status).toBe(201);
+        expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should release the key when the client disconnects', async () => {
+        const closed = new Promise<void>((resolve) => {
+            handler.mockImplementationOnce((_req, res: Response) => {
+                res.on('close', () => setImmediate(resolve));
+            });
+        });
+
+        await expect(createOrder({ listing_id: 5 }).timeout(50)).rejects.toThrow();
+        await closed;
+
+        expect((await createOrder({ listing_id: 5 })).status).toBe(201);
+        expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should scope keys to the caller', async () => {
+        await createOrder({ listing_id: 5 }, 'shared-key', '1');
+        const otherUser = await createOrder({ listing_id: 5 }, 'shared-key', '2');
+
+        expect(otherUser.body.data.orderId).toBe(2);
+        expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not deduplicate requests without a key', async () => {
+        await request(app).post('/orders').send({ listing_id: 5 });
+        await request(app).post('/orders').send({ listing_id: 5 });
+
+        expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject a malformed key', async () => {
+        const response = await createOrder({ listing_id: 5 }, 'x'.repeat(256));
+
+        expect(response.status).toBe(400);
+    });
+});
@@ -0,0 +1,85 @@
+/**
+ * Access Policy Middleware - Unit Tests
+ */
+
+import request from 'supertest';
+import express from 'express';
+import { requirePolicy, isAllowed } from '../../src/middleware/policy';
+import { Principal } from '../../src/middleware/auth';
+
+// ============================================================================
+// Test App Setup
+// ============================================================================
+
+let currentUser: Principal | undefined;
+
+const app = express();
+
+// Mock auth middleware
+app.use((req: any, res, next) => {
+    req.user = currentUser;
+    next();
+});
+
+app.get('/farmers-only', requirePolicy({ userTypes: ['FARMER'] }), (req, res) => {
+    res.json({ ok: true });
+});
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Access Policy Middleware', () => {
+    describe('isAllowed', () => {
+        const farmer: Principal = { userId: 1, userType: 'FARMER' };
+        const orgAdmin: Principal = {
+            userId: 2,
+            userType: 'BUYER',
+            buyerOrgId: 9,
+            teamRole: 'ADMIN',
+            scopes: ['inventory:read'],
+        };
+
+        it('should admit any verified caller for an empty policy', () => {
+            expect(isAllowed(farmer, {})).toBe(true);
+        });
+
+        it('should require every listed dimension to match', () => {
+            expect(isAllowed(orgAdmin, { userTypes: ['BUYER'], teamRoles: ['ADMIN'] })).toBe(true);
+            expect(isAllowed(orgAdmin, { userTypes: ['FARMER'], teamRoles: ['ADMIN'] })).toBe(false);
+            expect(isAllowed(farmer, { roles: ['DISTRICT_MANAGER'] })).toBe(false);
+        });
+
+        it('should require all listed scopes', () => {
+            expect(isAllowed(orgAdmin, { scopes: ['inventory:read'] })).toBe(true);
+            expect(isAllowed(orgAdmin, { scopes: ['inventory:read', 'orders:write'] })).toBe(false);
+        });
+    });
+
+    describe('requirePolicy', () => {
+        it('should allow a caller matching the policy', async () => {
+            currentUser = { userId: 1, userType: 'FARMER' };
+
+            const response = await request(app).get('/farmers-only');
+
+            expect(response.status).toBe(200);
+        });
+
+        it('should return 403 FORBIDDEN for a caller outside the policy', async () => {
+            currentUser = { userId: 2, userType: 'BUYER' };
+
+            const response = await request(app).get('/farmers-only');
+
+            expect(response.status).toBe(403);
+            expect(response.body.error.code).toBe('FORBIDDEN');
+        });
+
+        it('should return 401 when no principal is present', async () => {
+            currentUser = undefined;
+
+            const response = await request(app).get('/farmers-only');
+
+            expect(response.status).toBe(401);
+        });
+    });
+});
@@ -0,0 +1,229 @@
+/**
+ * Rate Limit Middleware - Unit Tests
+ *
+ * Tests the token bucket, bucket keys, RateLimit-* headers and fail-open /
+ * fail-closed behaviour with a fake Redis.
+ */
+
+import request from 'supertest';
+import express, { NextFunction, Response } from 'express';
+import { AuthRequest } from '../../src/middleware/auth';
+import { config } from '../../src/config';
+import { rateLimit, rateLimitKey, RateLimitPolicy, RATE_LIMIT_POLICIES } from '../../src/middleware/rate-limit';
+import { FakeRedis } from '../helpers/fake-redis';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+const fakeRedis = new FakeRedis();
+
+jest.mock('../../src/utils/redis', () => ({
+    getRedisClient: () => fakeRedis,
+}));
+
+// Mock logger
+jest.mock('../../src/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        error: jest.fn(),
+        warn: jest.fn(),
+    },
+}));
+
+// ============================================================================
+// Test App Setup
+// ============================================================================
+
+const policy = (overrides: Partial<RateLimitPolicy> = {}): RateLimitPolicy => ({
+    name: 'test',
+    limit: 2,
+    windowSeconds: 60,
+    keyBy: ['user', 'device'],
+    failOpen: true,
+    ...overrides,
+});
+
+const appWith = (limitPolicy: RateLimitPolicy) => {
+    const app = express();
+    app.use((req: AuthRequest, _res: Response, next: NextFunction) => {
+        const userId = req.headers['x-test-user'];
+        if (userId) {
+            req.user = { userId: Number(userId), userType: 'BUYER', buyerOrgId: 3 };
+        }
+        next();
+    });
+    app.get('/', rateLimit(limitPolicy), (_req, res) => {
+        res.json({ ok: true });
+    });
+    return app;
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('rateLimit', () => {
+    beforeEach(() => {
+        fakeRedis.flushall();
+        jest.restoreAllMocks();
+    });
+
+    it('should allow a burst up to the limit and then reject with Retry-After', async () => {
+        const app = appWith(policy());
+
+        const first = await request(app).get('/').set('X-Test-User', '1');
+        expect(first.status).toBe(200);
+        expect(first.headers['ratelimit-limit']).toBe('2');
+        expect(first.headers['ratelimit-remaining']).toBe('1');
+        expect(first.headers['ratelimit-policy']).toBe('2;w=60');
+
+        await request(app).get('/').set('X-Test-User', '1');
+        const limited = await request(app).get('/').set('X-Test-User', '1');
+
+        expect(limited.status).toBe(429);
+        expect(limited.headers['retry-after']).toBe('30');
+        expect(limited.body.error).toMatchObject({
+            code: 'RATE_LIMITED',
+            details: { policy: 'test', retry_after_seconds: 30 },
+        });
+    });
+
+    it('should refill the bucket over the window', async () => {
+        const app = appWith(policy());
+        const now = Date.now();
+        jest.spyOn(Date, 'now').mockReturnValue(now);
+
+        await request(app).get('/').set('X-Test-User', '1');
+        await request(app).get('/').set('X-Test-User', '1');
+        expect((await request(app).get('/').set('X-Test-User', '1')).status).toBe(429);
+
+        jest.spyOn(Date, 'now').mockReturnValue(now + 30000);
+        expect((await request(app).get('/').set('X-Test-User', '1')).status).toBe(200);
+    });
+
+    it('should keep separate buckets per user and device', async () => {
+        const app = appWith(policy({ limit: 1 }));
+
+        expect((await request(app).get('/').set('X-Test-User', '1')).status).toBe(200);
+        expect((await request(app).get('/').set('X-Test-User', '2')).status).toBe(200);
+        expect((await request(app).get('/').set('X-Test-User', '1').set('X-Device-Id', 'phone-a')).status).toBe(200);
+        expect((await request(app).get('/').set('X-Test-User', '1')).status).toBe(429);
+    });
+
+    it('should fail open when configured to', async () => {
+        jest.spyOn(fakeRedis, 'eval').mockRejectedValue(new Error('connection lost'));
+
+        const response = await request(appWith(policy({ failOpen: true }))).get('/');
+
+        expect(response.status).toBe(200);
+    });
+
+    it('should fail closed when configured to', async () => {
+        jest.spyOn(fakeRedis, 'eval').mockRejectedValue(new Error('connection lost'));
+
+        const response = await request(appWith(policy({ failOpen: false }))).get('/');
+
+        expect(response.status).toBe(503);
+        expect(response.body.error.code).toBe('RATE_LIMIT_UNAVAILABLE');
+    });
+});
+
+describe('OTP policies', () => {
+    const app = express();
+    app.use(express.json());
+    app.post('/otp', rateLimit(RATE_LIMIT_POLICIES.OTP_IP), rateLimit(RATE_LIMIT_POLICIES.OTP_PHONE), (_req, res) => {
+        res.json({ ok: true });
+    });
+
+    const sendOtp = (phone: string, deviceId: string) =>
+        request(app).post('/otp').set('X-Device-Id', deviceId).send({ phone_number: phone });
+
+    beforeEach(() => {
+        fakeRedis.flushall();
+        jest.restoreAllMocks();
+    });
+
+    it('should cap a phone number whatever device or format the requests use', async () => {
+        for (let i = 0; i < config.rateLimits.otp.limit; i++) {
+            expect((await sendOtp('9876543210', `device-${i}`)).status).toBe(200);
+        }
+
+        const limited = await sendOtp('+91 98765 43210', 'device-new');
+
+        expect(limited.status).toBe(429);
+        expect(limited.body.error.details.policy).toBe('otp-phone');
+    });
+
+    it('should cap one client spraying many numbers with the larger IP budget', async () => {
+        for (let i = 0; i < config.rateLimits.otpIp.limit; i++) {
+            expect((await sendOtp(`98765${String(i).padStart(5, '0')}`, 'device-1')).status).toBe(200);
+        }
+
+        const limited = await sendOtp('9123456789', 'device-2');
+
+        expect(limited.status).toBe(429);
+        expect(limited.body.error.details.policy).toBe('otp-ip');
+    });
+});
+
+describe('IP dimension', () => {
+    const ipApp = (trustProxy: boolean | number) => {
+        const app = express();
+        app.set('trust proxy', trustProxy);
+        app.get('/', rateLimit(policy({ keyBy: ['ip'], limit: 1 })), (_req, res) => {
+            res.json({ ok: true });
+        });
+        return app;
+    };
+
+    beforeEach(() => {
+        fakeRedis.flushall();
+        jest.restoreAllMocks();
+    });
+
+    it('should ignore X-Forwarded-For unless a proxy is trusted', async () => {
+        const app = ipApp(false);
+
+        expect((await request(app).get('/').set('X-Forwarded-For', '203.0.113.1')).status).toBe(200);
+        expect((await request(app).get('/').set('X-Forwarded-For', '203.0.113.2')).status).toBe(429);
+    });
+
+    it('should key on the client address a trusted proxy forwards', async () => {
+        const app = ipApp(1);
+
+        expect((await request(app).get('/').set('X-Forwarded-For', '203.0.113.1')).status).toBe(200);
+        expect((await request(app).get('/').set('X-Forwarded-For', '203.0.113.2')).status).toBe(200);
+        expect((await request(app).get('/').set('X-Forwarded-For', '198.51.100.7, 203.0.113.2')).status).toBe(429);
+    });
+});
+
+describe('rateLimitKey', () => {
+    it('should combine the dimensions present on the request', () => {
+        const req = {
+            ip: '10.0.0.1',
+            headers: { 'x-device-id': 'phone-a' },
+            body: {},
+            user: { userId: 7, userType: 'BUYER', buyerOrgId: 3 },
+        } as unknown as AuthRequest;
+
+        expect(rateLimitKey(policy({ keyBy: ['ip', 'user', 'device', 'buyerOrg'] }), req))
+            .toBe('ratelimit:test:ip=10.0.0.1|user=7|device=phone-a|buyerOrg=3');
+    });
+
+    it('should leave out dimensions an anonymous request lacks', () => {
+        const req = { ip: '10.0.0.1', headers: {}, body: { device_id: 'phone-b' } } as unknown as AuthRequest;
+
+        expect(rateLimitKey(policy({ keyBy: ['ip', 'user', 'device'] }), req))
+            .toBe('ratelimit:test:ip=10.0.0.1|device=phone-b');
+    });
+
+    it('should key phone numbers by their last ten digits', () => {
+        const phoneKey = (body: object) =>
+            rateLimitKey(policy({ keyBy: ['phone'] }), { headers: {}, body } as unknown as AuthRequest);
+
+        expect(phoneKey({ phone_number: '+91 98765-43210' })).toBe('ratelimit:test:phone=9876543210');
+        expect(phoneKey({ phoneNumber: '9876543210' })).toBe('ratelimit:test:phone=9876543210');
+        expect(phoneKey({ mobile_number: '09876543210' })).toBe('ratelimit:test:phone=9876543210');
+    });
+});
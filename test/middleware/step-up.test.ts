@@ -0,0 +1,189 @@
+/**
+ * Step-up Re-authentication - Unit Tests
+ *
+ * Tests requireReauth and withReauth against proofs recorded by /v1/auth/reauth/verify,
+ * using a fake Redis and a mocked auth-service client.
+ */
+
+import request from 'supertest';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { z } from 'zod';
+import { config } from '../../src/config';
+import authRouter from '../../src/routes/v1/auth';
+import { authMiddleware } from '../../src/middleware/auth';
+import { recordReauthProof, requireReauth, withReauth, REAUTH_ACTIONS } from '../../src/middleware/step-up';
+import { validated } from '../../src/middleware/validate';
+import { errorHandler } from '../../src/middleware/error-handler';
+import { FakeRedis } from '../helpers/fake-redis';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+const fakeRedis = new FakeRedis();
+const mockAuthClient = {
+    ValidateReauth: jest.fn(),
+};
+
+jest.mock('../../src/utils/redis', () => ({
+    getRedisClient: () => fakeRedis,
+}));
+
+// Getter defers the lookup until the router calls the client
+jest.mock('../../src/grpc/clients', () => ({
+    get authClient() {
+        return mockAuthClient;
+    },
+    createMetadata: jest.fn(),
+}));
+
+// Mock logger
+jest.mock('../../src/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        error: jest.fn(),
+        warn: jest.fn(),
+    },
+}));
+
+// ============================================================================
+// Test App Setup
+// ============================================================================
+
+const app = express();
+app.use(express.json());
+app.use('/v1/auth', authRouter);
+app.post('/orders/:id/cancel', authMiddleware, requireReauth(REAUTH_ACTIONS.CANCEL_ORDER), (req, res) => {
+    res.json({ cancelled: true });
+});
+app.post('/orders/:id/dispute', authMiddleware, validated(
+    { body: z.object({ reason: z.string().min(1) }) },
+    withReauth(REAUTH_ACTIONS.CANCEL_ORDER, (req, res) => {
+        res.json({ disputed: req.body.reason });
+    })
+));
+app.use(errorHandler);
+
+const sign = (claims: object) =>
+    jwt.sign(claims, config.jwtSecret, { expiresIn: '1h' });
+
+const farmer = sign({ userId: 5, userType: 'FARMER', sessionId: 1 });
+const buyer = sign({ userId: 8, userType: 'BUYER', sessionId: 2 });
+
+const cancel = (token: string, reauthToken?: string) => {
+    const req = request(app).post('/orders/1/cancel').set('Authorization', `Bearer ${token}`);
+    return reauthToken ? req.set('X-Reauth-Token', reauthToken) : req;
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Step-up Re-authentication', () => {
+    beforeEach(() => {
+        fakeRedis.flushall();
+        jest.clearAllMocks();
+    });
+
+    it('should demand re-auth and list the methods for the caller', async () => {
+        const farmerResponse = await cancel(farmer);
+        const buyerResponse = await cancel(buyer);
+
+        expect(farmerResponse.status).toBe(403);
+        expect(farmerResponse.body.error.code).toBe('REAUTH_REQUIRED');
+        expect(farmerResponse.body.error.details).toEqual({
+            action: 'CANCEL_ORDER',
+            allowed_methods: ['PIN', 'OTP'],
+            proof_header: 'X-Reauth-Token',
+        });
+        expect(buyerResponse.body.error.details.allowed_methods).toEqual(['PASSWORD', 'OTP']);
+    });
+
+    it('should allow the action after a verified re-auth', async () => {
+        mockAuthClient.ValidateReauth.mockResolvedValue({ success: true });
+
+        const verify = await request(app)
+            .post('/v1/auth/reauth/verify')
+            .set('Authorization', `Bearer ${buyer}`)
+            .send({ action: 'CANCEL_ORDER', reauth_token: 'reauth-123', method: 'PASSWORD', credential: 'secret' });
+
+        expect(verify.status).toBe(200);
+        expect(verify.body.data.expires_in_seconds).toBe(config.reauth.proofTtlSeconds);
+
+        const response = await cancel(buyer, 'reauth-123');
+        expect(response.status).toBe(200);
+    });
+
+    it('should not record a proof when re-auth fails', async () => {
+        mockAuthClient.ValidateReauth.mockResolvedValue({ success: false, error: 'INVALID_PIN', message: 'Wrong PIN' });
+
+        const verify = await request(app)
+            .post('/v1/auth/reauth/verify')
+            .set('Authorization', `Bearer ${farmer}`)
+            .send({ action: 'CANCEL_ORDER', reauth_token: 'reauth-456', method: 'PIN', credential: '0000' });
+
+        expect(verify.status).toBe(401);
+        expect((await cancel(farmer, 'reauth-456')).status).toBe(403);
+    });
+
+    it('should reject a proof for another action', async () => {
+        await recordReauthProof('reauth-1', { userId: 5, sessionId: 1, action: REAUTH_ACTIONS.CHANGE_PAYMENT_DETAILS });
+
+        expect((await cancel(farmer, 'reauth-1')).status).toBe(403);
+    });
+
+    it('should reject a proof recorded for another user or session', async () => {
+        await recordReauthProof('reauth-2', { userId: 8, sessionId: 2, action: REAUTH_ACTIONS.CANCEL_ORDER });
+        await recordReauthProof('reauth-3', { userId: 5, sessionId: 9, action: REAUTH_ACTIONS.CANCEL_ORDER });
+
+        expect((await cancel(farmer, 'reauth-2')).status).toBe(403);
+        expect((await cancel(farmer, 'reauth-3')).status).toBe(403);
+    });
+
+    it('should reject an expired proof', async () => {
+        await recordReauthProof('reauth-4', { userId: 5, sessionId: 1, action: REAUTH_ACTIONS.CANCEL_ORDER });
+
+        const expired = Date.now() + (config.reauth.proofTtlSeconds + 1) * 1000;
+        const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(expired);
+        const response = await cancel(farmer, 'reauth-4');
+        nowSpy.mockRestore();
+
+        expect(response.status).toBe(403);
+    });
+
+    it('should unlock exactly one action per re-auth', async () => {
+        await recordReauthProof('reauth-5', { userId: 5, sessionId: 1, action: REAUTH_ACTIONS.CANCEL_ORDER });
+
+        expect((await cancel(farmer, 'reauth-5')).status).toBe(200);
+
+        const replay = await cancel(farmer, 'reauth-5');
+        expect(replay.status).toBe(403);
+        expect(replay.body.error.code).toBe('REAUTH_REQUIRED');
+    });
+
+    it('should let only one of several concurrent requests use a proof', async () => {
+        await recordReauthProof('reauth-6', { userId: 5, sessionId: 1, action: REAUTH_ACTIONS.CANCEL_ORDER });
+
+        const responses = await Promise.all([1, 2, 3].map(() => cancel(farmer, 'reauth-6')));
+
+        expect(responses.map((response) => response.status).sort()).toEqual([200, 403, 403]);
+    });
+
+    it('should keep the proof when the request fails validation', async () => {
+        await recordReauthProof('reauth-7', { userId: 5, sessionId: 1, action: REAUTH_ACTIONS.CANCEL_ORDER });
+        const dispute = (body: object) => request(app)
+            .post('/orders/1/dispute')
+            .set('Authorization', `Bearer ${farmer}`)
+            .set('X-Reauth-Token', 'reauth-7')
+            .send(body);
+
+        expect((await dispute({})).status).toBe(400);
+
+        const retried = await dispute({ reason: 'Damaged' });
+        expect(retried.status).toBe(200);
+        expect(retried.body).toEqual({ disputed: 'Damaged' });
+
+        expect((await dispute({ reason: 'Damaged' })).status).toBe(403);
+    });
+});
@@ -0,0 +1,168 @@
+/**
+ * Token Blacklist - Unit Tests
+ *
+ * Checks revocation lookups: the in-process cache filled by local
+ * revocations and pub/sub events, the Redis fallback on a cache miss, and
+ * their enforcement in authMiddleware.
+ */
+
+import request from 'supertest';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { createHash } from 'crypto';
+import { config } from '../../src/config';
+import { authMiddleware } from '../../src/middleware/auth';
+import {
+    TOKEN_BLACKLIST_CHANNEL,
+    isTokenRevoked,
+    revokeSession,
+    revokeToken,
+    startBlacklistSync,
+    stopBlacklistSync,
+} from '../../src/middleware/token-blacklist';
+import { FakeRedis } from '../helpers/fake-redis';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+const fakeRedis = new FakeRedis();
+
+jest.mock('../../src/utils/redis', () => ({
+    getRedisClient: () => fakeRedis,
+}));
+
+// Mock logger
+jest.mock('../../src/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        error: jest.fn(),
+        warn: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+// ============================================================================
+// Test App Setup
+// ============================================================================
+
+const app = express();
+app.get('/me', authMiddleware, (req, res) => {
+    res.json({ ok: true });
+});
+
+const sign = (claims: object) =>
+    jwt.sign(claims, config.jwtSecret, { expiresIn: '5m' });
+
+const blacklistKey = (token: string) =>
+    `token:blacklist:${createHash('sha256').update(token).digest('hex')}`;
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Token Blacklist', () => {
+    beforeEach(async () => {
+        await stopBlacklistSync();
+        fakeRedis.flushall();
+    });
+
+    afterAll(async () => {
+        await stopBlacklistSync();
+    });
+
+    it('should reject a logged out token without asking Redis', async () => {
+        const token = sign({ userId: 5, userType: 'FARMER', sessionId: 1 });
+        await revokeToken(token);
+
+        const existsSpy = jest.spyOn(fakeRedis, 'exists');
+        const response = await request(app).get('/me').set('Authorization', `Bearer ${token}`);
+
+        expect(response.status).toBe(401);
+        expect(response.body.error.code).toBe('TOKEN_INVALIDATED');
+        expect(existsSpy).not.toHaveBeenCalled();
+        existsSpy.mockRestore();
+    });
+
+    it('should store logged out tokens in Redis only for their remaining lifetime', async () => {
+        const token = sign({ userId: 5, userType: 'FARMER' });
+        await revokeToken(token);
+
+        const ttl = await fakeRedis.pttl(blacklistKey(token));
+        expect(ttl).toBeGreaterThan(0);
+        expect(ttl).toBeLessThanOrEqual(5 * 60 * 1000);
+    });
+
+    it('should reject every token of a revoked session', async () => {
+        await revokeSession(2, 60);
+
+        const token = sign({ userId: 5, userType: 'FARMER', sessionId: 2 });
+        const other = sign({ userId: 5, userType: 'FARMER', sessionId: 3 });
+
+        expect(await isTokenRevoked(token, 2)).toBe(true);
+        expect((await request(app).get('/me').set('Authorization', `Bearer ${token}`)).status).toBe(401);
+        expect((await request(app).get('/me').set('Authorization', `Bearer ${other}`)).status).toBe(200);
+    });
+
+    it('should fall back to Redis for keys it has not cached', async () => {
+        // Written by the auth-service directly, or evicted from the cache
+        const token = sign({ userId: 5, userType: 'FARMER' });
+        await fakeRedis.set(blacklistKey(token), '1', 'EX', 60);
+        await fakeRedis.set('token:blacklist:session:4', '1', 'EX', 60);
+
+        expect(await isTokenRevoked(token)).toBe(true);
+        expect(await isTokenRevoked('other-token', 4)).toBe(true);
+        expect(await isTokenRevoked('third-token', 5)).toBe(false);
+    });
+
+    it('should cache a revocation found in Redis', async () => {
+        const token = sign({ userId: 5, userType: 'FARMER', sessionId: 8 });
+        await fakeRedis.set('token:blacklist:session:8', '1', 'EX', 60);
+        expect(await isTokenRevoked(token, 8)).toBe(true);
+
+        const existsSpy = jest.spyOn(fakeRedis, 'exists');
+        expect(await isTokenRevoked(token, 8)).toBe(true);
+        expect(existsSpy).not.toHaveBeenCalled();
+        existsSpy.mockRestore();
+    });
+
+    it('should fail open when Redis is unreachable', async () => {
+        const existsSpy = jest.spyOn(fakeRedis, 'exists').mockRejectedValue(new Error('connection lost'));
+
+        expect(await isTokenRevoked('token', 11)).toBe(false);
+        existsSpy.mockRestore();
+    });
+
+    it('should apply revocations announced by other replicas', async () => {
+        await startBlacklistSync();
+        const token = sign({ userId: 5, userType: 'FARMER' });
+        expect(await isTokenRevoked(token)).toBe(false);
+
+        // Another gateway replica blacklists the token; only the event reaches this one
+        await fakeRedis.publish(TOKEN_BLACKLIST_CHANNEL, JSON.stringify({ key: blacklistKey(token), ttlMs: 60000 }));
+
+        const existsSpy = jest.spyOn(fakeRedis, 'exists');
+        expect(await isTokenRevoked(token)).toBe(true);
+        expect(existsSpy).not.toHaveBeenCalled();
+        existsSpy.mockRestore();
+    });
+
+    it('should ignore events for keys outside the blacklist', async () => {
+        await startBlacklistSync();
+
+        await fakeRedis.publish(TOKEN_BLACKLIST_CHANNEL, JSON.stringify({ key: 'refresh:token:abc', ttlMs: 60000 }));
+        await fakeRedis.publish(TOKEN_BLACKLIST_CHANNEL, 'not json');
+
+        expect(await isTokenRevoked('abc')).toBe(false);
+    });
+
+    it('should forget entries once they expire', async () => {
+        await revokeSession(6, 1);
+        expect(await isTokenRevoked('token', 6)).toBe(true);
+
+        const now = Date.now();
+        const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(now + 2000);
+        expect(await isTokenRevoked('token', 6)).toBe(false);
+        nowSpy.mockRestore();
+    });
+});
@@ -0,0 +1,83 @@
+/**
+ * Request Validation Middleware - Unit Tests
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { z } from 'zod';
+import { getRequestSchemas, validate, validated } from '../../src/middleware/validate';
+
+const schemas = {
+    params: z.object({ id: z.coerce.number().int().positive() }),
+    query: z.object({
+        page: z.coerce.number().int().min(1).default(1),
+        unread_only: z.enum(['true', 'false']).optional().transform((value) => value === 'true'),
+    }),
+    headers: z.object({ 'x-device-id': z.string().min(1) }),
+    body: z.object({ quantity_kg: z.number().positive() }),
+};
+
+const buildApp = () => {
+    const app = express();
+    app.use(express.json());
+    app.post('/listings/:id', validated(schemas, (req, res) => {
+        res.json({
+            id: req.params.id,
+            query: req.query,
+            deviceId: req.headers['x-device-id'],
+            userAgent: req.headers['user-agent'],
+            body: req.body,
+        });
+    }));
+    return app;
+};
+
+describe('validate', () => {
+    it('should hand the handler parsed values with coercions and defaults', async () => {
+        const response = await request(buildApp())
+            .post('/listings/42?unread_only=true')
+            .set('X-Device-Id', 'device-1')
+            .set('User-Agent', 'cropfresh-app')
+            .send({ quantity_kg: 120 });
+
+        expect(response.status).toBe(200);
+        expect(response.body).toEqual({
+            id: 42,
+            query: { page: 1, unread_only: true },
+            deviceId: 'device-1',
+            userAgent: 'cropfresh-app',
+            body: { quantity_kg: 120 },
+        });
+    });
+
+    it('should name the part that failed', async () => {
+        const response = await request(buildApp())
+            .post('/listings/42')
+            .set('X-Device-Id', 'device-1')
+            .send({ quantity_kg: -1 });
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toMatchObject({
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: { field_violations: [{ field: 'quantity_kg', description: expect.any(String) }] },
+        });
+    });
+
+    it('should list failures from every part without running the handler', async () => {
+        const response = await request(buildApp())
+            .post('/listings/abc?page=0')
+            .send({});
+
+        expect(response.status).toBe(400);
+        expect(response.body.error.message).toBe('Validation failed');
+        expect(response.body.error.details.field_violations.map((violation: { field: string }) => violation.field))
+            .toEqual(['id', 'page', 'x-device-id', 'quantity_kg']);
+    });
+
+    it('should tag the middleware with its schemas', () => {
+        expect(getRequestSchemas(validate(schemas))).toBe(schemas);
+        expect(getRequestSchemas(validated(schemas, jest.fn())[0])).toBe(schemas);
+        expect(getRequestSchemas(() => undefined)).toBeUndefined();
+    });
+});
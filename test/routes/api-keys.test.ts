@@ -0,0 +1,203 @@
+/**
+ * Partner API Keys - Unit Tests
+ *
+ * Tests key management under /v1/buyer/team/api-keys and key authentication
+ * on the buyer listing and order routes, with a fake Redis and mocked gRPC
+ * clients.
+ */
+
+import request from 'supertest';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { config } from '../../src/config';
+import teamRouter from '../../src/routes/v1/team';
+import listingsRouter from '../../src/routes/v1/buyers/listings';
+import ordersRouter from '../../src/routes/v1/buyers/orders';
+import { FakeRedis } from '../helpers/fake-redis';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+const fakeRedis = new FakeRedis();
+const mockCatalogClient = {
+    GetListingDetails: jest.fn(),
+};
+const mockAuthClient = {
+    ListTeamMembers: jest.fn(),
+};
+
+jest.mock('../../src/utils/redis', () => ({
+    getRedisClient: () => fakeRedis,
+}));
+
+// Getter defers the lookup until the router calls the client
+jest.mock('../../src/grpc/clients', () => ({
+    get authClient() {
+        return mockAuthClient;
+    },
+    orderClient: {},
+    get catalogClient() {
+        return mockCatalogClient;
+    },
+    createMetadata: jest.fn(),
+}));
+
+// Mock logger
+jest.mock('../../src/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        error: jest.fn(),
+        warn: jest.fn(),
+    },
+}));
+
+// ============================================================================
+// Test App Setup
+// ============================================================================
+
+const app = express();
+app.use(express.json());
+app.use('/v1/buyer/team', teamRouter);
+app.use('/v1/buyers/listings', listingsRouter);
+app.use('/v1/buyers/orders', ordersRouter);
+
+const sign = (claims: object) =>
+    jwt.sign(claims, config.jwtSecret, { expiresIn: '5m' });
+
+const orgAdmin = sign({ userId: 21, userType: 'BUYER', buyerOrgId: 3, teamRole: 'ADMIN' });
+const orgMember = sign({ userId: 22, userType: 'BUYER', buyerOrgId: 3, teamRole: 'VIEWER' });
+
+const createKey = (body: object, token = orgAdmin) =>
+    request(app)
+        .post('/v1/buyer/team/api-keys')
+        .set('Authorization', `Bearer ${token}`)
+        .send(body);
+
+const teamAdmins = (members: object[]) => ({
+    members,
+    pending_invitations: [],
+    pagination: { page: 1, limit: 100, total: members.length, total_pages: 1 },
+});
+
+const getListing = (key: string) =>
+    request(app).get('/v1/buyers/listings/1').set('X-API-Key', key);
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Partner API Keys', () => {
+    beforeEach(() => {
+        fakeRedis.flushall();
+        jest.clearAllMocks();
+        mockCatalogClient.GetListingDetails.mockResolvedValue({ id: 1, cropType: 'Tomato', photos: [], deliveryOptions: [] });
+        mockAuthClient.ListTeamMembers.mockResolvedValue(teamAdmins([{ user_id: 21, role: 'ADMIN', status: 'ACTIVE' }]));
+    });
+
+    it('should create a key once and list it without the secret', async () => {
+        const created = await createKey({ name: 'ERP', scopes: ['inventory:read'] });
+
+        expect(created.status).toBe(201);
+        expect(created.body.data.key).toMatch(/^cfk_live_/);
+        expect(created.body.data.rate_limit_per_minute).toBe(config.apiKeys.defaultRateLimitPerMinute);
+        expect(fakeRedis.keys().some((key) => key.includes(created.body.data.key))).toBe(false);
+
+        const listed = await request(app)
+            .get('/v1/buyer/team/api-keys')
+            .set('Authorization', `Bearer ${orgAdmin}`);
+
+        expect(listed.status).toBe(200);
+        expect(listed.body.data.api_keys).toHaveLength(1);
+        expect(listed.body.data.api_keys[0]).toMatchObject({ name: 'ERP', last_used_at: null });
+        expect(listed.body.data.api_keys[0].key).toBeUndefined();
+    });
+
+    it('should only let organisation admins manage keys', async () => {
+        const response = await createKey({ name: 'ERP', scopes: ['inventory:read'] }, orgMember);
+
+        expect(response.status).toBe(403);
+    });
+
+    it('should reject unknown scopes', async () => {
+        const response = await createKey({ name: 'ERP', scopes: ['admin:all'] });
+
+        expect(response.status).toBe(400);
+    });
+
+    it('should authenticate a key and track its last use', async () => {
+        const { body } = await createKey({ name: 'ERP', scopes: ['inventory:read'] });
+
+        const response = await getListing(body.data.key);
+
+        expect(response.status).toBe(200);
+        expect(response.headers['ratelimit-remaining']).toBeDefined();
+        expect(await fakeRedis.get(`apikey:used:${body.data.id}`)).toEqual(expect.any(String));
+    });
+
+    it('should enforce key scopes', async () => {
+        const { body } = await createKey({ name: 'ERP', scopes: ['inventory:read'] });
+
+        const response = await request(app)
+            .post('/v1/buyers/orders')
+            .set('X-API-Key', body.data.key)
+            .send({});
+
+        expect(response.status).toBe(403);
+        expect(response.body.error.code).toBe('INSUFFICIENT_SCOPE');
+    });
+
+    it('should apply the key rate limit', async () => {
+        const { body } = await createKey({ name: 'ERP', scopes: ['inventory:read'], rate_limit_per_minute: 1 });
+
+        expect((await getListing(body.data.key)).status).toBe(200);
+        const limited = await getListing(body.data.key);
+
+        expect(limited.status).toBe(429);
+        expect(limited.body.error.code).toBe('RATE_LIMITED');
+    });
+
+    it('should check the creator once per cache period', async () => {
+        const { body } = await createKey({ name: 'ERP', scopes: ['inventory:read'] });
+
+        expect((await getListing(body.data.key)).status).toBe(200);
+        expect((await getListing(body.data.key)).status).toBe(200);
+
+        expect(mockAuthClient.ListTeamMembers).toHaveBeenCalledTimes(1);
+        expect(mockAuthClient.ListTeamMembers).toHaveBeenCalledWith(
+            expect.objectContaining({ buyer_org_id: 3, role_filter: 'ADMIN' }),
+            expect.anything()
+        );
+    });
+
+    it('should revoke the keys of a creator who is no longer an admin', async () => {
+        const { body } = await createKey({ name: 'ERP', scopes: ['inventory:read'] });
+        mockAuthClient.ListTeamMembers.mockResolvedValue(teamAdmins([{ user_id: 30, role: 'ADMIN', status: 'ACTIVE' }]));
+
+        const response = await getListing(body.data.key);
+
+        expect(response.status).toBe(401);
+        expect(response.body.error.code).toBe('INVALID_API_KEY');
+        expect(mockCatalogClient.GetListingDetails).not.toHaveBeenCalled();
+        expect(await fakeRedis.get(`apikey:key:${body.data.id}`)).toBeNull();
+    });
+
+    it('should revoke the keys of a deactivated creator', async () => {
+        const { body } = await createKey({ name: 'ERP', scopes: ['inventory:read'] });
+        mockAuthClient.ListTeamMembers.mockResolvedValue(teamAdmins([{ user_id: 21, role: 'ADMIN', status: 'DEACTIVATED' }]));
+
+        expect((await getListing(body.data.key)).status).toBe(401);
+    });
+
+    it('should reject revoked and unknown keys', async () => {
+        const { body } = await createKey({ name: 'ERP', scopes: ['inventory:read'] });
+
+        const revoked = await request(app)
+            .delete(`/v1/buyer/team/api-keys/${body.data.id}`)
+            .set('Authorization', `Bearer ${orgAdmin}`);
+        expect(revoked.status).toBe(200);
+
+        expect((await getListing(body.data.key)).status).toBe(401);
+        expect((await getListing('cfk_live_unknown')).status).toBe(401);
+    });
+});
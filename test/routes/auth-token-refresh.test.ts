@@ -0,0 +1,178 @@
+/**
+ * Auth Token Refresh Route - Unit Tests
+ *
+ * Tests POST /v1/auth/token/refresh rotation and reuse detection, and refresh
+ * tokens issued at login, with a fake Redis and a mocked auth-service client.
+ */
+
+import request from 'supertest';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { config } from '../../src/config';
+import authRouter from '../../src/routes/v1/auth';
+import { errorHandler } from '../../src/middleware/error-handler';
+import { issueRefreshToken } from '../../src/utils/refresh-token-store';
+import { FakeRedis } from '../helpers/fake-redis';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+const fakeRedis = new FakeRedis();
+const mockAuthClient = {
+    IssueAccessToken: jest.fn(),
+    VerifyBuyerOtp: jest.fn(),
+};
+
+jest.mock('../../src/utils/redis', () => ({
+    getRedisClient: () => fakeRedis,
+}));
+
+// Getter defers the lookup until the router calls the client
+jest.mock('../../src/grpc/clients', () => ({
+    get authClient() {
+        return mockAuthClient;
+    },
+    createMetadata: jest.fn(),
+}));
+
+// Mock logger
+jest.mock('../../src/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        error: jest.fn(),
+        warn: jest.fn(),
+    },
+}));
+
+// ============================================================================
+// Test App Setup
+// ============================================================================
+
+const app = express();
+app.use(express.json());
+app.use('/v1/auth', authRouter);
+app.use(errorHandler);
+
+const refresh = (token: string) =>
+    request(app).post('/v1/auth/token/refresh').send({ refresh_token: token });
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('POST /v1/auth/token/refresh', () => {
+    const session = { userId: 11, userType: 'FARMER', sessionId: 7 };
+
+    beforeEach(() => {
+        fakeRedis.flushall();
+        jest.clearAllMocks();
+        mockAuthClient.IssueAccessToken.mockImplementation(async () => ({ token: `access-${Date.now()}`, expires_in: 900 }));
+    });
+
+    it('should rotate the refresh token and mint an access token for the session', async () => {
+        const { token } = await issueRefreshToken(session);
+
+        const response = await refresh(token);
+
+        expect(response.status).toBe(200);
+        expect(response.body.data.token).toMatch(/^access-/);
+        expect(response.body.data.expires_in).toBe(900);
+        expect(response.body.data.refresh_token).toBeDefined();
+        expect(response.body.data.refresh_token).not.toBe(token);
+        expect(mockAuthClient.IssueAccessToken).toHaveBeenCalledWith(
+            expect.objectContaining({ user_id: '11', session_id: 7 }),
+            { metadata: undefined }
+        );
+    });
+
+    it('should revoke the session family when a refresh token is reused', async () => {
+        const { token } = await issueRefreshToken(session);
+        const first = await refresh(token);
+        const rotated = first.body.data.refresh_token;
+
+        const replay = await refresh(token);
+        expect(replay.status).toBe(401);
+        expect(replay.body.error.code).toBe('REFRESH_TOKEN_REUSED');
+        expect(await fakeRedis.exists('token:blacklist:session:7')).toBe(1);
+
+        // The legitimately rotated token dies with the session
+        const afterRevoke = await refresh(rotated);
+        expect(afterRevoke.status).toBe(401);
+        expect(afterRevoke.body.error.code).toBe('SESSION_REVOKED');
+    });
+
+    it('should keep the family expiry when rotating', async () => {
+        const ttlMs = config.jwt.refreshTokenTtlSeconds * 1000;
+        const loginAt = Date.now();
+        const { token } = await issueRefreshToken(session);
+
+        const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(loginAt + ttlMs / 2);
+        const rotated = await refresh(token);
+        expect(rotated.status).toBe(200);
+        expect(rotated.body.data.refresh_expires_in).toBe(config.jwt.refreshTokenTtlSeconds / 2);
+
+        nowSpy.mockReturnValue(loginAt + ttlMs);
+        const expired = await refresh(rotated.body.data.refresh_token);
+        nowSpy.mockRestore();
+
+        expect(expired.status).toBe(401);
+        expect(expired.body.error.code).toBe('INVALID_REFRESH_TOKEN');
+    });
+
+    it('should reject an unknown refresh token', async () => {
+        const response = await refresh('not-a-real-token');
+
+        expect(response.status).toBe(401);
+        expect(response.body.error.code).toBe('INVALID_REFRESH_TOKEN');
+    });
+
+    it('should keep the refresh token usable when minting the access token fails', async () => {
+        const { token } = await issueRefreshToken(session);
+        mockAuthClient.IssueAccessToken.mockRejectedValueOnce({ code: 14, message: 'unavailable' });
+
+        const failed = await refresh(token);
+        expect(failed.status).toBe(503);
+
+        const retry = await refresh(token);
+        expect(retry.status).toBe(200);
+    });
+
+    it('should return 400 without a refresh token', async () => {
+        const response = await request(app).post('/v1/auth/token/refresh').send({});
+
+        expect(response.status).toBe(400);
+    });
+});
+
+describe('refresh tokens at login', () => {
+    beforeEach(() => {
+        fakeRedis.flushall();
+        jest.clearAllMocks();
+    });
+
+    it('should issue a refresh token when buyer registration completes', async () => {
+        const accessToken = jwt.sign({ userId: 31, userType: 'BUYER', sessionId: 12 }, config.jwtSecret, { expiresIn: '15m' });
+        mockAuthClient.VerifyBuyerOtp.mockResolvedValue({ message: 'Registered', token: accessToken, buyer: { user_id: 31 } });
+
+        const response = await request(app)
+            .post('/v1/auth/buyer/verify-otp')
+            .send({
+                mobile_number: '9876543210',
+                otp: '123456',
+                address: { address_line1: '1 Market Rd', city: 'Kolar', state: 'KA', pincode: '563101' },
+            });
+
+        expect(response.status).toBe(201);
+        expect(response.body.data.token).toBe(accessToken);
+        expect(response.body.data.refresh_expires_in).toBe(config.jwt.refreshTokenTtlSeconds);
+
+        mockAuthClient.IssueAccessToken.mockResolvedValue({ token: 'access-next', expires_in: 900 });
+        const refreshed = await refresh(response.body.data.refresh_token);
+        expect(refreshed.status).toBe(200);
+        expect(mockAuthClient.IssueAccessToken).toHaveBeenCalledWith(
+            expect.objectContaining({ user_id: '31', session_id: 12 }),
+            expect.anything()
+        );
+    });
+});
@@ -7,6 +7,7 @@
 import request from 'supertest';
 import express from 'express';
 import listingsRouter from '../../src/routes/v1/farmers/listings';
+import { FakeRedis } from '../helpers/fake-redis';
 
 // ============================================================================
 // Mocks
@@ -14,15 +15,26 @@ import listingsRouter from '../../src/routes/v1/farmers/listings';
 
 // Mock gRPC client
 const mockGrpcClient = {
-    createListing: jest.fn(),
-    getListing: jest.fn(),
-    listFarmerListings: jest.fn(),
-    updateListing: jest.fn(),
-    cancelListing: jest.fn(),
+    CreateListing: jest.fn(),
+    GetListing: jest.fn(),
+    ListFarmerListings: jest.fn(),
+    UpdateListing: jest.fn(),
+    CancelListing: jest.fn(),
 };
 
-jest.mock('../../src/grpc/catalog-client', () => ({
-    catalogGrpcClient: mockGrpcClient,
+// Getter defers the lookup until the router calls the client; jest.mock is
+// hoisted above the mock declaration
+jest.mock('../../src/grpc/clients', () => ({
+    get catalogClient() {
+        return mockGrpcClient;
+    },
+}));
+
+// Rate limit buckets
+const fakeRedis = new FakeRedis();
+
+jest.mock('../../src/utils/redis', () => ({
+    getRedisClient: () => fakeRedis,
 }));
 
 // Mock logger
@@ -43,7 +55,7 @@ app.use(express.json());
 
 // Mock auth middleware
 app.use((req: any, res, next) => {
-    req.user = { id: 1, role: 'FARMER' };
+    req.user = { userId: 1, userType: 'FARMER' };
     next();
 });
 
@@ -55,6 +67,7 @@ app.use('/v1/farmers/listings', listingsRouter);
 
 describe('Farmers Listings Routes', () => {
     beforeEach(() => {
+        fakeRedis.flushall();
         jest.clearAllMocks();
     });
 
@@ -77,7 +90,7 @@ describe('Farmers Listings Routes', () => {
                 createdAt: new Date().toISOString(),
             };
 
-            mockGrpcClient.createListing.mockResolvedValue(mockListing);
+            mockGrpcClient.CreateListing.mockResolvedValue(mockListing);
 
             // Act
             const response = await request(app)
@@ -142,7 +155,7 @@ describe('Farmers Listings Routes', () => {
                 hasMore: false,
             };
 
-            mockGrpcClient.listFarmerListings.mockResolvedValue(mockResponse);
+            mockGrpcClient.ListFarmerListings.mockResolvedValue(mockResponse);
 
             // Act
             const response = await request(app)
@@ -157,7 +170,7 @@ describe('Farmers Listings Routes', () => {
 
         it('should filter by status', async () => {
             // Arrange
-            mockGrpcClient.listFarmerListings.mockResolvedValue({
+            mockGrpcClient.ListFarmerListings.mockResolvedValue({
                 listings: [],
                 total: 0,
                 page: 1,
@@ -172,7 +185,7 @@ describe('Farmers Listings Routes', () => {
 
             // Assert
             expect(response.status).toBe(200);
-            expect(mockGrpcClient.listFarmerListings).toHaveBeenCalledWith(
+            expect(mockGrpcClient.ListFarmerListings).toHaveBeenCalledWith(
                 expect.objectContaining({ status: 'ACTIVE' })
             );
         });
@@ -192,7 +205,7 @@ describe('Farmers Listings Routes', () => {
                 status: 'ACTIVE',
             };
 
-            mockGrpcClient.getListing.mockResolvedValue(mockListing);
+            mockGrpcClient.GetListing.mockResolvedValue(mockListing);
 
             // Act
             const response = await request(app)
@@ -219,7 +232,7 @@ describe('Farmers Listings Routes', () => {
     describe('DELETE /v1/farmers/listings/:id', () => {
         it('should cancel listing with valid reason', async () => {
             // Arrange
-            mockGrpcClient.cancelListing.mockResolvedValue({
+            mockGrpcClient.CancelListing.mockResolvedValue({
                 success: true,
                 message: 'Listing cancelled successfully',
             });
@@ -232,7 +245,7 @@ describe('Farmers Listings Routes', () => {
             // Assert
             expect(response.status).toBe(200);
             expect(response.body.data.success).toBe(true);
-            expect(mockGrpcClient.cancelListing).toHaveBeenCalledWith(
+            expect(mockGrpcClient.CancelListing).toHaveBeenCalledWith(
                 expect.objectContaining({
                     id: 1,
                     farmerId: 1,
@@ -267,7 +280,7 @@ describe('Farmers Listings Routes', () => {
             const validReasons = ['SOLD_ELSEWHERE', 'QUALITY_CHANGED', 'CHANGED_MIND', 'OTHER'];
 
             for (const reason of validReasons) {
-                mockGrpcClient.cancelListing.mockResolvedValue({
+                mockGrpcClient.CancelListing.mockResolvedValue({
                     success: true,
                     message: 'Listing cancelled',
                 });
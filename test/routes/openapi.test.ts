@@ -0,0 +1,166 @@
+/**
+ * OpenAPI Document - Unit Tests
+ *
+ * Checks that every v1 route is documented from its declarations, and that
+ * the document and docs page are served.
+ */
+
+import express from 'express';
+import request from 'supertest';
+import apiRouter from '../../src/routes';
+import { v1Routes } from '../../src/routes/v1';
+import { config } from '../../src/config';
+import { getRequestSchemas } from '../../src/middleware/validate';
+import { buildOpenApiDocument } from '../../src/utils/openapi';
+import { collectRoutes } from '../../src/utils/route-table';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+// Routers only need the client objects to exist at import time
+jest.mock('../../src/grpc/clients', () => ({
+    authClient: {},
+    catalogClient: {},
+    orderClient: {},
+    matchClient: {},
+    createMetadata: jest.fn(),
+}));
+
+jest.mock('../../src/grpc/logistics-client', () => ({
+    logisticsGrpcClient: {},
+}));
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('OpenAPI document', () => {
+    const routes = collectRoutes(v1Routes, '/v1');
+    const document = buildOpenApiDocument(v1Routes, { prefix: '/v1', version: '1' });
+
+    it('should declare request schemas on every route', () => {
+        const undocumented = routes
+            .filter((route) => !route.handlers.some((handler) => getRequestSchemas(handler)))
+            .map((route) => `${route.method} ${route.path}`);
+
+        expect(routes.length).toBeGreaterThan(0);
+        expect(undocumented).toEqual([]);
+    });
+
+    it('should document every route under its OpenAPI path', () => {
+        const operations = Object.values(document.paths as Record<string, object>)
+            .reduce((count, pathItem) => count + Object.keys(pathItem).length, 0);
+
+        expect(document.openapi).toBe('3.1.0');
+        expect(operations).toBe(routes.length);
+        expect(document.paths['/v1/farmers/listings/{listingId}/photos/{photoId}/confirm'].post).toBeDefined();
+    });
+
+    it('should document path and query parameters from the route schemas', () => {
+        const { parameters } = document.paths['/v1/farmers/listings'].get;
+
+        expect(parameters).toContainEqual({
+            name: 'page',
+            in: 'query',
+            required: false,
+            schema: expect.objectContaining({ type: 'integer', default: 1 }),
+        });
+        expect(document.paths['/v1/farmers/listings/{id}'].get.parameters).toContainEqual(
+            expect.objectContaining({ name: 'id', in: 'path', required: true })
+        );
+    });
+
+    it('should document request bodies as clients send them', () => {
+        const { requestBody } = document.paths['/v1/farmers/listings'].post;
+        const schema = requestBody.content['application/json'].schema;
+
+        expect(schema.required).toEqual(expect.arrayContaining(['cropId', 'quantityKg']));
+        // Defaulted fields may be left out
+        expect(schema.required).not.toContain('unit');
+    });
+
+    it('should document security from the access policy', () => {
+        const login = document.paths['/v1/auth/login'].post;
+        const inventory = document.paths['/v1/buyers/inventory'].get;
+        const listings = document.paths['/v1/farmers/listings'].get;
+
+        expect(login.security).toEqual([]);
+        expect(login.responses['401']).toBeUndefined();
+        expect(inventory.security).toEqual([{ bearerAuth: [] }, { apiKey: [] }]);
+        expect(listings.security).toEqual([{ bearerAuth: [] }]);
+        expect(listings['x-access-policies']).toContainEqual({ userTypes: ['FARMER'] });
+        expect(listings.responses['403']).toEqual({ $ref: '#/components/responses/Error403' });
+    });
+
+    it('should mark deprecated routes and carry their sunset', () => {
+        const legacyOrders = document.paths['/v1/orders'].post;
+
+        expect(legacyOrders.deprecated).toBe(true);
+        expect(legacyOrders['x-deprecation']).toEqual({
+            since: '2026-10-19',
+            sunset: '2027-04-30',
+            successor: '/v1/buyers/orders',
+        });
+        expect(document.paths['/v1/buyers/orders'].post.deprecated).toBeUndefined();
+    });
+
+    it('should mark every route deprecated when the version is', () => {
+        const deprecation = { since: '2026-10-19' };
+        const deprecatedDocument = buildOpenApiDocument(v1Routes, { prefix: '/v1', version: '1', deprecation });
+
+        expect(deprecatedDocument.paths['/v1/buyers/orders'].post['x-deprecation']).toEqual(deprecation);
+        // A route's own deprecation is more specific than the version's
+        expect(deprecatedDocument.paths['/v1/orders'].post['x-deprecation'].successor).toBe('/v1/buyers/orders');
+    });
+
+    it('should document error responses from the error catalog', () => {
+        const { responses } = document.components;
+
+        expect(responses.Error400.description).toContain('VALIDATION_ERROR');
+        expect(responses.Error409.description).toContain('ALREADY_EXISTS');
+        expect(responses.Error409.description).toContain('CONFLICT');
+        expect(responses.Error504.description).toContain('GATEWAY_TIMEOUT');
+        expect(responses.Error499).toBeUndefined();
+        expect(document.paths['/v1/farmers/matches/{id}'].get.responses['503']).toEqual({
+            $ref: '#/components/responses/Error503',
+        });
+    });
+});
+
+describe('Docs endpoints', () => {
+    const app = express();
+    app.use(apiRouter);
+
+    const docsEnabled = config.apiDocs.enabled;
+
+    afterEach(() => {
+        config.apiDocs.enabled = docsEnabled;
+    });
+
+    it('should serve the OpenAPI document', async () => {
+        const response = await request(app).get('/v1/openapi.json');
+
+        expect(response.status).toBe(200);
+        expect(response.body.openapi).toBe('3.1.0');
+        expect(response.body.paths['/v1/auth/login']).toBeDefined();
+    });
+
+    it('should serve the docs page with a policy that admits its scripts', async () => {
+        config.apiDocs.enabled = true;
+
+        const response = await request(app).get('/v1/docs');
+
+        expect(response.status).toBe(200);
+        expect(response.text).toContain('/v1/openapi.json');
+        expect(response.headers['content-security-policy']).toMatch(/script-src https:\/\/cdn\.jsdelivr\.net 'nonce-/);
+    });
+
+    it('should not serve the docs page when disabled', async () => {
+        config.apiDocs.enabled = false;
+
+        const response = await request(app).get('/v1/docs');
+
+        expect(response.status).toBe(404);
+    });
+});
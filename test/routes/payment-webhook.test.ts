@@ -0,0 +1,259 @@
+/**
+ * Payment Webhook Route - Unit Tests
+ *
+ * Tests the Razorpay and Cashfree webhook routes: each provider's signature
+ * scheme, payload mapping, replay protection and idempotent forwarding, with
+ * a fake Redis and a mocked Order Service client.
+ */
+
+import request from 'supertest';
+import express from 'express';
+import webhookRouter from '../../src/routes/v1/webhooks/payments';
+import { config } from '../../src/config';
+import { errorHandler } from '../../src/middleware/error-handler';
+import { captureRawBody, signCashfreePayload, signRazorpayPayload } from '../../src/middleware/webhook-signature';
+import { FakeRedis } from '../helpers/fake-redis';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+const fakeRedis = new FakeRedis();
+const mockOrderClient = {
+    PaymentCallback: jest.fn(),
+};
+
+jest.mock('../../src/utils/redis', () => ({
+    getRedisClient: () => fakeRedis,
+}));
+
+// Getter defers the lookup until the router calls the client
+jest.mock('../../src/grpc/clients', () => ({
+    get orderClient() {
+        return mockOrderClient;
+    },
+    createMetadata: jest.fn(),
+}));
+
+// Mock logger
+jest.mock('../../src/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        error: jest.fn(),
+        warn: jest.fn(),
+    },
+}));
+
+// ============================================================================
+// Test App Setup
+// ============================================================================
+
+const RAZORPAY_SECRET = 'razorpay_webhook_secret';
+const CASHFREE_SECRET = 'cashfree_client_secret';
+
+const app = express();
+app.use(express.json({ verify: captureRawBody }));
+app.use('/v1/webhooks/payments', webhookRouter);
+app.use(errorHandler);
+
+const razorpayEvent = (event = 'payment.captured', overrides: object = {}) => ({
+    entity: 'event',
+    event,
+    contains: ['payment'],
+    payload: {
+        payment: {
+            entity: {
+                id: 'pay_123',
+                order_id: 'order_abc',
+                status: event === 'payment.failed' ? 'failed' : 'captured',
+                error_description: event === 'payment.failed' ? 'Payment was declined' : null,
+                notes: { order_id: '42' },
+                ...overrides,
+            },
+        },
+    },
+    created_at: 1760000000,
+});
+
+const deliverRazorpay = (payload: object, options: { secret?: string; eventId?: string } = {}) => {
+    const body = JSON.stringify(payload);
+    return request(app)
+        .post('/v1/webhooks/payments/razorpay')
+        .set('Content-Type', 'application/json')
+        .set('X-Razorpay-Event-Id', options.eventId ?? 'evt_1')
+        .set('X-Razorpay-Signature', signRazorpayPayload(options.secret ?? RAZORPAY_SECRET, body))
+        .send(body);
+};
+
+const cashfreeEvent = (paymentStatus = 'SUCCESS', type = 'PAYMENT_SUCCESS_WEBHOOK') => ({
+    data: {
+        order: { order_id: '42', order_amount: 250, order_currency: 'INR' },
+        payment: { cf_payment_id: 5114910, payment_status: paymentStatus, payment_message: 'Transaction result' },
+    },
+    event_time: '2026-10-19T10:00:00+05:30',
+    type,
+});
+
+const deliverCashfree = (payload: object, options: { secret?: string; timestamp?: number } = {}) => {
+    const body = JSON.stringify(payload);
+    const timestamp = String(options.timestamp ?? Date.now());
+    return request(app)
+        .post('/v1/webhooks/payments/cashfree')
+        .set('Content-Type', 'application/json')
+        .set('x-webhook-timestamp', timestamp)
+        .set('x-webhook-signature', signCashfreePayload(options.secret ?? CASHFREE_SECRET, timestamp, body))
+        .send(body);
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('POST /v1/webhooks/payments/:provider', () => {
+    beforeAll(() => {
+        config.paymentWebhooks.secrets.razorpay = RAZORPAY_SECRET;
+        config.paymentWebhooks.secrets.cashfree = CASHFREE_SECRET;
+    });
+
+    beforeEach(() => {
+        fakeRedis.flushall();
+        jest.clearAllMocks();
+        mockOrderClient.PaymentCallback.mockResolvedValue({ success: true, message: 'Payment recorded' });
+    });
+
+    describe('razorpay', () => {
+        it('should forward a captured payment to the Order Service', async () => {
+            const response = await deliverRazorpay(razorpayEvent());
+
+            expect(response.status).toBe(200);
+            expect(response.body.data).toMatchObject({ event_id: 'evt_1', order_id: 42, forwarded: true, duplicate: false });
+            expect(mockOrderClient.PaymentCallback).toHaveBeenCalledWith(
+                { order_id: 42, success: true, transaction_id: 'pay_123', error_message: undefined },
+                { metadata: undefined }
+            );
+        });
+
+        it('should forward a failed payment with its reason', async () => {
+            await deliverRazorpay(razorpayEvent('payment.failed'));
+
+            expect(mockOrderClient.PaymentCallback).toHaveBeenCalledWith(
+                { order_id: 42, success: false, transaction_id: 'pay_123', error_message: 'Payment was declined' },
+                { metadata: undefined }
+            );
+        });
+
+        it('should reject an invalid signature', async () => {
+            const response = await deliverRazorpay(razorpayEvent(), { secret: 'wrong' });
+
+            expect(response.status).toBe(401);
+            expect(response.body.error.code).toBe('INVALID_SIGNATURE');
+            expect(mockOrderClient.PaymentCallback).not.toHaveBeenCalled();
+        });
+
+        it('should reject a tampered body', async () => {
+            const signature = signRazorpayPayload(RAZORPAY_SECRET, JSON.stringify(razorpayEvent('payment.failed')));
+
+            const response = await request(app)
+                .post('/v1/webhooks/payments/razorpay')
+                .set('Content-Type', 'application/json')
+                .set('X-Razorpay-Event-Id', 'evt_1')
+                .set('X-Razorpay-Signature', signature)
+                .send(JSON.stringify(razorpayEvent()));
+
+            expect(response.status).toBe(401);
+        });
+
+        it('should answer a duplicate event without forwarding it again', async () => {
+            await deliverRazorpay(razorpayEvent());
+            const duplicate = await deliverRazorpay(razorpayEvent());
+
+            expect(duplicate.status).toBe(200);
+            expect(duplicate.body.data.duplicate).toBe(true);
+            expect(mockOrderClient.PaymentCallback).toHaveBeenCalledTimes(1);
+        });
+
+        it('should process a redelivery after the Order Service failed', async () => {
+            mockOrderClient.PaymentCallback.mockRejectedValueOnce({ code: 14, message: 'unavailable' });
+
+            expect((await deliverRazorpay(razorpayEvent())).status).toBe(503);
+            expect((await deliverRazorpay(razorpayEvent())).status).toBe(200);
+            expect(mockOrderClient.PaymentCallback).toHaveBeenCalledTimes(2);
+        });
+
+        it('should acknowledge an authorized payment without changing the order', async () => {
+            const response = await deliverRazorpay(razorpayEvent('payment.authorized'), { eventId: 'evt_2' });
+
+            expect(response.status).toBe(200);
+            expect(response.body.data.forwarded).toBe(false);
+            expect(mockOrderClient.PaymentCallback).not.toHaveBeenCalled();
+        });
+
+        it('should reject a payment that does not name a gateway order', async () => {
+            const response = await deliverRazorpay(razorpayEvent('payment.captured', { notes: [] }));
+
+            expect(response.status).toBe(400);
+            expect(mockOrderClient.PaymentCallback).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('cashfree', () => {
+        it('should forward a successful payment to the Order Service', async () => {
+            const response = await deliverCashfree(cashfreeEvent());
+
+            expect(response.status).toBe(200);
+            expect(response.body.data).toMatchObject({ event_id: 'PAYMENT_SUCCESS_WEBHOOK:5114910', forwarded: true });
+            expect(mockOrderClient.PaymentCallback).toHaveBeenCalledWith(
+                { order_id: 42, success: true, transaction_id: '5114910', error_message: 'Transaction result' },
+                { metadata: undefined }
+            );
+        });
+
+        it('should fail the order when the buyer dropped the payment', async () => {
+            await deliverCashfree(cashfreeEvent('USER_DROPPED', 'PAYMENT_USER_DROPPED_WEBHOOK'));
+
+            expect(mockOrderClient.PaymentCallback).toHaveBeenCalledWith(
+                expect.objectContaining({ order_id: 42, success: false }),
+                { metadata: undefined }
+            );
+        });
+
+        it('should reject an invalid signature', async () => {
+            const response = await deliverCashfree(cashfreeEvent(), { secret: 'wrong' });
+
+            expect(response.status).toBe(401);
+            expect(response.body.error.code).toBe('INVALID_SIGNATURE');
+        });
+
+        it('should reject a replay outside the tolerance window', async () => {
+            const stale = Date.now() - (config.paymentWebhooks.toleranceSeconds + 1) * 1000;
+
+            const response = await deliverCashfree(cashfreeEvent(), { timestamp: stale });
+
+            expect(response.status).toBe(401);
+            expect(response.body.error.code).toBe('STALE_WEBHOOK');
+        });
+
+        it('should answer a duplicate delivery without forwarding it again', async () => {
+            await deliverCashfree(cashfreeEvent());
+            const duplicate = await deliverCashfree(cashfreeEvent());
+
+            expect(duplicate.body.data.duplicate).toBe(true);
+            expect(mockOrderClient.PaymentCallback).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    it('should return 404 for a provider without a secret', async () => {
+        delete config.paymentWebhooks.secrets.cashfree;
+
+        const response = await deliverCashfree(cashfreeEvent());
+
+        expect(response.status).toBe(404);
+        config.paymentWebhooks.secrets.cashfree = CASHFREE_SECRET;
+    });
+
+    it('should return 404 for an unknown provider', async () => {
+        const response = await request(app).post('/v1/webhooks/payments/testpay').send({});
+
+        expect(response.status).toBe(404);
+    });
+});
@@ -0,0 +1,140 @@
+/**
+ * Route Policy Table - Unit Tests
+ *
+ * Checks every v1 route against its declared access policy.
+ */
+
+import { v1Routes } from '../../src/routes/v1';
+import { ADMIN_POLICY } from '../../src/middleware/policy';
+import { collectRoutePolicies, findUndeclaredRoutes } from '../helpers/route-policy';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+// Routers only need the client objects to exist at import time
+jest.mock('../../src/grpc/clients', () => ({
+    authClient: {},
+    catalogClient: {},
+    orderClient: {},
+    matchClient: {},
+    createMetadata: jest.fn(),
+}));
+
+jest.mock('../../src/grpc/logistics-client', () => ({
+    logisticsGrpcClient: {},
+}));
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('v1 route policies', () => {
+    const routes = collectRoutePolicies(v1Routes, '/v1');
+
+    const routesUnder = (prefix: string) =>
+        routes.filter((route) => route.path.startsWith(prefix));
+
+    it('should declare a policy or public access on every route', () => {
+        expect(routes.length).toBeGreaterThan(0);
+        expect(findUndeclaredRoutes(routes)).toEqual([]);
+    });
+
+    it('should only expose the expected public routes', () => {
+        const publicRoutes = routes
+            .filter((route) => route.isPublic)
+            .map((route) => `${route.method} ${route.path}`);
+
+        expect(publicRoutes).toEqual([
+            'POST /v1/auth/login',
+            'POST /v1/auth/otp/request',
+            'POST /v1/auth/login/request-otp',
+            'POST /v1/auth/login/verify-otp',
+            'POST /v1/auth/verify-upi',
+            'POST /v1/auth/test/verify-upi',
+            'POST /v1/auth/login-pin',
+            'POST /v1/auth/buyer/register',
+            'POST /v1/auth/buyer/verify-otp',
+            'POST /v1/auth/buyer/login',
+            'POST /v1/auth/buyer/logout',
+            'POST /v1/auth/buyer/forgot-password',
+            'POST /v1/auth/buyer/reset-password',
+            'POST /v1/auth/logout',
+            'POST /v1/auth/token/refresh',
+            'POST /v1/buyer/team/accept-invite',
+            'GET /v1/buyer/team/invitation/:token',
+            'POST /v1/hauler/register/step1',
+            'POST /v1/hauler/register/step1/verify-otp',
+            'POST /v1/hauler/register/step2',
+            'POST /v1/hauler/register/step3',
+            'POST /v1/hauler/register/step4',
+            'POST /v1/hauler/register/submit',
+            'GET /v1/hauler/register/eligibility',
+            'POST /v1/agent/login',
+            'POST /v1/agent/set-pin',
+            'POST /v1/webhooks/payments/razorpay',
+            'POST /v1/webhooks/payments/cashfree',
+        ]);
+    });
+
+    it('should mount session management for any verified caller', () => {
+        const sessionRoutes = routesUnder('/v1/users/sessions');
+
+        expect(sessionRoutes.map((route) => `${route.method} ${route.path}`)).toEqual([
+            'GET /v1/users/sessions',
+            'DELETE /v1/users/sessions/:sessionId',
+            'DELETE /v1/users/sessions',
+        ]);
+        for (const route of sessionRoutes) {
+            expect(route.policies).toContainEqual({});
+        }
+    });
+
+    it('should restrict farmer routes to farmers', () => {
+        const farmerRoutes = routesUnder('/v1/farmers/');
+
+        expect(farmerRoutes.length).toBeGreaterThan(0);
+        for (const route of farmerRoutes) {
+            expect(route.policies).toContainEqual({ userTypes: ['FARMER'] });
+        }
+    });
+
+    it('should restrict farmer onboarding to the signed-in farmer', () => {
+        const onboarding = ['POST /v1/auth/profile', 'PUT /v1/auth/profile', 'POST /v1/auth/farm-profile', 'POST /v1/auth/pin'];
+        const onboardingRoutes = routes.filter((route) => onboarding.includes(`${route.method} ${route.path}`));
+
+        expect(onboardingRoutes).toHaveLength(onboarding.length);
+        for (const route of onboardingRoutes) {
+            expect(route.policies).toContainEqual({ userTypes: ['FARMER'] });
+        }
+    });
+
+    it('should restrict buyer routes to buyers', () => {
+        const buyerRoutes = [...routesUnder('/v1/buyers/'), ...routesUnder('/v1/buyer/')]
+            .filter((route) => !route.isPublic);
+
+        expect(buyerRoutes.length).toBeGreaterThan(0);
+        for (const route of buyerRoutes) {
+            expect(route.policies.some((policy) => policy.userTypes?.includes('BUYER'))).toBe(true);
+        }
+    });
+
+    it('should restrict admin routes to district managers and admins', () => {
+        const adminRoutes = routesUnder('/v1/admin/');
+
+        expect(adminRoutes.length).toBeGreaterThan(0);
+        for (const route of adminRoutes) {
+            expect(route.policies).toContainEqual(ADMIN_POLICY);
+        }
+    });
+
+    it('should restrict team management to buyer organisation admins', () => {
+        const managementRoutes = routesUnder('/v1/buyer/team')
+            .filter((route) => route.method !== 'GET' && !route.isPublic);
+
+        expect(managementRoutes.length).toBeGreaterThan(0);
+        for (const route of managementRoutes) {
+            expect(route.policies).toContainEqual({ userTypes: ['BUYER'], teamRoles: ['ADMIN'] });
+        }
+    });
+});
@@ -0,0 +1,91 @@
+/**
+ * API Versions - Unit Tests
+ *
+ * Checks that versions run side by side under their own prefixes, each with
+ * its own document, and that a deprecated version says so on every route.
+ */
+
+import express, { Router } from 'express';
+import request from 'supertest';
+import { createApiRouter, ApiVersion } from '../../src/routes/versions';
+import { allowPublic } from '../../src/middleware/policy';
+import { validated } from '../../src/middleware/validate';
+import { deprecatedRequestsTotal } from '../../src/middleware/monitoring';
+
+const ordersRouter = (version: string) => {
+    const router = Router();
+    router.get('/:id', allowPublic(), validated({}, (req, res) => {
+        res.json({ version, id: req.params.id });
+    }));
+    return router;
+};
+
+const v1: ApiVersion = {
+    version: '1',
+    prefix: '/v1',
+    routes: [{ path: '/orders', router: ordersRouter('1') }],
+    deprecation: { since: '2026-10-19', sunset: '2027-04-30', successor: '/v2' },
+};
+
+const v2: ApiVersion = {
+    version: '2',
+    prefix: '/v2',
+    routes: [{ path: '/orders', router: ordersRouter('2') }],
+};
+
+const buildApp = () => {
+    const app = express();
+    app.use(createApiRouter([v1, v2]));
+    return app;
+};
+
+describe('API versions', () => {
+    beforeEach(() => {
+        deprecatedRequestsTotal.reset();
+    });
+
+    it('should serve each version under its own prefix', async () => {
+        const app = buildApp();
+
+        const [older, newer] = await Promise.all([
+            request(app).get('/v1/orders/7'),
+            request(app).get('/v2/orders/7'),
+        ]);
+
+        expect(older.body).toEqual({ version: '1', id: '7' });
+        expect(newer.body).toEqual({ version: '2', id: '7' });
+    });
+
+    it('should mark every route of a deprecated version', async () => {
+        const app = buildApp();
+
+        const older = await request(app).get('/v1/orders/7').set('X-App-Version', '2.3.1');
+        const newer = await request(app).get('/v2/orders/7');
+
+        expect(older.headers['sunset']).toBe('Fri, 30 Apr 2027 00:00:00 GMT');
+        expect(older.headers['link']).toBe('</v2>; rel="successor-version"');
+        expect(newer.headers['deprecation']).toBeUndefined();
+
+        const { values } = await deprecatedRequestsTotal.get();
+        expect(values).toEqual([{
+            value: 1,
+            labels: { method: 'GET', route: '/v1/orders/:id', app_version: '2.3.1' },
+        }]);
+    });
+
+    it('should serve a document per version', async () => {
+        const app = buildApp();
+
+        const older = await request(app).get('/v1/openapi.json');
+        const newer = await request(app).get('/v2/openapi.json');
+
+        expect(older.body.info.version).toBe('1');
+        expect(older.body.paths['/v1/orders/{id}'].get.deprecated).toBe(true);
+        expect(newer.body.info.version).toBe('2');
+        expect(newer.body.paths['/v2/orders/{id}'].get.deprecated).toBeUndefined();
+    });
+
+    it('should refuse two versions under one prefix', () => {
+        expect(() => createApiRouter([v1, { ...v2, prefix: '/v1' }])).toThrow('/v1 is mounted twice');
+    });
+});
@@ -0,0 +1,128 @@
+/**
+ * JWKS Key Store - Unit Tests
+ *
+ * Verifies kid selection, key rotation with a grace period and both JWKS
+ * sources (local file and HTTP).
+ */
+
+import { generateKeyPairSync, KeyObject } from 'crypto';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { JwksKeyStore } from '../../src/utils/jwks-key-store';
+
+// Mock logger
+jest.mock('../../src/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        error: jest.fn(),
+        warn: jest.fn(),
+    },
+}));
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+const jwk = (publicKey: KeyObject, kid: string, alg: string) => ({
+    ...publicKey.export({ format: 'jwk' }),
+    kid,
+    alg,
+    use: 'sig',
+});
+
+const rsaJwk = jwk(rsa.publicKey, 'rsa-2025', 'RS256');
+const ecJwk = jwk(ec.publicKey, 'ec-2025', 'ES256');
+
+const dir = mkdtempSync(path.join(tmpdir(), 'jwks-'));
+const jwksFile = path.join(dir, 'jwks.json');
+const writeJwks = (keys: object[]) => writeFileSync(jwksFile, JSON.stringify({ keys }));
+
+const options = {
+    refreshIntervalMs: 60000,
+    retiredKeyGraceMs: 1000,
+    minRefreshIntervalMs: 0,
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('JwksKeyStore', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should select keys by kid and verify RS256 and ES256 tokens', async () => {
+        writeJwks([rsaJwk, ecJwk]);
+        const store = new JwksKeyStore(jwksFile, options);
+
+        const rsaToken = jwt.sign({ userId: 1 }, rsa.privateKey, { algorithm: 'RS256', keyid: 'rsa-2025' });
+        const ecToken = jwt.sign({ userId: 2 }, ec.privateKey, { algorithm: 'ES256', keyid: 'ec-2025' });
+
+        const rsaKey = await store.getKey('rsa-2025');
+        const ecKey = await store.getKey('ec-2025');
+
+        expect(rsaKey?.alg).toBe('RS256');
+        expect(jwt.verify(rsaToken, rsaKey!.key, { algorithms: ['RS256'] })).toMatchObject({ userId: 1 });
+        expect(jwt.verify(ecToken, ecKey!.key, { algorithms: ['ES256'] })).toMatchObject({ userId: 2 });
+    });
+
+    it('should return null for an unknown kid', async () => {
+        writeJwks([rsaJwk]);
+        const store = new JwksKeyStore(`file://${jwksFile}`, options);
+
+        expect(await store.getKey('missing')).toBeNull();
+        expect(await store.getKey(undefined)).toBeNull();
+    });
+
+    it('should keep accepting a retired key until the grace period ends', async () => {
+        writeJwks([rsaJwk, ecJwk]);
+        const store = new JwksKeyStore(jwksFile, options);
+        await store.refresh();
+
+        // ec-2025 is rotated out
+        writeJwks([rsaJwk]);
+        await store.refresh();
+        const retiredAt = Date.now();
+
+        expect(await store.getKey('ec-2025')).not.toBeNull();
+
+        jest.spyOn(Date, 'now').mockReturnValue(retiredAt + options.retiredKeyGraceMs + 1);
+        expect(await store.getKey('ec-2025')).toBeNull();
+        expect(await store.getKey('rsa-2025')).not.toBeNull();
+    });
+
+    it('should keep cached keys when a refresh fails', async () => {
+        writeJwks([rsaJwk]);
+        const store = new JwksKeyStore(jwksFile, options);
+        await store.refresh();
+
+        writeFileSync(jwksFile, 'not json');
+        await store.refresh();
+
+        expect(await store.getKey('rsa-2025')).not.toBeNull();
+    });
+
+    it('should load keys from an HTTP endpoint', async () => {
+        const server = http.createServer((req, res) => {
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ keys: [ecJwk] }));
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        const { port } = server.address() as AddressInfo;
+
+        try {
+            const store = new JwksKeyStore(`http://127.0.0.1:${port}/.well-known/jwks.json`, options);
+            expect(await store.getKey('ec-2025')).not.toBeNull();
+        } finally {
+            await new Promise((resolve) => server.close(resolve));
+        }
+    });
+});
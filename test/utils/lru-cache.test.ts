@@ -0,0 +1,34 @@
+/**
+ * LRU Cache - Unit Tests
+ */
+
+import { LruCache } from '../../src/utils/lru-cache';
+
+describe('LruCache', () => {
+    it('should evict the least recently used entry when full', () => {
+        const cache = new LruCache<number>(2);
+        cache.set('a', 1);
+        cache.set('b', 2);
+
+        // Reading `a` makes `b` the eviction candidate
+        expect(cache.get('a')).toBe(1);
+        cache.set('c', 3);
+
+        expect(cache.has('a')).toBe(true);
+        expect(cache.has('b')).toBe(false);
+        expect(cache.has('c')).toBe(true);
+        expect(cache.size).toBe(2);
+    });
+
+    it('should drop entries past their expiry', () => {
+        const cache = new LruCache<string>(10);
+        const now = Date.now();
+        cache.set('short', 'x', now + 1000);
+        cache.set('forever', 'y');
+
+        const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(now + 1000);
+        expect(cache.get('short')).toBeUndefined();
+        expect(cache.get('forever')).toBe('y');
+        nowSpy.mockRestore();
+    });
+});
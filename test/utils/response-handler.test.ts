@@ -0,0 +1,133 @@
+/**
+ * Response Envelope - Unit Tests
+ */
+
+import express, { Request, Response } from 'express';
+import request from 'supertest';
+import { z } from 'zod';
+import { config } from '../../src/config';
+import {
+    fieldViolations,
+    legacyResponses,
+    LegacyResponseFormat,
+    sendError,
+    sendSuccess,
+    sendValidationError,
+} from '../../src/utils/response-handler';
+
+const schema = z.object({
+    body: z.object({
+        farmer_location: z.object({ latitude: z.number() }),
+        quantity_kg: z.number().positive(),
+    }),
+});
+
+const validationError = () =>
+    schema.safeParse({ body: { farmer_location: { latitude: 'north' }, quantity_kg: -1 } }).error!;
+
+const appWith = (format?: LegacyResponseFormat) => {
+    const app = express();
+    if (format) {
+        app.use(legacyResponses(format));
+    }
+    app.get('/ok', (_req: Request, res: Response) => sendSuccess(res, { id: 7 }, 201, { message: 'Created' }));
+    app.get('/fail', (_req: Request, res: Response) => sendError(res, 404, 'NOT_FOUND', 'Listing not found'));
+    app.get('/invalid', (_req: Request, res: Response) => sendValidationError(res, validationError()));
+    return app;
+};
+
+describe('Response envelope', () => {
+    it('should always carry a request ID', async () => {
+        const response = await request(appWith()).get('/ok');
+
+        expect(response.status).toBe(201);
+        expect(response.body).toEqual({
+            data: { id: 7 },
+            meta: { timestamp: expect.any(String), request_id: response.headers['x-trace-id'], message: 'Created' },
+            error: null,
+        });
+        expect(response.headers['x-trace-id']).toEqual(expect.any(String));
+    });
+
+    it('should list every field that failed validation', async () => {
+        const response = await request(appWith()).get('/invalid');
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toEqual({
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: {
+                field_violations: [
+                    { field: 'farmer_location.latitude', description: expect.any(String) },
+                    { field: 'quantity_kg', description: expect.any(String) },
+                ],
+            },
+        });
+    });
+});
+
+describe('fieldViolations', () => {
+    it('should keep a path that is only the request part', () => {
+        const error = z.object({ body: z.object({}) }).safeParse({}).error!;
+
+        expect(fieldViolations(error)).toEqual([{ field: 'body', description: expect.any(String) }]);
+    });
+});
+
+describe('legacyResponses', () => {
+    const { responses } = config;
+    const original = { ...responses };
+
+    beforeEach(() => {
+        responses.envelopeMinAppVersion = '3.2.0';
+    });
+
+    afterEach(() => {
+        Object.assign(responses, original);
+    });
+
+    it('should answer apps below the cut-over in the status-flag shape', async () => {
+        const app = appWith('status-flag');
+
+        const ok = await request(app).get('/ok').set('X-App-Version', '3.1.9');
+        const fail = await request(app).get('/fail').set('X-App-Version', '3.1.9');
+
+        expect(ok.body).toEqual({ success: true, message: 'Created', data: { id: 7 } });
+        expect(fail.body).toEqual({ success: false, error: 'NOT_FOUND', message: 'Listing not found' });
+    });
+
+    it('should answer apps below the cut-over in the bare shape', async () => {
+        const app = appWith('bare');
+
+        const ok = await request(app).get('/ok').set('X-App-Version', '2.0.0');
+        const invalid = await request(app).get('/invalid').set('X-App-Version', '2.0.0');
+
+        expect(ok.body).toEqual({ id: 7 });
+        expect(invalid.body).toEqual({
+            error: 'Validation failed',
+            details: { field_violations: expect.any(Array) },
+        });
+    });
+
+    it('should answer apps from the cut-over version on in the envelope', async () => {
+        const response = await request(appWith('status-flag')).get('/fail').set('X-App-Version', '3.10.0');
+
+        expect(response.body.error).toEqual({ code: 'NOT_FOUND', message: 'Listing not found' });
+    });
+
+    it('should answer requests without a usable X-App-Version in the legacy shape', async () => {
+        const missing = await request(appWith('status-flag')).get('/ok');
+        const unreadable = await request(appWith('status-flag')).get('/ok').set('X-App-Version', 'latest');
+
+        expect(missing.body).toEqual({ success: true, message: 'Created', data: { id: 7 } });
+        expect(unreadable.body).toEqual({ success: true, message: 'Created', data: { id: 7 } });
+    });
+
+    it('should answer every app in the envelope without a cut-over', async () => {
+        responses.envelopeMinAppVersion = '';
+
+        const response = await request(appWith('bare')).get('/ok').set('X-App-Version', '1.0.0');
+
+        expect(response.body.data).toEqual({ id: 7 });
+    });
+});
@@ -0,0 +1,65 @@
+/**
+ * W3C Trace Context - Unit Tests
+ */
+
+import { Request } from 'express';
+import { propagation, ROOT_CONTEXT } from '@opentelemetry/api';
+import { resolveTraceId, withRequestBaggage } from '../../src/utils/trace-context';
+
+const requestWith = (headers: Record<string, string>, user?: Record<string, unknown>) =>
+    ({ headers, user } as unknown as Request);
+
+describe('resolveTraceId', () => {
+    it('should continue the trace in traceparent', () => {
+        const req = requestWith({
+            traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+            'x-trace-id': 'legacy-id',
+        });
+
+        expect(resolveTraceId(req)).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+    });
+
+    it('should ignore a malformed traceparent', () => {
+        const req = requestWith({ traceparent: '00-00000000000000000000000000000000-00f067aa0ba902b7-01' });
+
+        expect(resolveTraceId(req)).toMatch(/^[\da-f]{32}$/);
+        expect(resolveTraceId(req)).not.toBe('00000000000000000000000000000000');
+    });
+
+    it('should ignore a traceparent with a zero parent ID or the invalid version', () => {
+        const zeroParent = requestWith({ traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-0000000000000000-01' });
+        const invalidVersion = requestWith({ traceparent: 'ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01' });
+
+        expect(resolveTraceId(zeroParent)).not.toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+        expect(resolveTraceId(invalidVersion)).not.toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+    });
+
+    it('should not take the trace ID from X-Trace-ID', () => {
+        const traceId = resolveTraceId(requestWith({ 'x-trace-id': 'forged\nid' }));
+
+        expect(traceId).toMatch(/^[\da-f]{32}$/);
+    });
+});
+
+describe('withRequestBaggage', () => {
+    it('should describe the caller from the verified token and app version', () => {
+        const req = requestWith({ 'x-app-version': '2.4.1' }, { userId: 1, userType: 'FARMER', zone: 'KA-BLR' });
+
+        const baggage = propagation.getBaggage(withRequestBaggage(ROOT_CONTEXT, req));
+
+        expect(baggage?.getEntry('user.type')?.value).toBe('FARMER');
+        expect(baggage?.getEntry('user.zone')?.value).toBe('KA-BLR');
+        expect(baggage?.getEntry('app.version')?.value).toBe('2.4.1');
+    });
+
+    it('should drop the baggage the client sent', () => {
+        const sent = propagation.setBaggage(ROOT_CONTEXT, propagation.createBaggage({
+            'user.type': { value: 'ADMIN' },
+            'feature.flag': { value: 'new-checkout' },
+        }));
+
+        const baggage = propagation.getBaggage(withRequestBaggage(sent, requestWith({})));
+
+        expect(baggage?.getAllEntries()).toEqual([]);
+    });
+});
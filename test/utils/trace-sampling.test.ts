@@ -0,0 +1,50 @@
+/**
+ * Trace Sampling - Unit Tests
+ */
+
+import { ROOT_CONTEXT, SpanKind, SpanStatusCode, TraceFlags } from '@opentelemetry/api';
+import { tracing } from '@opentelemetry/sdk-node';
+import { createSampler, ErrorSamplingSpanProcessor } from '../../src/utils/trace-sampling';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+
+const decide = (sampler: tracing.Sampler) =>
+    sampler.shouldSample(ROOT_CONTEXT, TRACE_ID, 'GET /v1/listings', SpanKind.SERVER, {}, []).decision;
+
+const endedSpan = (traceFlags: TraceFlags, code: SpanStatusCode) => ({
+    spanContext: () => ({ traceId: TRACE_ID, spanId: '00f067aa0ba902b7', traceFlags }),
+    status: { code },
+}) as unknown as tracing.ReadableSpan;
+
+describe('createSampler', () => {
+    it('should sample every new trace at ratio 1', () => {
+        expect(decide(createSampler({ sampleRatio: 1, sampleErrors: true })))
+            .toBe(tracing.SamplingDecision.RECORD_AND_SAMPLED);
+    });
+
+    it('should record traces the ratio leaves out when errors are sampled', () => {
+        expect(decide(createSampler({ sampleRatio: 0, sampleErrors: true }))).toBe(tracing.SamplingDecision.RECORD);
+        expect(decide(createSampler({ sampleRatio: 0, sampleErrors: false }))).toBe(tracing.SamplingDecision.NOT_RECORD);
+    });
+});
+
+describe('ErrorSamplingSpanProcessor', () => {
+    const delegate = { onStart: jest.fn(), onEnd: jest.fn(), forceFlush: jest.fn(), shutdown: jest.fn() };
+    const processor = new ErrorSamplingSpanProcessor(delegate);
+
+    beforeEach(() => delegate.onEnd.mockReset());
+
+    it('should export unsampled spans that ended in error as sampled', () => {
+        processor.onEnd(endedSpan(TraceFlags.NONE, SpanStatusCode.ERROR));
+
+        expect(delegate.onEnd).toHaveBeenCalledTimes(1);
+        expect(delegate.onEnd.mock.calls[0][0].spanContext().traceFlags).toBe(TraceFlags.SAMPLED);
+        expect(delegate.onEnd.mock.calls[0][0].status.code).toBe(SpanStatusCode.ERROR);
+    });
+
+    it('should drop unsampled spans without errors', () => {
+        processor.onEnd(endedSpan(TraceFlags.NONE, SpanStatusCode.OK));
+
+        expect(delegate.onEnd).not.toHaveBeenCalled();
+    });
+});